@@ -13,8 +13,26 @@ export default defineConfig({
 					{ text: "Option", link: "/option" },
 					{ text: "Either", link: "/either" },
 					{ text: "Validation", link: "/validation" },
+					{ text: "These", link: "/these" },
+					{ text: "NonEmptyArray", link: "/non-empty-array" },
 					{ text: "Task", link: "/task" },
 					{ text: "TaskEither", link: "/task-either" },
+					{ text: "TaskOption", link: "/task-option" },
+					{ text: "TaskValidation", link: "/task-validation" },
+					{ text: "IO", link: "/io" },
+					{ text: "IOEither", link: "/io-either" },
+					{ text: "Lazy", link: "/lazy" },
+					{ text: "Reader", link: "/reader" },
+					{
+						text: "ReaderTaskEither",
+						link: "/reader-task-either",
+					},
+					{ text: "State", link: "/state" },
+					{ text: "Writer", link: "/writer" },
+					{
+						text: "WriterTaskEither",
+						link: "/writer-task-either",
+					},
 				],
 			},
 		],
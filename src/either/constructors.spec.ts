@@ -1,12 +1,17 @@
 import { describe, expect, it } from "vitest";
 import { none, some } from "../option.js";
+import { invalid, valid } from "../validation.js";
 import {
 	fromNullable,
 	fromOption,
+	fromPredicate,
+	fromResult,
+	fromValidation,
 	left,
 	right,
 	tryCatch,
 } from "./constructors.js";
+import type { Either } from "./either.js";
 
 describe("either constructors", () => {
 	describe("left", () => {
@@ -79,4 +84,58 @@ describe("either constructors", () => {
 			expect(either.toResult()).toEqual(left(error).toResult());
 		});
 	});
+
+	describe("fromValidation", () => {
+		it("should return right on valid", () => {
+			expect(fromValidation(valid(2)).toResult()).toEqual(right(2).toResult());
+		});
+
+		it("should return left with all errors on invalid", () => {
+			const v = invalid("e1").zip(invalid("e2"));
+			expect(fromValidation(v).toResult()).toEqual(
+				left(["e1", "e2"]).toResult(),
+			);
+		});
+	});
+
+	describe("fromResult", () => {
+		it("should round-trip with toResult", () => {
+			for (const either of [right(2), left("error")]) {
+				expect(fromResult(either.toResult()).toResult()).toEqual(
+					either.toResult(),
+				);
+			}
+		});
+	});
+
+	describe("fromPredicate", () => {
+		it("should return right when the predicate holds", () => {
+			const either = fromPredicate(
+				5,
+				(n) => n > 0,
+				(n) => `${n} is not positive`,
+			);
+			expect(either.toResult()).toEqual(right(5).toResult());
+		});
+
+		it("should return left with the error built from the value otherwise", () => {
+			const either = fromPredicate(
+				-5,
+				(n) => n > 0,
+				(n) => `${n} is not positive`,
+			);
+			expect(either.toResult()).toEqual(left("-5 is not positive").toResult());
+		});
+
+		it("should narrow the right type with a type guard", () => {
+			const isString = (x: unknown): x is string => typeof x === "string";
+			const value: string | number = "a";
+			const either: Either<string, string> = fromPredicate(
+				value,
+				isString,
+				() => "not a string",
+			);
+			expect(either.toResult()).toEqual(right("a").toResult());
+		});
+	});
 });
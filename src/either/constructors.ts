@@ -1,5 +1,8 @@
+import type { NonEmptyArray } from "../nonEmptyArray.js";
 import type { Option } from "../option.js";
+import type { Validation } from "../validation.js";
 import { createEither, type Either } from "./either.js";
+import type { EitherResult } from "./model.js";
 
 /**
  * Creates an Either containing an error value (Left).
@@ -92,6 +95,41 @@ export function tryCatch<E, T>(
 	}
 }
 
+/**
+ * Creates an Either from a value and a predicate.
+ * When the predicate is a type guard, the Right type is narrowed accordingly.
+ *
+ * @typeParam E - The type of the error value
+ * @typeParam T - The type of the tested value
+ * @param value - The value to test
+ * @param predicate - Function that tests the value
+ * @param onFalse - Function that provides the error value when the predicate fails
+ * @returns Right containing the value if the predicate holds, otherwise Left with the provided error
+ *
+ * @example
+ * ```typescript
+ * fromPredicate(5, (n) => n > 0, (n) => `${n} is not positive`)  // Right(5)
+ * fromPredicate(-5, (n) => n > 0, (n) => `${n} is not positive`) // Left("-5 is not positive")
+ * ```
+ */
+export function fromPredicate<E, T, U extends T>(
+	value: T,
+	refinement: (value: T) => value is U,
+	onFalse: (value: T) => E,
+): Either<E, U>;
+export function fromPredicate<E, T>(
+	value: T,
+	predicate: (value: T) => boolean,
+	onFalse: (value: T) => E,
+): Either<E, T>;
+export function fromPredicate<E, T>(
+	value: T,
+	predicate: (value: T) => boolean,
+	onFalse: (value: T) => E,
+): Either<E, T> {
+	return predicate(value) ? right<T, E>(value) : left<E, T>(onFalse(value));
+}
+
 /**
  * Creates an Either from an Option by providing an error value for the None case.
  *
@@ -116,3 +154,57 @@ export function fromOption<E, T>(
 		(value) => right<T, E>(value),
 	);
 }
+
+/**
+ * Creates an Either from a Validation.
+ * Valid becomes Right, Invalid becomes Left holding all accumulated errors.
+ *
+ * @typeParam E - The type of each error
+ * @typeParam T - The type of the valid value
+ * @param validation - The Validation to convert
+ * @returns Right containing the valid value, or Left containing the array of errors
+ *
+ * @example
+ * ```typescript
+ * fromValidation(valid(42))        // Right(42)
+ * fromValidation(invalid("error")) // Left(["error"])
+ * ```
+ */
+export function fromValidation<E, T>(
+	validation: Validation<E, T>,
+): Either<NonEmptyArray<E>, T> {
+	return validation.toEither();
+}
+
+/**
+ * Creates an Either from a plain result object, e.g. one produced by {@link Either.toResult}
+ * or received over the wire.
+ *
+ * @typeParam E - The type of the error value
+ * @typeParam T - The type of the success value
+ * @param result - Result object with `ok` and either `value` or `error`
+ * @returns Right containing `value` if `ok` is true, otherwise Left containing `error`
+ *
+ * @example
+ * ```typescript
+ * fromResult({ ok: true, value: 42 })        // Right(42)
+ * fromResult({ ok: false, error: "error" })  // Left("error")
+ * ```
+ */
+export function fromResult<E, T>(result: EitherResult<E, T>): Either<E, T> {
+	return result.ok ? right<T, E>(result.value) : left<E, T>(result.error);
+}
+
+/**
+ * An Either containing an empty record on the Right side - the starting point of do-notation.
+ * Use `bind`, `let` and `apS` to add named values to the record step by step.
+ *
+ * @example
+ * ```typescript
+ * Do.bind("user", () => findUser(id))
+ *   .bind("orders", ({ user }) => findOrders(user))
+ *   .let("total", ({ orders }) => orders.length)
+ * // Either<UserError | OrderError, { user: User; orders: Order[]; total: number }>
+ * ```
+ */
+export const Do: Either<never, Readonly<Record<never, never>>> = right({});
@@ -1,8 +1,10 @@
 import { describe, expect, it, vi } from "vitest";
 import { applicativeLawsSpec } from "../testUtils/applicativeLaws.js";
+import { bifunctorLawsSpec } from "../testUtils/bifunctorLaws.js";
 import { functorLawsSpec } from "../testUtils/functorLaws.js";
 import { monadLawsSpec } from "../testUtils/monadLaws.js";
-import { left, right } from "./constructors.js";
+import { valid } from "../validation/constructors.js";
+import { Do, left, right } from "./constructors.js";
 import type { Either } from "./either.js";
 
 describe("either", () => {
@@ -38,6 +40,14 @@ describe("either", () => {
 			expect(newEither).toBe(either);
 			expect(predicate).not.toBeCalled();
 		});
+
+		it("should narrow the right type with a type guard", () => {
+			const isString = (x: unknown): x is string => typeof x === "string";
+			const either: Either<string, string> = right<string | number, string>(
+				1,
+			).filterOrElse(isString, () => "not a string");
+			expect(either.toResult()).toEqual(left("not a string").toResult());
+		});
 	});
 
 	describe("map", () => {
@@ -234,6 +244,182 @@ describe("either", () => {
 		});
 	});
 
+	describe("bindTo", () => {
+		it("should wrap the right value in a record", () => {
+			expect(right(2).bindTo("x").toResult()).toEqual(
+				right({ x: 2 }).toResult(),
+			);
+		});
+
+		it("should not change the left value", () => {
+			expect(left("error").bindTo("x").toResult()).toEqual(
+				left("error").toResult(),
+			);
+		});
+	});
+
+	describe("bind", () => {
+		it("should accumulate bound values in the record", () => {
+			const either = Do.bind("x", () => right(2)).bind("y", ({ x }) =>
+				right(x * 3),
+			);
+			expect(either.toResult()).toEqual(right({ x: 2, y: 6 }).toResult());
+		});
+
+		it("should short-circuit on the first left and not call later mappers", () => {
+			const mapper = vi.fn();
+			const either = Do.bind("x", () => left("error"))
+				.bind("y", () => left(1))
+				.bind("z", mapper);
+			expect(either.toResult()).toEqual(left("error").toResult());
+			expect(mapper).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("let", () => {
+		it("should add a computed value to the record", () => {
+			const either = Do.bind("x", () => right(2)).let(
+				"double",
+				({ x }) => x * 2,
+			);
+			expect(either.toResult()).toEqual(right({ x: 2, double: 4 }).toResult());
+		});
+	});
+
+	describe("apS", () => {
+		it("should add the value of an independent either to the record", () => {
+			const either = Do.apS("x", right(2)).apS("y", right("two"));
+			expect(either.toResult()).toEqual(right({ x: 2, y: "two" }).toResult());
+		});
+
+		it("should return the left when the added either is left", () => {
+			const either = Do.apS("x", right(2)).apS("y", left("error"));
+			expect(either.toResult()).toEqual(left("error").toResult());
+		});
+	});
+
+	describe("mapLeft", () => {
+		it("should map the left value", () => {
+			const either = left("error").mapLeft((e) => e.toUpperCase());
+			expect(either.toResult()).toEqual(left("ERROR").toResult());
+		});
+
+		it("should not call the mapper when value is right", () => {
+			const mapper = vi.fn();
+			const either = right(2);
+			expect(either.mapLeft(mapper).toResult()).toEqual(either.toResult());
+			expect(mapper).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("bimap", () => {
+		it("should map the right value with the right mapper", () => {
+			const either = right<number, string>(5).bimap(
+				(e) => e.length,
+				(x) => x * 2,
+			);
+			expect(either.toResult()).toEqual(right(10).toResult());
+		});
+
+		it("should map the left value with the left mapper", () => {
+			const either = left<string, number>("oops").bimap(
+				(e) => e.length,
+				(x) => x * 2,
+			);
+			expect(either.toResult()).toEqual(left(4).toResult());
+		});
+	});
+
+	describe("flatMapLeft", () => {
+		it("should replace the left with the either returned by the mapper", () => {
+			const recovered = left<string, number>("not found").flatMapLeft(() =>
+				right(0),
+			);
+			const reclassified = left<string, number>("timeout").flatMapLeft((e) =>
+				left(new Error(e)),
+			);
+			expect(recovered.toResult()).toEqual(right(0).toResult());
+			expect(reclassified.toResult()).toEqual(
+				left(new Error("timeout")).toResult(),
+			);
+		});
+
+		it("should not call the mapper when value is right", () => {
+			const mapper = vi.fn();
+			const either = right(2);
+			expect(either.flatMapLeft(mapper).toResult()).toEqual(either.toResult());
+			expect(mapper).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("tapLeft", () => {
+		it("should run the side effect and return the same either on left value", () => {
+			const sideEffect = vi.fn();
+			const either = left("error");
+			expect(either.tapLeft(sideEffect)).toBe(either);
+			expect(sideEffect).toBeCalledWith("error");
+		});
+
+		it("should not call the side effect on right value", () => {
+			const sideEffect = vi.fn();
+			const either = right(2);
+			expect(either.tapLeft(sideEffect)).toBe(either);
+			expect(sideEffect).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("isLeft", () => {
+		it("should return true on left and false on right", () => {
+			expect(left("error").isLeft()).toBe(true);
+			expect(right(2).isLeft()).toBe(false);
+		});
+	});
+
+	describe("isRight", () => {
+		it("should return true on right and false on left", () => {
+			expect(right(2).isRight()).toBe(true);
+			expect(left("error").isRight()).toBe(false);
+		});
+	});
+
+	describe("exists", () => {
+		it("should return the predicate result on right", () => {
+			expect(right(5).exists((n) => n > 3)).toBe(true);
+			expect(right(2).exists((n) => n > 3)).toBe(false);
+		});
+
+		it("should return false and not call the predicate on left", () => {
+			const predicate = vi.fn();
+			expect(left("error").exists(predicate)).toBe(false);
+			expect(predicate).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("contains", () => {
+		it("should compare the right value with the given value", () => {
+			expect(right(5).contains(5)).toBe(true);
+			expect(right(5).contains(6)).toBe(false);
+			expect(left<number, number>(5).contains(5)).toBe(false);
+		});
+	});
+
+	describe("toOption", () => {
+		it("should return some on right and none on left", () => {
+			expect(right(0).toOption().toNullable()).toBe(0);
+			expect(left("error").toOption().toNullable()).toBe(null);
+		});
+	});
+
+	describe("toValidation", () => {
+		it("should return valid on right and invalid with a single error on left", () => {
+			expect(right(2).toValidation().toResult()).toEqual(valid(2).toResult());
+			expect(left("error").toValidation().toResult()).toEqual({
+				ok: false,
+				errors: ["error"],
+			});
+		});
+	});
+
 	describe(
 		"functor laws",
 		functorLawsSpec<Either<never, number>>({
@@ -261,4 +447,16 @@ describe("either", () => {
 			asTag: (m) => m.toResult(),
 		}),
 	);
+
+	describe(
+		"bifunctor laws",
+		bifunctorLawsSpec<Either<number, number>>({
+			left: (value) => left(value),
+			right: (value) => right(value),
+			bimap: (m, onLeft, onRight) => m.bimap(onLeft, onRight),
+			mapLeft: (m, mapper) => m.mapLeft(mapper),
+			map: (m, mapper) => m.map(mapper),
+			asTag: (m) => m.toResult(),
+		}),
+	);
 });
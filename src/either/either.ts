@@ -1,8 +1,13 @@
+import { extend } from "../internal/record.js";
+import { NONE } from "../option/model.js";
+import { createOption, type Option } from "../option/option.js";
+import { createValidation, type Validation } from "../validation/validation.js";
 import type { EitherResult, EitherValue, Left } from "./model.js";
 
 export type Either<E, T> = {
 	/**
 	 * Filters the Either based on a predicate function applied to the Right value.
+	 * When the predicate is a type guard, the Right type is narrowed accordingly.
 	 *
 	 * @param predicate - Function that tests the Right value
 	 * @param onLeft - Function that provides the error value when predicate fails
@@ -14,12 +19,18 @@ export type Either<E, T> = {
 	 * right(5).filterOrElse(isPositive, () => "Must be positive")  // Right(5)
 	 * right(-3).filterOrElse(isPositive, () => "Must be positive") // Left("Must be positive")
 	 * left("error").filterOrElse(isPositive, () => "Must be positive") // Left("error")
+	 *
+	 * const isString = (x: unknown): x is string => typeof x === "string";
+	 * right<string | number, string>("a").filterOrElse(isString, () => "Not a string") // Either<string, string>
 	 * ```
 	 */
-	filterOrElse: (
-		predicate: (right: T) => boolean,
-		onLeft: () => E,
-	) => Either<E, T>;
+	filterOrElse: {
+		<U extends T>(
+			refinement: (right: T) => right is U,
+			onLeft: () => E,
+		): Either<E, U>;
+		(predicate: (right: T) => boolean, onLeft: () => E): Either<E, T>;
+	};
 
 	/**
 	 * Transforms the Right value using a mapping function.
@@ -36,6 +47,41 @@ export type Either<E, T> = {
 	 */
 	map: <U>(mapper: (right: T) => U) => Either<E, U>;
 
+	/**
+	 * Transforms the Left value using a mapping function.
+	 *
+	 * @typeParam F - The type of the transformed error
+	 * @param mapper - Function to transform the Left value
+	 * @returns New Either with the transformed Left value, or the same Right
+	 *
+	 * @example
+	 * ```typescript
+	 * left("error").mapLeft(e => e.toUpperCase())  // Left("ERROR")
+	 * right(5).mapLeft(e => e.toUpperCase())       // Right(5)
+	 * ```
+	 */
+	mapLeft: <F>(mapper: (left: E) => F) => Either<F, T>;
+
+	/**
+	 * Transforms both sides of the Either at once.
+	 *
+	 * @typeParam F - The type of the transformed error
+	 * @typeParam U - The type of the transformed value
+	 * @param onLeft - Function to transform the Left value
+	 * @param onRight - Function to transform the Right value
+	 * @returns New Either with the applicable side transformed
+	 *
+	 * @example
+	 * ```typescript
+	 * right(5).bimap(e => `Error: ${e}`, x => x * 2)        // Right(10)
+	 * left("oops").bimap(e => `Error: ${e}`, x => x * 2)    // Left("Error: oops")
+	 * ```
+	 */
+	bimap: <F, U>(
+		onLeft: (left: E) => F,
+		onRight: (right: T) => U,
+	) => Either<F, U>;
+
 	/**
 	 * Returns this Either if it's Right, otherwise returns the result of the fallback function.
 	 *
@@ -138,6 +184,24 @@ export type Either<E, T> = {
 	 */
 	flatMap: <EE, U>(mapper: (right: T) => Either<EE, U>) => Either<E | EE, U>;
 
+	/**
+	 * Chains an Either-returning operation on the Left value, e.g. to recover from
+	 * or re-classify an error. Unlike {@link orElse}, the Left type is replaced
+	 * by the one returned from the mapper.
+	 *
+	 * @typeParam F - The error type of the Either returned by the mapper
+	 * @param mapper - Function that takes a Left value and returns an Either
+	 * @returns The Either returned by mapper if this Either is Left, otherwise this Either unchanged
+	 *
+	 * @example
+	 * ```typescript
+	 * left("not found").flatMapLeft(e => e === "not found" ? right(0) : left(new Error(e)))  // Right(0)
+	 * left("timeout").flatMapLeft(e => e === "not found" ? right(0) : left(new Error(e)))    // Left(Error("timeout"))
+	 * right(5).flatMapLeft(e => right(0))                                                     // Right(5)
+	 * ```
+	 */
+	flatMapLeft: <F>(mapper: (left: E) => Either<F, T>) => Either<F, T>;
+
 	/**
 	 * Performs a side effect if this Either is Right, returning the original Either unchanged.
 	 * If this Either is Left, the side effect is not executed and the Either is returned as-is.
@@ -156,6 +220,21 @@ export type Either<E, T> = {
 	 */
 	tap: (sideEffect: (right: T) => void) => Either<E, T>;
 
+	/**
+	 * Performs a side effect if this Either is Left, returning the original Either unchanged.
+	 * If this Either is Right, the side effect is not executed and the Either is returned as-is.
+	 *
+	 * @param sideEffect - Function to execute with the Left value (return value is ignored)
+	 * @returns The same Either instance unchanged
+	 *
+	 * @example
+	 * ```typescript
+	 * left("error").tapLeft(e => console.error(e))  // Logs: "error", returns Left("error")
+	 * right(42).tapLeft(e => console.error(e))      // No log output, returns Right(42)
+	 * ```
+	 */
+	tapLeft: (sideEffect: (left: E) => void) => Either<E, T>;
+
 	/**
 	 * Pattern matches on the Either, executing different functions based on its state.
 	 *
@@ -210,18 +289,203 @@ export type Either<E, T> = {
 	 * ```
 	 */
 	toResult: () => EitherResult<E, T>;
+
+	/**
+	 * Converts the Either to an Option, discarding the Left value.
+	 *
+	 * @returns Some containing the Right value, or None if Left
+	 *
+	 * @example
+	 * ```typescript
+	 * right(42).toOption()       // Some(42)
+	 * left("error").toOption()   // None
+	 * ```
+	 */
+	toOption: () => Option<T>;
+
+	/**
+	 * Converts the Either to a Validation.
+	 * Right becomes Valid, Left becomes Invalid with a single error.
+	 *
+	 * @returns Validation equivalent of the Either
+	 *
+	 * @example
+	 * ```typescript
+	 * right(42).toValidation()       // Valid(42)
+	 * left("error").toValidation()   // Invalid(["error"])
+	 * ```
+	 */
+	toValidation: () => Validation<E, T>;
+
+	/**
+	 * Checks whether this Either is Left.
+	 *
+	 * @returns true if Left, false if Right
+	 *
+	 * @example
+	 * ```typescript
+	 * left("error").isLeft()  // true
+	 * right(42).isLeft()      // false
+	 * ```
+	 */
+	isLeft: () => boolean;
+
+	/**
+	 * Checks whether this Either is Right.
+	 *
+	 * @returns true if Right, false if Left
+	 *
+	 * @example
+	 * ```typescript
+	 * right(42).isRight()      // true
+	 * left("error").isRight()  // false
+	 * ```
+	 */
+	isRight: () => boolean;
+
+	/**
+	 * Checks whether this Either is Right and its value satisfies the predicate.
+	 *
+	 * @param predicate - Function that tests the Right value
+	 * @returns true if Right and the predicate returns true, otherwise false
+	 *
+	 * @example
+	 * ```typescript
+	 * right(5).exists(n => n > 3)       // true
+	 * right(2).exists(n => n > 3)       // false
+	 * left("error").exists(n => n > 3)  // false
+	 * ```
+	 */
+	exists: (predicate: (right: T) => boolean) => boolean;
+
+	/**
+	 * Checks whether this Either is Right and holds the given value, compared with `===`.
+	 *
+	 * @param value - The value to look for
+	 * @returns true if Right and the Right value equals `value`, otherwise false
+	 *
+	 * @example
+	 * ```typescript
+	 * right(5).contains(5)       // true
+	 * right(5).contains(6)       // false
+	 * left("error").contains(5)  // false
+	 * ```
+	 */
+	contains: (value: T) => boolean;
+
+	/**
+	 * Wraps the Right value in a record under the given key.
+	 * This is usually the first step of do-notation when starting from an existing Either.
+	 *
+	 * @param key - The key to store the Right value under
+	 * @returns Either containing a record with the Right value under `key`, or the same Left
+	 *
+	 * @example
+	 * ```typescript
+	 * right(5).bindTo("x") // Right({ x: 5 })
+	 * ```
+	 */
+	bindTo: <K extends string>(key: K) => Either<E, { readonly [P in K]: T }>;
+
+	/**
+	 * Extends the record on the Right side with the value of another Either computed from it.
+	 * Short-circuits on the first Left, like {@link flatMap}.
+	 *
+	 * @typeParam EE - The error type of the Either returned by the mapper
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns an Either
+	 * @returns Either containing the extended record, or the first Left
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.bind("user", () => findUser(id))
+	 *   .bind("orders", ({ user }) => findOrders(user)) // Right({ user, orders })
+	 * ```
+	 */
+	bind: <K extends string, EE, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => Either<EE, U>,
+	) => Either<E | EE, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Extends the record on the Right side with a plain value computed from it.
+	 *
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns a value
+	 * @returns Either containing the extended record, or the same Left
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.bind("price", () => right(10))
+	 *   .let("total", ({ price }) => price * 1.2) // Right({ price: 10, total: 12 })
+	 * ```
+	 */
+	let: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => U,
+	) => Either<E, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Extends the record on the Right side with the value of an independent Either.
+	 * Unlike {@link bind}, the added Either does not depend on the current record.
+	 *
+	 * @typeParam EE - The error type of the added Either
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param eitherU - The Either whose Right value is added to the record
+	 * @returns Either containing the extended record, or the first Left
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.apS("x", right(2)).apS("y", right(3)) // Right({ x: 2, y: 3 })
+	 * ```
+	 */
+	apS: <K extends string, EE, U>(
+		key: Exclude<K, keyof T>,
+		eitherU: Either<EE, U>,
+	) => Either<E | EE, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Makes the Either iterable so it can be unwrapped with `yield*` inside {@link gen}.
+	 * Yields this Either once and resumes with the Right value.
+	 *
+	 * @returns Generator that yields this Either and returns its Right value
+	 *
+	 * @example
+	 * ```typescript
+	 * gen(function* () {
+	 *   const x = yield* right(5);
+	 *   return x * 2;
+	 * }) // Right(10)
+	 * ```
+	 */
+	[Symbol.iterator]: () => Generator<Either<E, T>, T, unknown>;
+};
+
+/**
+ * An Either of any error and value type, for helpers that take Eithers of different types.
+ * Spelled out structurally because Either is invariant in both.
+ */
+export type AnyEither = {
+	readonly isLeft: () => boolean;
+	readonly toResult: () => unknown;
 };
 
 export function createEither<E, T>(value: EitherValue<E, T>): Either<E, T> {
 	const either: Either<E, T> = {
-		filterOrElse: (predicate: (right: T) => boolean, onLeft: () => E) =>
+		filterOrElse: ((predicate: (right: T) => boolean, onLeft: () => E) =>
 			either.flatMap((right) =>
-				predicate(right) ? either : createEither({ left: onLeft() }),
-			),
+				predicate(right) ? either : createEither<E, T>({ left: onLeft() }),
+			)) as Either<E, T>["filterOrElse"],
 
 		map: <U>(mapper: (right: T) => U): Either<E, U> =>
 			either.flatMap((right) => createEither({ right: mapper(right) })),
 
+		mapLeft: <F>(mapper: (left: E) => F): Either<F, T> =>
+			either.flatMapLeft((left) => createEither({ left: mapper(left) })),
+
+		bimap: <F, U>(onLeft: (left: E) => F, onRight: (right: T) => U) =>
+			either.map(onRight).mapLeft(onLeft),
+
 		orElse: <EE>(fallback: (left: E) => Either<EE, T>) =>
 			either.match(
 				(left) => forceCast<EE, T, E | EE, T>(fallback(left)),
@@ -252,11 +516,22 @@ export function createEither<E, T>(value: EitherValue<E, T>): Either<E, T> {
 				(right) => forceCast<EE, U, EE | E, U>(mapper(right)),
 			),
 
+		flatMapLeft: <F>(mapper: (left: E) => Either<F, T>) =>
+			either.match(
+				(left) => mapper(left),
+				() => forceCast<E, T, F, T>(either),
+			),
+
 		tap: (sideEffect) => {
 			either.match(() => {}, sideEffect);
 			return either;
 		},
 
+		tapLeft: (sideEffect) => {
+			either.match(sideEffect, () => {});
+			return either;
+		},
+
 		match: <U>(onLeft: (left: E) => U, onRight: (right: T) => U) =>
 			isLeft(value) ? onLeft(value.left) : onRight(value.right),
 
@@ -277,6 +552,58 @@ export function createEither<E, T>(value: EitherValue<E, T>): Either<E, T> {
 					value,
 				}),
 			),
+
+		toOption: () =>
+			either.match(
+				() => createOption<T>(NONE),
+				(right) => createOption({ some: right }),
+			),
+
+		toValidation: () =>
+			either.match(
+				(left) => createValidation<E, T>({ invalid: [left] }),
+				(right) => createValidation<E, T>({ valid: right }),
+			),
+
+		isLeft: () => isLeft(value),
+
+		isRight: () => !isLeft(value),
+
+		exists: (predicate) =>
+			either.match(
+				() => false,
+				(right) => predicate(right),
+			),
+
+		contains: (value) => either.exists((right) => right === value),
+
+		bindTo: <K extends string>(key: K) =>
+			either.map((value) => ({ [key]: value }) as { readonly [P in K]: T }),
+
+		bind: <K extends string, EE, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => Either<EE, U>,
+		) =>
+			either.flatMap((scope) =>
+				mapper(scope).map((value) => extend<T, K, U>(scope, key, value)),
+			),
+
+		let: <K extends string, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => U,
+		) => either.map((scope) => extend<T, K, U>(scope, key, mapper(scope))),
+
+		apS: <K extends string, EE, U>(
+			key: Exclude<K, keyof T>,
+			eitherU: Either<EE, U>,
+		) =>
+			either
+				.zip(eitherU)
+				.map(([scope, value]) => extend<T, K, U>(scope, key, value)),
+
+		[Symbol.iterator]: function* () {
+			return (yield either) as T;
+		},
 	};
 
 	return either;
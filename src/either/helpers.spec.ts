@@ -1,6 +1,21 @@
 import { describe, expect, it, vi } from "vitest";
+import { some } from "../option/constructors.js";
+import { task } from "../task/constructors.js";
+import { traversableSpec } from "../testUtils/traversable.js";
 import { left, right } from "./constructors.js";
-import { map2, map3, sequence } from "./helpers.js";
+import type { Either } from "./either.js";
+import {
+	gen,
+	map2,
+	map3,
+	mapN,
+	sequence,
+	struct,
+	traverse,
+	traverseTask,
+	traverseWithIndex,
+	zipAll,
+} from "./helpers.js";
 
 describe("either helpers", () => {
 	describe("map2", () => {
@@ -64,6 +79,65 @@ describe("either helpers", () => {
 		});
 	});
 
+	describe("mapN", () => {
+		it("should only accept Eithers", () => {
+			// @ts-expect-error numbers are not Eithers
+			const invalid = () => mapN([1, 2], (a, b) => [a, b]);
+			expect(invalid).toThrow(TypeError);
+		});
+
+		it("should map all right values", () => {
+			const res = mapN([right(2), right("x"), right(true)], (a, b, c) =>
+				c ? b.repeat(a) : b,
+			);
+			expect(res.toResult()).toEqual(right("xx").toResult());
+		});
+
+		it("should not call the mapper and return the first left", () => {
+			const mapper = vi.fn();
+			const res = mapN([right(2), left("e1"), left(2)], mapper);
+			expect(res.toResult()).toEqual(left("e1").toResult());
+			expect(mapper).not.toBeCalled();
+		});
+	});
+
+	describe("zipAll", () => {
+		it("should return right tuple of all values", () => {
+			const res = zipAll(right(1), right("two"), right(true));
+			expect(res.toResult()).toEqual(right([1, "two", true]).toResult());
+		});
+
+		it("should return the first left", () => {
+			const res: Either<string | number, readonly [number, string, boolean]> =
+				zipAll(right(1), left<string, string>("e1"), left<number, boolean>(2));
+			expect(res.toResult()).toEqual(left("e1").toResult());
+		});
+	});
+
+	describe("struct", () => {
+		it("should only accept records of Eithers", () => {
+			// @ts-expect-error plain values are not Eithers
+			const invalid = () => struct({ name: "Alice", age: 30 });
+			expect(invalid).toThrow(TypeError);
+		});
+
+		it("should return right record of all values", () => {
+			const res = struct({ name: right("Alice"), age: right(30) });
+			expect(res.toResult()).toEqual(
+				right({ name: "Alice", age: 30 }).toResult(),
+			);
+		});
+
+		it("should return the first left", () => {
+			const res: Either<string | number, { name: string; age: number }> =
+				struct({
+					name: left<string, string>("No name"),
+					age: left<number, number>(0),
+				});
+			expect(res.toResult()).toEqual(left("No name").toResult());
+		});
+	});
+
 	describe("sequence", () => {
 		it("should return a right with the array of values when no left", () => {
 			const res = sequence([right(1), right(2), right(3)]);
@@ -80,4 +154,119 @@ describe("either helpers", () => {
 			expect(res.toResult()).toEqual(left(error).toResult());
 		});
 	});
+
+	describe("gen", () => {
+		it("should unwrap right values and return right of the result", () => {
+			const res = gen(function* () {
+				const a = yield* right(2);
+				const b = yield* right(3);
+				return a * b;
+			});
+			expect(res.toResult()).toEqual(right(6).toResult());
+		});
+
+		it("should short-circuit on the first left", () => {
+			const after = vi.fn();
+			const parse = (s: string): Either<"NaN", number> =>
+				Number.isNaN(Number(s)) ? left("NaN") : right(Number(s));
+			const positive = (n: number): Either<"Negative", number> =>
+				n < 0 ? left("Negative") : right(n);
+
+			const res: Either<"NaN" | "Negative", number> = gen(function* () {
+				const n = yield* parse("-1");
+				const p = yield* positive(n);
+				after();
+				return p;
+			});
+			expect(res.toResult()).toEqual(left("Negative").toResult());
+			expect(after).not.toHaveBeenCalled();
+		});
+
+		it("should return the first left when several are yielded", () => {
+			const res = gen(function* () {
+				yield* left<string, number>("first");
+				yield* left<string, number>("second");
+				return 1;
+			});
+			expect(res.toResult()).toEqual(left("first").toResult());
+		});
+
+		it("should run the generator's finally blocks on short-circuit", () => {
+			const cleanup = vi.fn();
+			const res = gen(function* () {
+				try {
+					return yield* left<string, number>("error");
+				} finally {
+					cleanup();
+				}
+			});
+			expect(res.toResult()).toEqual(left("error").toResult());
+			expect(cleanup).toHaveBeenCalledOnce();
+		});
+
+		it("should not overflow the stack on long loops of yield*", () => {
+			const res = gen(function* () {
+				let sum = 0;
+				for (let i = 0; i < 100_000; i++) {
+					sum += yield* right<number, string>(1);
+				}
+				return sum;
+			});
+			expect(res.toResult()).toEqual(right(100_000).toResult());
+		});
+
+		it("should only accept eithers from yield*", () => {
+			const foreign = () =>
+				// @ts-expect-error an Option is not an Either
+				gen(function* () {
+					return yield* some(1);
+				});
+			expect(foreign).toThrow(TypeError);
+		});
+	});
+
+	describe("traverse", () => {
+		it("should not call the mapper after the first left", () => {
+			const mapper = vi.fn((x: number) =>
+				x === 2 ? left<string, number>("error") : right<number, string>(x),
+			);
+			const res = traverse([1, 2, 3], mapper);
+			expect(res.toResult()).toEqual(left("error").toResult());
+			expect(mapper).toHaveBeenCalledTimes(2);
+		});
+	});
+
+	describe(
+		"traversable",
+		traversableSpec<Either<string, unknown>, Either<string, unknown[]>>({
+			of: (value) => right(value),
+			fail: () => left("error"),
+			sequence,
+			traverse,
+			traverseWithIndex,
+			asTag: (either) => either.toResult(),
+		}),
+	);
+
+	describe("traverseTask", () => {
+		it("should return a task of right with the mapped value", async () => {
+			const t = traverseTask(right(2), (x) => task(x * 2));
+			expect((await t.run()).toResult()).toEqual(right(4).toResult());
+		});
+
+		it("should return a task of the left without calling the mapper", async () => {
+			const mapper = vi.fn((x: number) => task(x));
+			const t = traverseTask(left<string, number>("error"), mapper);
+			expect((await t.run()).toResult()).toEqual(left("error").toResult());
+			expect(mapper).not.toHaveBeenCalled();
+		});
+
+		it("should not call the mapper until run() is called", async () => {
+			const mapper = vi.fn((x: number) => task(x));
+			const t = traverseTask(right(2), mapper);
+			expect(mapper).not.toHaveBeenCalled();
+			await t.run();
+			expect(mapper).toHaveBeenCalledWith(2);
+		});
+	});
 });
@@ -1,5 +1,7 @@
+import { fromEntries } from "../internal/record.js";
+import { createTask, type Task } from "../task/task.js";
 import { left, right } from "./constructors.js";
-import type { Either } from "./either.js";
+import type { AnyEither, Either } from "./either.js";
 
 /**
  * Combines two Eithers using a mapping function.
@@ -15,6 +17,8 @@ import type { Either } from "./either.js";
  * map2(right("John"), right("Doe"), (first, last) => `${first} ${last}`)
  * // Right("John Doe")
  * ```
+ *
+ * @deprecated Use {@link mapN} instead, e.g. `mapN([eitherA, eitherB], mapper)`.
  */
 export function map2<EA, A, EB, B, C>(
 	eitherA: Either<EA, A>,
@@ -39,6 +43,8 @@ export function map2<EA, A, EB, B, C>(
  * map3(right(1), right(2), right(3), (a, b, c) => a + b + c)
  * // Right(6)
  * ```
+ *
+ * @deprecated Use {@link mapN} instead, e.g. `mapN([eitherA, eitherB, eitherC], mapper)`.
  */
 export function map3<EA, A, EB, B, EC, C, D>(
 	eitherA: Either<EA, A>,
@@ -52,6 +58,87 @@ export function map3<EA, A, EB, B, EC, C, D>(
 		.ap(eitherC);
 }
 
+type LeftOf<Y> = Y extends Either<infer E, infer _T> ? E : never;
+
+type RightsOf<Eithers extends readonly unknown[]> = {
+	[K in keyof Eithers]: Eithers[K] extends Either<infer _E, infer A>
+		? A
+		: never;
+};
+
+/**
+ * Combines any number of Eithers using a mapping function.
+ * Returns the mapped result if all Eithers are Right, otherwise the first Left.
+ * The mapper receives the Right values in the same order, with their types inferred from the tuple,
+ * and the error type is the union of all Left types.
+ *
+ * @param eithers - Tuple of Eithers to combine
+ * @param mapper - Function that receives every Right value and combines them
+ * @returns Either containing the mapped result, or the first Left
+ *
+ * @example
+ * ```typescript
+ * mapN([right(1), right("two"), right(true)], (a, b, c) => `${a} ${b} ${c}`)
+ * // Right("1 two true")
+ * mapN([right(1), left("e1"), left("e2")], (a, b, c) => a)
+ * // Left("e1")
+ * ```
+ */
+export function mapN<const Eithers extends readonly AnyEither[], U>(
+	eithers: Eithers,
+	mapper: (...values: RightsOf<Eithers>) => U,
+): Either<LeftOf<Eithers[number]>, U> {
+	return sequence(
+		eithers as unknown as Either<LeftOf<Eithers[number]>, unknown>[],
+	).map((values) => mapper(...(values as unknown as RightsOf<Eithers>)));
+}
+
+/**
+ * Combines any number of Eithers into an Either of tuple.
+ * Returns Right with a tuple of all values if all Eithers are Right, otherwise the first Left.
+ *
+ * @param eithers - Eithers to combine
+ * @returns Either containing a tuple of all Right values, or the first Left
+ *
+ * @example
+ * ```typescript
+ * zipAll(right("Alice"), right(30))        // Right(["Alice", 30])
+ * zipAll(right("Alice"), left("No age"))   // Left("No age")
+ * ```
+ */
+export function zipAll<const Eithers extends readonly AnyEither[]>(
+	...eithers: Eithers
+): Either<LeftOf<Eithers[number]>, RightsOf<Eithers>> {
+	return mapN(eithers, (...values) => values);
+}
+
+type StructOf<R> = {
+	[K in keyof R]: R[K] extends Either<infer _E, infer A> ? A : never;
+};
+
+/**
+ * Combines a record of Eithers into an Either of record, preserving the keys and their value types.
+ * Returns Right with a record of all values if all Eithers are Right, otherwise the first Left.
+ * The error type is the union of all Left types.
+ *
+ * @param record - Record whose values are Eithers
+ * @returns Either containing a record of all Right values, or the first Left
+ *
+ * @example
+ * ```typescript
+ * struct({ name: right("Alice"), age: right(30) }) // Right({ name: "Alice", age: 30 })
+ * struct({ name: right("Alice"), age: left("No age") }) // Left("No age")
+ * ```
+ */
+export function struct<R extends Readonly<Record<string, AnyEither>>>(
+	record: R,
+): Either<LeftOf<R[keyof R]>, StructOf<R>> {
+	const keys = Object.keys(record);
+	return sequence(
+		keys.map((key) => record[key] as Either<LeftOf<R[keyof R]>, unknown>),
+	).map((values) => fromEntries<StructOf<R>>(keys, values));
+}
+
 /**
  * Converts an array of Eithers into an Either of array.
  * Returns Right with all values if all Eithers are Right, otherwise the first Left.
@@ -66,10 +153,55 @@ export function map3<EA, A, EB, B, EC, C, D>(
  * ```
  */
 export function sequence<E, T>(eithers: Either<E, T>[]): Either<E, T[]> {
-	const out: T[] = [];
+	return traverse(eithers, (either) => either);
+}
 
-	for (const either of eithers) {
-		const result = either.toResult();
+/**
+ * Maps each item of an array to an Either and collects the results into an Either of array.
+ * Returns Right with all mapped values if every mapped Either is Right.
+ * Stops at the first Left and returns it without calling the mapper for the remaining items.
+ *
+ * @param items - Array of items to map
+ * @param mapper - Function that maps an item to an Either
+ * @returns Either containing array of all mapped values, or the first Left
+ *
+ * @example
+ * ```typescript
+ * const parse = (s: string) =>
+ *   Number.isNaN(Number(s)) ? left(`Not a number: ${s}`) : right(Number(s));
+ * traverse(["1", "2", "3"], parse) // Right([1, 2, 3])
+ * traverse(["1", "x", "y"], parse) // Left("Not a number: x")
+ * ```
+ */
+export function traverse<A, E, B>(
+	items: readonly A[],
+	mapper: (item: A) => Either<E, B>,
+): Either<E, B[]> {
+	return traverseWithIndex(items, (item) => mapper(item));
+}
+
+/**
+ * Like {@link traverse}, but the mapper also receives the index of each item.
+ *
+ * @param items - Array of items to map
+ * @param mapper - Function that maps an item and its index to an Either
+ * @returns Either containing array of all mapped values, or the first Left
+ *
+ * @example
+ * ```typescript
+ * traverseWithIndex(rows, (row, i) =>
+ *   row.email ? right(row) : left(`Row ${i}: email is required`),
+ * )
+ * ```
+ */
+export function traverseWithIndex<A, E, B>(
+	items: readonly A[],
+	mapper: (item: A, index: number) => Either<E, B>,
+): Either<E, B[]> {
+	const out: B[] = [];
+
+	for (const [index, item] of items.entries()) {
+		const result = mapper(item, index).toResult();
 		if (!result.ok) {
 			return left(result.error);
 		}
@@ -78,3 +210,76 @@ export function sequence<E, T>(eithers: Either<E, T>[]): Either<E, T[]> {
 
 	return right(out);
 }
+
+/**
+ * Maps the Right value of an Either to a Task and flips the result into a Task of Either.
+ * The mapper is only called when the Either is Right, and not until the Task is run.
+ *
+ * @param either - Either holding the input value
+ * @param mapper - Function that maps the Right value to a Task
+ * @returns Task resolving with Right of the mapped value, or with the original Left
+ *
+ * @example
+ * ```typescript
+ * await traverseTask(right(1), fetchUser).run() // Right(user)
+ * await traverseTask(left("invalid id"), fetchUser).run() // Left("invalid id")
+ * ```
+ */
+export function traverseTask<E, A, B>(
+	either: Either<E, A>,
+	mapper: (value: A) => Task<B>,
+): Task<Either<E, B>> {
+	return createTask((signal) =>
+		either.match(
+			(error) => Promise.resolve(left<E, B>(error)),
+			(value) =>
+				mapper(value)
+					.map(right<B, E>)
+					.run(signal),
+		),
+	);
+}
+
+/**
+ * Runs a generator-based computation over Eithers (do-notation).
+ * Each `yield*` unwraps an Either: the generator resumes with the Right value,
+ * and the whole computation short-circuits on the first Left, exactly like chaining with `flatMap`.
+ * The error type is the union of the Left types of every yielded Either.
+ * The generator is driven in a loop, so any number of `yield*` runs in constant stack space,
+ * and its `finally` blocks run on short-circuit.
+ *
+ * @param body - Generator function that yields Eithers and returns the final value
+ * @returns Right containing the returned value, or the first Left encountered
+ *
+ * @example
+ * ```typescript
+ * const parse = (s: string): Either<"NaN", number> => ...;
+ * const positive = (n: number): Either<"Negative", number> => ...;
+ *
+ * gen(function* () {
+ *   const n = yield* parse("42");
+ *   const p = yield* positive(n);
+ *   return p * 2;
+ * }) // Either<"NaN" | "Negative", number> - Right(84)
+ * ```
+ */
+export function gen<Y extends AnyEither, T>(
+	body: () => Generator<Y, T, unknown>,
+): Either<LeftOf<Y>, T> {
+	const iterator = body();
+	let result = iterator.next();
+
+	while (!result.done) {
+		const either = (
+			result.value as AnyEither as Either<LeftOf<Y>, unknown>
+		).toResult();
+		if (!either.ok) {
+			// lets the generator's finally blocks run
+			iterator.return(undefined as T);
+			return left(either.error);
+		}
+		result = iterator.next(either.value);
+	}
+
+	return right(result.value);
+}
@@ -0,0 +1,16 @@
+/**
+ * Returns a copy of the scope with one more key, as `bind`, `let` and `apS` build it up in do-notation.
+ */
+export function extend<T, K extends string, U>(scope: T, key: K, value: U) {
+	return { ...scope, [key]: value } as T & { readonly [P in K]: U };
+}
+
+/**
+ * Pairs up keys and values by position into a record, as `struct` collects its results.
+ */
+export function fromEntries<R>(
+	keys: readonly string[],
+	values: readonly unknown[],
+) {
+	return Object.fromEntries(keys.map((key, i) => [key, values[i]])) as R;
+}
@@ -0,0 +1,4 @@
+export * from "./io/constructors.js";
+export * from "./io/helpers.js";
+export type { IO } from "./io/io.js";
+export type { IOValue } from "./io/model.js";
@@ -0,0 +1,34 @@
+import { describe, expect, it, vi } from "vitest";
+import { Do, fromThunk, io } from "./constructors.js";
+
+describe("io constructors", () => {
+	describe("io", () => {
+		it("should create an io that produces the given value", () => {
+			expect(io(42).run()).toBe(42);
+		});
+	});
+
+	describe("fromThunk", () => {
+		it("should call the thunk only when run() is called", () => {
+			const thunk = vi.fn(() => "hello");
+			const i = fromThunk(thunk);
+			expect(thunk).not.toHaveBeenCalled();
+			expect(i.run()).toBe("hello");
+			expect(thunk).toHaveBeenCalledOnce();
+		});
+
+		it("should call the thunk each time run() is called", () => {
+			const thunk = vi.fn(() => 1);
+			const i = fromThunk(thunk);
+			i.run();
+			i.run();
+			expect(thunk).toHaveBeenCalledTimes(2);
+		});
+	});
+
+	describe("Do", () => {
+		it("should produce an empty record", () => {
+			expect(Do.run()).toEqual({});
+		});
+	});
+});
@@ -0,0 +1,50 @@
+import { createIO, type IO } from "./io.js";
+
+/**
+ * Creates an IO that produces the provided value.
+ *
+ * @typeParam T - The type of the value
+ * @param value - The value to wrap in an IO
+ * @returns IO that produces the given value
+ *
+ * @example
+ * ```typescript
+ * const i = io(42); // IO<number>
+ * i.run(); // 42
+ * ```
+ */
+export function io<T>(value: T): IO<T> {
+	return createIO(() => value);
+}
+
+/**
+ * Creates an IO from a synchronous thunk.
+ * The thunk is not called until `run()` is invoked, and is called again on every `run()`.
+ *
+ * @typeParam T - The type of the produced value
+ * @param thunk - A function that performs the side effect
+ * @returns IO wrapping the thunk
+ *
+ * @example
+ * ```typescript
+ * const now = fromThunk(() => Date.now());
+ * now.run(); // reads the clock
+ * ```
+ */
+export function fromThunk<T>(thunk: () => T): IO<T> {
+	return createIO(thunk);
+}
+
+/**
+ * An IO producing an empty record - the starting point of do-notation.
+ * Use `bind`, `let` and `apS` to add named values to the record step by step.
+ *
+ * @example
+ * ```typescript
+ * const i = Do.apS("start", now)
+ *   .bind("id", () => getItem("userId"))
+ *   .let("date", ({ start }) => new Date(start));
+ * i.run(); // { start, id, date }
+ * ```
+ */
+export const Do: IO<Readonly<Record<never, never>>> = io({});
@@ -0,0 +1,146 @@
+import { describe, expect, it, vi } from "vitest";
+import { some } from "../option/constructors.js";
+import { traversableSpec } from "../testUtils/traversable.js";
+import { fromThunk, io } from "./constructors.js";
+import {
+	all,
+	gen,
+	mapN,
+	struct,
+	traverse,
+	traverseWithIndex,
+	zipAll,
+} from "./helpers.js";
+import type { IO } from "./io.js";
+
+describe("io helpers", () => {
+	describe("all", () => {
+		it("should run all ios in order and return an array of values", () => {
+			const order: number[] = [];
+			const track = (n: number) =>
+				fromThunk(() => {
+					order.push(n);
+					return n;
+				});
+			expect(all([track(1), track(2), track(3)]).run()).toEqual([1, 2, 3]);
+			expect(order).toEqual([1, 2, 3]);
+		});
+
+		it("should return an empty array for empty input", () => {
+			expect(all([]).run()).toEqual([]);
+		});
+	});
+
+	describe("mapN", () => {
+		it("should only accept IOs", () => {
+			// @ts-expect-error numbers are not IOs
+			const invalid = mapN([1, 2], (a, b) => [a, b]);
+			expect(() => invalid.run()).toThrow(TypeError);
+		});
+
+		it("should map all values", () => {
+			const result: IO<string> = mapN(
+				[io(1), io("two"), io(true)],
+				(a, b, c) => `${a} ${b} ${c}`,
+			);
+			expect(result.run()).toBe("1 two true");
+		});
+	});
+
+	describe("zipAll", () => {
+		it("should produce a tuple of all values", () => {
+			expect(zipAll(io("Alice"), io(30)).run()).toEqual(["Alice", 30]);
+		});
+	});
+
+	describe("struct", () => {
+		it("should only accept records of IOs", () => {
+			// @ts-expect-error plain values are not IOs
+			const invalid = struct({ name: "Alice", age: 30 });
+			expect(() => invalid.run()).toThrow(TypeError);
+		});
+
+		it("should produce a record of all values", () => {
+			expect(struct({ name: io("Alice"), age: io(30) }).run()).toEqual({
+				name: "Alice",
+				age: 30,
+			});
+		});
+	});
+
+	describe("gen", () => {
+		it("should unwrap io values and produce the returned value", () => {
+			const result = gen(function* () {
+				const a = yield* io(1);
+				const b = yield* io(2);
+				return a + b;
+			});
+			expect(result.run()).toBe(3);
+		});
+
+		it("should be lazy and restart the generator on every run", () => {
+			const thunk = vi.fn(() => 1);
+			const result = gen(function* () {
+				return yield* fromThunk(thunk);
+			});
+			expect(thunk).not.toHaveBeenCalled();
+			result.run();
+			result.run();
+			expect(thunk).toHaveBeenCalledTimes(2);
+		});
+
+		it("should not overflow the stack for many steps", () => {
+			const result = gen(function* () {
+				let sum = 0;
+				for (let i = 0; i < 100_000; i++) {
+					sum += yield* io(1);
+				}
+				return sum;
+			});
+			expect(result.run()).toBe(100_000);
+		});
+
+		it("should run the generator's finally blocks when a yielded io throws", () => {
+			const cleanup = vi.fn();
+			const result = gen(function* () {
+				try {
+					return yield* fromThunk<number>(() => {
+						throw new Error("boom");
+					});
+				} finally {
+					cleanup();
+				}
+			});
+			expect(() => result.run()).toThrow("boom");
+			expect(cleanup).toHaveBeenCalledOnce();
+		});
+
+		it("should only accept ios from yield*", () => {
+			// @ts-expect-error an Option is not an IO
+			const result = gen(function* () {
+				return yield* some(1);
+			});
+			expect(() => result.run()).toThrow(TypeError);
+		});
+	});
+
+	describe("traverse", () => {
+		it("should not call the mapper until run() is called", () => {
+			const mapper = vi.fn((x: number) => io(x));
+			const result = traverse([1, 2], mapper);
+			expect(mapper).not.toHaveBeenCalled();
+			expect(result.run()).toEqual([1, 2]);
+		});
+	});
+
+	describe(
+		"traversable",
+		traversableSpec<IO<unknown>, IO<unknown[]>>({
+			of: (value) => io(value),
+			sequence: all,
+			traverse,
+			traverseWithIndex,
+			asTag: (i) => ({ value: i.run() }),
+		}),
+	);
+});
@@ -0,0 +1,164 @@
+import { fromEntries } from "../internal/record.js";
+import { type AnyIO, createIO, type IO } from "./io.js";
+
+/**
+ * Runs all IOs in order and collects their values into an array.
+ *
+ * @param ios - Array of IOs to run
+ * @returns IO that produces an array of all values
+ *
+ * @example
+ * ```typescript
+ * all([io(1), io(2), io(3)]).run() // [1, 2, 3]
+ * ```
+ */
+export function all<T>(ios: IO<T>[]): IO<T[]> {
+	return traverse(ios, (i) => i);
+}
+
+/**
+ * Maps each item of an array to an IO and runs them in order, collecting the values into an array.
+ *
+ * @param items - Array of items to map
+ * @param mapper - Function that maps an item to an IO
+ * @returns IO that produces an array of all values
+ *
+ * @example
+ * ```typescript
+ * traverse(["theme", "locale"], getItem).run() // [string | null, string | null]
+ * ```
+ */
+export function traverse<A, B>(
+	items: readonly A[],
+	mapper: (item: A) => IO<B>,
+): IO<B[]> {
+	return traverseWithIndex(items, (item) => mapper(item));
+}
+
+/**
+ * Like {@link traverse}, but the mapper also receives the index of each item.
+ *
+ * @param items - Array of items to map
+ * @param mapper - Function that maps an item and its index to an IO
+ * @returns IO that produces an array of all values
+ *
+ * @example
+ * ```typescript
+ * traverseWithIndex(values, (value, i) => setItem(`slot-${i}`, value)).run()
+ * ```
+ */
+export function traverseWithIndex<A, B>(
+	items: readonly A[],
+	mapper: (item: A, index: number) => IO<B>,
+): IO<B[]> {
+	return createIO(() => items.map((item, index) => mapper(item, index).run()));
+}
+
+type ValuesOf<IOs extends readonly unknown[]> = {
+	[K in keyof IOs]: IOs[K] extends IO<infer A> ? A : never;
+};
+
+/**
+ * Runs any number of IOs in order and combines their values using a mapping function.
+ * The mapper receives the values in the same order, with their types inferred from the tuple.
+ *
+ * @param ios - Tuple of IOs to run
+ * @param mapper - Function that receives every value and combines them
+ * @returns IO that produces the combined result
+ *
+ * @example
+ * ```typescript
+ * mapN([io(1), io("two"), io(true)], (a, b, c) => `${a} ${b} ${c}`).run()
+ * // "1 two true"
+ * ```
+ */
+export function mapN<const IOs extends readonly AnyIO[], U>(
+	ios: IOs,
+	mapper: (...values: ValuesOf<IOs>) => U,
+): IO<U> {
+	return all(ios as unknown as IO<unknown>[]).map((values) =>
+		mapper(...(values as unknown as ValuesOf<IOs>)),
+	);
+}
+
+/**
+ * Runs any number of IOs in order and collects their values into a tuple.
+ *
+ * @param ios - IOs to run
+ * @returns IO that produces a tuple of all values
+ *
+ * @example
+ * ```typescript
+ * zipAll(io("Alice"), io(30), io(true)).run() // ["Alice", 30, true]
+ * ```
+ */
+export function zipAll<const IOs extends readonly AnyIO[]>(
+	...ios: IOs
+): IO<ValuesOf<IOs>> {
+	return mapN(ios, (...values) => values);
+}
+
+type StructOf<R> = {
+	[K in keyof R]: R[K] extends IO<infer A> ? A : never;
+};
+
+/**
+ * Runs a record of IOs in order and collects their values into a record,
+ * preserving the keys and their value types.
+ *
+ * @param record - Record whose values are IOs
+ * @returns IO that produces a record of all values
+ *
+ * @example
+ * ```typescript
+ * struct({ theme: getItem("theme"), now }).run()
+ * // { theme: string | null; now: number }
+ * ```
+ */
+export function struct<R extends Readonly<Record<string, AnyIO>>>(
+	record: R,
+): IO<StructOf<R>> {
+	const keys = Object.keys(record);
+	return all(keys.map((key) => record[key] as IO<unknown>)).map((values) =>
+		fromEntries<StructOf<R>>(keys, values),
+	);
+}
+
+/**
+ * Runs a generator-based computation over IOs (do-notation).
+ * Each `yield*` runs an IO and resumes the generator with its value.
+ * If a yielded IO throws, the generator's finally blocks run before the error is rethrown.
+ * Nothing runs until `run()` is called, and every `run()` restarts the generator.
+ *
+ * @param body - Generator function that yields IOs and returns the final value
+ * @returns IO that produces the value returned by the generator
+ *
+ * @example
+ * ```typescript
+ * const stamp = gen(function* () {
+ *   const id = yield* getItem("userId");
+ *   const time = yield* now;
+ *   return `${id}@${time}`;
+ * });
+ *
+ * stamp.run(); // "42@1700000000000"
+ * ```
+ */
+export function gen<T>(body: () => Generator<AnyIO, T, unknown>): IO<T> {
+	return createIO(() => {
+		const iterator = body();
+		let result = iterator.next();
+		while (!result.done) {
+			let value: unknown;
+			try {
+				value = result.value.run();
+			} catch (err) {
+				// lets the generator's finally blocks run
+				iterator.return(undefined as T);
+				throw err;
+			}
+			result = iterator.next(value);
+		}
+		return result.value;
+	});
+}
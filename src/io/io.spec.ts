@@ -0,0 +1,158 @@
+import { describe, expect, it, vi } from "vitest";
+import { applicativeLawsSpec } from "../testUtils/applicativeLaws.js";
+import { functorLawsSpec } from "../testUtils/functorLaws.js";
+import { monadLawsSpec } from "../testUtils/monadLaws.js";
+import { Do, fromThunk, io } from "./constructors.js";
+import type { IO } from "./io.js";
+
+describe("io", () => {
+	describe("map", () => {
+		it("should transform the produced value", () => {
+			expect(
+				io(5)
+					.map((x) => x * 2)
+					.run(),
+			).toBe(10);
+		});
+
+		it("should not call the mapper until run() is called", () => {
+			const mapper = vi.fn((x: number) => x);
+			const i = io(5).map(mapper);
+			expect(mapper).not.toHaveBeenCalled();
+			i.run();
+			expect(mapper).toHaveBeenCalledWith(5);
+		});
+	});
+
+	describe("ap", () => {
+		it("should apply a function io to a value io", () => {
+			const add = (x: number) => (y: number) => x + y;
+			expect(io(add(5)).ap(io(3)).run()).toBe(8);
+		});
+
+		it("should run the function io before the argument io", () => {
+			const order: string[] = [];
+			const fn = fromThunk(() => {
+				order.push("fn");
+				return (x: number) => x;
+			});
+			const arg = fromThunk(() => {
+				order.push("arg");
+				return 1;
+			});
+			fn.ap(arg).run();
+			expect(order).toEqual(["fn", "arg"]);
+		});
+	});
+
+	describe("zip", () => {
+		it("should combine two ios into a tuple", () => {
+			expect(io("Alice").zip(io(30)).run()).toEqual(["Alice", 30]);
+		});
+	});
+
+	describe("flatten", () => {
+		it("should remove one level of io nesting", () => {
+			expect(io(io(42)).flatten().run()).toBe(42);
+		});
+	});
+
+	describe("flatMap", () => {
+		it("should chain io-returning operations", () => {
+			expect(
+				io(10)
+					.flatMap((x) => io(x * 2))
+					.run(),
+			).toBe(20);
+		});
+	});
+
+	describe("tap", () => {
+		it("should execute the side effect and keep the value", () => {
+			const sideEffect = vi.fn();
+			expect(io(42).tap(sideEffect).run()).toBe(42);
+			expect(sideEffect).toHaveBeenCalledWith(42);
+		});
+	});
+
+	describe("run", () => {
+		it("should run the thunk again on every call", () => {
+			let counter = 0;
+			const next = fromThunk(() => ++counter);
+			expect(next.run()).toBe(1);
+			expect(next.run()).toBe(2);
+		});
+	});
+
+	describe("toTask", () => {
+		it("should resolve with the io's value", async () => {
+			expect(await io(42).toTask().run()).toBe(42);
+		});
+
+		it("should not run the io until the task is run", () => {
+			const thunk = vi.fn(() => 1);
+			const t = fromThunk(thunk).toTask();
+			expect(thunk).not.toHaveBeenCalled();
+			t.run();
+			expect(thunk).toHaveBeenCalledOnce();
+		});
+
+		it("should reject when the io throws", async () => {
+			const t = fromThunk(() => {
+				throw new Error("boom");
+			}).toTask();
+			await expect(t.run()).rejects.toThrow("boom");
+		});
+	});
+
+	describe("toIOEither", () => {
+		it("should produce Right with the io's value", () => {
+			expect(io(42).toIOEither<string>().run().toResult()).toEqual({
+				ok: true,
+				value: 42,
+			});
+		});
+	});
+
+	describe("do-notation", () => {
+		it("should bind a value under a key with bindTo", () => {
+			expect(io(5).bindTo("x").run()).toEqual({ x: 5 });
+		});
+
+		it("should accumulate values with bind, let and apS", () => {
+			const result = Do.bind("a", () => io(1))
+				.apS("b", io(2))
+				.let("sum", ({ a, b }) => a + b);
+			expect(result.run()).toEqual({ a: 1, b: 2, sum: 3 });
+		});
+	});
+
+	const asTag = <T>(i: IO<T>) => ({ value: i.run() });
+
+	describe(
+		"functor laws",
+		functorLawsSpec<IO<number>>({
+			of: (testValue) => io(testValue),
+			map: (m, mapper) => m.map(mapper),
+			asTag,
+		}),
+	);
+
+	describe(
+		"applicative laws",
+		applicativeLawsSpec<IO<unknown>>({
+			of: (value) => io(value),
+			ap: (i, arg) => (i as IO<(arg: unknown) => unknown>).ap(arg),
+			asTag,
+		}),
+	);
+
+	describe(
+		"monad laws",
+		monadLawsSpec<IO<number>>({
+			of: (testValue) => io(testValue),
+			flatMap: (m, mapper) => m.flatMap(mapper),
+			asTag,
+		}),
+	);
+});
@@ -0,0 +1,288 @@
+import { createEither } from "../either/either.js";
+import { extend } from "../internal/record.js";
+import { createIOEither, type IOEither } from "../ioEither/ioEither.js";
+import { createTask, type Task } from "../task/task.js";
+import type { IOValue } from "./model.js";
+
+export type IO<T> = {
+	/**
+	 * Transforms the value produced by the IO using a mapping function.
+	 *
+	 * @typeParam U - The type of the transformed value
+	 * @param mapper - Function to transform the produced value
+	 * @returns A new IO that produces the transformed value
+	 *
+	 * @example
+	 * ```typescript
+	 * now.map(ms => new Date(ms)).run() // Date
+	 * ```
+	 */
+	map: <U>(mapper: (value: T) => U) => IO<U>;
+
+	/**
+	 * Applies a function wrapped in an IO to a value wrapped in an IO.
+	 * The function IO runs first, then the argument IO.
+	 *
+	 * @typeParam A - The type of the argument value
+	 * @typeParam U - The type of the function's return value
+	 * @param arg - IO containing the argument to apply the function to
+	 * @returns IO containing the function result
+	 *
+	 * @example
+	 * ```typescript
+	 * const add = (x: number) => (y: number) => x + y;
+	 * io(add(5)).ap(io(3)).run() // 8
+	 * ```
+	 */
+	ap: <A, U>(this: IO<(a: A) => U>, arg: IO<A>) => IO<U>;
+
+	/**
+	 * Combines this IO with another IO into a tuple.
+	 * This IO runs first, then the other one.
+	 *
+	 * @typeParam A - The type of the value in the other IO
+	 * @param ioA - The IO to combine with this one
+	 * @returns IO containing a tuple of both values
+	 *
+	 * @example
+	 * ```typescript
+	 * io("Alice").zip(io(30)).run() // ["Alice", 30]
+	 * ```
+	 */
+	zip: <A>(ioA: IO<A>) => IO<readonly [T, A]>;
+
+	/**
+	 * Flattens a nested IO structure by removing one level of nesting.
+	 *
+	 * @returns IO producing the value of the inner IO
+	 *
+	 * @example
+	 * ```typescript
+	 * io(io(42)).flatten().run() // 42
+	 * ```
+	 */
+	flatten: <U>(this: IO<IO<U>>) => IO<U>;
+
+	/**
+	 * Chains IO-returning operations together (monadic bind).
+	 *
+	 * @typeParam U - The type of the value in the returned IO
+	 * @param mapper - Function that takes the produced value and returns an IO
+	 * @returns IO producing the value of the IO returned by the mapper
+	 *
+	 * @example
+	 * ```typescript
+	 * getItem("userId").flatMap(id => getItem(`user:${id}`)).run()
+	 * ```
+	 */
+	flatMap: <U>(mapper: (value: T) => IO<U>) => IO<U>;
+
+	/**
+	 * Performs a side effect with the produced value, returning an IO producing the same value.
+	 *
+	 * @param sideEffect - Function to execute with the produced value (return value is ignored)
+	 * @returns IO producing the same value
+	 *
+	 * @example
+	 * ```typescript
+	 * now.tap(ms => console.log(`Now: ${ms}`)).run() // Logs the time, returns it
+	 * ```
+	 */
+	tap: (sideEffect: (value: T) => unknown) => IO<T>;
+
+	/**
+	 * Wraps the produced value in a record under the given key.
+	 * This is usually the first step of do-notation when starting from an existing IO.
+	 *
+	 * @param key - The key to store the produced value under
+	 * @returns IO producing a record containing the value under `key`
+	 *
+	 * @example
+	 * ```typescript
+	 * io(5).bindTo("x").run() // { x: 5 }
+	 * ```
+	 */
+	bindTo: <K extends string>(key: K) => IO<{ readonly [P in K]: T }>;
+
+	/**
+	 * Extends the produced record with the value of another IO computed from it.
+	 * The new IO runs after this one, like {@link flatMap}.
+	 *
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns an IO
+	 * @returns IO producing the extended record
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.bind("id", () => getItem("userId"))
+	 *   .bind("user", ({ id }) => getItem(`user:${id}`))
+	 * ```
+	 */
+	bind: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => IO<U>,
+	) => IO<T & { readonly [P in K]: U }>;
+
+	/**
+	 * Extends the produced record with a plain value computed from it.
+	 *
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns a value
+	 * @returns IO producing the extended record
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.apS("start", now)
+	 *   .let("date", ({ start }) => new Date(start))
+	 * ```
+	 */
+	let: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => U,
+	) => IO<T & { readonly [P in K]: U }>;
+
+	/**
+	 * Extends the produced record with the value of an independent IO.
+	 *
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param ioU - The IO whose value is added to the record
+	 * @returns IO producing the extended record
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.apS("start", now)
+	 *   .apS("random", random)
+	 * ```
+	 */
+	apS: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		ioU: IO<U>,
+	) => IO<T & { readonly [P in K]: U }>;
+
+	/**
+	 * Executes the IO and returns its value.
+	 *
+	 * @returns The produced value
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = io(42).run(); // 42
+	 * ```
+	 */
+	run: () => T;
+
+	/**
+	 * Converts the IO to a Task that runs it when the Task is run.
+	 *
+	 * @returns Task resolving with the IO's value
+	 *
+	 * @example
+	 * ```typescript
+	 * now.toTask().run() // Promise<number>
+	 * ```
+	 */
+	toTask: () => Task<T>;
+
+	/**
+	 * Converts the IO to an IOEither that always produces Right.
+	 * Use it to combine an IO with IOEithers; the error type can be set explicitly.
+	 *
+	 * @typeParam E - The error type of the resulting IOEither
+	 * @returns IOEither producing Right with the IO's value
+	 *
+	 * @example
+	 * ```typescript
+	 * io(42).toIOEither<Error>().run() // Right(42)
+	 * ```
+	 */
+	toIOEither: <E = never, U = T>(this: IO<U>) => IOEither<E, U>;
+
+	/**
+	 * Makes the IO iterable so it can be unwrapped with `yield*` inside a generator
+	 * passed to {@link gen}. Yields this IO once and resumes with its value.
+	 *
+	 * @returns Generator that yields this IO and returns its value
+	 *
+	 * @example
+	 * ```typescript
+	 * gen(function* () {
+	 *   const x = yield* io(5);
+	 *   return x * 2;
+	 * }).run() // 10
+	 * ```
+	 */
+	[Symbol.iterator]: () => Generator<IO<T>, T, unknown>;
+};
+
+/**
+ * An IO of any value type, for helpers that take IOs of different types.
+ * Spelled out structurally because IO is invariant in its value type.
+ */
+export type AnyIO = {
+	readonly run: () => unknown;
+	readonly toIOEither: () => unknown;
+};
+
+export function createIO<T>(thunk: IOValue<T>): IO<T> {
+	const i: IO<T> = {
+		map: <U>(mapper: (value: T) => U): IO<U> => createIO(() => mapper(thunk())),
+
+		ap: function <A, U>(this: IO<(a: A) => U>, arg: IO<A>): IO<U> {
+			return createIO(() => {
+				const fn = this.run();
+				return fn(arg.run());
+			});
+		},
+
+		zip: <A>(ioA: IO<A>): IO<readonly [T, A]> =>
+			i.map((value) => (a: A) => [value, a] as const).ap(ioA),
+
+		flatten: function <U>(this: IO<IO<U>>): IO<U> {
+			// biome-ignore lint/complexity/noFlatMapIdentity: flatMap here is the custom IO method, not Array.flatMap
+			return this.flatMap((value) => value);
+		},
+
+		flatMap: <U>(mapper: (value: T) => IO<U>): IO<U> =>
+			createIO(() => mapper(thunk()).run()),
+
+		tap: (sideEffect): IO<T> =>
+			createIO(() => {
+				const value = thunk();
+				sideEffect(value);
+				return value;
+			}),
+
+		bindTo: <K extends string>(key: K) =>
+			i.map((value) => ({ [key]: value }) as { readonly [P in K]: T }),
+
+		bind: <K extends string, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => IO<U>,
+		) =>
+			i.flatMap((scope) =>
+				mapper(scope).map((value) => extend<T, K, U>(scope, key, value)),
+			),
+
+		let: <K extends string, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => U,
+		) => i.map((scope) => extend<T, K, U>(scope, key, mapper(scope))),
+
+		apS: <K extends string, U>(key: Exclude<K, keyof T>, ioU: IO<U>) =>
+			i.zip(ioU).map(([scope, value]) => extend<T, K, U>(scope, key, value)),
+
+		run: () => thunk(),
+
+		toTask: (): Task<T> => createTask(async () => thunk()),
+
+		toIOEither: function <E, U>(this: IO<U>): IOEither<E, U> {
+			return createIOEither(() => createEither<E, U>({ right: this.run() }));
+		},
+
+		[Symbol.iterator]: function* () {
+			return (yield i) as T;
+		},
+	};
+
+	return i;
+}
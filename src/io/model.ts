@@ -0,0 +1 @@
+export type IOValue<T> = () => T;
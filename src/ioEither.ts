@@ -0,0 +1,4 @@
+export * from "./ioEither/constructors.js";
+export * from "./ioEither/helpers.js";
+export type { IOEither } from "./ioEither/ioEither.js";
+export type { IOEitherValue } from "./ioEither/model.js";
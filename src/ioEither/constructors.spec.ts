@@ -0,0 +1,153 @@
+import { describe, expect, it, vi } from "vitest";
+import { left, right } from "../either/constructors.js";
+import { fromThunk } from "../io/constructors.js";
+import { none, some } from "../option/constructors.js";
+import { invalid, valid } from "../validation/constructors.js";
+import {
+	Do,
+	fromEither,
+	fromIO,
+	fromOption,
+	fromPredicate,
+	fromValidation,
+	ioEither,
+	ioLeft,
+	tryCatch,
+} from "./constructors.js";
+import type { IOEither } from "./ioEither.js";
+
+describe("ioEither constructors", () => {
+	describe("ioEither", () => {
+		it("should produce Right with the given value", () => {
+			expect(ioEither(42).run().toResult()).toEqual({ ok: true, value: 42 });
+		});
+	});
+
+	describe("ioLeft", () => {
+		it("should produce Left with the given error", () => {
+			expect(ioLeft("err").run().toResult()).toEqual({
+				ok: false,
+				error: "err",
+			});
+		});
+	});
+
+	describe("fromEither", () => {
+		it("should lift an Either", () => {
+			expect(fromEither(right(1)).run().toResult()).toEqual({
+				ok: true,
+				value: 1,
+			});
+			expect(fromEither(left("err")).run().toResult()).toEqual({
+				ok: false,
+				error: "err",
+			});
+		});
+	});
+
+	describe("fromPredicate", () => {
+		it("should produce Right when the predicate passes", () => {
+			expect(
+				fromPredicate(
+					5,
+					(x) => x > 0,
+					(x) => `${x} is not positive`,
+				)
+					.run()
+					.toResult(),
+			).toEqual({ ok: true, value: 5 });
+		});
+
+		it("should produce Left when the predicate fails", () => {
+			expect(
+				fromPredicate(
+					-1,
+					(x) => x > 0,
+					(x) => `${x} is not positive`,
+				)
+					.run()
+					.toResult(),
+			).toEqual({ ok: false, error: "-1 is not positive" });
+		});
+
+		it("should narrow the Right type when given a type guard", () => {
+			const value: string | number = "a";
+			const result: IOEither<string, string> = fromPredicate(
+				value as string | number,
+				(x): x is string => typeof x === "string",
+				() => "Not a string",
+			);
+			expect(result.run().toResult()).toEqual({ ok: true, value: "a" });
+		});
+	});
+
+	describe("fromOption", () => {
+		it("should produce Right for Some and Left for None", () => {
+			expect(
+				fromOption(some(1), () => "missing")
+					.run()
+					.toResult(),
+			).toEqual({ ok: true, value: 1 });
+			expect(
+				fromOption(none(), () => "missing")
+					.run()
+					.toResult(),
+			).toEqual({ ok: false, error: "missing" });
+		});
+	});
+
+	describe("fromValidation", () => {
+		it("should produce Right for Valid and Left with all errors for Invalid", () => {
+			expect(fromValidation(valid(1)).run().toResult()).toEqual({
+				ok: true,
+				value: 1,
+			});
+			expect(fromValidation(invalid("e1")).run().toResult()).toEqual({
+				ok: false,
+				error: ["e1"],
+			});
+		});
+	});
+
+	describe("fromIO", () => {
+		it("should produce Right with the io's value when run", () => {
+			const thunk = vi.fn(() => 1);
+			const ioe = fromIO(fromThunk(thunk));
+			expect(thunk).not.toHaveBeenCalled();
+			expect(ioe.run().toResult()).toEqual({ ok: true, value: 1 });
+		});
+	});
+
+	describe("tryCatch", () => {
+		it("should produce Right when the thunk returns", () => {
+			expect(
+				tryCatch(() => JSON.parse('{"a":1}'), String)
+					.run()
+					.toResult(),
+			).toEqual({ ok: true, value: { a: 1 } });
+		});
+
+		it("should produce Left when the thunk throws", () => {
+			const result = tryCatch(
+				() => JSON.parse("{"),
+				(err) => (err instanceof SyntaxError ? "invalid json" : "unknown"),
+			);
+			expect(result.run().toResult()).toEqual({
+				ok: false,
+				error: "invalid json",
+			});
+		});
+
+		it("should not call the thunk until run() is called", () => {
+			const thunk = vi.fn(() => 1);
+			tryCatch(thunk, String);
+			expect(thunk).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("Do", () => {
+		it("should produce Right with an empty record", () => {
+			expect(Do.run().toResult()).toEqual({ ok: true, value: {} });
+		});
+	});
+});
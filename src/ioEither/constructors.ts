@@ -0,0 +1,71 @@
+import { left, right } from "../either/constructors.js";
+import type { Either } from "../either/either.js";
+import type { IO } from "../io/io.js";
+import type { NonEmptyArray } from "../nonEmptyArray/model.js";
+import type { Option } from "../option/option.js";
+import type { Validation } from "../validation/validation.js";
+import { createIOEither, type IOEither } from "./ioEither.js";
+
+export function ioEither<T, E = never>(value: T): IOEither<E, T> {
+	return createIOEither(() => right<T, E>(value));
+}
+
+export function ioLeft<E, T = never>(error: E): IOEither<E, T> {
+	return createIOEither(() => left<E, T>(error));
+}
+
+export function fromEither<E, T>(either: Either<E, T>): IOEither<E, T> {
+	return createIOEither(() => either);
+}
+
+export function fromPredicate<E, T, U extends T>(
+	value: T,
+	refinement: (value: T) => value is U,
+	onFalse: (value: T) => E,
+): IOEither<E, U>;
+export function fromPredicate<E, T>(
+	value: T,
+	predicate: (value: T) => boolean,
+	onFalse: (value: T) => E,
+): IOEither<E, T>;
+export function fromPredicate<E, T>(
+	value: T,
+	predicate: (value: T) => boolean,
+	onFalse: (value: T) => E,
+): IOEither<E, T> {
+	return createIOEither(() =>
+		predicate(value) ? right<T, E>(value) : left<E, T>(onFalse(value)),
+	);
+}
+
+export function fromOption<E, T>(
+	opt: Option<T>,
+	onNone: () => E,
+): IOEither<E, T> {
+	return createIOEither(() => opt.toEither(onNone));
+}
+
+export function fromValidation<E, T>(
+	validation: Validation<E, T>,
+): IOEither<NonEmptyArray<E>, T> {
+	return fromEither(validation.toEither());
+}
+
+export function fromIO<T, E = never>(i: IO<T>): IOEither<E, T> {
+	return createIOEither(() => right<T, E>(i.run()));
+}
+
+export function tryCatch<T, E>(
+	thunk: () => T,
+	onThrow: (err: unknown) => E,
+): IOEither<E, T> {
+	return createIOEither(() => {
+		try {
+			return right<T, E>(thunk());
+		} catch (err) {
+			return left<E, T>(onThrow(err));
+		}
+	});
+}
+
+export const Do: IOEither<never, Readonly<Record<never, never>>> = ioEither({});
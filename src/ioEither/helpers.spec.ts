@@ -0,0 +1,169 @@
+import { describe, expect, it, vi } from "vitest";
+import { right } from "../either/constructors.js";
+import { fromThunk, io } from "../io/constructors.js";
+import { traversableSpec } from "../testUtils/traversable.js";
+import { ioEither, ioLeft } from "./constructors.js";
+import {
+	all,
+	gen,
+	mapN,
+	struct,
+	traverse,
+	traverseWithIndex,
+	zipAll,
+} from "./helpers.js";
+import type { IOEither } from "./ioEither.js";
+
+describe("ioEither helpers", () => {
+	describe("all", () => {
+		it("should collect all Right values", () => {
+			expect(
+				all([ioEither(1), ioEither(2)])
+					.run()
+					.toResult(),
+			).toEqual({
+				ok: true,
+				value: [1, 2],
+			});
+		});
+	});
+
+	describe("traverse", () => {
+		it("should stop at the first Left", () => {
+			const mapper = vi.fn((x: number) => ioEither<number, string>(x));
+			const result = traverse([1, 2, 3], (x) =>
+				x === 2 ? ioLeft<string, number>("err") : mapper(x),
+			);
+			expect(result.run().toResult()).toEqual({ ok: false, error: "err" });
+			expect(mapper).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe("mapN", () => {
+		it("should only accept IOEithers", () => {
+			// @ts-expect-error numbers are not IOEithers
+			const invalid = mapN([1, 2], (a, b) => [a, b]);
+			expect(() => invalid.run()).toThrow(TypeError);
+		});
+
+		it("should map all Right values and infer the error union", () => {
+			const result: IOEither<string | number, string> = mapN(
+				[ioEither<number, string>(1), ioEither<string, number>("two")],
+				(a, b) => `${a} ${b}`,
+			);
+			expect(result.run().toResult()).toEqual({ ok: true, value: "1 two" });
+		});
+	});
+
+	describe("zipAll", () => {
+		it("should produce a tuple of all Right values", () => {
+			expect(zipAll(ioEither("Alice"), ioEither(30)).run().toResult()).toEqual({
+				ok: true,
+				value: ["Alice", 30],
+			});
+		});
+
+		it("should return the first Left", () => {
+			expect(
+				zipAll(ioEither("Alice"), ioLeft("No age")).run().toResult(),
+			).toEqual({ ok: false, error: "No age" });
+		});
+	});
+
+	describe("struct", () => {
+		it("should only accept records of IOEithers", () => {
+			// @ts-expect-error plain values are not IOEithers
+			const invalid = struct({ name: "Alice", age: 30 });
+			expect(() => invalid.run()).toThrow(TypeError);
+		});
+
+		it("should produce a record of all Right values", () => {
+			expect(
+				struct({ name: ioEither("Alice"), age: ioEither(30) })
+					.run()
+					.toResult(),
+			).toEqual({ ok: true, value: { name: "Alice", age: 30 } });
+		});
+	});
+
+	describe("gen", () => {
+		it("should unwrap IOEither and IO values", () => {
+			const result = gen(function* () {
+				const a = yield* ioEither<number, string>(1);
+				const b = yield* io(2);
+				return a + b;
+			});
+			expect(result.run().toResult()).toEqual({ ok: true, value: 3 });
+		});
+
+		it("should short-circuit on the first Left", () => {
+			const after = vi.fn();
+			const result: IOEither<string | number, number> = gen(function* () {
+				const a = yield* ioEither<number, string>(1);
+				yield* ioLeft<number, number>(404);
+				after();
+				return a;
+			});
+			expect(result.run().toResult()).toEqual({ ok: false, error: 404 });
+			expect(after).not.toHaveBeenCalled();
+		});
+
+		it("should run the generator's finally blocks on the first Left", () => {
+			const cleanup = vi.fn();
+			const result = gen(function* () {
+				try {
+					return yield* ioLeft<string, number>("e");
+				} finally {
+					cleanup();
+				}
+			});
+			expect(result.run().toResult()).toEqual({ ok: false, error: "e" });
+			expect(cleanup).toHaveBeenCalledOnce();
+		});
+
+		it("should run the generator's finally blocks when a yielded io throws", () => {
+			const cleanup = vi.fn();
+			const result = gen(function* () {
+				try {
+					return yield* fromThunk<number>(() => {
+						throw new Error("boom");
+					});
+				} finally {
+					cleanup();
+				}
+			});
+			expect(() => result.run()).toThrow("boom");
+			expect(cleanup).toHaveBeenCalledOnce();
+		});
+
+		it("should only accept ioEithers and ios from yield*", () => {
+			// @ts-expect-error an Either is not an IOEither
+			const result = gen(function* () {
+				return yield* right(1);
+			});
+			expect(() => result.run()).toThrow(TypeError);
+		});
+	});
+
+	describe("traverseWithIndex", () => {
+		it("should pass the index to the mapper", () => {
+			expect(
+				traverseWithIndex(["a", "b"], (item, i) => ioEither(`${i}${item}`))
+					.run()
+					.toResult(),
+			).toEqual({ ok: true, value: ["0a", "1b"] });
+		});
+	});
+
+	describe(
+		"traversable",
+		traversableSpec<IOEither<string, unknown>, IOEither<string, unknown[]>>({
+			of: (value) => ioEither(value),
+			fail: () => ioLeft("error"),
+			sequence: all,
+			traverse,
+			traverseWithIndex,
+			asTag: (ioe) => ioe.run().toResult(),
+		}),
+	);
+});
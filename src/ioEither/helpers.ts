@@ -0,0 +1,215 @@
+import { left, right } from "../either/constructors.js";
+import type { EitherResult } from "../either/model.js";
+import { fromEntries } from "../internal/record.js";
+import type { AnyIO, IO } from "../io/io.js";
+import { fromIO } from "./constructors.js";
+import {
+	type AnyIOEither,
+	createIOEither,
+	type IOEither,
+	isIOEither,
+} from "./ioEither.js";
+
+/**
+ * Runs all IOEithers in order and collects their Right values into an array.
+ * Stops at the first Left and returns it without running the remaining IOEithers.
+ *
+ * @param ioEithers - Array of IOEithers to run
+ * @returns IOEither that produces an array of all Right values, or the first Left
+ *
+ * @example
+ * ```typescript
+ * all([ioEither(1), ioEither(2), ioEither(3)]).run() // Right([1, 2, 3])
+ * all([ioEither(1), ioLeft("err"), ioEither(3)]).run() // Left("err")
+ * ```
+ */
+export function all<E, T>(ioEithers: IOEither<E, T>[]): IOEither<E, T[]> {
+	return traverse(ioEithers, (ioe) => ioe);
+}
+
+/**
+ * Maps each item of an array to an IOEither and runs them in order,
+ * collecting the Right values into an array.
+ * Stops at the first Left and returns it without calling the mapper for the remaining items.
+ *
+ * @param items - Array of items to map
+ * @param mapper - Function that maps an item to an IOEither
+ * @returns IOEither that produces an array of all Right values, or the first Left
+ *
+ * @example
+ * ```typescript
+ * traverse(["theme", "locale"], readSetting).run() // Right([Setting, Setting]) or the first Left
+ * ```
+ */
+export function traverse<A, E, B>(
+	items: readonly A[],
+	mapper: (item: A) => IOEither<E, B>,
+): IOEither<E, B[]> {
+	return traverseWithIndex(items, (item) => mapper(item));
+}
+
+/**
+ * Like {@link traverse}, but the mapper also receives the index of each item.
+ *
+ * @param items - Array of items to map
+ * @param mapper - Function that maps an item and its index to an IOEither
+ * @returns IOEither that produces an array of all Right values, or the first Left
+ *
+ * @example
+ * ```typescript
+ * traverseWithIndex(lines, (line, i) => parseLine(line, i)).run()
+ * ```
+ */
+export function traverseWithIndex<A, E, B>(
+	items: readonly A[],
+	mapper: (item: A, index: number) => IOEither<E, B>,
+): IOEither<E, B[]> {
+	return createIOEither(() => {
+		const out: B[] = [];
+		for (const [index, item] of items.entries()) {
+			const result = mapper(item, index).run().toResult();
+			if (!result.ok) {
+				return left<E, B[]>(result.error);
+			}
+			out.push(result.value);
+		}
+		return right<B[], E>(out);
+	});
+}
+
+type LeftOf<Y> = Y extends IOEither<infer E, infer _T> ? E : never;
+
+type RightsOf<IOEithers extends readonly unknown[]> = {
+	[K in keyof IOEithers]: IOEithers[K] extends IOEither<infer _E, infer A>
+		? A
+		: never;
+};
+
+/**
+ * Runs any number of IOEithers in order and combines their Right values using a mapping function.
+ * Stops at the first Left and returns it.
+ * The mapper receives the Right values in the same order, with their types inferred from the tuple,
+ * and the error type is the union of all Left types.
+ *
+ * @param ioEithers - Tuple of IOEithers to run
+ * @param mapper - Function that receives every Right value and combines them
+ * @returns IOEither containing the mapped result, or the first Left
+ *
+ * @example
+ * ```typescript
+ * mapN([ioEither(1), ioEither("two")], (a, b) => `${a} ${b}`).run() // Right("1 two")
+ * ```
+ */
+export function mapN<const IOEithers extends readonly AnyIOEither[], U>(
+	ioEithers: IOEithers,
+	mapper: (...values: RightsOf<IOEithers>) => U,
+): IOEither<LeftOf<IOEithers[number]>, U> {
+	return all(
+		ioEithers as unknown as IOEither<LeftOf<IOEithers[number]>, unknown>[],
+	).map((values) => mapper(...(values as unknown as RightsOf<IOEithers>)));
+}
+
+/**
+ * Runs any number of IOEithers in order and collects their Right values into a tuple.
+ * Stops at the first Left and returns it.
+ *
+ * @param ioEithers - IOEithers to run
+ * @returns IOEither containing a tuple of all Right values, or the first Left
+ *
+ * @example
+ * ```typescript
+ * zipAll(ioEither("Alice"), ioEither(30)).run()     // Right(["Alice", 30])
+ * zipAll(ioEither("Alice"), ioLeft("No age")).run() // Left("No age")
+ * ```
+ */
+export function zipAll<const IOEithers extends readonly AnyIOEither[]>(
+	...ioEithers: IOEithers
+): IOEither<LeftOf<IOEithers[number]>, RightsOf<IOEithers>> {
+	return mapN(ioEithers, (...values) => values);
+}
+
+type StructOf<R> = {
+	[K in keyof R]: R[K] extends IOEither<infer _E, infer A> ? A : never;
+};
+
+/**
+ * Runs a record of IOEithers in order and collects their Right values into a record,
+ * preserving the keys and their value types.
+ * Stops at the first Left and returns it. The error type is the union of all Left types.
+ *
+ * @param record - Record whose values are IOEithers
+ * @returns IOEither containing a record of all Right values, or the first Left
+ *
+ * @example
+ * ```typescript
+ * struct({ theme: readSetting("theme"), locale: readSetting("locale") }).run()
+ * // Right({ theme: Setting; locale: Setting })
+ * ```
+ */
+export function struct<R extends Readonly<Record<string, AnyIOEither>>>(
+	record: R,
+): IOEither<LeftOf<R[keyof R]>, StructOf<R>> {
+	const keys = Object.keys(record);
+	return all(
+		keys.map((key) => record[key] as IOEither<LeftOf<R[keyof R]>, unknown>),
+	).map((values) => fromEntries<StructOf<R>>(keys, values));
+}
+
+/**
+ * What `gen` accepts from `yield*`: an IOEither or an IO, of any error and value type.
+ */
+type Yieldable = AnyIOEither | AnyIO;
+
+/**
+ * Runs a generator-based computation over IOEithers (do-notation).
+ * Each `yield*` runs an IOEither (or a plain IO) and resumes the generator with its Right value.
+ * The computation short-circuits on the first Left, exactly like chaining with `flatMap`.
+ * The error type is the union of the Left types of every yielded IOEither.
+ * On a Left or a throw, the generator's finally blocks run before the result is passed on.
+ * Nothing runs until `run()` is called, and every `run()` restarts the generator.
+ *
+ * @param body - Generator function that yields IOEithers or IOs and returns the final value
+ * @returns IOEither that produces the returned value, or the first Left encountered
+ *
+ * @example
+ * ```typescript
+ * const program = gen(function* () {
+ *   const raw = yield* readItem("settings");    // IOEither<NotFound, string>
+ *   const settings = yield* parseJson(raw);     // IOEither<SyntaxError, Settings>
+ *   const time = yield* now;                    // IO<number>
+ *   return { settings, time };
+ * }); // IOEither<NotFound | SyntaxError, { settings: Settings; time: number }>
+ *
+ * program.run();
+ * ```
+ */
+export function gen<Y extends Yieldable, T>(
+	body: () => Generator<Y, T, unknown>,
+): IOEither<LeftOf<Y>, T> {
+	return createIOEither(() => {
+		const iterator = body();
+		let result = iterator.next();
+		while (!result.done) {
+			let step: EitherResult<LeftOf<Y>, unknown>;
+			try {
+				step = toIOEither<LeftOf<Y>>(result.value).run().toResult();
+			} catch (err) {
+				// lets the generator's finally blocks run
+				iterator.return(undefined as T);
+				throw err;
+			}
+			if (!step.ok) {
+				iterator.return(undefined as T);
+				return left<LeftOf<Y>, T>(step.error);
+			}
+			result = iterator.next(step.value);
+		}
+		return right<T, LeftOf<Y>>(result.value);
+	});
+}
+
+function toIOEither<E>(effect: Yieldable): IOEither<E, unknown> {
+	return isIOEither(effect)
+		? (effect as IOEither<E, unknown>)
+		: fromIO<unknown, E>(effect as IO<unknown>);
+}
@@ -0,0 +1,310 @@
+import { describe, expect, it, vi } from "vitest";
+import { fromThunk } from "../io/constructors.js";
+import { applicativeLawsSpec } from "../testUtils/applicativeLaws.js";
+import { bifunctorLawsSpec } from "../testUtils/bifunctorLaws.js";
+import { functorLawsSpec } from "../testUtils/functorLaws.js";
+import { monadLawsSpec } from "../testUtils/monadLaws.js";
+import { Do, ioEither, ioLeft, tryCatch } from "./constructors.js";
+import type { IOEither } from "./ioEither.js";
+
+describe("ioEither", () => {
+	describe("filterOrElse", () => {
+		it("should keep the Right value when the predicate passes", () => {
+			const result = ioEither<number, string>(5).filterOrElse(
+				(x) => x > 0,
+				() => "Must be positive",
+			);
+			expect(result.run().toResult()).toEqual({ ok: true, value: 5 });
+		});
+
+		it("should return Left when the predicate fails", () => {
+			const result = ioEither<number, string>(-3).filterOrElse(
+				(x) => x > 0,
+				() => "Must be positive",
+			);
+			expect(result.run().toResult()).toEqual({
+				ok: false,
+				error: "Must be positive",
+			});
+		});
+
+		it("should narrow the Right type when given a type guard", () => {
+			const result: IOEither<string, string> = ioEither<
+				string | number,
+				string
+			>("a").filterOrElse(
+				(x): x is string => typeof x === "string",
+				() => "Not a string",
+			);
+			expect(result.run().toResult()).toEqual({ ok: true, value: "a" });
+		});
+	});
+
+	describe("map", () => {
+		it("should transform the Right value", () => {
+			expect(
+				ioEither(5)
+					.map((x) => x * 2)
+					.run()
+					.toResult(),
+			).toEqual({ ok: true, value: 10 });
+		});
+
+		it("should not call the mapper on Left", () => {
+			const mapper = vi.fn();
+			expect(ioLeft("error").map(mapper).run().toResult()).toEqual({
+				ok: false,
+				error: "error",
+			});
+			expect(mapper).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("mapLeft", () => {
+		it("should transform the Left value", () => {
+			expect(
+				ioLeft("error")
+					.mapLeft((e) => `mapped: ${e}`)
+					.run()
+					.toResult(),
+			).toEqual({ ok: false, error: "mapped: error" });
+		});
+	});
+
+	describe("ap", () => {
+		it("should apply a function to a value", () => {
+			const add = (x: number) => (y: number) => x + y;
+			expect(ioEither(add(5)).ap(ioEither(3)).run().toResult()).toEqual({
+				ok: true,
+				value: 8,
+			});
+		});
+
+		it("should return the Left of the argument", () => {
+			const add = (x: number) => (y: number) => x + y;
+			expect(
+				ioEither<(y: number) => number, string>(add(5))
+					.ap(ioLeft<string, number>("err"))
+					.run()
+					.toResult(),
+			).toEqual({ ok: false, error: "err" });
+		});
+	});
+
+	describe("zip", () => {
+		it("should combine two Right values into a tuple", () => {
+			expect(ioEither("Alice").zip(ioEither(30)).run().toResult()).toEqual({
+				ok: true,
+				value: ["Alice", 30],
+			});
+		});
+	});
+
+	describe("flatten", () => {
+		it("should remove one level of nesting", () => {
+			expect(ioEither(ioEither(42)).flatten().run().toResult()).toEqual({
+				ok: true,
+				value: 42,
+			});
+		});
+	});
+
+	describe("flatMap", () => {
+		it("should chain ioEither-returning operations", () => {
+			expect(
+				ioEither(10)
+					.flatMap((x) => ioEither(x * 2))
+					.run()
+					.toResult(),
+			).toEqual({ ok: true, value: 20 });
+		});
+
+		it("should short-circuit on Left", () => {
+			const mapper = vi.fn(() => ioEither(0));
+			expect(ioLeft("error").flatMap(mapper).run().toResult()).toEqual({
+				ok: false,
+				error: "error",
+			});
+			expect(mapper).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("flatMapLeft", () => {
+		it("should recover from a Left", () => {
+			expect(
+				ioLeft<number, number>(404)
+					.flatMapLeft((status) => ioEither(status * 0))
+					.run()
+					.toResult(),
+			).toEqual({ ok: true, value: 0 });
+		});
+	});
+
+	describe("tap", () => {
+		it("should execute the side effect with the Right value", () => {
+			const sideEffect = vi.fn();
+			ioEither(42).tap(sideEffect).run();
+			expect(sideEffect).toHaveBeenCalledWith(42);
+		});
+	});
+
+	describe("tapLeft", () => {
+		it("should execute the side effect with the Left value", () => {
+			const sideEffect = vi.fn();
+			ioLeft("error").tapLeft(sideEffect).run();
+			expect(sideEffect).toHaveBeenCalledWith("error");
+		});
+	});
+
+	describe("match", () => {
+		it("should return an IO of the matched result", () => {
+			expect(
+				ioEither(5)
+					.match(
+						() => 0,
+						(x) => x * 2,
+					)
+					.run(),
+			).toBe(10);
+			expect(
+				ioLeft("error")
+					.match(
+						() => 0,
+						(x: number) => x * 2,
+					)
+					.run(),
+			).toBe(0);
+		});
+	});
+
+	describe("getOrElse", () => {
+		it("should return an IO of the Right value or the fallback", () => {
+			expect(
+				ioEither(42)
+					.getOrElse(() => 0)
+					.run(),
+			).toBe(42);
+			expect(
+				ioLeft<string, number>("error")
+					.getOrElse(() => 0)
+					.run(),
+			).toBe(0);
+		});
+	});
+
+	describe("orElse", () => {
+		it("should use the fallback on Left", () => {
+			expect(
+				ioLeft<string, number>("error")
+					.orElse(() => ioEither(0))
+					.run()
+					.toResult(),
+			).toEqual({ ok: true, value: 0 });
+		});
+	});
+
+	describe("run", () => {
+		it("should run the underlying effect again on every call", () => {
+			let counter = 0;
+			const next = tryCatch(() => ++counter, String);
+			expect(next.run().toResult()).toEqual({ ok: true, value: 1 });
+			expect(next.run().toResult()).toEqual({ ok: true, value: 2 });
+		});
+	});
+
+	describe("toTaskEither", () => {
+		it("should resolve to the produced Either", async () => {
+			expect((await ioLeft("err").toTaskEither().run()).toResult()).toEqual({
+				ok: false,
+				error: "err",
+			});
+		});
+
+		it("should not run the ioEither until the taskEither is run", async () => {
+			const thunk = vi.fn(() => 1);
+			const te = tryCatch(thunk, String).toTaskEither();
+			expect(thunk).not.toHaveBeenCalled();
+			expect((await te.run()).toResult()).toEqual({ ok: true, value: 1 });
+		});
+	});
+
+	describe("do-notation", () => {
+		it("should accumulate values with bind, let and apS", () => {
+			const result = Do.bind("a", () => ioEither(1))
+				.apS("b", ioEither(2))
+				.let("sum", ({ a, b }) => a + b);
+			expect(result.run().toResult()).toEqual({
+				ok: true,
+				value: { a: 1, b: 2, sum: 3 },
+			});
+		});
+
+		it("should short-circuit on the first Left", () => {
+			const next = vi.fn(() => ioEither(2));
+			const result = Do.bind("a", () => ioLeft("error")).bind("b", next);
+			expect(result.run().toResult()).toEqual({ ok: false, error: "error" });
+			expect(next).not.toHaveBeenCalled();
+		});
+
+		it("should bind a value under a key with bindTo", () => {
+			expect(ioEither(5).bindTo("x").run().toResult()).toEqual({
+				ok: true,
+				value: { x: 5 },
+			});
+		});
+	});
+
+	describe("laziness", () => {
+		it("should not run any effect until run() is called", () => {
+			const effect = vi.fn(() => 1);
+			const program = fromThunk(effect)
+				.toIOEither()
+				.map((x) => x + 1);
+			expect(effect).not.toHaveBeenCalled();
+			program.run();
+			expect(effect).toHaveBeenCalledOnce();
+		});
+	});
+
+	const asTag = <E, T>(ioe: IOEither<E, T>) => ioe.run().toResult();
+
+	describe(
+		"functor laws",
+		functorLawsSpec<IOEither<string, number>>({
+			of: (testValue) => ioEither(testValue),
+			map: (m, mapper) => m.map(mapper),
+			asTag,
+		}),
+	);
+
+	describe(
+		"applicative laws",
+		applicativeLawsSpec<IOEither<string, unknown>>({
+			of: (value) => ioEither(value),
+			ap: (ioe, arg) =>
+				(ioe as IOEither<string, (arg: unknown) => unknown>).ap(arg),
+			asTag,
+		}),
+	);
+
+	describe(
+		"monad laws",
+		monadLawsSpec<IOEither<string, number>>({
+			of: (testValue) => ioEither(testValue),
+			flatMap: (m, mapper) => m.flatMap(mapper),
+			asTag,
+		}),
+	);
+
+	describe(
+		"bifunctor laws",
+		bifunctorLawsSpec<IOEither<number, number>>({
+			left: (value) => ioLeft(value),
+			right: (value) => ioEither(value),
+			bimap: (ioe, onLeft, onRight) => ioe.bimap(onLeft, onRight),
+			mapLeft: (ioe, mapper) => ioe.mapLeft(mapper),
+			map: (ioe, mapper) => ioe.map(mapper),
+			asTag,
+		}),
+	);
+});
@@ -0,0 +1,484 @@
+import type { AnyEither, Either } from "../either/either.js";
+import { extend } from "../internal/record.js";
+import { createIO, type IO } from "../io/io.js";
+import { createTaskEither, type TaskEither } from "../taskEither/taskEither.js";
+import type { IOEitherValue } from "./model.js";
+
+export type IOEither<E, T> = {
+	/**
+	 * Filters the IOEither based on a predicate function applied to the Right value.
+	 * When the predicate is a type guard, the Right type is narrowed accordingly.
+	 *
+	 * @param predicate - Function that tests the Right value
+	 * @param onLeft - Function that provides the error value when predicate fails
+	 * @returns IOEither producing the same Either if Left or predicate passes, otherwise Left with the provided error
+	 *
+	 * @example
+	 * ```typescript
+	 * const isPositive = (n: number) => n > 0;
+	 * ioEither(5).filterOrElse(isPositive, () => "Must be positive").run()  // Right(5)
+	 * ioEither(-3).filterOrElse(isPositive, () => "Must be positive").run() // Left("Must be positive")
+	 * ```
+	 */
+	filterOrElse: {
+		<U extends T>(
+			refinement: (right: T) => right is U,
+			onLeft: () => E,
+		): IOEither<E, U>;
+		(predicate: (right: T) => boolean, onLeft: () => E): IOEither<E, T>;
+	};
+
+	/**
+	 * Transforms the Right value using a mapping function.
+	 * If this IOEither produces Left, the mapper is not called.
+	 *
+	 * @typeParam U - The type of the transformed value
+	 * @param mapper - Function to transform the Right value
+	 * @returns New IOEither with the transformed Right value, or the same Left if error
+	 *
+	 * @example
+	 * ```typescript
+	 * ioEither(5).map(x => x * 2).run()     // Right(10)
+	 * ioLeft("error").map(x => x * 2).run() // Left("error")
+	 * ```
+	 */
+	map: <U>(mapper: (right: T) => U) => IOEither<E, U>;
+
+	/**
+	 * Transforms the Left value using a mapping function.
+	 * If this IOEither produces Right, the mapper is not called.
+	 *
+	 * @typeParam F - The type of the transformed error
+	 * @param mapper - Function to transform the Left value
+	 * @returns New IOEither with the transformed Left value, or the same Right if success
+	 *
+	 * @example
+	 * ```typescript
+	 * ioLeft("error").mapLeft(e => `mapped: ${e}`).run() // Left("mapped: error")
+	 * ioEither(42).mapLeft(e => `mapped: ${e}`).run()    // Right(42)
+	 * ```
+	 */
+	mapLeft: <F>(mapper: (left: E) => F) => IOEither<F, T>;
+
+	/**
+	 * Transforms both sides of the produced Either at once.
+	 *
+	 * @typeParam F - The type of the transformed error
+	 * @typeParam U - The type of the transformed value
+	 * @param onLeft - Function to transform the Left value
+	 * @param onRight - Function to transform the Right value
+	 * @returns New IOEither with the applicable side transformed
+	 *
+	 * @example
+	 * ```typescript
+	 * ioEither(5).bimap(e => `Error: ${e}`, x => x * 2).run()     // Right(10)
+	 * ioLeft("oops").bimap(e => `Error: ${e}`, x => x * 2).run() // Left("Error: oops")
+	 * ```
+	 */
+	bimap: <F, U>(
+		onLeft: (left: E) => F,
+		onRight: (right: T) => U,
+	) => IOEither<F, U>;
+
+	/**
+	 * Applies a function wrapped in an IOEither to a value wrapped in an IOEither.
+	 * Both IOEithers are run, the function one first.
+	 *
+	 * @typeParam EE - Left type of the argument IOEither
+	 * @typeParam A - The type of the argument value
+	 * @typeParam U - The type of the function's return value
+	 * @param arg - IOEither containing the argument to apply the function to
+	 * @returns IOEither containing the function result, or the first Left if any is Left
+	 *
+	 * @example
+	 * ```typescript
+	 * const add = (x: number) => (y: number) => x + y;
+	 * ioEither(add(5)).ap(ioEither(3)).run()  // Right(8)
+	 * ioEither(add(5)).ap(ioLeft("err")).run() // Left("err")
+	 * ```
+	 */
+	ap: <EE, A, U>(
+		this: IOEither<E, (a: A) => U>,
+		arg: IOEither<EE, A>,
+	) => IOEither<E | EE, U>;
+
+	/**
+	 * Combines this IOEither with another IOEither into a tuple.
+	 * Both IOEithers are run, this one first.
+	 *
+	 * @typeParam EE - Left type of the other IOEither
+	 * @typeParam A - Right type of the other IOEither
+	 * @param other - The IOEither to combine with this one
+	 * @returns IOEither containing a tuple of both Right values, or the first Left
+	 *
+	 * @example
+	 * ```typescript
+	 * ioEither("Alice").zip(ioEither(30)).run()     // Right(["Alice", 30])
+	 * ioEither("Alice").zip(ioLeft("No age")).run() // Left("No age")
+	 * ```
+	 */
+	zip: <EE, A>(other: IOEither<EE, A>) => IOEither<E | EE, readonly [T, A]>;
+
+	/**
+	 * Flattens a nested IOEither structure by removing one level of nesting.
+	 *
+	 * @typeParam EE - Left type of the inner IOEither
+	 * @typeParam U - Right type of the inner IOEither
+	 * @returns The inner IOEither if this IOEither is Right, otherwise this Left unchanged
+	 *
+	 * @example
+	 * ```typescript
+	 * ioEither(ioEither(42)).flatten().run()          // Right(42)
+	 * ioEither(ioLeft("inner error")).flatten().run() // Left("inner error")
+	 * ```
+	 */
+	flatten: <EE, U>(this: IOEither<E, IOEither<EE, U>>) => IOEither<E | EE, U>;
+
+	/**
+	 * Chains IOEither-returning operations together (monadic bind).
+	 * If this IOEither produces Left, the mapper is not called.
+	 *
+	 * @typeParam EE - The error type of the IOEither returned by the mapper
+	 * @typeParam U - The success type of the IOEither returned by the mapper
+	 * @param mapper - Function that takes a Right value and returns an IOEither
+	 * @returns The IOEither returned by mapper if this is Right, otherwise this Left unchanged
+	 *
+	 * @example
+	 * ```typescript
+	 * ioEither(10).flatMap(x => ioEither(x * 2)).run() // Right(20)
+	 * ioLeft("error").flatMap(x => ioEither(x)).run()  // Left("error")
+	 * ```
+	 */
+	flatMap: <EE, U>(
+		mapper: (right: T) => IOEither<EE, U>,
+	) => IOEither<E | EE, U>;
+
+	/**
+	 * Chains an IOEither-returning operation on the Left value, e.g. to recover from
+	 * or re-classify an error. Unlike {@link orElse}, the Left type is replaced
+	 * by the one returned from the mapper.
+	 *
+	 * @typeParam F - The error type of the IOEither returned by the mapper
+	 * @param mapper - Function that takes a Left value and returns an IOEither
+	 * @returns The IOEither returned by mapper if this is Left, otherwise this Right unchanged
+	 *
+	 * @example
+	 * ```typescript
+	 * readFile(path).flatMapLeft(() => readFile(fallbackPath))
+	 * ```
+	 */
+	flatMapLeft: <F>(mapper: (left: E) => IOEither<F, T>) => IOEither<F, T>;
+
+	/**
+	 * Performs a side effect with the Right value, returning an IOEither producing the same Either.
+	 * If this IOEither produces Left, the side effect is not executed.
+	 *
+	 * @param sideEffect - Function to execute with the Right value (return value is ignored)
+	 * @returns IOEither producing the same Either
+	 *
+	 * @example
+	 * ```typescript
+	 * ioEither(42).tap(v => console.log(v)).run()    // Logs: 42, returns Right(42)
+	 * ioLeft("error").tap(v => console.log(v)).run() // No log, returns Left("error")
+	 * ```
+	 */
+	tap: (sideEffect: (right: T) => unknown) => IOEither<E, T>;
+
+	/**
+	 * Performs a side effect with the Left value, returning an IOEither producing the same Either.
+	 * If this IOEither produces Right, the side effect is not executed.
+	 *
+	 * @param sideEffect - Function to execute with the Left value (return value is ignored)
+	 * @returns IOEither producing the same Either
+	 *
+	 * @example
+	 * ```typescript
+	 * ioLeft("error").tapLeft(e => console.log(e)).run() // Logs: "error", returns Left("error")
+	 * ioEither(42).tapLeft(e => console.log(e)).run()    // No log, returns Right(42)
+	 * ```
+	 */
+	tapLeft: (sideEffect: (left: E) => unknown) => IOEither<E, T>;
+
+	/**
+	 * Pattern matches on the produced Either, executing different functions based on its state.
+	 * Returns the result wrapped in an IO.
+	 *
+	 * @typeParam U - The return type of both matcher functions
+	 * @param onLeft - Function to execute if the produced Either is Left
+	 * @param onRight - Function to execute if the produced Either is Right
+	 * @returns IO that produces the result of the executed function
+	 *
+	 * @example
+	 * ```typescript
+	 * ioEither(5).match(() => 0, x => x * 2).run()     // 10
+	 * ioLeft("error").match(() => 0, x => x * 2).run() // 0
+	 * ```
+	 */
+	match: <U>(onLeft: (left: E) => U, onRight: (right: T) => U) => IO<U>;
+
+	/**
+	 * Extracts the Right value, or returns a fallback value if Left.
+	 * Returns the result wrapped in an IO.
+	 *
+	 * @param fallback - Function that takes the Left value and returns a default value of type T
+	 * @returns IO that produces the Right value or the fallback
+	 *
+	 * @example
+	 * ```typescript
+	 * ioEither(42).getOrElse(() => 0).run()    // 42
+	 * ioLeft("error").getOrElse(() => 0).run() // 0
+	 * ```
+	 */
+	getOrElse: (fallback: (left: E) => T) => IO<T>;
+
+	/**
+	 * Returns this IOEither's result if it produces Right, otherwise the result of the fallback function.
+	 *
+	 * @typeParam EE - The type of the error in the fallback IOEither
+	 * @param fallback - Function that takes the Left value and returns an alternative IOEither
+	 * @returns IOEither producing this Right, or the result of the fallback
+	 *
+	 * @example
+	 * ```typescript
+	 * ioEither(42).orElse(() => ioEither(0)).run()    // Right(42)
+	 * ioLeft("error").orElse(() => ioEither(0)).run() // Right(0)
+	 * ```
+	 */
+	orElse: <EE>(fallback: (left: E) => IOEither<EE, T>) => IOEither<E | EE, T>;
+
+	/**
+	 * Wraps the Right value in a record under the given key.
+	 * This is usually the first step of do-notation when starting from an existing IOEither.
+	 *
+	 * @param key - The key to store the Right value under
+	 * @returns IOEither containing a record with the Right value under `key`, or the same Left
+	 *
+	 * @example
+	 * ```typescript
+	 * ioEither(5).bindTo("x").run() // Right({ x: 5 })
+	 * ```
+	 */
+	bindTo: <K extends string>(key: K) => IOEither<E, { readonly [P in K]: T }>;
+
+	/**
+	 * Extends the record on the Right side with the value of another IOEither computed from it.
+	 * The new IOEither runs after this one and short-circuits on the first Left, like {@link flatMap}.
+	 *
+	 * @typeParam EE - The error type of the IOEither returned by the mapper
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns an IOEither
+	 * @returns IOEither containing the extended record, or the first Left
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.bind("raw", () => getItem("settings"))
+	 *   .bind("settings", ({ raw }) => parseJson(raw))
+	 * ```
+	 */
+	bind: <K extends string, EE, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => IOEither<EE, U>,
+	) => IOEither<E | EE, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Extends the record on the Right side with a plain value computed from it.
+	 *
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns a value
+	 * @returns IOEither containing the extended record, or the same Left
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.bind("settings", () => readSettings)
+	 *   .let("theme", ({ settings }) => settings.theme)
+	 * ```
+	 */
+	let: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => U,
+	) => IOEither<E, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Extends the record on the Right side with the value of an independent IOEither.
+	 *
+	 * @typeParam EE - The error type of the added IOEither
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param other - The IOEither whose Right value is added to the record
+	 * @returns IOEither containing the extended record, or the first Left
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.apS("settings", readSettings)
+	 *   .apS("session", readSession)
+	 * ```
+	 */
+	apS: <K extends string, EE, U>(
+		key: Exclude<K, keyof T>,
+		other: IOEither<EE, U>,
+	) => IOEither<E | EE, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Executes the IOEither and returns the resulting Either.
+	 *
+	 * @returns The produced Either value
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = ioEither(42).run(); // Either<never, number>
+	 * ```
+	 */
+	run: () => Either<E, T>;
+
+	/**
+	 * Converts the IOEither to a TaskEither that runs it when the TaskEither is run.
+	 *
+	 * @returns TaskEither resolving to the IOEither's Either
+	 *
+	 * @example
+	 * ```typescript
+	 * readSettings.toTaskEither().flatMap(saveRemote).run() // Promise<Either<Error, Response>>
+	 * ```
+	 */
+	toTaskEither: () => TaskEither<E, T>;
+
+	/**
+	 * Makes the IOEither iterable so it can be unwrapped with `yield*` inside a generator
+	 * passed to {@link gen}. Yields this IOEither once and resumes with its Right value.
+	 *
+	 * @returns Generator that yields this IOEither and returns its Right value
+	 *
+	 * @example
+	 * ```typescript
+	 * gen(function* () {
+	 *   const x = yield* ioEither(5);
+	 *   return x * 2;
+	 * }).run() // Right(10)
+	 * ```
+	 */
+	[Symbol.iterator]: () => Generator<IOEither<E, T>, T, unknown>;
+};
+
+/**
+ * An IOEither of any error and value type, for helpers that take IOEithers of different types.
+ * Spelled out structurally because IOEither is invariant in both.
+ */
+export type AnyIOEither = {
+	readonly run: () => AnyEither;
+	readonly mapLeft: (mapper: never) => unknown;
+};
+
+const ioEithers = new WeakSet<object>();
+
+/**
+ * Checks whether a value was created by {@link createIOEither}, to tell IOEithers apart from IOs.
+ */
+export function isIOEither(
+	value: unknown,
+): value is IOEither<unknown, unknown> {
+	return typeof value === "object" && value !== null && ioEithers.has(value);
+}
+
+export function createIOEither<E, T>(
+	thunk: IOEitherValue<E, T>,
+): IOEither<E, T> {
+	const ioe: IOEither<E, T> = {
+		filterOrElse: ((predicate: (right: T) => boolean, onLeft: () => E) =>
+			createIOEither(() =>
+				thunk().filterOrElse(predicate, onLeft),
+			)) as IOEither<E, T>["filterOrElse"],
+
+		map: <U>(mapper: (right: T) => U): IOEither<E, U> =>
+			createIOEither(() => thunk().map(mapper)),
+
+		mapLeft: <F>(mapper: (leftVal: E) => F): IOEither<F, T> =>
+			createIOEither(() => thunk().mapLeft(mapper)),
+
+		bimap: <F, U>(
+			onLeft: (leftVal: E) => F,
+			onRight: (rightVal: T) => U,
+		): IOEither<F, U> => createIOEither(() => thunk().bimap(onLeft, onRight)),
+
+		ap: function <EE, A, U>(
+			this: IOEither<E, (a: A) => U>,
+			arg: IOEither<EE, A>,
+		): IOEither<E | EE, U> {
+			return createIOEither(() => this.run().ap(arg.run()));
+		},
+
+		zip: <EE, A>(other: IOEither<EE, A>): IOEither<E | EE, readonly [T, A]> =>
+			ioe.map((value) => (a: A) => [value, a] as const).ap(other),
+
+		flatten: function <EE, U>(
+			this: IOEither<E, IOEither<EE, U>>,
+		): IOEither<E | EE, U> {
+			// biome-ignore lint/complexity/noFlatMapIdentity: flatMap here is the custom IOEither method, not Array.flatMap
+			return this.flatMap((value) => value);
+		},
+
+		flatMap: <EE, U>(
+			mapper: (rightVal: T) => IOEither<EE, U>,
+		): IOEither<E | EE, U> =>
+			createIOEither(() =>
+				thunk().flatMap((rightVal) => mapper(rightVal).run()),
+			),
+
+		flatMapLeft: <F>(mapper: (leftVal: E) => IOEither<F, T>): IOEither<F, T> =>
+			createIOEither(() =>
+				thunk().flatMapLeft((leftVal) => mapper(leftVal).run()),
+			),
+
+		tap: (sideEffect: (right: T) => unknown): IOEither<E, T> =>
+			createIOEither(() => thunk().tap(sideEffect)),
+
+		tapLeft: (sideEffect: (leftVal: E) => unknown): IOEither<E, T> =>
+			createIOEither(() => thunk().tapLeft(sideEffect)),
+
+		match: <U>(onLeft: (left: E) => U, onRight: (right: T) => U): IO<U> =>
+			createIO(() => thunk().match(onLeft, onRight)),
+
+		getOrElse: (fallback: (left: E) => T): IO<T> =>
+			createIO(() => thunk().getOrElse(fallback)),
+
+		orElse: <EE>(
+			fallback: (leftVal: E) => IOEither<EE, T>,
+		): IOEither<E | EE, T> =>
+			createIOEither(() =>
+				thunk().orElse((leftVal) => fallback(leftVal).run()),
+			),
+
+		bindTo: <K extends string>(key: K) =>
+			ioe.map((value) => ({ [key]: value }) as { readonly [P in K]: T }),
+
+		bind: <K extends string, EE, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => IOEither<EE, U>,
+		) =>
+			ioe.flatMap((scope) =>
+				mapper(scope).map((value) => extend<T, K, U>(scope, key, value)),
+			),
+
+		let: <K extends string, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => U,
+		) => ioe.map((scope) => extend<T, K, U>(scope, key, mapper(scope))),
+
+		apS: <K extends string, EE, U>(
+			key: Exclude<K, keyof T>,
+			other: IOEither<EE, U>,
+		) =>
+			ioe
+				.zip(other)
+				.map(([scope, value]) => extend<T, K, U>(scope, key, value)),
+
+		run: () => thunk(),
+
+		toTaskEither: (): TaskEither<E, T> => createTaskEither(async () => thunk()),
+
+		[Symbol.iterator]: function* () {
+			return (yield ioe) as T;
+		},
+	};
+
+	ioEithers.add(ioe);
+	return ioe;
+}
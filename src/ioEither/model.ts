@@ -0,0 +1,3 @@
+import type { Either } from "../either/either.js";
+
+export type IOEitherValue<E, T> = () => Either<E, T>;
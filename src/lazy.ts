@@ -0,0 +1,3 @@
+export * from "./lazy/constructors.js";
+export type { Lazy } from "./lazy/lazy.js";
+export type { LazyValue } from "./lazy/model.js";
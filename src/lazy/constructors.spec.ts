@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from "vitest";
+import { always, Do, later, now } from "./constructors.js";
+
+describe("lazy constructors", () => {
+	describe("now", () => {
+		it("should produce the given value", () => {
+			expect(now(42).run()).toBe(42);
+		});
+	});
+
+	describe("later", () => {
+		it("should not compute the value until it is run", () => {
+			const thunk = vi.fn(() => 42);
+			later(thunk);
+			expect(thunk).not.toHaveBeenCalled();
+		});
+
+		it("should compute the value at most once", () => {
+			const thunk = vi.fn(() => ({ id: 1 }));
+			const lazy = later(thunk);
+			expect(lazy.run()).toBe(lazy.run());
+			expect(thunk).toHaveBeenCalledOnce();
+		});
+
+		it("should compute the value at most once when shared by several chains", () => {
+			const thunk = vi.fn(() => 2);
+			const shared = later(thunk);
+			expect(
+				shared
+					.map((x) => x + 1)
+					.zip(shared.map((x) => x * 10))
+					.run(),
+			).toEqual([3, 20]);
+			expect(thunk).toHaveBeenCalledOnce();
+		});
+	});
+
+	describe("always", () => {
+		it("should compute the value on every run", () => {
+			const thunk = vi.fn(() => 42);
+			const lazy = always(thunk);
+			lazy.run();
+			lazy.run();
+			expect(thunk).toHaveBeenCalledTimes(2);
+		});
+	});
+
+	describe("Do", () => {
+		it("should produce an empty record", () => {
+			expect(Do.run()).toEqual({});
+		});
+	});
+});
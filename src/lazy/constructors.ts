@@ -0,0 +1,66 @@
+import { createLazy, type Lazy } from "./lazy.js";
+
+/**
+ * Creates a Lazy from a value that is already computed.
+ *
+ * @typeParam T - The type of the value
+ * @param value - The value to wrap
+ * @returns Lazy that produces the given value
+ *
+ * @example
+ * ```typescript
+ * now(42).run() // 42
+ * ```
+ */
+export function now<T>(value: T): Lazy<T> {
+	return createLazy(() => value);
+}
+
+/**
+ * Creates a Lazy that computes its value on the first run and caches it for every later run.
+ *
+ * @typeParam T - The type of the value
+ * @param thunk - Function that computes the value
+ * @returns Lazy that calls `thunk` at most once
+ *
+ * @example
+ * ```typescript
+ * const config = later(() => loadConfig());
+ * config.run(); // loads
+ * config.run(); // cached
+ * ```
+ */
+export function later<T>(thunk: () => T): Lazy<T> {
+	return createLazy(thunk).memoize();
+}
+
+/**
+ * Creates a Lazy that computes its value again on every run.
+ *
+ * @typeParam T - The type of the value
+ * @param thunk - Function that computes the value
+ * @returns Lazy that calls `thunk` on every run
+ *
+ * @example
+ * ```typescript
+ * const timestamp = always(() => Date.now());
+ * timestamp.run() !== timestamp.run() // eventually true
+ * ```
+ */
+export function always<T>(thunk: () => T): Lazy<T> {
+	return createLazy(thunk);
+}
+
+/**
+ * A Lazy producing an empty record - the starting point of do-notation.
+ * Use `bind`, `let` and `apS` to add named values to the record step by step.
+ *
+ * @example
+ * ```typescript
+ * const app = Do.apS("config", later(loadConfig))
+ *   .bind("db", ({ config }) => later(() => connect(config)))
+ *   .memoize();
+ * app.run(); // { config, db }
+ * ```
+ */
+export const Do: Lazy<Readonly<Record<never, never>>> = now({});
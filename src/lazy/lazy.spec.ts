@@ -0,0 +1,196 @@
+import { describe, expect, it, vi } from "vitest";
+import { applicativeLawsSpec } from "../testUtils/applicativeLaws.js";
+import { functorLawsSpec } from "../testUtils/functorLaws.js";
+import { monadLawsSpec } from "../testUtils/monadLaws.js";
+import { always, Do, later, now } from "./constructors.js";
+import type { Lazy } from "./lazy.js";
+
+const asTag = <T>(lazy: Lazy<T>) => ({ value: lazy.run() });
+
+describe("lazy", () => {
+	describe("map", () => {
+		it("should transform the value without computing it", () => {
+			const thunk = vi.fn(() => 5);
+			const lazy = always(thunk).map((x) => x * 2);
+			expect(thunk).not.toHaveBeenCalled();
+			expect(lazy.run()).toBe(10);
+		});
+	});
+
+	describe("ap", () => {
+		it("should apply a function to a value", () => {
+			const add = (x: number) => (y: number) => x + y;
+			expect(now(add(5)).ap(now(3)).run()).toBe(8);
+		});
+	});
+
+	describe("zip", () => {
+		it("should combine two values into a tuple", () => {
+			expect(
+				now("Alice")
+					.zip(later(() => 30))
+					.run(),
+			).toEqual(["Alice", 30]);
+		});
+	});
+
+	describe("flatMap", () => {
+		it("should chain Lazy-returning operations without computing them", () => {
+			const mapper = vi.fn((x: number) => now(x * 2));
+			const lazy = now(10).flatMap(mapper);
+			expect(mapper).not.toHaveBeenCalled();
+			expect(lazy.run()).toBe(20);
+		});
+	});
+
+	describe("tap", () => {
+		it("should execute the side effect with the value on run", () => {
+			const sideEffect = vi.fn();
+			const lazy = now(1).tap(sideEffect);
+			expect(sideEffect).not.toHaveBeenCalled();
+			expect(lazy.run()).toBe(1);
+			expect(sideEffect).toHaveBeenCalledWith(1);
+		});
+	});
+
+	describe("memoize", () => {
+		it("should compute a chain at most once", () => {
+			const thunk = vi.fn(() => 5);
+			const lazy = always(thunk)
+				.map((x) => x + 1)
+				.memoize();
+			expect(lazy.run()).toBe(6);
+			expect(lazy.run()).toBe(6);
+			expect(thunk).toHaveBeenCalledOnce();
+		});
+
+		it("should compute again after a failed run", () => {
+			const thunk = vi
+				.fn<() => number>()
+				.mockImplementationOnce(() => {
+					throw new Error("boom");
+				})
+				.mockReturnValue(1);
+			const lazy = always(thunk).memoize();
+			expect(() => lazy.run()).toThrow("boom");
+			expect(lazy.run()).toBe(1);
+			expect(lazy.run()).toBe(1);
+			expect(thunk).toHaveBeenCalledTimes(2);
+		});
+
+		it("should run long chains of memoized steps in constant stack space", () => {
+			const thunk = vi.fn(() => 0);
+			let lazy = always(thunk);
+			for (let i = 0; i < 100_000; i++) {
+				lazy = lazy.map((x) => x + 1).memoize();
+			}
+			expect(lazy.run()).toBe(100_000);
+			expect(lazy.run()).toBe(100_000);
+			expect(thunk).toHaveBeenCalledOnce();
+		});
+
+		it("should share the cache with chains built on top of it", () => {
+			const thunk = vi.fn(() => 5);
+			const memoized = always(thunk).memoize();
+			expect(memoized.map((x) => x + 1).run()).toBe(6);
+			expect(memoized.flatMap((x) => now(x * 2)).run()).toBe(10);
+			expect(thunk).toHaveBeenCalledOnce();
+		});
+	});
+
+	describe("toOption", () => {
+		it("should return Some with the value", () => {
+			expect(now(1).toOption().toNullable()).toBe(1);
+		});
+
+		it("should return None when the computation throws", () => {
+			const lazy = later(() => JSON.parse("{"));
+			expect(lazy.toOption().isNone()).toBe(true);
+		});
+	});
+
+	describe("toEither", () => {
+		it("should return Right with the value", () => {
+			expect(
+				now(1)
+					.toEither(() => "failed")
+					.toResult(),
+			).toEqual({ ok: true, value: 1 });
+		});
+
+		it("should return Left with the converted exception", () => {
+			const lazy = always<number>(() => {
+				throw new Error("boom");
+			});
+			expect(lazy.toEither((err) => (err as Error).message).toResult()).toEqual(
+				{ ok: false, error: "boom" },
+			);
+		});
+	});
+
+	describe("do-notation", () => {
+		it("should build a record with bind, let and apS", () => {
+			const lazy = Do.apS("a", now(1))
+				.bind("b", ({ a }) => later(() => a + 1))
+				.let("sum", ({ a, b }) => a + b);
+			expect(lazy.run()).toEqual({ a: 1, b: 2, sum: 3 });
+		});
+
+		it("should wrap the value with bindTo", () => {
+			expect(now(5).bindTo("x").run()).toEqual({ x: 5 });
+		});
+	});
+
+	describe("stack safety", () => {
+		it("should run a long chain of flatMap calls", () => {
+			let lazy = now(0);
+			for (let i = 0; i < 100_000; i++) {
+				lazy = lazy.flatMap((x) => now(x + 1));
+			}
+			expect(lazy.run()).toBe(100_000);
+		});
+
+		it("should run a long chain of map calls", () => {
+			let lazy = now(0);
+			for (let i = 0; i < 100_000; i++) {
+				lazy = lazy.map((x) => x + 1);
+			}
+			expect(lazy.run()).toBe(100_000);
+		});
+
+		it("should run deeply mutually recursive definitions", () => {
+			const even = (n: number): Lazy<boolean> =>
+				n === 0 ? now(true) : now(n - 1).flatMap(odd);
+			const odd = (n: number): Lazy<boolean> =>
+				n === 0 ? now(false) : now(n - 1).flatMap(even);
+			expect(even(100_000).run()).toBe(true);
+		});
+	});
+
+	describe(
+		"functor laws",
+		functorLawsSpec<Lazy<number>>({
+			of: (value) => now(value),
+			map: (lazy, mapper) => lazy.map(mapper),
+			asTag,
+		}),
+	);
+
+	describe(
+		"applicative laws",
+		applicativeLawsSpec<Lazy<unknown>>({
+			of: (value) => now(value),
+			ap: (lazy, arg) => (lazy as Lazy<(arg: unknown) => unknown>).ap(arg),
+			asTag,
+		}),
+	);
+
+	describe(
+		"monad laws",
+		monadLawsSpec<Lazy<number>>({
+			of: (value) => now(value),
+			flatMap: (lazy, mapper) => lazy.flatMap(mapper),
+			asTag,
+		}),
+	);
+});
@@ -0,0 +1,323 @@
+import { tryCatch } from "../either/constructors.js";
+import type { Either } from "../either/either.js";
+import { extend } from "../internal/record.js";
+import type { Option } from "../option/option.js";
+import type { LazyValue } from "./model.js";
+
+export type Lazy<T> = {
+	/**
+	 * Transforms the deferred value using a mapping function, without computing it.
+	 *
+	 * @typeParam U - The type of the transformed value
+	 * @param mapper - Function to transform the value
+	 * @returns New Lazy that produces the transformed value when run
+	 *
+	 * @example
+	 * ```typescript
+	 * later(() => parse(source)).map(ast => ast.body).run()
+	 * ```
+	 */
+	map: <U>(mapper: (value: T) => U) => Lazy<U>;
+
+	/**
+	 * Applies a function wrapped in a Lazy to a value wrapped in a Lazy.
+	 *
+	 * @typeParam A - The type of the argument value
+	 * @typeParam U - The type of the function's return value
+	 * @param arg - Lazy containing the argument to apply the function to
+	 * @returns Lazy containing the function result
+	 *
+	 * @example
+	 * ```typescript
+	 * const add = (x: number) => (y: number) => x + y;
+	 * now(add(5)).ap(now(3)).run() // 8
+	 * ```
+	 */
+	ap: <A, U>(this: Lazy<(a: A) => U>, arg: Lazy<A>) => Lazy<U>;
+
+	/**
+	 * Combines this Lazy with another Lazy into a tuple of both values.
+	 *
+	 * @typeParam A - The type of the value of the other Lazy
+	 * @param other - The Lazy to combine with
+	 * @returns Lazy containing a tuple of both values
+	 *
+	 * @example
+	 * ```typescript
+	 * now("Alice").zip(later(() => 30)).run() // ["Alice", 30]
+	 * ```
+	 */
+	zip: <A>(other: Lazy<A>) => Lazy<readonly [T, A]>;
+
+	/**
+	 * Chains Lazy-returning operations together, without computing anything.
+	 * Chains of any length - including recursive definitions - are evaluated in constant stack space.
+	 *
+	 * @typeParam U - The type of the value of the Lazy returned by the mapper
+	 * @param mapper - Function that takes the value and returns the next Lazy
+	 * @returns Lazy that produces the value of the Lazy returned by mapper
+	 *
+	 * @example
+	 * ```typescript
+	 * const even = (n: number): Lazy<boolean> => n === 0 ? now(true) : now(n - 1).flatMap(odd);
+	 * const odd = (n: number): Lazy<boolean> => n === 0 ? now(false) : now(n - 1).flatMap(even);
+	 * even(100_000).run() // true
+	 * ```
+	 */
+	flatMap: <U>(mapper: (value: T) => Lazy<U>) => Lazy<U>;
+
+	/**
+	 * Performs a side effect with the value when it is computed, returning a Lazy that produces the same value.
+	 *
+	 * @param sideEffect - Function to execute with the value (return value is ignored)
+	 * @returns Lazy producing the same value
+	 *
+	 * @example
+	 * ```typescript
+	 * later(loadConfig).tap(config => console.log("Loaded", config))
+	 * ```
+	 */
+	tap: (sideEffect: (value: T) => void) => Lazy<T>;
+
+	/**
+	 * Returns a Lazy that computes this one at most once and caches the result.
+	 * If the computation throws, nothing is cached and the next run tries again.
+	 *
+	 * @returns Lazy that caches the value on first run
+	 *
+	 * @example
+	 * ```typescript
+	 * const config = always(loadConfig).map(validate).memoize();
+	 * config.run(); // loads and validates
+	 * config.run(); // cached
+	 * ```
+	 */
+	memoize: () => Lazy<T>;
+
+	/**
+	 * Wraps the value in a record under the given key.
+	 * This is usually the first step of do-notation.
+	 *
+	 * @param key - The key to store the value under
+	 * @returns Lazy producing a record with the value under `key`
+	 *
+	 * @example
+	 * ```typescript
+	 * now(5).bindTo("x").run() // { x: 5 }
+	 * ```
+	 */
+	bindTo: <K extends string>(key: K) => Lazy<{ readonly [P in K]: T }>;
+
+	/**
+	 * Adds the value of a Lazy computed from the current record under a new key.
+	 *
+	 * @param key - The key to store the value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns a Lazy
+	 * @returns Lazy producing the extended record
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.bind("config", () => later(loadConfig)).bind("db", ({ config }) => later(() => connect(config)))
+	 * ```
+	 */
+	bind: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => Lazy<U>,
+	) => Lazy<T & { readonly [P in K]: U }>;
+
+	/**
+	 * Adds a plain value computed from the current record under a new key.
+	 *
+	 * @param key - The key to store the value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns a value
+	 * @returns Lazy producing the extended record
+	 *
+	 * @example
+	 * ```typescript
+	 * now(5).bindTo("x").let("double", ({ x }) => x * 2).run() // { x: 5, double: 10 }
+	 * ```
+	 */
+	let: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => U,
+	) => Lazy<T & { readonly [P in K]: U }>;
+
+	/**
+	 * Adds the value of another Lazy under a new key.
+	 *
+	 * @param key - The key to store the value under (must not already exist)
+	 * @param other - The Lazy whose value is added
+	 * @returns Lazy producing the extended record
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.apS("config", later(loadConfig)).apS("schema", later(loadSchema))
+	 * ```
+	 */
+	apS: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		other: Lazy<U>,
+	) => Lazy<T & { readonly [P in K]: U }>;
+
+	/**
+	 * Computes the value and returns it as an Option, turning a thrown exception into None.
+	 *
+	 * @returns Some with the value, or None if the computation throws
+	 *
+	 * @example
+	 * ```typescript
+	 * later(() => JSON.parse(input)).toOption() // Some(parsed) or None
+	 * ```
+	 */
+	toOption: () => Option<T>;
+
+	/**
+	 * Computes the value and returns it as an Either, turning a thrown exception into a Left.
+	 *
+	 * @typeParam E - The type of the error
+	 * @param onThrow - Function to convert the thrown exception into an error
+	 * @returns Right with the value, or Left with the converted exception
+	 *
+	 * @example
+	 * ```typescript
+	 * later(() => JSON.parse(input)).toEither(err => `Invalid JSON: ${err}`)
+	 * ```
+	 */
+	toEither: <E>(onThrow: (err: unknown) => E) => Either<E, T>;
+
+	/**
+	 * Computes and returns the value. A Lazy created with `later` or `memoize` computes it only once.
+	 *
+	 * @returns The value
+	 *
+	 * @example
+	 * ```typescript
+	 * later(() => expensive()).run()
+	 * ```
+	 */
+	run: () => T;
+};
+
+type Continuation = (value: unknown) => Lazy<unknown>;
+
+type Step =
+	| { readonly run: LazyValue<unknown> }
+	| { readonly source: Step; readonly next: Continuation }
+	| Memo;
+
+/**
+ * A step whose value is cached once `interpret` has computed it.
+ */
+type Memo = {
+	readonly memoized: Step;
+	cached: { readonly value: unknown } | undefined;
+};
+
+const steps = new WeakMap<object, Step>();
+
+export function createLazy<T>(thunk: LazyValue<T>): Lazy<T> {
+	return fromStep({ run: thunk });
+}
+
+function fromStep<T>(step: Step): Lazy<T> {
+	const lazy: Lazy<T> = {
+		map: <U>(mapper: (value: T) => U): Lazy<U> =>
+			lazy.flatMap((value) => createLazy(() => mapper(value))),
+
+		ap: function <A, U>(this: Lazy<(a: A) => U>, arg: Lazy<A>): Lazy<U> {
+			return this.flatMap((fn) => arg.map(fn));
+		},
+
+		zip: <A>(other: Lazy<A>): Lazy<readonly [T, A]> =>
+			lazy.map((value) => (a: A) => [value, a] as const).ap(other),
+
+		flatMap: <U>(mapper: (value: T) => Lazy<U>): Lazy<U> =>
+			fromStep({ source: step, next: mapper as Continuation }),
+
+		tap: (sideEffect) =>
+			lazy.map((value) => {
+				sideEffect(value);
+				return value;
+			}),
+
+		memoize: () => fromStep({ memoized: step, cached: undefined }),
+
+		bindTo: <K extends string>(key: K) =>
+			lazy.map((value) => ({ [key]: value }) as { readonly [P in K]: T }),
+
+		bind: <K extends string, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => Lazy<U>,
+		) =>
+			lazy.flatMap((scope) =>
+				mapper(scope).map((value) => extend<T, K, U>(scope, key, value)),
+			),
+
+		let: <K extends string, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => U,
+		) => lazy.map((scope) => extend<T, K, U>(scope, key, mapper(scope))),
+
+		apS: <K extends string, U>(key: Exclude<K, keyof T>, other: Lazy<U>) =>
+			lazy
+				.zip(other)
+				.map(([scope, value]) => extend<T, K, U>(scope, key, value)),
+
+		toOption: () => lazy.toEither(() => undefined).toOption(),
+
+		toEither: <E>(onThrow: (err: unknown) => E): Either<E, T> =>
+			tryCatch(() => lazy.run(), onThrow),
+
+		run: () => interpret(step) as T,
+	};
+
+	steps.set(lazy, step);
+	return lazy;
+}
+
+/**
+ * Runs a chain of steps in a loop with an explicit stack of continuations - a trampoline -
+ * so neither long `flatMap` chains nor recursive definitions grow the call stack.
+ * Memoized steps sit on the same stack and cache the value computed beneath them;
+ * if that computation throws, they are unwound without caching anything.
+ */
+function interpret(root: Step): unknown {
+	const frames: (Continuation | Memo)[] = [];
+	let current = root;
+
+	for (;;) {
+		if ("source" in current) {
+			frames.push(current.next);
+			current = current.source;
+			continue;
+		}
+
+		let value: unknown;
+		if ("memoized" in current) {
+			if (current.cached === undefined) {
+				frames.push(current);
+				current = current.memoized;
+				continue;
+			}
+			value = current.cached.value;
+		} else {
+			value = current.run();
+		}
+
+		for (;;) {
+			const frame = frames.pop();
+			if (frame === undefined) {
+				return value;
+			}
+			if (typeof frame === "function") {
+				current = stepOf(frame(value));
+				break;
+			}
+			frame.cached = { value };
+		}
+	}
+}
+
+function stepOf(lazy: Lazy<unknown>): Step {
+	return steps.get(lazy) ?? { run: () => lazy.run() };
+}
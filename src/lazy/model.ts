@@ -0,0 +1 @@
+export type LazyValue<T> = () => T;
@@ -0,0 +1,3 @@
+export * from "./nonEmptyArray/constructors.js";
+export * from "./nonEmptyArray/helpers.js";
+export type { NonEmptyArray } from "./nonEmptyArray/model.js";
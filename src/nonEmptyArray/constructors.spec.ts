@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { fromArray, nonEmptyArray } from "./constructors.js";
+
+describe("nonEmptyArray constructors", () => {
+	describe("nonEmptyArray", () => {
+		it("should create an array of all given elements in order", () => {
+			expect(nonEmptyArray(1, 2, 3)).toEqual([1, 2, 3]);
+		});
+
+		it("should create a single-element array", () => {
+			expect(nonEmptyArray("a")).toEqual(["a"]);
+		});
+	});
+
+	describe("fromArray", () => {
+		it("should return Some for a non-empty array", () => {
+			expect(fromArray([1, 2]).toNullable()).toEqual([1, 2]);
+		});
+
+		it("should return None for an empty array", () => {
+			expect(fromArray([]).isNone()).toBe(true);
+		});
+	});
+});
@@ -0,0 +1,36 @@
+import { none, some } from "../option/constructors.js";
+import type { Option } from "../option/option.js";
+import { isNonEmpty } from "./helpers.js";
+import type { NonEmptyArray } from "./model.js";
+
+/**
+ * Creates a NonEmptyArray from a first element and any number of further elements.
+ *
+ * @param head - The first element
+ * @param tail - The remaining elements
+ * @returns NonEmptyArray containing all given elements in order
+ *
+ * @example
+ * ```typescript
+ * nonEmptyArray(1, 2, 3) // [1, 2, 3] typed as NonEmptyArray<number>
+ * ```
+ */
+export function nonEmptyArray<T>(head: T, ...tail: T[]): NonEmptyArray<T> {
+	return [head, ...tail];
+}
+
+/**
+ * Converts an array into a NonEmptyArray, if it has at least one element.
+ *
+ * @param items - The array to convert
+ * @returns Some with the NonEmptyArray, or None if the array is empty
+ *
+ * @example
+ * ```typescript
+ * fromArray([1, 2]) // Some([1, 2])
+ * fromArray([])     // None
+ * ```
+ */
+export function fromArray<T>(items: readonly T[]): Option<NonEmptyArray<T>> {
+	return isNonEmpty(items) ? some(items) : none();
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { nonEmptyArray } from "./constructors.js";
+import {
+	concat,
+	groupBy,
+	head,
+	isNonEmpty,
+	last,
+	map,
+	tail,
+} from "./helpers.js";
+import type { NonEmptyArray } from "./model.js";
+
+describe("nonEmptyArray helpers", () => {
+	describe("isNonEmpty", () => {
+		it("should narrow a non-empty array", () => {
+			const items: readonly number[] = [1];
+			expect(isNonEmpty(items)).toBe(true);
+			expect(isNonEmpty([])).toBe(false);
+		});
+	});
+
+	describe("head", () => {
+		it("should return the first element", () => {
+			expect(head(nonEmptyArray(1, 2, 3))).toBe(1);
+		});
+	});
+
+	describe("last", () => {
+		it("should return the last element", () => {
+			expect(last(nonEmptyArray(1, 2, 3))).toBe(3);
+			expect(last(nonEmptyArray(1))).toBe(1);
+		});
+	});
+
+	describe("tail", () => {
+		it("should return every element but the first", () => {
+			expect(tail(nonEmptyArray(1, 2, 3))).toEqual([2, 3]);
+			expect(tail(nonEmptyArray(1))).toEqual([]);
+		});
+	});
+
+	describe("map", () => {
+		it("should transform every element and pass the index", () => {
+			const result: NonEmptyArray<string> = map(
+				nonEmptyArray("a", "b"),
+				(item, i) => `${i}${item}`,
+			);
+			expect(result).toEqual(["0a", "1b"]);
+		});
+	});
+
+	describe("concat", () => {
+		it("should append a possibly empty array to a non-empty one", () => {
+			expect(concat(nonEmptyArray(1), [2, 3])).toEqual([1, 2, 3]);
+			expect(concat(nonEmptyArray(1), [])).toEqual([1]);
+		});
+
+		it("should prepend a possibly empty array to a non-empty one", () => {
+			expect(concat([], nonEmptyArray(1))).toEqual([1]);
+		});
+	});
+
+	describe("groupBy", () => {
+		it("should group elements by key, keeping their order", () => {
+			const errors = [
+				{ field: "email", message: "required" },
+				{ field: "password", message: "too short" },
+				{ field: "password", message: "needs a digit" },
+			];
+			expect(groupBy(errors, (e) => e.field)).toEqual({
+				email: [{ field: "email", message: "required" }],
+				password: [
+					{ field: "password", message: "too short" },
+					{ field: "password", message: "needs a digit" },
+				],
+			});
+		});
+
+		it("should return an empty record for an empty array", () => {
+			expect(groupBy([], String)).toEqual({});
+		});
+
+		it("should treat keys named like Object.prototype properties as plain keys", () => {
+			const keys = ["constructor", "toString", "__proto__", "toString"];
+			const groups = groupBy(keys, (key) => key);
+			expect(Object.keys(groups)).toEqual([
+				"constructor",
+				"toString",
+				"__proto__",
+			]);
+			expect(groups.constructor).toEqual(["constructor"]);
+			expect(groups.toString).toEqual(["toString", "toString"]);
+			expect(
+				Object.getOwnPropertyDescriptor(groups, "__proto__")?.value,
+			).toEqual(["__proto__"]);
+		});
+	});
+});
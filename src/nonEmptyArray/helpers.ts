@@ -0,0 +1,147 @@
+import type { NonEmptyArray } from "./model.js";
+
+/**
+ * Checks whether an array has at least one element, narrowing it to a NonEmptyArray.
+ *
+ * @param items - The array to check
+ * @returns `true` if the array is not empty
+ *
+ * @example
+ * ```typescript
+ * if (isNonEmpty(errors)) {
+ *   head(errors); // safe
+ * }
+ * ```
+ */
+export function isNonEmpty<T>(items: readonly T[]): items is NonEmptyArray<T> {
+	return items.length > 0;
+}
+
+/**
+ * Returns the first element of a NonEmptyArray.
+ *
+ * @param items - The NonEmptyArray
+ * @returns The first element - always present
+ *
+ * @example
+ * ```typescript
+ * head(nonEmptyArray(1, 2, 3)) // 1
+ * ```
+ */
+export function head<T>(items: NonEmptyArray<T>): T {
+	return items[0];
+}
+
+/**
+ * Returns the last element of a NonEmptyArray.
+ *
+ * @param items - The NonEmptyArray
+ * @returns The last element - always present
+ *
+ * @example
+ * ```typescript
+ * last(nonEmptyArray(1, 2, 3)) // 3
+ * ```
+ */
+export function last<T>(items: NonEmptyArray<T>): T {
+	return items[items.length - 1] as T;
+}
+
+/**
+ * Returns every element of a NonEmptyArray except the first one.
+ *
+ * @param items - The NonEmptyArray
+ * @returns The remaining elements, possibly empty
+ *
+ * @example
+ * ```typescript
+ * tail(nonEmptyArray(1, 2, 3)) // [2, 3]
+ * tail(nonEmptyArray(1))       // []
+ * ```
+ */
+export function tail<T>(items: NonEmptyArray<T>): readonly T[] {
+	return items.slice(1);
+}
+
+/**
+ * Transforms every element of a NonEmptyArray, keeping it non-empty.
+ *
+ * @param items - The NonEmptyArray to transform
+ * @param mapper - Function that receives each element and its index
+ * @returns NonEmptyArray of the transformed elements
+ *
+ * @example
+ * ```typescript
+ * map(nonEmptyArray(1, 2), x => x * 10) // [10, 20]
+ * ```
+ */
+export function map<T, U>(
+	items: NonEmptyArray<T>,
+	mapper: (item: T, index: number) => U,
+): NonEmptyArray<U> {
+	return items.map(mapper) as unknown as NonEmptyArray<U>;
+}
+
+/**
+ * Concatenates two arrays where at least one of them is non-empty.
+ *
+ * @param first - The leading elements
+ * @param second - The trailing elements
+ * @returns NonEmptyArray with the elements of `first` followed by those of `second`
+ *
+ * @example
+ * ```typescript
+ * concat(nonEmptyArray("e1"), ["e2", "e3"]) // ["e1", "e2", "e3"]
+ * concat([], nonEmptyArray("e1"))           // ["e1"]
+ * ```
+ */
+export function concat<T>(
+	first: NonEmptyArray<T>,
+	second: readonly T[],
+): NonEmptyArray<T>;
+export function concat<T>(
+	first: readonly T[],
+	second: NonEmptyArray<T>,
+): NonEmptyArray<T>;
+export function concat<T>(
+	first: readonly T[],
+	second: readonly T[],
+): NonEmptyArray<T> {
+	return [...first, ...second] as unknown as NonEmptyArray<T>;
+}
+
+/**
+ * Groups the elements of an array by a key. Every group in the result is non-empty,
+ * and elements keep their relative order within their group.
+ *
+ * @param items - The array to group
+ * @param keyOf - Function that returns the group key of an element
+ * @returns Record from each key to the NonEmptyArray of elements with that key
+ *
+ * @example
+ * ```typescript
+ * groupBy(errors, e => e.field)
+ * // { email: [{ field: "email", ... }], password: [{ field: "password", ... }, ...] }
+ * ```
+ */
+export function groupBy<T, K extends string>(
+	items: readonly T[],
+	keyOf: (item: T) => K,
+): Partial<Record<K, NonEmptyArray<T>>> {
+	// a Map, so keys such as "constructor" are not mistaken for inherited properties
+	const groups = new Map<K, T[]>();
+
+	for (const item of items) {
+		const key = keyOf(item);
+		const group = groups.get(key);
+		if (group) {
+			group.push(item);
+		} else {
+			groups.set(key, [item]);
+		}
+	}
+
+	return Object.fromEntries(groups) as unknown as Partial<
+		Record<K, NonEmptyArray<T>>
+	>;
+}
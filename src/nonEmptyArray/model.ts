@@ -0,0 +1 @@
+export type NonEmptyArray<T> = readonly [T, ...T[]];
@@ -1,6 +1,16 @@
 import { describe, expect, it } from "vitest";
 import { left, right } from "../either.js";
-import { fromEither, fromNullable, none, some } from "./constructors.js";
+import { invalid, valid } from "../validation.js";
+import {
+	Do,
+	fromEither,
+	fromNullable,
+	fromPredicate,
+	fromValidation,
+	none,
+	some,
+} from "./constructors.js";
+import type { Option } from "./option.js";
 
 describe("option constructors", () => {
 	describe("some", () => {
@@ -37,4 +47,31 @@ describe("option constructors", () => {
 			expect(opt.toNullable()).toBe(null);
 		});
 	});
+
+	describe("fromValidation", () => {
+		it("should return some on valid and none on invalid", () => {
+			expect(fromValidation(valid(0)).toNullable()).toBe(0);
+			expect(fromValidation(invalid("error")).toNullable()).toBe(null);
+		});
+	});
+
+	describe("fromPredicate", () => {
+		it("should return some when the predicate holds and none otherwise", () => {
+			expect(fromPredicate(0, (n) => n >= 0).toNullable()).toBe(0);
+			expect(fromPredicate(-1, (n) => n >= 0).toNullable()).toBe(null);
+		});
+
+		it("should narrow the value type with a type guard", () => {
+			const isString = (x: unknown): x is string => typeof x === "string";
+			const value: string | number = "a";
+			const opt: Option<string> = fromPredicate(value, isString);
+			expect(opt.toNullable()).toBe("a");
+		});
+	});
+
+	describe("Do", () => {
+		it("should be some empty record", () => {
+			expect(Do.toNullable()).toEqual({});
+		});
+	});
 });
@@ -1,4 +1,5 @@
 import type { Either } from "../either.js";
+import type { Validation } from "../validation.js";
 import { NONE } from "./model.js";
 import { createOption, type Option } from "./option.js";
 
@@ -49,6 +50,39 @@ export function fromNullable<T>(nullable: null | undefined | T): Option<T> {
 	return nullable == null ? none() : some<T>(nullable);
 }
 
+/**
+ * Creates an Option from a value and a predicate.
+ * Returns Some if the predicate holds for the value, otherwise None.
+ * When the predicate is a type guard, the value type is narrowed accordingly.
+ *
+ * @param value - The value to test
+ * @param predicate - Function that tests the value
+ * @returns Some containing the value if the predicate holds, otherwise None
+ *
+ * @example
+ * ```typescript
+ * fromPredicate(5, (n) => n > 0)  // Some(5)
+ * fromPredicate(-5, (n) => n > 0) // None
+ *
+ * const isString = (x: unknown): x is string => typeof x === "string";
+ * fromPredicate(input as string | number, isString) // Option<string>
+ * ```
+ */
+export function fromPredicate<T, U extends T>(
+	value: T,
+	refinement: (value: T) => value is U,
+): Option<U>;
+export function fromPredicate<T>(
+	value: T,
+	predicate: (value: T) => boolean,
+): Option<T>;
+export function fromPredicate<T>(
+	value: T,
+	predicate: (value: T) => boolean,
+): Option<T> {
+	return predicate(value) ? some(value) : none<T>();
+}
+
 /**
  * Creates an {@link Option} from an {@link Either} by extracting the Right value.
  *
@@ -75,3 +109,33 @@ export function fromEither<L, R>(either: Either<L, R>): Option<R> {
 		(right) => some(right),
 	);
 }
+
+/**
+ * Converts a Validation to an Option.
+ * Valid becomes Some, Invalid becomes None (discarding the errors).
+ *
+ * @param validation - The Validation to convert to an Option
+ * @returns Some containing the valid value, or None if the Validation was Invalid
+ *
+ * @example
+ * ```typescript
+ * fromValidation(valid(42))        // Some(42)
+ * fromValidation(invalid("error")) // None
+ * ```
+ */
+export function fromValidation<E, T>(validation: Validation<E, T>): Option<T> {
+	return validation.toOption();
+}
+
+/**
+ * An {@link Option} containing an empty record - the starting point of do-notation.
+ * Use `bind`, `let` and `apS` to add named values to the record step by step.
+ *
+ * @example
+ * ```typescript
+ * Do.bind("x", () => some(2))
+ *   .bind("y", ({ x }) => some(x * 3))
+ *   .let("sum", ({ x, y }) => x + y) // Some({ x: 2, y: 6, sum: 8 })
+ * ```
+ */
+export const Do: Option<Readonly<Record<never, never>>> = some({});
@@ -1,6 +1,24 @@
 import { describe, expect, it, vi } from "vitest";
+import { left, right } from "../either/constructors.js";
+import { task } from "../task/constructors.js";
+import { taskEither, taskLeft } from "../taskEither/constructors.js";
+import { traversableSpec } from "../testUtils/traversable.js";
 import { none, some } from "./constructors.js";
-import { map2, map3, sequence } from "./helpers.js";
+import {
+	gen,
+	map2,
+	map3,
+	mapN,
+	sequence,
+	struct,
+	traverse,
+	traverseEither,
+	traverseTask,
+	traverseTaskEither,
+	traverseWithIndex,
+	zipAll,
+} from "./helpers.js";
+import type { Option } from "./option.js";
 
 describe("option helpers", () => {
 	describe("map2", () => {
@@ -49,6 +67,62 @@ describe("option helpers", () => {
 		});
 	});
 
+	describe("mapN", () => {
+		it("should only accept Options", () => {
+			// @ts-expect-error numbers are not Options
+			const invalid = () => mapN([1, 2], (a, b) => [a, b]);
+			expect(invalid).toThrow(TypeError);
+		});
+
+		it("should map all some values", () => {
+			const res = mapN([some(2), some("x"), some(true)], (a, b, c) =>
+				c ? b.repeat(a) : b,
+			);
+			expect(res.toNullable()).toBe("xx");
+		});
+
+		it("should not call the mapper and return none when one of the values is none", () => {
+			const mapper = vi.fn();
+			const res = mapN([some(2), none<string>(), some(true)], mapper);
+			expect(res.toNullable()).toBe(null);
+			expect(mapper).not.toBeCalled();
+		});
+	});
+
+	describe("zipAll", () => {
+		it("should return some tuple of all values", () => {
+			const res = zipAll(some(1), some("two"), some(true));
+			expect(res.toNullable()).toEqual([1, "two", true]);
+		});
+
+		it("should return none when one of the values is none", () => {
+			const res = zipAll(some(1), none<string>());
+			expect(res.toNullable()).toBe(null);
+		});
+	});
+
+	describe("struct", () => {
+		it("should only accept records of Options", () => {
+			// @ts-expect-error plain values are not Options
+			const invalid = () => struct({ name: "Alice", age: 30 });
+			expect(invalid).toThrow(TypeError);
+		});
+
+		it("should return some record of all values", () => {
+			const res = struct({ name: some("Alice"), age: some(30) });
+			expect(res.toNullable()).toEqual({ name: "Alice", age: 30 });
+		});
+
+		it("should return none when one of the values is none", () => {
+			const res = struct({ name: some("Alice"), age: none<number>() });
+			expect(res.toNullable()).toBe(null);
+		});
+
+		it("should return some empty record for an empty record", () => {
+			expect(struct({}).toNullable()).toEqual({});
+		});
+	});
+
 	describe("sequence", () => {
 		it("should return an option with the array of values when no none", () => {
 			const res = sequence([some(1), some(2), some(3)]);
@@ -60,4 +134,159 @@ describe("option helpers", () => {
 			expect(res.toNullable()).toBe(null);
 		});
 	});
+
+	describe("gen", () => {
+		it("should unwrap some values and return some of the result", () => {
+			const res = gen(function* () {
+				const a = yield* some(2);
+				const b = yield* some(3);
+				return a * b;
+			});
+			expect(res.toNullable()).toBe(6);
+		});
+
+		it("should unwrap falsy some values", () => {
+			const res = gen(function* () {
+				const a = yield* some(0);
+				const b = yield* some("");
+				return [a, b];
+			});
+			expect(res.toNullable()).toEqual([0, ""]);
+		});
+
+		it("should short-circuit on the first none", () => {
+			const after = vi.fn();
+			const res = gen(function* () {
+				const a = yield* some(2);
+				const b = yield* none<number>();
+				after();
+				return a * b;
+			});
+			expect(res.toNullable()).toBe(null);
+			expect(after).not.toHaveBeenCalled();
+		});
+
+		it("should run the generator's finally blocks on short-circuit", () => {
+			const cleanup = vi.fn();
+			const res = gen(function* () {
+				try {
+					return yield* none<number>();
+				} finally {
+					cleanup();
+				}
+			});
+			expect(res.isNone()).toBe(true);
+			expect(cleanup).toHaveBeenCalledOnce();
+		});
+
+		it("should not overflow the stack on long loops of yield*", () => {
+			const res = gen(function* () {
+				let sum = 0;
+				for (let i = 0; i < 100_000; i++) {
+					sum += yield* some(1);
+				}
+				return sum;
+			});
+			expect(res.toNullable()).toBe(100_000);
+		});
+
+		it("should only accept options from yield*", () => {
+			const foreign = () =>
+				// @ts-expect-error an Either is not an Option
+				gen(function* () {
+					return yield* right(1);
+				});
+			expect(foreign).toThrow(TypeError);
+		});
+	});
+
+	describe("traverse", () => {
+		it("should not call the mapper after the first none", () => {
+			const mapper = vi.fn((x: number) => (x === 2 ? none<number>() : some(x)));
+			const res = traverse([1, 2, 3], mapper);
+			expect(res.toNullable()).toBe(null);
+			expect(mapper).toHaveBeenCalledTimes(2);
+		});
+	});
+
+	describe(
+		"traversable",
+		traversableSpec<Option<unknown>, Option<unknown[]>>({
+			of: (value) => some(value),
+			fail: () => none(),
+			sequence,
+			traverse,
+			traverseWithIndex,
+			asTag: (opt) =>
+				opt.match(
+					() => ({ tag: "NONE" }),
+					(some) => ({ tag: "SOME", some }),
+				),
+		}),
+	);
+
+	describe("traverseTask", () => {
+		it("should return a task of some with the mapped value", async () => {
+			const t = traverseTask(some(2), (x) => task(x * 2));
+			expect((await t.run()).toNullable()).toBe(4);
+		});
+
+		it("should return a task of none without calling the mapper", async () => {
+			const mapper = vi.fn((x: number) => task(x));
+			const t = traverseTask(none<number>(), mapper);
+			expect((await t.run()).toNullable()).toBe(null);
+			expect(mapper).not.toHaveBeenCalled();
+		});
+
+		it("should not call the mapper until run() is called", async () => {
+			const mapper = vi.fn((x: number) => task(x));
+			const t = traverseTask(some(0), mapper);
+			expect(mapper).not.toHaveBeenCalled();
+			expect((await t.run()).toArray()).toEqual([0]);
+		});
+	});
+
+	describe("traverseTaskEither", () => {
+		it("should return right of some with the mapped value", async () => {
+			const te = traverseTaskEither(some(2), (x) => taskEither(x * 2));
+			const result = (await te.run()).map((opt) => opt.toNullable());
+			expect(result.toResult()).toEqual(right(4).toResult());
+		});
+
+		it("should return right of none without calling the mapper", async () => {
+			const mapper = vi.fn((x: number) => taskEither(x));
+			const te = traverseTaskEither(none<number>(), mapper);
+			const result = (await te.run()).map((opt) => opt.toNullable());
+			expect(result.toResult()).toEqual(right(null).toResult());
+			expect(mapper).not.toHaveBeenCalled();
+		});
+
+		it("should return the left of the mapped task either", async () => {
+			const te = traverseTaskEither(some(2), () => taskLeft("error"));
+			expect((await te.run()).toResult()).toEqual(left("error").toResult());
+		});
+	});
+
+	describe("traverseEither", () => {
+		it("should return right of some with the mapped value", () => {
+			const either = traverseEither(some(2), (x) => right(x * 2));
+			expect(either.map((opt) => opt.toNullable()).toResult()).toEqual(
+				right(4).toResult(),
+			);
+		});
+
+		it("should return right of none without calling the mapper", () => {
+			const mapper = vi.fn((x: number) => right(x));
+			const either = traverseEither(none<number>(), mapper);
+			expect(either.map((opt) => opt.toNullable()).toResult()).toEqual(
+				right(null).toResult(),
+			);
+			expect(mapper).not.toHaveBeenCalled();
+		});
+
+		it("should return the left of the mapped either", () => {
+			const either = traverseEither(some(2), () => left("error"));
+			expect(either.toResult()).toEqual(left("error").toResult());
+		});
+	});
 });
@@ -1,5 +1,10 @@
+import { right } from "../either/constructors.js";
+import type { Either } from "../either/either.js";
+import { fromEntries } from "../internal/record.js";
+import { createTask, type Task } from "../task/task.js";
+import { createTaskEither, type TaskEither } from "../taskEither/taskEither.js";
 import { none, some } from "./constructors.js";
-import type { Option } from "./option.js";
+import type { AnyOption, Option } from "./option.js";
 
 /**
  * Combines two Options using a mapping function.
@@ -16,6 +21,8 @@ import type { Option } from "./option.js";
  * map2(some("John"), some("Doe"), greet) // Some("John Doe")
  * map2(some("John"), none<string>(), greet) // None
  * ```
+ *
+ * @deprecated Use {@link mapN} instead, e.g. `mapN([optA, optB], mapper)`.
  */
 export function map2<A, B, C>(
 	optA: Option<A>,
@@ -41,6 +48,8 @@ export function map2<A, B, C>(
  * map3(some(15), some(6), some(2023), toDateString) // Some("15/6/2023")
  * map3(some(15), some(6), none<number>(), toDateString) // None
  * ```
+ *
+ * @deprecated Use {@link mapN} instead, e.g. `mapN([optA, optB, optC], mapper)`.
  */
 export function map3<A, B, C, D>(
 	optA: Option<A>,
@@ -54,6 +63,82 @@ export function map3<A, B, C, D>(
 		.ap(optC);
 }
 
+type ValuesOf<Opts extends readonly unknown[]> = {
+	[K in keyof Opts]: Opts[K] extends Option<infer A> ? A : never;
+};
+
+/**
+ * Combines any number of Options using a mapping function.
+ * Only applies the mapper if every Option contains a value.
+ * The mapper receives the values in the same order, with their types inferred from the tuple.
+ *
+ * @param opts - Tuple of Options to combine
+ * @param mapper - Function that receives every value and combines them
+ * @returns Option containing the combined result, or None if any Option is None
+ *
+ * @example
+ * ```typescript
+ * const toDateString = (d: number, m: number, y: number) => `${d}/${m}/${y}`
+ * mapN([some(15), some(6), some(2023)], toDateString) // Some("15/6/2023")
+ * mapN([some(15), none<number>(), some(2023)], toDateString) // None
+ * ```
+ */
+export function mapN<const Opts extends readonly AnyOption[], U>(
+	opts: Opts,
+	mapper: (...values: ValuesOf<Opts>) => U,
+): Option<U> {
+	return sequence(opts as unknown as Option<unknown>[]).map((values) =>
+		mapper(...(values as unknown as ValuesOf<Opts>)),
+	);
+}
+
+/**
+ * Combines any number of Options into an Option of tuple.
+ * If every Option contains a value, returns Some containing a tuple of all values.
+ * If any Option is None, returns None.
+ *
+ * @param opts - Options to combine
+ * @returns Option containing a tuple of all values, or None if any Option is None
+ *
+ * @example
+ * ```typescript
+ * zipAll(some("Alice"), some(30), some(true)) // Some(["Alice", 30, true])
+ * zipAll(some("Alice"), none<number>())       // None
+ * ```
+ */
+export function zipAll<const Opts extends readonly AnyOption[]>(
+	...opts: Opts
+): Option<ValuesOf<Opts>> {
+	return mapN(opts, (...values) => values);
+}
+
+type StructOf<R> = {
+	[K in keyof R]: R[K] extends Option<infer A> ? A : never;
+};
+
+/**
+ * Combines a record of Options into an Option of record, preserving the keys and their value types.
+ * If every Option contains a value, returns Some containing a record of all values.
+ * If any Option is None, returns None.
+ *
+ * @param record - Record whose values are Options
+ * @returns Some containing a record of all values, or None if any Option is None
+ *
+ * @example
+ * ```typescript
+ * struct({ name: some("Alice"), age: some(30) }) // Some({ name: "Alice", age: 30 })
+ * struct({ name: some("Alice"), age: none<number>() }) // None
+ * ```
+ */
+export function struct<R extends Readonly<Record<string, AnyOption>>>(
+	record: R,
+): Option<StructOf<R>> {
+	const keys = Object.keys(record);
+	return sequence(keys.map((key) => record[key] as Option<unknown>)).map(
+		(values) => fromEntries<StructOf<R>>(keys, values),
+	);
+}
+
 /**
  * Converts an array of Options into an Option of array.
  * If all Options in the array contain values, returns Some containing an array of all values.
@@ -69,15 +154,179 @@ export function map3<A, B, C, D>(
  * ```
  */
 export function sequence<T>(opts: Option<T>[]): Option<T[]> {
-	const out: T[] = [];
+	return traverse(opts, (opt) => opt);
+}
 
-	for (const opt of opts) {
-		const [value] = opt.toArray();
-		if (!value) {
-			return none<T[]>();
+/**
+ * Maps each item of an array to an Option and collects the results into an Option of array.
+ * If every mapped Option contains a value, returns Some containing an array of all values.
+ * Stops at the first None and returns None without calling the mapper for the remaining items.
+ *
+ * @param items - Array of items to map
+ * @param mapper - Function that maps an item to an Option
+ * @returns Some containing array of all mapped values, or None if any mapped Option is None
+ *
+ * @example
+ * ```typescript
+ * const parse = (s: string) => fromNullable(Number.isNaN(Number(s)) ? null : Number(s))
+ * traverse(["1", "2", "3"], parse) // Some([1, 2, 3])
+ * traverse(["1", "x", "3"], parse) // None
+ * ```
+ */
+export function traverse<A, B>(
+	items: readonly A[],
+	mapper: (item: A) => Option<B>,
+): Option<B[]> {
+	return traverseWithIndex(items, (item) => mapper(item));
+}
+
+/**
+ * Like {@link traverse}, but the mapper also receives the index of each item.
+ *
+ * @param items - Array of items to map
+ * @param mapper - Function that maps an item and its index to an Option
+ * @returns Some containing array of all mapped values, or None if any mapped Option is None
+ *
+ * @example
+ * ```typescript
+ * traverseWithIndex(["a", "b"], (s, i) => some(`${i}:${s}`)) // Some(["0:a", "1:b"])
+ * ```
+ */
+export function traverseWithIndex<A, B>(
+	items: readonly A[],
+	mapper: (item: A, index: number) => Option<B>,
+): Option<B[]> {
+	const out: B[] = [];
+
+	for (const [index, item] of items.entries()) {
+		const values = mapper(item, index).toArray();
+		if (values.length === 0) {
+			return none<B[]>();
 		}
-		out.push(value);
+		out.push(...values);
 	}
 
 	return some(out);
 }
+
+/**
+ * Maps the value of an Option to a Task and flips the result into a Task of Option.
+ * The mapper is only called when the Option is Some, and not until the Task is run.
+ *
+ * @param option - Option holding the input value
+ * @param mapper - Function that maps the value to a Task
+ * @returns Task resolving with Some of the mapped value, or None if the Option is None
+ *
+ * @example
+ * ```typescript
+ * await traverseTask(some(1), fetchUser).run() // Some(user)
+ * await traverseTask(none<number>(), fetchUser).run() // None, fetchUser is not called
+ * ```
+ */
+export function traverseTask<A, B>(
+	option: Option<A>,
+	mapper: (value: A) => Task<B>,
+): Task<Option<B>> {
+	return createTask((signal) =>
+		option.match(
+			() => Promise.resolve(none<B>()),
+			(value) => mapper(value).map(some).run(signal),
+		),
+	);
+}
+
+/**
+ * Maps the value of an Option to a TaskEither and flips the result into a TaskEither of Option.
+ * The mapper is only called when the Option is Some, and not until the TaskEither is run.
+ *
+ * @param option - Option holding the input value
+ * @param mapper - Function that maps the value to a TaskEither
+ * @returns TaskEither resolving with Right of Some of the mapped value, Right of None if the Option is None,
+ * or the Left returned by the mapper
+ *
+ * @example
+ * ```typescript
+ * await traverseTaskEither(some(userId), fetchUser).run() // Right(Some(user))
+ * await traverseTaskEither(none<UserId>(), fetchUser).run() // Right(None)
+ * ```
+ */
+export function traverseTaskEither<A, E, B>(
+	option: Option<A>,
+	mapper: (value: A) => TaskEither<E, B>,
+): TaskEither<E, Option<B>> {
+	return createTaskEither((signal) =>
+		option.match(
+			() => Promise.resolve(right<Option<B>, E>(none())),
+			(value) => mapper(value).map(some).run(signal),
+		),
+	);
+}
+
+/**
+ * Maps the value of an Option to an Either and flips the result into an Either of Option.
+ *
+ * @param option - Option holding the input value
+ * @param mapper - Function that maps the value to an Either
+ * @returns Right of Some of the mapped value, Right of None if the Option is None,
+ * or the Left returned by the mapper
+ *
+ * @example
+ * ```typescript
+ * traverseEither(some("42"), parseNumber) // Right(Some(42))
+ * traverseEither(some("x"), parseNumber) // Left("not a number")
+ * traverseEither(none<string>(), parseNumber) // Right(None)
+ * ```
+ */
+export function traverseEither<A, E, B>(
+	option: Option<A>,
+	mapper: (value: A) => Either<E, B>,
+): Either<E, Option<B>> {
+	return option.match(
+		() => right(none()),
+		(value) => mapper(value).map(some),
+	);
+}
+
+/**
+ * Runs a generator-based computation over Options (do-notation).
+ * Each `yield*` unwraps an Option: the generator resumes with the contained
+ * value on Some, and the whole computation short-circuits to None on the first None,
+ * exactly like chaining with `flatMap`. The generator is driven in a loop, so any number
+ * of `yield*` runs in constant stack space, and its `finally` blocks run on short-circuit.
+ *
+ * @param body - Generator function that yields Options and returns the final value
+ * @returns Some containing the returned value, or None if any yielded Option was None
+ *
+ * @example
+ * ```typescript
+ * gen(function* () {
+ *   const a = yield* some(2);
+ *   const b = yield* some(3);
+ *   return a * b;
+ * }) // Some(6)
+ *
+ * gen(function* () {
+ *   const a = yield* some(2);
+ *   const b = yield* none<number>();
+ *   return a * b;
+ * }) // None
+ * ```
+ */
+export function gen<T>(
+	body: () => Generator<AnyOption, T, unknown>,
+): Option<T> {
+	const iterator = body();
+	let result = iterator.next();
+
+	while (!result.done) {
+		const option = result.value as Option<unknown>;
+		if (option.isNone()) {
+			// lets the generator's finally blocks run
+			iterator.return(undefined as T);
+			return none();
+		}
+		result = iterator.next(option.getOrElse(() => undefined));
+	}
+
+	return some(result.value);
+}
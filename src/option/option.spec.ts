@@ -1,8 +1,10 @@
 import { describe, expect, it, vi } from "vitest";
+import { left, right } from "../either/constructors.js";
 import { applicativeLawsSpec } from "../testUtils/applicativeLaws.js";
 import { functorLawsSpec } from "../testUtils/functorLaws.js";
 import { monadLawsSpec } from "../testUtils/monadLaws.js";
-import { none, some } from "./constructors.js";
+import { invalid, valid } from "../validation/constructors.js";
+import { Do, none, some } from "./constructors.js";
 import type { Option } from "./option.js";
 
 type OptionTag<T> = { tag: "SOME"; some: T } | { tag: "NONE" };
@@ -27,6 +29,14 @@ describe("option", () => {
 			expect(opt.toNullable()).toEqual(null);
 			expect(predicate).not.toHaveBeenCalled();
 		});
+
+		it("should narrow the value type with a type guard", () => {
+			const isString = (x: unknown): x is string => typeof x === "string";
+			const str: Option<string> = some<string | number>("a").filter(isString);
+			const num: Option<string> = some<string | number>(1).filter(isString);
+			expect(str.toNullable()).toBe("a");
+			expect(num.toNullable()).toBe(null);
+		});
 	});
 
 	describe("map", () => {
@@ -217,12 +227,126 @@ describe("option", () => {
 		});
 	});
 
+	describe("bindTo", () => {
+		it("should wrap the some value in a record", () => {
+			expect(some(2).bindTo("x").toNullable()).toEqual({ x: 2 });
+		});
+
+		it("should return none on none", () => {
+			expect(none().bindTo("x").toNullable()).toBe(null);
+		});
+	});
+
+	describe("bind", () => {
+		it("should accumulate bound values in the record", () => {
+			const opt = Do.bind("x", () => some(2)).bind("y", ({ x }) => some(x * 3));
+			expect(opt.toNullable()).toEqual({ x: 2, y: 6 });
+		});
+
+		it("should short-circuit on none and not call later mappers", () => {
+			const mapper = vi.fn();
+			const opt = Do.bind("x", () => none<number>()).bind("y", mapper);
+			expect(opt.toNullable()).toBe(null);
+			expect(mapper).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("let", () => {
+		it("should add a computed value to the record", () => {
+			const opt = Do.bind("x", () => some(2)).let("double", ({ x }) => x * 2);
+			expect(opt.toNullable()).toEqual({ x: 2, double: 4 });
+		});
+	});
+
+	describe("apS", () => {
+		it("should add the value of an independent option to the record", () => {
+			const opt = Do.apS("x", some(2)).apS("y", some("two"));
+			expect(opt.toNullable()).toEqual({ x: 2, y: "two" });
+		});
+
+		it("should return none when the added option is none", () => {
+			const opt = Do.apS("x", some(2)).apS("y", none<string>());
+			expect(opt.toNullable()).toBe(null);
+		});
+	});
+
 	const asTag = <T>(value: Option<T>) =>
 		value.match<OptionTag<T>>(
 			() => ({ tag: "NONE" as const }),
 			(some) => ({ tag: "SOME" as const, some }),
 		);
 
+	describe("isSome", () => {
+		it("should return true on some and false on none", () => {
+			expect(some(0).isSome()).toBe(true);
+			expect(none().isSome()).toBe(false);
+		});
+	});
+
+	describe("isNone", () => {
+		it("should return true on none and false on some", () => {
+			expect(none().isNone()).toBe(true);
+			expect(some(0).isNone()).toBe(false);
+		});
+	});
+
+	describe("exists", () => {
+		it("should return the predicate result on some", () => {
+			expect(some(5).exists((n) => n > 3)).toBe(true);
+			expect(some(2).exists((n) => n > 3)).toBe(false);
+		});
+
+		it("should return false and not call the predicate on none", () => {
+			const predicate = vi.fn();
+			expect(none().exists(predicate)).toBe(false);
+			expect(predicate).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("contains", () => {
+		it("should compare the contained value with the given value", () => {
+			expect(some(5).contains(5)).toBe(true);
+			expect(some(5).contains(6)).toBe(false);
+			expect(none<number>().contains(5)).toBe(false);
+		});
+	});
+
+	describe("toEither", () => {
+		it("should return right on some and left with the provided error on none", () => {
+			expect(
+				some(5)
+					.toEither(() => "missing")
+					.toResult(),
+			).toEqual(right(5).toResult());
+			expect(
+				none()
+					.toEither(() => "missing")
+					.toResult(),
+			).toEqual(left("missing").toResult());
+		});
+
+		it("should not call onNone on some", () => {
+			const onNone = vi.fn();
+			some(5).toEither(onNone);
+			expect(onNone).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("toValidation", () => {
+		it("should return valid on some and invalid with the provided error on none", () => {
+			expect(
+				some(5)
+					.toValidation(() => "missing")
+					.toResult(),
+			).toEqual(valid(5).toResult());
+			expect(
+				none()
+					.toValidation(() => "missing")
+					.toResult(),
+			).toEqual(invalid("missing").toResult());
+		});
+	});
+
 	describe(
 		"functor laws",
 		functorLawsSpec<Option<number>>({
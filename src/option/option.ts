@@ -1,3 +1,6 @@
+import { createEither, type Either } from "../either/either.js";
+import { extend } from "../internal/record.js";
+import { createValidation, type Validation } from "../validation/validation.js";
 import { NONE, type OptionValue, type Some } from "./model.js";
 
 export type Option<T> = {
@@ -5,6 +8,7 @@ export type Option<T> = {
 	 * Filters the Option based on a predicate function.
 	 * If this Option is Some and the predicate returns true, returns this Option.
 	 * Otherwise, returns None.
+	 * When the predicate is a type guard, the value type is narrowed accordingly.
 	 *
 	 * @param predicate - Function that tests the contained value
 	 * @returns The same Option if predicate passes, None otherwise
@@ -14,9 +18,15 @@ export type Option<T> = {
 	 * some(5).filter(x => x > 3) // Some(5)
 	 * some(2).filter(x => x > 3) // None
 	 * none().filter(x => x > 3)  // None
+	 *
+	 * const isString = (x: unknown): x is string => typeof x === "string";
+	 * some<string | number>("a").filter(isString) // Option<string>
 	 * ```
 	 */
-	filter: (predicate: (value: T) => boolean) => Option<T>;
+	filter: {
+		<U extends T>(refinement: (value: T) => value is U): Option<U>;
+		(predicate: (value: T) => boolean): Option<T>;
+	};
 
 	/**
 	 * Transforms the value inside the Option using a mapping function.
@@ -204,14 +214,194 @@ export type Option<T> = {
 	 * ```
 	 */
 	toArray: () => readonly T[];
+
+	/**
+	 * Converts the Option to an Either by providing an error value for the None case.
+	 *
+	 * @typeParam E - The type of the error value
+	 * @param onNone - Function that provides the Left value when Option is None
+	 * @returns Right containing the value if Some, or Left with the provided error if None
+	 *
+	 * @example
+	 * ```typescript
+	 * some(42).toEither(() => "missing")   // Right(42)
+	 * none().toEither(() => "missing")     // Left("missing")
+	 * ```
+	 */
+	toEither: <E>(onNone: () => E) => Either<E, T>;
+
+	/**
+	 * Converts the Option to a Validation by providing an error for the None case.
+	 *
+	 * @typeParam E - The type of the error
+	 * @param onNone - Function that provides the error when Option is None
+	 * @returns Valid containing the value if Some, or Invalid with the provided error if None
+	 *
+	 * @example
+	 * ```typescript
+	 * some(42).toValidation(() => "missing")   // Valid(42)
+	 * none().toValidation(() => "missing")     // Invalid(["missing"])
+	 * ```
+	 */
+	toValidation: <E>(onNone: () => E) => Validation<E, T>;
+
+	/**
+	 * Checks whether this Option contains a value.
+	 *
+	 * @returns true if Some, false if None
+	 *
+	 * @example
+	 * ```typescript
+	 * some(42).isSome()  // true
+	 * none().isSome()    // false
+	 * ```
+	 */
+	isSome: () => boolean;
+
+	/**
+	 * Checks whether this Option is empty.
+	 *
+	 * @returns true if None, false if Some
+	 *
+	 * @example
+	 * ```typescript
+	 * some(42).isNone()  // false
+	 * none().isNone()    // true
+	 * ```
+	 */
+	isNone: () => boolean;
+
+	/**
+	 * Checks whether this Option contains a value that satisfies the predicate.
+	 *
+	 * @param predicate - Function that tests the contained value
+	 * @returns true if Some and the predicate returns true, otherwise false
+	 *
+	 * @example
+	 * ```typescript
+	 * some(5).exists(n => n > 3)  // true
+	 * some(2).exists(n => n > 3)  // false
+	 * none().exists(n => n > 3)   // false
+	 * ```
+	 */
+	exists: (predicate: (value: T) => boolean) => boolean;
+
+	/**
+	 * Checks whether this Option contains the given value, compared with `===`.
+	 *
+	 * @param value - The value to look for
+	 * @returns true if Some and the contained value equals `value`, otherwise false
+	 *
+	 * @example
+	 * ```typescript
+	 * some(5).contains(5)  // true
+	 * some(5).contains(6)  // false
+	 * none().contains(5)   // false
+	 * ```
+	 */
+	contains: (value: T) => boolean;
+
+	/**
+	 * Wraps the contained value in a record under the given key.
+	 * This is usually the first step of do-notation when starting from an existing Option.
+	 *
+	 * @param key - The key to store the value under
+	 * @returns Option containing a record with the value under `key`, or None
+	 *
+	 * @example
+	 * ```typescript
+	 * some(5).bindTo("x") // Some({ x: 5 })
+	 * ```
+	 */
+	bindTo: <K extends string>(key: K) => Option<{ readonly [P in K]: T }>;
+
+	/**
+	 * Extends the record inside the Option with the value of another Option computed from it.
+	 * Short-circuits to None if this Option or the computed Option is None.
+	 *
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns an Option
+	 * @returns Option containing the extended record, or None
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.bind("x", () => some(2))
+	 *   .bind("y", ({ x }) => some(x + 1)) // Some({ x: 2, y: 3 })
+	 * ```
+	 */
+	bind: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => Option<U>,
+	) => Option<T & { readonly [P in K]: U }>;
+
+	/**
+	 * Extends the record inside the Option with a plain value computed from it.
+	 *
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns a value
+	 * @returns Option containing the extended record, or None
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.bind("x", () => some(2))
+	 *   .let("double", ({ x }) => x * 2) // Some({ x: 2, double: 4 })
+	 * ```
+	 */
+	let: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => U,
+	) => Option<T & { readonly [P in K]: U }>;
+
+	/**
+	 * Extends the record inside the Option with the value of an independent Option.
+	 * Unlike {@link bind}, the added Option does not depend on the current record.
+	 *
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param optU - The Option whose value is added to the record
+	 * @returns Option containing the extended record, or None if either Option is None
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.apS("x", some(2)).apS("y", some(3)) // Some({ x: 2, y: 3 })
+	 * ```
+	 */
+	apS: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		optU: Option<U>,
+	) => Option<T & { readonly [P in K]: U }>;
+
+	/**
+	 * Makes the Option iterable so it can be unwrapped with `yield*` inside {@link gen}.
+	 * Yields this Option once and resumes with the contained value.
+	 *
+	 * @returns Generator that yields this Option and returns its value
+	 *
+	 * @example
+	 * ```typescript
+	 * gen(function* () {
+	 *   const x = yield* some(5);
+	 *   return x * 2;
+	 * }) // Some(10)
+	 * ```
+	 */
+	[Symbol.iterator]: () => Generator<Option<T>, T, unknown>;
+};
+
+/**
+ * An Option of any value type, for helpers that take Options of different types.
+ * Spelled out structurally because Option is invariant in its value type.
+ */
+export type AnyOption = {
+	readonly isNone: () => boolean;
+	readonly toNullable: () => unknown;
 };
 
 export function createOption<T>(optionValue: OptionValue<T>): Option<T> {
 	const option: Option<T> = {
-		filter: (predicate) =>
+		filter: ((predicate: (value: T) => boolean) =>
 			option.flatMap((value) =>
-				predicate(value) ? option : createOption(NONE),
-			),
+				predicate(value) ? option : createOption<T>(NONE),
+			)) as Option<T>["filter"],
 
 		map: (mapper) =>
 			option.flatMap((value) => createOption({ some: mapper(value) })),
@@ -270,6 +460,55 @@ export function createOption<T>(optionValue: OptionValue<T>): Option<T> {
 				() => [],
 				(val) => [val],
 			),
+
+		toEither: <E>(onNone: () => E) =>
+			option.match(
+				() => createEither<E, T>({ left: onNone() }),
+				(value) => createEither<E, T>({ right: value }),
+			),
+
+		toValidation: <E>(onNone: () => E) =>
+			option.match(
+				() => createValidation<E, T>({ invalid: [onNone()] }),
+				(value) => createValidation<E, T>({ valid: value }),
+			),
+
+		isSome: () => isSome(optionValue),
+
+		isNone: () => !isSome(optionValue),
+
+		exists: (predicate) =>
+			option.match(
+				() => false,
+				(value) => predicate(value),
+			),
+
+		contains: (value) => option.exists((some) => some === value),
+
+		bindTo: <K extends string>(key: K) =>
+			option.map((value) => ({ [key]: value }) as { readonly [P in K]: T }),
+
+		bind: <K extends string, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => Option<U>,
+		) =>
+			option.flatMap((scope) =>
+				mapper(scope).map((value) => extend<T, K, U>(scope, key, value)),
+			),
+
+		let: <K extends string, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => U,
+		) => option.map((scope) => extend<T, K, U>(scope, key, mapper(scope))),
+
+		apS: <K extends string, U>(key: Exclude<K, keyof T>, optU: Option<U>) =>
+			option
+				.zip(optU)
+				.map(([scope, value]) => extend<T, K, U>(scope, key, value)),
+
+		[Symbol.iterator]: function* () {
+			return (yield option) as T;
+		},
 	};
 
 	return option;
@@ -0,0 +1,4 @@
+export * from "./reader/constructors.js";
+export * from "./reader/helpers.js";
+export type { ReaderValue } from "./reader/model.js";
+export type { Reader } from "./reader/reader.js";
@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from "vitest";
+import { ask, asks, Do, reader } from "./constructors.js";
+
+describe("reader constructors", () => {
+	describe("reader", () => {
+		it("should produce the given value regardless of the environment", () => {
+			const r = reader(42);
+			expect(r.run({})).toBe(42);
+			expect(r.run({ port: 80 })).toBe(42);
+		});
+	});
+
+	describe("ask", () => {
+		it("should produce the environment", () => {
+			const env = { port: 80 };
+			expect(ask<{ port: number }>().run(env)).toBe(env);
+		});
+	});
+
+	describe("asks", () => {
+		it("should produce a value derived from the environment", () => {
+			expect(asks((env: { port: number }) => env.port).run({ port: 80 })).toBe(
+				80,
+			);
+		});
+
+		it("should not call the function until run() is called", () => {
+			const fn = vi.fn((env: { port: number }) => env.port);
+			asks(fn);
+			expect(fn).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("Do", () => {
+		it("should produce an empty record", () => {
+			expect(Do.run({})).toEqual({});
+		});
+	});
+});
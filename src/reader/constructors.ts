@@ -0,0 +1,67 @@
+import { createReader, type Reader } from "./reader.js";
+
+/**
+ * Creates a Reader that ignores its environment and produces the provided value.
+ *
+ * @typeParam T - The type of the value
+ * @typeParam R - The type of the environment (defaults to `unknown`, i.e. any environment)
+ * @param value - The value to wrap in a Reader
+ * @returns Reader that produces the given value
+ *
+ * @example
+ * ```typescript
+ * const r = reader(42); // Reader<unknown, number>
+ * r.run({}); // 42
+ * ```
+ */
+export function reader<T, R = unknown>(value: T): Reader<R, T> {
+	return createReader(() => value);
+}
+
+/**
+ * Creates a Reader that produces its whole environment.
+ *
+ * @typeParam R - The type of the environment
+ * @returns Reader that produces the environment it is run with
+ *
+ * @example
+ * ```typescript
+ * const config = ask<Config>(); // Reader<Config, Config>
+ * config.run({ port: 80 }); // { port: 80 }
+ * ```
+ */
+export function ask<R>(): Reader<R, R> {
+	return createReader((env) => env);
+}
+
+/**
+ * Creates a Reader that produces a value derived from its environment.
+ *
+ * @typeParam R - The type of the environment
+ * @typeParam T - The type of the derived value
+ * @param f - Function that derives a value from the environment
+ * @returns Reader that produces the derived value
+ *
+ * @example
+ * ```typescript
+ * const port = asks((config: Config) => config.port); // Reader<Config, number>
+ * port.run({ port: 80 }); // 80
+ * ```
+ */
+export function asks<R, T>(f: (env: R) => T): Reader<R, T> {
+	return createReader(f);
+}
+
+/**
+ * A Reader producing an empty record - the starting point of do-notation.
+ * Use `bind`, `let` and `apS` to add named values to the record step by step.
+ *
+ * @example
+ * ```typescript
+ * const r = Do.apS("port", asks((env: Config) => env.port))
+ *   .bind("logger", () => asks((env: Deps) => env.logger))
+ *   .let("url", ({ port }) => `http://localhost:${port}`);
+ * r.run({ port: 80, logger }); // { port, logger, url }
+ * ```
+ */
+export const Do: Reader<unknown, Readonly<Record<never, never>>> = reader({});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { traversableSpec } from "../testUtils/traversable.js";
+import { asks, reader } from "./constructors.js";
+import { sequence, traverse, traverseWithIndex } from "./helpers.js";
+import type { Reader } from "./reader.js";
+
+type Env = { readonly prefix: string };
+
+const env: Env = { prefix: "#" };
+
+describe("reader helpers", () => {
+	describe("sequence", () => {
+		it("should run every reader with the same environment", () => {
+			const result = sequence([
+				asks((e: Env) => `${e.prefix}1`),
+				asks((e: Env) => `${e.prefix}2`),
+			]);
+			expect(result.run(env)).toEqual(["#1", "#2"]);
+		});
+
+		it("should produce an empty array for no readers", () => {
+			expect(sequence([]).run(env)).toEqual([]);
+		});
+	});
+
+	describe("traverseWithIndex", () => {
+		it("should pass the index to the mapper", () => {
+			const result = traverseWithIndex(["a", "b"], (item, i) =>
+				asks((e: Env) => `${e.prefix}${i}${item}`),
+			);
+			expect(result.run(env)).toEqual(["#0a", "#1b"]);
+		});
+	});
+
+	describe(
+		"traversable",
+		traversableSpec<Reader<Env, unknown>, Reader<Env, unknown[]>>({
+			of: (value) => reader(value),
+			sequence,
+			traverse,
+			traverseWithIndex,
+			asTag: (r) => ({ value: r.run(env) }),
+		}),
+	);
+});
@@ -0,0 +1,61 @@
+import { createReader, type Reader } from "./reader.js";
+
+/**
+ * Runs all Readers with the same environment and collects their values into an array.
+ *
+ * @param readers - Array of Readers sharing an environment
+ * @returns Reader that produces an array of all values
+ *
+ * @example
+ * ```typescript
+ * sequence([asks((env: Config) => env.host), asks((env: Config) => env.path)]).run(config)
+ * // ["localhost", "/api"]
+ * ```
+ */
+export function sequence<R, T>(
+	readers: readonly Reader<R, T>[],
+): Reader<R, T[]> {
+	return traverse(readers, (reader) => reader);
+}
+
+/**
+ * Maps each item of an array to a Reader and runs them all with the same environment, collecting the values into an array.
+ * The values keep the order of the input items.
+ *
+ * @param items - Array of items to map
+ * @param mapper - Function that maps an item to a Reader
+ * @returns Reader that produces an array of all values
+ *
+ * @example
+ * ```typescript
+ * traverse(["users", "orders"], (table) => asks((env: { db: Db }) => env.db.count(table))).run({ db })
+ * // [12, 40]
+ * ```
+ */
+export function traverse<R, A, B>(
+	items: readonly A[],
+	mapper: (item: A) => Reader<R, B>,
+): Reader<R, B[]> {
+	return traverseWithIndex(items, (item) => mapper(item));
+}
+
+/**
+ * Like {@link traverse}, but the mapper also receives the index of each item.
+ *
+ * @param items - Array of items to map
+ * @param mapper - Function that maps an item and its index to a Reader
+ * @returns Reader that produces an array of all values
+ *
+ * @example
+ * ```typescript
+ * traverseWithIndex(names, (name, i) => asks((env: { prefix: string }) => `${env.prefix}${i}-${name}`))
+ * ```
+ */
+export function traverseWithIndex<R, A, B>(
+	items: readonly A[],
+	mapper: (item: A, index: number) => Reader<R, B>,
+): Reader<R, B[]> {
+	return createReader((env) =>
+		items.map((item, index) => mapper(item, index).run(env)),
+	);
+}
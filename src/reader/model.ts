@@ -0,0 +1 @@
+export type ReaderValue<R, T> = (env: R) => T;
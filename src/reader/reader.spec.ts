@@ -0,0 +1,165 @@
+import { describe, expect, it, vi } from "vitest";
+import { applicativeLawsSpec } from "../testUtils/applicativeLaws.js";
+import { functorLawsSpec } from "../testUtils/functorLaws.js";
+import { monadLawsSpec } from "../testUtils/monadLaws.js";
+import { ask, asks, Do, reader } from "./constructors.js";
+import type { Reader } from "./reader.js";
+
+type Env = { readonly base: number; readonly name: string };
+
+const env: Env = { base: 10, name: "test" };
+
+describe("reader", () => {
+	describe("map", () => {
+		it("should transform the produced value", () => {
+			const r = asks((e: Env) => e.base).map((x) => x * 2);
+			expect(r.run(env)).toBe(20);
+		});
+
+		it("should be composable", () => {
+			const r = asks((e: Env) => e.base)
+				.map((x) => x + 1)
+				.map((x) => x * 2);
+			expect(r.run(env)).toBe(22);
+		});
+	});
+
+	describe("ap", () => {
+		it("should apply a function reader to a value reader with the same environment", () => {
+			const add = asks((e: Env) => (y: number) => e.base + y);
+			const result = add.ap(asks((e: { extra: number }) => e.extra));
+			expect(result.run({ ...env, extra: 5 })).toBe(15);
+		});
+	});
+
+	describe("zip", () => {
+		it("should combine two readers into a tuple", () => {
+			const result = asks((e: Env) => e.name).zip(asks((e: Env) => e.base));
+			expect(result.run(env)).toEqual(["test", 10]);
+		});
+	});
+
+	describe("flatten", () => {
+		it("should remove one level of reader nesting", () => {
+			const nested = reader(asks((e: Env) => e.base));
+			expect(nested.flatten().run(env)).toBe(10);
+		});
+	});
+
+	describe("flatMap", () => {
+		it("should chain reader-returning operations", () => {
+			const result = asks((e: Env) => e.base).flatMap((x) =>
+				asks((e: Env) => `${e.name}:${x}`),
+			);
+			expect(result.run(env)).toBe("test:10");
+		});
+
+		it("should require the intersection of both environments", () => {
+			const result: Reader<{ a: number } & { b: number }, number> = asks(
+				(e: { a: number }) => e.a,
+			).flatMap((a) => asks((e: { b: number }) => a + e.b));
+			expect(result.run({ a: 1, b: 2 })).toBe(3);
+		});
+
+		it("should pass the same environment to every step", () => {
+			const seen: Env[] = [];
+			const result = ask<Env>()
+				.tap((e) => seen.push(e))
+				.flatMap(() => ask<Env>().tap((e) => seen.push(e)));
+			result.run(env);
+			expect(seen).toEqual([env, env]);
+			expect(seen[0]).toBe(seen[1]);
+		});
+	});
+
+	describe("tap", () => {
+		it("should execute the side effect with the produced value", () => {
+			const sideEffect = vi.fn();
+			const result = asks((e: Env) => e.base).tap(sideEffect);
+			expect(result.run(env)).toBe(10);
+			expect(sideEffect).toHaveBeenCalledWith(10);
+		});
+
+		it("should not execute the side effect until run() is called", () => {
+			const sideEffect = vi.fn();
+			reader(1).tap(sideEffect);
+			expect(sideEffect).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("local", () => {
+		it("should run the reader in a modified environment", () => {
+			const result = asks((e: Env) => e.base).local((e: Env) => ({
+				...e,
+				base: e.base * 3,
+			}));
+			expect(result.run(env)).toBe(30);
+		});
+
+		it("should adapt the reader to a differently shaped environment", () => {
+			const result = asks((e: Env) => e.name).local(
+				(app: { config: Env }) => app.config,
+			);
+			expect(result.run({ config: env })).toBe("test");
+		});
+	});
+
+	describe("run", () => {
+		it("should call the underlying function each time it is run", () => {
+			const fn = vi.fn((e: Env) => e.base);
+			const r = asks(fn);
+			r.run(env);
+			r.run(env);
+			expect(fn).toHaveBeenCalledTimes(2);
+		});
+	});
+
+	describe("do-notation", () => {
+		it("should bind a value under a key with bindTo", () => {
+			expect(reader(5).bindTo("x").run(env)).toEqual({ x: 5 });
+		});
+
+		it("should accumulate values with bind, let and apS", () => {
+			const result = Do.bind("base", () => asks((e: Env) => e.base))
+				.apS(
+					"name",
+					asks((e: Env) => e.name),
+				)
+				.let("label", ({ base, name }) => `${name}-${base}`);
+			expect(result.run(env)).toEqual({
+				base: 10,
+				name: "test",
+				label: "test-10",
+			});
+		});
+	});
+
+	const asTag = <T>(r: Reader<Env, T>) => ({ value: r.run(env) });
+
+	describe(
+		"functor laws",
+		functorLawsSpec<Reader<Env, number>>({
+			of: (testValue) => asks((e: Env) => testValue + e.base),
+			map: (m, mapper) => m.map(mapper),
+			asTag,
+		}),
+	);
+
+	describe(
+		"applicative laws",
+		applicativeLawsSpec<Reader<Env, unknown>>({
+			of: (value) => reader(value),
+			ap: (r, arg) => (r as Reader<Env, (arg: unknown) => unknown>).ap(arg),
+			asTag,
+		}),
+	);
+
+	describe(
+		"monad laws",
+		monadLawsSpec<Reader<Env, number>>({
+			of: (testValue) => reader(testValue),
+			flatMap: (m, mapper) => m.flatMap(mapper),
+			asTag,
+		}),
+	);
+});
@@ -0,0 +1,263 @@
+import { extend } from "../internal/record.js";
+import type { ReaderValue } from "./model.js";
+
+export type Reader<R, T> = {
+	/**
+	 * Transforms the value produced by the Reader using a mapping function.
+	 *
+	 * @typeParam U - The type of the transformed value
+	 * @param mapper - Function to transform the produced value
+	 * @returns A new Reader that produces the transformed value
+	 *
+	 * @example
+	 * ```typescript
+	 * asks((env: Config) => env.port).map(port => `:${port}`).run({ port: 80 }) // ":80"
+	 * ```
+	 */
+	map: <U>(mapper: (value: T) => U) => Reader<R, U>;
+
+	/**
+	 * Applies a function wrapped in a Reader to a value wrapped in a Reader.
+	 * Both Readers receive the same environment, which must satisfy the requirements of both.
+	 *
+	 * @typeParam RR - The environment required by the argument Reader
+	 * @typeParam A - The type of the argument value
+	 * @typeParam U - The type of the function's return value
+	 * @param arg - Reader containing the argument to apply the function to
+	 * @returns Reader containing the function result
+	 *
+	 * @example
+	 * ```typescript
+	 * const greet = asks((env: { greeting: string }) => (name: string) => `${env.greeting}, ${name}`);
+	 * greet.ap(asks((env: { name: string }) => env.name)).run({ greeting: "Hi", name: "Ann" }) // "Hi, Ann"
+	 * ```
+	 */
+	ap: <RR, A, U>(
+		this: Reader<R, (a: A) => U>,
+		arg: Reader<RR, A>,
+	) => Reader<R & RR, U>;
+
+	/**
+	 * Combines this Reader with another Reader into a tuple.
+	 * Both Readers receive the same environment, which must satisfy the requirements of both.
+	 *
+	 * @typeParam RR - The environment required by the other Reader
+	 * @typeParam A - The type of the value in the other Reader
+	 * @param readerA - The Reader to combine with this one
+	 * @returns Reader containing a tuple of both values
+	 *
+	 * @example
+	 * ```typescript
+	 * asks((env: Config) => env.host).zip(asks((env: Config) => env.port)).run(config) // ["localhost", 80]
+	 * ```
+	 */
+	zip: <RR, A>(readerA: Reader<RR, A>) => Reader<R & RR, readonly [T, A]>;
+
+	/**
+	 * Flattens a nested Reader structure by removing one level of nesting.
+	 * The inner Reader receives the same environment as the outer one.
+	 *
+	 * @returns Reader producing the value of the inner Reader
+	 *
+	 * @example
+	 * ```typescript
+	 * reader(reader(42)).flatten().run({}) // 42
+	 * ```
+	 */
+	flatten: <RR, U>(this: Reader<R, Reader<RR, U>>) => Reader<R & RR, U>;
+
+	/**
+	 * Chains Reader-returning operations together (monadic bind).
+	 * The returned Reader receives the same environment, so the requirements of both are combined.
+	 *
+	 * @typeParam RR - The environment required by the Reader returned by the mapper
+	 * @typeParam U - The type of the value in the returned Reader
+	 * @param mapper - Function that takes the produced value and returns a Reader
+	 * @returns Reader requiring both environments and producing the value of the returned Reader
+	 *
+	 * @example
+	 * ```typescript
+	 * const userId = asks((env: { session: Session }) => env.session.userId);
+	 * const findUser = (id: string) => asks((env: { db: Db }) => env.db.users.get(id));
+	 * userId.flatMap(findUser).run({ session, db }) // Reader<{ session: Session } & { db: Db }, User>
+	 * ```
+	 */
+	flatMap: <RR, U>(mapper: (value: T) => Reader<RR, U>) => Reader<R & RR, U>;
+
+	/**
+	 * Performs a side effect with the produced value, returning a Reader producing the same value.
+	 *
+	 * @param sideEffect - Function to execute with the produced value (return value is ignored)
+	 * @returns Reader producing the same value
+	 *
+	 * @example
+	 * ```typescript
+	 * asks((env: Config) => env.port)
+	 *   .tap(port => console.log(`Using port ${port}`))
+	 *   .run({ port: 80 }) // Logs: "Using port 80", returns 80
+	 * ```
+	 */
+	tap: (sideEffect: (value: T) => unknown) => Reader<R, T>;
+
+	/**
+	 * Runs the Reader in a modified environment.
+	 * Use it to adapt a Reader to a larger or differently shaped environment.
+	 *
+	 * @typeParam RR - The type of the new environment
+	 * @param f - Function that derives the environment of this Reader from the new one
+	 * @returns Reader requiring the new environment
+	 *
+	 * @example
+	 * ```typescript
+	 * const port = asks((config: Config) => config.port);
+	 * port.local((app: App) => app.config).run(app) // app.config.port
+	 * ```
+	 */
+	local: <RR>(f: (env: RR) => R) => Reader<RR, T>;
+
+	/**
+	 * Wraps the produced value in a record under the given key.
+	 * This is usually the first step of do-notation when starting from an existing Reader.
+	 *
+	 * @param key - The key to store the produced value under
+	 * @returns Reader producing a record containing the value under `key`
+	 *
+	 * @example
+	 * ```typescript
+	 * reader(5).bindTo("x").run({}) // { x: 5 }
+	 * ```
+	 */
+	bindTo: <K extends string>(key: K) => Reader<R, { readonly [P in K]: T }>;
+
+	/**
+	 * Extends the produced record with the value of another Reader computed from it.
+	 *
+	 * @typeParam RR - The environment required by the Reader returned by the mapper
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns a Reader
+	 * @returns Reader producing the extended record
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.bind("config", () => ask<Config>())
+	 *   .bind("user", ({ config }) => findUser(config.adminId))
+	 * ```
+	 */
+	bind: <K extends string, RR, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => Reader<RR, U>,
+	) => Reader<R & RR, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Extends the produced record with a plain value computed from it.
+	 *
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns a value
+	 * @returns Reader producing the extended record
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.apS("port", asks((env: Config) => env.port))
+	 *   .let("url", ({ port }) => `http://localhost:${port}`)
+	 * ```
+	 */
+	let: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => U,
+	) => Reader<R, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Extends the produced record with the value of an independent Reader.
+	 *
+	 * @typeParam RR - The environment required by the added Reader
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param readerU - The Reader whose value is added to the record
+	 * @returns Reader producing the extended record
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.apS("host", asks((env: Config) => env.host))
+	 *   .apS("port", asks((env: Config) => env.port)) // Reader<Config, { host; port }>
+	 * ```
+	 */
+	apS: <K extends string, RR, U>(
+		key: Exclude<K, keyof T>,
+		readerU: Reader<RR, U>,
+	) => Reader<R & RR, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Runs the Reader with the given environment and returns the produced value.
+	 *
+	 * @param env - The environment to supply
+	 * @returns The produced value
+	 *
+	 * @example
+	 * ```typescript
+	 * asks((env: Config) => env.port).run({ port: 80 }) // 80
+	 * ```
+	 */
+	run: (env: R) => T;
+};
+
+export function createReader<R, T>(f: ReaderValue<R, T>): Reader<R, T> {
+	const reader: Reader<R, T> = {
+		map: <U>(mapper: (value: T) => U): Reader<R, U> =>
+			createReader((env) => mapper(f(env))),
+
+		ap: function <RR, A, U>(
+			this: Reader<R, (a: A) => U>,
+			arg: Reader<RR, A>,
+		): Reader<R & RR, U> {
+			return createReader((env) => this.run(env)(arg.run(env)));
+		},
+
+		zip: <RR, A>(readerA: Reader<RR, A>) =>
+			reader.map((value) => (a: A) => [value, a] as const).ap(readerA),
+
+		flatten: function <RR, U>(this: Reader<R, Reader<RR, U>>) {
+			// biome-ignore lint/complexity/noFlatMapIdentity: flatMap here is the custom Reader method, not Array.flatMap
+			return this.flatMap((value) => value);
+		},
+
+		flatMap: <RR, U>(mapper: (value: T) => Reader<RR, U>): Reader<R & RR, U> =>
+			createReader((env) => mapper(f(env)).run(env)),
+
+		tap: (sideEffect) =>
+			createReader((env) => {
+				const value = f(env);
+				sideEffect(value);
+				return value;
+			}),
+
+		local: <RR>(g: (env: RR) => R): Reader<RR, T> =>
+			createReader((env) => f(g(env))),
+
+		bindTo: <K extends string>(key: K) =>
+			reader.map((value) => ({ [key]: value }) as { readonly [P in K]: T }),
+
+		bind: <K extends string, RR, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => Reader<RR, U>,
+		) =>
+			reader.flatMap((scope) =>
+				mapper(scope).map((value) => extend<T, K, U>(scope, key, value)),
+			),
+
+		let: <K extends string, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => U,
+		) => reader.map((scope) => extend<T, K, U>(scope, key, mapper(scope))),
+
+		apS: <K extends string, RR, U>(
+			key: Exclude<K, keyof T>,
+			readerU: Reader<RR, U>,
+		) =>
+			reader
+				.zip(readerU)
+				.map(([scope, value]) => extend<T, K, U>(scope, key, value)),
+
+		run: (env) => f(env),
+	};
+
+	return reader;
+}
@@ -0,0 +1,4 @@
+export * from "./readerTaskEither/constructors.js";
+export * from "./readerTaskEither/helpers.js";
+export type { ReaderTaskEitherValue } from "./readerTaskEither/model.js";
+export type { ReaderTaskEither } from "./readerTaskEither/readerTaskEither.js";
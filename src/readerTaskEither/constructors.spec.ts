@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from "vitest";
+import { left, right } from "../either/constructors.js";
+import { asks as readerAsks } from "../reader/constructors.js";
+import { task } from "../task/constructors.js";
+import { taskEither } from "../taskEither/constructors.js";
+import {
+	ask,
+	asks,
+	asksTaskEither,
+	Do,
+	fromEither,
+	fromReader,
+	fromTask,
+	fromTaskEither,
+	readerTaskEither,
+	readerTaskLeft,
+} from "./constructors.js";
+
+describe("readerTaskEither constructors", () => {
+	describe("readerTaskEither", () => {
+		it("should resolve to Right with the given value", async () => {
+			expect((await readerTaskEither(42).run({}).run()).toResult()).toEqual({
+				ok: true,
+				value: 42,
+			});
+		});
+	});
+
+	describe("readerTaskLeft", () => {
+		it("should resolve to Left with the given error", async () => {
+			expect((await readerTaskLeft("err").run({}).run()).toResult()).toEqual({
+				ok: false,
+				error: "err",
+			});
+		});
+	});
+
+	describe("ask", () => {
+		it("should resolve to the environment", async () => {
+			const env = { port: 80 };
+			expect((await ask<typeof env>().run(env).run()).toResult()).toEqual({
+				ok: true,
+				value: env,
+			});
+		});
+	});
+
+	describe("asks", () => {
+		it("should resolve to a value derived from the environment", async () => {
+			const result = asks((env: { port: number }) => env.port);
+			expect((await result.run({ port: 80 }).run()).toResult()).toEqual({
+				ok: true,
+				value: 80,
+			});
+		});
+	});
+
+	describe("asksTaskEither", () => {
+		it("should run the TaskEither built from the environment", async () => {
+			const f = vi.fn((env: { port: number }) => taskEither(env.port));
+			const result = asksTaskEither(f);
+			expect(f).not.toHaveBeenCalled();
+			expect((await result.run({ port: 80 }).run()).toResult()).toEqual({
+				ok: true,
+				value: 80,
+			});
+		});
+	});
+
+	describe("fromTaskEither", () => {
+		it("should lift a TaskEither", async () => {
+			expect(
+				(await fromTaskEither(taskEither(1)).run({}).run()).toResult(),
+			).toEqual({ ok: true, value: 1 });
+		});
+	});
+
+	describe("fromEither", () => {
+		it("should lift a Right", async () => {
+			expect((await fromEither(right(1)).run({}).run()).toResult()).toEqual({
+				ok: true,
+				value: 1,
+			});
+		});
+
+		it("should lift a Left", async () => {
+			expect((await fromEither(left("err")).run({}).run()).toResult()).toEqual({
+				ok: false,
+				error: "err",
+			});
+		});
+	});
+
+	describe("fromTask", () => {
+		it("should lift a Task into a Right", async () => {
+			expect((await fromTask(task(1)).run({}).run()).toResult()).toEqual({
+				ok: true,
+				value: 1,
+			});
+		});
+	});
+
+	describe("fromReader", () => {
+		it("should lift a Reader, keeping its environment", async () => {
+			const result = fromReader(
+				readerAsks((env: { port: number }) => env.port),
+			);
+			expect((await result.run({ port: 80 }).run()).toResult()).toEqual({
+				ok: true,
+				value: 80,
+			});
+		});
+	});
+
+	describe("Do", () => {
+		it("should resolve to an empty record", async () => {
+			expect((await Do.run({}).run()).toResult()).toEqual({
+				ok: true,
+				value: {},
+			});
+		});
+	});
+});
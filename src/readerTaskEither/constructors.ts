@@ -0,0 +1,198 @@
+import type { Either } from "../either/either.js";
+import type { Reader } from "../reader/reader.js";
+import type { Task } from "../task/task.js";
+import {
+	taskEither,
+	fromEither as taskEitherFromEither,
+	fromTask as taskEitherFromTask,
+	taskLeft,
+} from "../taskEither/constructors.js";
+import type { TaskEither } from "../taskEither/taskEither.js";
+import {
+	createReaderTaskEither,
+	type ReaderTaskEither,
+} from "./readerTaskEither.js";
+
+/**
+ * Creates a ReaderTaskEither that ignores its environment and resolves to Right with the provided value.
+ *
+ * @typeParam T - The type of the value
+ * @typeParam E - The type of the error (defaults to `never`)
+ * @typeParam R - The type of the environment (defaults to `unknown`, i.e. any environment)
+ * @param value - The value to wrap
+ * @returns ReaderTaskEither that resolves to Right with the given value
+ *
+ * @example
+ * ```typescript
+ * await readerTaskEither(42).run({}).run(); // Right(42)
+ * ```
+ */
+export function readerTaskEither<T, E = never, R = unknown>(
+	value: T,
+): ReaderTaskEither<R, E, T> {
+	return createReaderTaskEither(() => taskEither<T, E>(value));
+}
+
+/**
+ * Creates a ReaderTaskEither that ignores its environment and resolves to Left with the provided error.
+ *
+ * @typeParam E - The type of the error
+ * @typeParam T - The type of the value (defaults to `never`)
+ * @typeParam R - The type of the environment (defaults to `unknown`, i.e. any environment)
+ * @param error - The error to wrap
+ * @returns ReaderTaskEither that resolves to Left with the given error
+ *
+ * @example
+ * ```typescript
+ * await readerTaskLeft("not found").run({}).run(); // Left("not found")
+ * ```
+ */
+export function readerTaskLeft<E, T = never, R = unknown>(
+	error: E,
+): ReaderTaskEither<R, E, T> {
+	return createReaderTaskEither(() => taskLeft<E, T>(error));
+}
+
+/**
+ * Creates a ReaderTaskEither that resolves to Right with its whole environment.
+ *
+ * @typeParam R - The type of the environment
+ * @typeParam E - The type of the error (defaults to `never`)
+ * @returns ReaderTaskEither that resolves to the environment it is run with
+ *
+ * @example
+ * ```typescript
+ * await ask<Deps>().run(deps).run(); // Right(deps)
+ * ```
+ */
+export function ask<R, E = never>(): ReaderTaskEither<R, E, R> {
+	return createReaderTaskEither((env: R) => taskEither<R, E>(env));
+}
+
+/**
+ * Creates a ReaderTaskEither that resolves to Right with a value derived from its environment.
+ *
+ * @typeParam R - The type of the environment
+ * @typeParam T - The type of the derived value
+ * @typeParam E - The type of the error (defaults to `never`)
+ * @param f - Function that derives a value from the environment
+ * @returns ReaderTaskEither that resolves to the derived value
+ *
+ * @example
+ * ```typescript
+ * const logger = asks((env: { logger: Logger }) => env.logger);
+ * ```
+ */
+export function asks<R, T, E = never>(
+	f: (env: R) => T,
+): ReaderTaskEither<R, E, T> {
+	return createReaderTaskEither((env: R) => taskEither<R, E>(env).map(f));
+}
+
+/**
+ * Creates a ReaderTaskEither from a function that builds a TaskEither out of the environment.
+ * This is the usual way to turn a `(deps) => TaskEither` service function into a ReaderTaskEither.
+ *
+ * @typeParam R - The type of the environment
+ * @typeParam E - The type of the error
+ * @typeParam T - The type of the value
+ * @param f - Function that builds a TaskEither from the environment
+ * @returns ReaderTaskEither running the TaskEither built from the environment
+ *
+ * @example
+ * ```typescript
+ * const findUser = (id: string) =>
+ *   asksTaskEither((env: { db: Db }) => env.db.findUser(id)); // ReaderTaskEither<{ db: Db }, DbError, User>
+ * ```
+ */
+export function asksTaskEither<R, E, T>(
+	f: (env: R) => TaskEither<E, T>,
+): ReaderTaskEither<R, E, T> {
+	return createReaderTaskEither(f);
+}
+
+/**
+ * Lifts a TaskEither into a ReaderTaskEither that ignores its environment.
+ *
+ * @param te - The TaskEither to lift
+ * @returns ReaderTaskEither running the given TaskEither
+ *
+ * @example
+ * ```typescript
+ * fromTaskEither(tryCatch(() => fetch(url), String)) // ReaderTaskEither<unknown, string, Response>
+ * ```
+ */
+export function fromTaskEither<E, T, R = unknown>(
+	te: TaskEither<E, T>,
+): ReaderTaskEither<R, E, T> {
+	return createReaderTaskEither(() => te);
+}
+
+/**
+ * Lifts an Either into a ReaderTaskEither that ignores its environment.
+ *
+ * @param either - The Either to lift
+ * @returns ReaderTaskEither resolving to the given Either
+ *
+ * @example
+ * ```typescript
+ * fromEither(parseId(input)) // ReaderTaskEither<unknown, ParseError, number>
+ * ```
+ */
+export function fromEither<E, T, R = unknown>(
+	either: Either<E, T>,
+): ReaderTaskEither<R, E, T> {
+	return createReaderTaskEither(() => taskEitherFromEither(either));
+}
+
+/**
+ * Lifts a Task into a ReaderTaskEither that ignores its environment and always resolves to Right.
+ *
+ * @param t - The Task to lift
+ * @returns ReaderTaskEither resolving to Right with the Task's value
+ *
+ * @example
+ * ```typescript
+ * fromTask(delay(100)) // ReaderTaskEither<unknown, never, void>
+ * ```
+ */
+export function fromTask<T, E = never, R = unknown>(
+	t: Task<T>,
+): ReaderTaskEither<R, E, T> {
+	return createReaderTaskEither(() => taskEitherFromTask<T, E>(t));
+}
+
+/**
+ * Lifts a Reader into a ReaderTaskEither that always resolves to Right with the Reader's value.
+ *
+ * @param r - The Reader to lift
+ * @returns ReaderTaskEither requiring the Reader's environment
+ *
+ * @example
+ * ```typescript
+ * fromReader(asks((env: Config) => env.apiUrl)) // ReaderTaskEither<Config, never, string>
+ * ```
+ */
+export function fromReader<R, T, E = never>(
+	r: Reader<R, T>,
+): ReaderTaskEither<R, E, T> {
+	return asks((env: R) => r.run(env));
+}
+
+/**
+ * A ReaderTaskEither resolving to Right with an empty record - the starting point of do-notation.
+ * Use `bind`, `let` and `apS` to add named values to the record step by step.
+ *
+ * @example
+ * ```typescript
+ * const program = Do.bind("user", () => findUser(id))
+ *   .bind("orders", ({ user }) => findOrders(user.id))
+ *   .let("count", ({ orders }) => orders.length);
+ * await program.run({ db }).run(); // Right({ user, orders, count })
+ * ```
+ */
+export const Do: ReaderTaskEither<
+	unknown,
+	never,
+	Readonly<Record<never, never>>
+> = readerTaskEither({});
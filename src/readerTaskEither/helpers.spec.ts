@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { traversableSpec } from "../testUtils/traversable.js";
+import { asks, readerTaskEither, readerTaskLeft } from "./constructors.js";
+import { all, traverse, traverseWithIndex } from "./helpers.js";
+import type { ReaderTaskEither } from "./readerTaskEither.js";
+
+type Env = { readonly prefix: string };
+
+const env: Env = { prefix: "#" };
+
+describe("readerTaskEither helpers", () => {
+	describe("all", () => {
+		it("should run every ReaderTaskEither with the same environment", async () => {
+			const result = all([
+				asks((e: Env) => `${e.prefix}1`),
+				asks((e: Env) => `${e.prefix}2`),
+			]);
+			expect((await result.run(env).run()).toResult()).toEqual({
+				ok: true,
+				value: ["#1", "#2"],
+			});
+		});
+
+		it("should return the first Left", async () => {
+			const result = all<Env, string, number>([
+				readerTaskEither(1),
+				readerTaskLeft("err"),
+			]);
+			expect((await result.run(env).run()).toResult()).toEqual({
+				ok: false,
+				error: "err",
+			});
+		});
+	});
+
+	describe("traverseWithIndex", () => {
+		it("should pass the index to the mapper", async () => {
+			const result = traverseWithIndex(["a", "b"], (item, i) =>
+				asks((e: Env) => `${e.prefix}${i}${item}`),
+			);
+			expect((await result.run(env).run()).toResult()).toEqual({
+				ok: true,
+				value: ["#0a", "#1b"],
+			});
+		});
+	});
+
+	describe(
+		"traversable",
+		traversableSpec<
+			ReaderTaskEither<Env, string, unknown>,
+			ReaderTaskEither<Env, string, unknown[]>
+		>({
+			of: (value) => readerTaskEither(value),
+			fail: () => readerTaskLeft("error"),
+			sequence: all,
+			traverse,
+			traverseWithIndex,
+			asTag: async (rte) => (await rte.run(env).run()).toResult(),
+		}),
+	);
+});
@@ -0,0 +1,67 @@
+import { traverseWithIndex as taskEitherTraverseWithIndex } from "../taskEither/helpers.js";
+import {
+	createReaderTaskEither,
+	type ReaderTaskEither,
+} from "./readerTaskEither.js";
+
+/**
+ * Runs all ReaderTaskEithers concurrently with the same environment and collects their Right values into an array.
+ * Short-circuits on the first Left, returning it.
+ *
+ * @param readerTaskEithers - Array of ReaderTaskEithers sharing an environment
+ * @returns ReaderTaskEither that resolves with an array of all Right values, or the first Left
+ *
+ * @example
+ * ```typescript
+ * await all([findUser("a"), findUser("b")]).run({ db }).run() // Right([User, User])
+ * ```
+ */
+export function all<R, E, T>(
+	readerTaskEithers: ReaderTaskEither<R, E, T>[],
+): ReaderTaskEither<R, E, T[]> {
+	return traverse(readerTaskEithers, (rte) => rte);
+}
+
+/**
+ * Maps each item of an array to a ReaderTaskEither and runs them all concurrently with the same environment,
+ * collecting the Right values into an array that keeps the order of the input items.
+ * Returns the first Left if any mapped ReaderTaskEither resolves to Left.
+ *
+ * @param items - Array of items to map
+ * @param mapper - Function that maps an item to a ReaderTaskEither
+ * @returns ReaderTaskEither that resolves with an array of all Right values, or the first Left
+ *
+ * @example
+ * ```typescript
+ * await traverse(["a", "b"], findUser).run({ db }).run() // Right([User, User]) or the first Left
+ * ```
+ */
+export function traverse<R, A, E, B>(
+	items: readonly A[],
+	mapper: (item: A) => ReaderTaskEither<R, E, B>,
+): ReaderTaskEither<R, E, B[]> {
+	return traverseWithIndex(items, (item) => mapper(item));
+}
+
+/**
+ * Like {@link traverse}, but the mapper also receives the index of each item.
+ *
+ * @param items - Array of items to map
+ * @param mapper - Function that maps an item and its index to a ReaderTaskEither
+ * @returns ReaderTaskEither that resolves with an array of all Right values, or the first Left
+ *
+ * @example
+ * ```typescript
+ * await traverseWithIndex(files, (file, i) => upload(file, `part-${i}`)).run({ storage }).run()
+ * ```
+ */
+export function traverseWithIndex<R, A, E, B>(
+	items: readonly A[],
+	mapper: (item: A, index: number) => ReaderTaskEither<R, E, B>,
+): ReaderTaskEither<R, E, B[]> {
+	return createReaderTaskEither((env: R) =>
+		taskEitherTraverseWithIndex(items, (item, index) =>
+			mapper(item, index).run(env),
+		),
+	);
+}
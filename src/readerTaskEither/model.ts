@@ -0,0 +1,3 @@
+import type { TaskEither } from "../taskEither/taskEither.js";
+
+export type ReaderTaskEitherValue<R, E, T> = (env: R) => TaskEither<E, T>;
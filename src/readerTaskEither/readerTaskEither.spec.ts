@@ -0,0 +1,365 @@
+import { describe, expect, it, vi } from "vitest";
+import { taskEither, taskLeft } from "../taskEither/constructors.js";
+import { bifunctorLawsSpec } from "../testUtils/bifunctorLaws.js";
+import {
+	ask,
+	asks,
+	asksTaskEither,
+	Do,
+	readerTaskEither,
+	readerTaskLeft,
+} from "./constructors.js";
+import type { ReaderTaskEither } from "./readerTaskEither.js";
+
+type Db = { readonly users: Readonly<Record<string, string>> };
+type Logger = { readonly info: (msg: string) => void };
+
+const db: Db = { users: { "1": "Alice" } };
+
+const findUser = (id: string) =>
+	asksTaskEither((env: { db: Db }) => {
+		const user = env.db.users[id];
+		return user === undefined
+			? taskLeft<string, string>(`User ${id} not found`)
+			: taskEither<string, string>(user);
+	});
+
+const log = (msg: string) =>
+	asks((env: { logger: Logger }) => env.logger.info(msg));
+
+async function runResult<R, E, T>(rte: ReaderTaskEither<R, E, T>, env: R) {
+	return (await rte.run(env).run()).toResult();
+}
+
+describe("readerTaskEither", () => {
+	describe("filterOrElse", () => {
+		it("should keep the Right value when the predicate passes", async () => {
+			const result = readerTaskEither<number, string>(5).filterOrElse(
+				(x) => x > 0,
+				() => "Must be positive",
+			);
+			expect(await runResult(result, {})).toEqual({ ok: true, value: 5 });
+		});
+
+		it("should return Left when the predicate fails", async () => {
+			const result = readerTaskEither<number, string>(-1).filterOrElse(
+				(x) => x > 0,
+				() => "Must be positive",
+			);
+			expect(await runResult(result, {})).toEqual({
+				ok: false,
+				error: "Must be positive",
+			});
+		});
+
+		it("should narrow the Right type when given a type guard", async () => {
+			const result: ReaderTaskEither<unknown, string, string> =
+				readerTaskEither<string | number, string>("a").filterOrElse(
+					(x): x is string => typeof x === "string",
+					() => "Not a string",
+				);
+			expect(await runResult(result, {})).toEqual({ ok: true, value: "a" });
+		});
+	});
+
+	describe("map", () => {
+		it("should transform the Right value", async () => {
+			const result = findUser("1").map((name) => name.toUpperCase());
+			expect(await runResult(result, { db })).toEqual({
+				ok: true,
+				value: "ALICE",
+			});
+		});
+
+		it("should not call the mapper on Left", async () => {
+			const mapper = vi.fn();
+			const result = findUser("2").map(mapper);
+			expect(await runResult(result, { db })).toEqual({
+				ok: false,
+				error: "User 2 not found",
+			});
+			expect(mapper).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("mapLeft", () => {
+		it("should transform the Left value", async () => {
+			const result = findUser("2").mapLeft((e) => e.length);
+			expect(await runResult(result, { db })).toEqual({
+				ok: false,
+				error: 16,
+			});
+		});
+	});
+
+	describe("ap", () => {
+		it("should apply a function to a value with the combined environment", async () => {
+			const greet = asks(
+				(env: { greeting: string }) => (name: string) =>
+					`${env.greeting}, ${name}`,
+			);
+			const result = greet.ap(findUser("1"));
+			expect(await runResult(result, { greeting: "Hi", db })).toEqual({
+				ok: true,
+				value: "Hi, Alice",
+			});
+		});
+	});
+
+	describe("zip", () => {
+		it("should combine two values into a tuple", async () => {
+			const result = findUser("1").zip(asks((env: { n: number }) => env.n));
+			expect(await runResult(result, { db, n: 3 })).toEqual({
+				ok: true,
+				value: ["Alice", 3],
+			});
+		});
+
+		it("should return the Left if either side fails", async () => {
+			const result = findUser("1").zip(findUser("2"));
+			expect(await runResult(result, { db })).toEqual({
+				ok: false,
+				error: "User 2 not found",
+			});
+		});
+	});
+
+	describe("flatten", () => {
+		it("should remove one level of nesting", async () => {
+			const result = readerTaskEither(findUser("1")).flatten();
+			expect(await runResult(result, { db })).toEqual({
+				ok: true,
+				value: "Alice",
+			});
+		});
+	});
+
+	describe("flatMap", () => {
+		it("should intersect the environments of both steps", async () => {
+			const info = vi.fn();
+			const result: ReaderTaskEither<
+				{ db: Db } & { logger: Logger },
+				string,
+				void
+			> = findUser("1").flatMap((name) => log(`Found ${name}`));
+			expect(await runResult(result, { db, logger: { info } })).toEqual({
+				ok: true,
+				value: undefined,
+			});
+			expect(info).toHaveBeenCalledWith("Found Alice");
+		});
+
+		it("should short-circuit on Left", async () => {
+			const mapper = vi.fn(() => readerTaskEither(0));
+			const result = findUser("2").flatMap(mapper);
+			expect(await runResult(result, { db })).toEqual({
+				ok: false,
+				error: "User 2 not found",
+			});
+			expect(mapper).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("flatMapLeft", () => {
+		it("should recover from a Left using the environment", async () => {
+			const result = findUser("2").flatMapLeft(() =>
+				asks((env: { fallback: string }) => env.fallback),
+			);
+			expect(await runResult(result, { db, fallback: "Guest" })).toEqual({
+				ok: true,
+				value: "Guest",
+			});
+		});
+	});
+
+	describe("tap", () => {
+		it("should execute the side effect with the Right value", async () => {
+			const sideEffect = vi.fn();
+			await findUser("1").tap(sideEffect).run({ db }).run();
+			expect(sideEffect).toHaveBeenCalledWith("Alice");
+		});
+	});
+
+	describe("tapLeft", () => {
+		it("should execute the side effect with the Left value", async () => {
+			const sideEffect = vi.fn();
+			await findUser("2").tapLeft(sideEffect).run({ db }).run();
+			expect(sideEffect).toHaveBeenCalledWith("User 2 not found");
+		});
+	});
+
+	describe("orElse", () => {
+		it("should use the fallback on Left", async () => {
+			const result = findUser("2").orElse(() => findUser("1"));
+			expect(await runResult(result, { db })).toEqual({
+				ok: true,
+				value: "Alice",
+			});
+		});
+
+		it("should keep the Right value", async () => {
+			const fallback = vi.fn(() => readerTaskEither("Guest"));
+			const result = findUser("1").orElse(fallback);
+			expect(await runResult(result, { db })).toEqual({
+				ok: true,
+				value: "Alice",
+			});
+			expect(fallback).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("local", () => {
+		it("should run in a modified environment", async () => {
+			const result = findUser("1").local((app: { database: Db }) => ({
+				db: app.database,
+			}));
+			expect(await runResult(result, { database: db })).toEqual({
+				ok: true,
+				value: "Alice",
+			});
+		});
+	});
+
+	describe("provide", () => {
+		it("should eliminate all requirements", async () => {
+			const result: ReaderTaskEither<unknown, string, string> = findUser(
+				"1",
+			).provide({ db });
+			expect(await runResult(result, {})).toEqual({
+				ok: true,
+				value: "Alice",
+			});
+		});
+	});
+
+	describe("provideSome", () => {
+		it("should eliminate only the provided requirements", async () => {
+			const info = vi.fn();
+			const result: ReaderTaskEither<{ logger: Logger }, string, void> =
+				findUser("1")
+					.flatMap((name) => log(`Found ${name}`))
+					.provideSome({ db });
+			expect(await runResult(result, { logger: { info } })).toEqual({
+				ok: true,
+				value: undefined,
+			});
+			expect(info).toHaveBeenCalledWith("Found Alice");
+		});
+
+		it("should prefer the provided values over the remaining environment", async () => {
+			const result = ask<{ a: number; b: number }>().provideSome({ a: 1 });
+			expect(await runResult(result, { a: 2, b: 3 } as { b: number })).toEqual({
+				ok: true,
+				value: { a: 1, b: 3 },
+			});
+		});
+	});
+
+	describe("run", () => {
+		it("should be lazy until the returned TaskEither is run", async () => {
+			const f = vi.fn((env: { n: number }) => env.n);
+			const te = asks(f).run({ n: 1 });
+			expect(f).not.toHaveBeenCalled();
+			await te.run();
+			expect(f).toHaveBeenCalledOnce();
+		});
+	});
+
+	describe("do-notation", () => {
+		it("should accumulate values with bind, let and apS", async () => {
+			const result = Do.bind("user", () => findUser("1"))
+				.apS(
+					"n",
+					asks((env: { n: number }) => env.n),
+				)
+				.let("label", ({ user, n }) => `${user}#${n}`);
+			expect(await runResult(result, { db, n: 2 })).toEqual({
+				ok: true,
+				value: { user: "Alice", n: 2, label: "Alice#2" },
+			});
+		});
+
+		it("should bind a value under a key with bindTo", async () => {
+			expect(await runResult(readerTaskEither(5).bindTo("x"), {})).toEqual({
+				ok: true,
+				value: { x: 5 },
+			});
+		});
+
+		it("should short-circuit on the first Left", async () => {
+			const result = Do.bind("user", () => findUser("2")).let(
+				"upper",
+				({ user }) => user.toUpperCase(),
+			);
+			expect(await runResult(result, { db })).toEqual({
+				ok: false,
+				error: "User 2 not found",
+			});
+		});
+	});
+
+	describe("functor laws", () => {
+		it("should obey the identity law", async () => {
+			const id = <T>(x: T) => x;
+			const rte = findUser("1");
+			expect(await runResult(rte.map(id), { db })).toEqual(
+				await runResult(rte, { db }),
+			);
+		});
+
+		it("should obey the composition law", async () => {
+			const f = (x: number) => x + 1;
+			const g = (x: number) => x * 2;
+			const rte = asks((env: { n: number }) => env.n);
+			expect(await runResult(rte.map(f).map(g), { n: 10 })).toEqual(
+				await runResult(
+					rte.map((x) => g(f(x))),
+					{ n: 10 },
+				),
+			);
+		});
+	});
+
+	describe("monad laws", () => {
+		const f = (x: number) => asks((env: { n: number }) => x * env.n);
+		const g = (x: number) => asks((env: { n: number }) => x + env.n);
+
+		it("should obey the left identity law", async () => {
+			expect(
+				await runResult(readerTaskEither(42).flatMap(f), { n: 3 }),
+			).toEqual(await runResult(f(42), { n: 3 }));
+		});
+
+		it("should obey the right identity law", async () => {
+			const rte = asks((env: { n: number }) => env.n);
+			expect(
+				await runResult(
+					rte.flatMap((x) => readerTaskEither(x)),
+					{ n: 3 },
+				),
+			).toEqual(await runResult(rte, { n: 3 }));
+		});
+
+		it("should obey the associativity law", async () => {
+			const rte = readerTaskEither(5);
+			expect(await runResult(rte.flatMap(f).flatMap(g), { n: 3 })).toEqual(
+				await runResult(
+					rte.flatMap((x) => f(x).flatMap(g)),
+					{ n: 3 },
+				),
+			);
+		});
+	});
+
+	describe(
+		"bifunctor laws",
+		bifunctorLawsSpec<ReaderTaskEither<unknown, number, number>>({
+			left: (value) => readerTaskLeft(value),
+			right: (value) => readerTaskEither(value),
+			bimap: (rte, onLeft, onRight) => rte.bimap(onLeft, onRight),
+			mapLeft: (rte, mapper) => rte.mapLeft(mapper),
+			map: (rte, mapper) => rte.map(mapper),
+			asTag: (rte) => runResult(rte, {}),
+		}),
+	);
+});
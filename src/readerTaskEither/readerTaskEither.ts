@@ -0,0 +1,469 @@
+import { extend } from "../internal/record.js";
+import type { TaskEither } from "../taskEither/taskEither.js";
+import type { ReaderTaskEitherValue } from "./model.js";
+
+export type ReaderTaskEither<R, E, T> = {
+	/**
+	 * Filters the ReaderTaskEither based on a predicate function applied to the Right value.
+	 * When the predicate is a type guard, the Right type is narrowed accordingly.
+	 *
+	 * @param predicate - Function that tests the Right value
+	 * @param onLeft - Function that provides the error value when predicate fails
+	 * @returns ReaderTaskEither resolving to the same Either if Left or predicate passes, otherwise Left with the provided error
+	 *
+	 * @example
+	 * ```typescript
+	 * asks((env: Config) => env.port)
+	 *   .filterOrElse(port => port > 0, () => "Invalid port")
+	 *   .run({ port: 0 }).run() // Promise<Left("Invalid port")>
+	 * ```
+	 */
+	filterOrElse: {
+		<U extends T>(
+			refinement: (right: T) => right is U,
+			onLeft: () => E,
+		): ReaderTaskEither<R, E, U>;
+		(
+			predicate: (right: T) => boolean,
+			onLeft: () => E,
+		): ReaderTaskEither<R, E, T>;
+	};
+
+	/**
+	 * Transforms the Right value using a mapping function.
+	 * If the computation resolves to Left, the mapper is not called.
+	 *
+	 * @typeParam U - The type of the transformed value
+	 * @param mapper - Function to transform the Right value
+	 * @returns New ReaderTaskEither with the transformed Right value, or the same Left if error
+	 *
+	 * @example
+	 * ```typescript
+	 * readerTaskEither(5).map(x => x * 2).run({}).run()     // Promise<Right(10)>
+	 * readerTaskLeft("error").map(x => x * 2).run({}).run() // Promise<Left("error")>
+	 * ```
+	 */
+	map: <U>(mapper: (right: T) => U) => ReaderTaskEither<R, E, U>;
+
+	/**
+	 * Transforms the Left value using a mapping function.
+	 * If the computation resolves to Right, the mapper is not called.
+	 *
+	 * @typeParam F - The type of the transformed error
+	 * @param mapper - Function to transform the Left value
+	 * @returns New ReaderTaskEither with the transformed Left value, or the same Right if success
+	 *
+	 * @example
+	 * ```typescript
+	 * readerTaskLeft("error").mapLeft(e => `mapped: ${e}`).run({}).run() // Promise<Left("mapped: error")>
+	 * ```
+	 */
+	mapLeft: <F>(mapper: (left: E) => F) => ReaderTaskEither<R, F, T>;
+
+	/**
+	 * Transforms both sides of the resolved Either at once.
+	 *
+	 * @typeParam F - The type of the transformed error
+	 * @typeParam U - The type of the transformed value
+	 * @param onLeft - Function to transform the Left value
+	 * @param onRight - Function to transform the Right value
+	 * @returns New ReaderTaskEither with the applicable side transformed
+	 *
+	 * @example
+	 * ```typescript
+	 * readerTaskEither(5).bimap(e => `Error: ${e}`, x => x * 2).run({}).run() // Promise<Right(10)>
+	 * ```
+	 */
+	bimap: <F, U>(
+		onLeft: (left: E) => F,
+		onRight: (right: T) => U,
+	) => ReaderTaskEither<R, F, U>;
+
+	/**
+	 * Applies a function wrapped in a ReaderTaskEither to a value wrapped in a ReaderTaskEither.
+	 * Both receive the same environment and are run concurrently.
+	 *
+	 * @typeParam RR - The environment required by the argument
+	 * @typeParam EE - Left type of the argument
+	 * @typeParam A - The type of the argument value
+	 * @typeParam U - The type of the function's return value
+	 * @param arg - ReaderTaskEither containing the argument to apply the function to
+	 * @returns ReaderTaskEither containing the function result, or the first Left if any is Left
+	 *
+	 * @example
+	 * ```typescript
+	 * const add = (x: number) => (y: number) => x + y;
+	 * readerTaskEither(add(5)).ap(readerTaskEither(3)).run({}).run() // Promise<Right(8)>
+	 * ```
+	 */
+	ap: <RR, EE, A, U>(
+		this: ReaderTaskEither<R, E, (a: A) => U>,
+		arg: ReaderTaskEither<RR, EE, A>,
+	) => ReaderTaskEither<R & RR, E | EE, U>;
+
+	/**
+	 * Combines this ReaderTaskEither with another one into a tuple.
+	 * Both receive the same environment and are run concurrently.
+	 *
+	 * @typeParam RR - The environment required by the other ReaderTaskEither
+	 * @typeParam EE - Left type of the other ReaderTaskEither
+	 * @typeParam A - Right type of the other ReaderTaskEither
+	 * @param other - The ReaderTaskEither to combine with this one
+	 * @returns ReaderTaskEither containing a tuple of both Right values, or the first Left
+	 *
+	 * @example
+	 * ```typescript
+	 * findUser(id).zip(findSettings(id)) // ReaderTaskEither<{ db: Db }, DbError, readonly [User, Settings]>
+	 * ```
+	 */
+	zip: <RR, EE, A>(
+		other: ReaderTaskEither<RR, EE, A>,
+	) => ReaderTaskEither<R & RR, E | EE, readonly [T, A]>;
+
+	/**
+	 * Flattens a nested ReaderTaskEither structure by removing one level of nesting.
+	 * The inner ReaderTaskEither receives the same environment as the outer one.
+	 *
+	 * @returns The inner ReaderTaskEither if this resolves to Right, otherwise this Left unchanged
+	 *
+	 * @example
+	 * ```typescript
+	 * readerTaskEither(readerTaskEither(42)).flatten().run({}).run() // Promise<Right(42)>
+	 * ```
+	 */
+	flatten: <RR, EE, U>(
+		this: ReaderTaskEither<R, E, ReaderTaskEither<RR, EE, U>>,
+	) => ReaderTaskEither<R & RR, E | EE, U>;
+
+	/**
+	 * Chains ReaderTaskEither-returning operations together (monadic bind).
+	 * The next step receives the same environment, so the requirements of both are combined.
+	 * If this resolves to Left, the mapper is not called.
+	 *
+	 * @typeParam RR - The environment required by the ReaderTaskEither returned by the mapper
+	 * @typeParam EE - The error type of the ReaderTaskEither returned by the mapper
+	 * @typeParam U - The success type of the ReaderTaskEither returned by the mapper
+	 * @param mapper - Function that takes a Right value and returns a ReaderTaskEither
+	 * @returns ReaderTaskEither requiring both environments
+	 *
+	 * @example
+	 * ```typescript
+	 * const findUser = (id: string) => asksTaskEither((env: { db: Db }) => env.db.findUser(id));
+	 * const notify = (user: User) => asksTaskEither((env: { mailer: Mailer }) => env.mailer.send(user.email));
+	 * findUser(id).flatMap(notify) // ReaderTaskEither<{ db: Db } & { mailer: Mailer }, DbError | MailError, Receipt>
+	 * ```
+	 */
+	flatMap: <RR, EE, U>(
+		mapper: (right: T) => ReaderTaskEither<RR, EE, U>,
+	) => ReaderTaskEither<R & RR, E | EE, U>;
+
+	/**
+	 * Chains a ReaderTaskEither-returning operation on the Left value, e.g. to recover from
+	 * or re-classify an error. Unlike {@link orElse}, the Left type is replaced
+	 * by the one returned from the mapper.
+	 *
+	 * @typeParam RR - The environment required by the ReaderTaskEither returned by the mapper
+	 * @typeParam F - The error type of the ReaderTaskEither returned by the mapper
+	 * @param mapper - Function that takes a Left value and returns a ReaderTaskEither
+	 * @returns ReaderTaskEither requiring both environments
+	 *
+	 * @example
+	 * ```typescript
+	 * findUser(id).flatMapLeft(() => asksTaskEither((env: { cache: Cache }) => env.cache.findUser(id)))
+	 * ```
+	 */
+	flatMapLeft: <RR, F>(
+		mapper: (left: E) => ReaderTaskEither<RR, F, T>,
+	) => ReaderTaskEither<R & RR, F, T>;
+
+	/**
+	 * Performs a side effect with the Right value, returning a ReaderTaskEither resolving to the same Either.
+	 * If the computation resolves to Left, the side effect is not executed.
+	 *
+	 * @param sideEffect - Function to execute with the Right value (return value is ignored)
+	 * @returns ReaderTaskEither resolving to the same Either
+	 *
+	 * @example
+	 * ```typescript
+	 * findUser(id).tap(user => console.log(user.name))
+	 * ```
+	 */
+	tap: (sideEffect: (right: T) => unknown) => ReaderTaskEither<R, E, T>;
+
+	/**
+	 * Performs a side effect with the Left value, returning a ReaderTaskEither resolving to the same Either.
+	 * If the computation resolves to Right, the side effect is not executed.
+	 *
+	 * @param sideEffect - Function to execute with the Left value (return value is ignored)
+	 * @returns ReaderTaskEither resolving to the same Either
+	 *
+	 * @example
+	 * ```typescript
+	 * findUser(id).tapLeft(err => console.error(err))
+	 * ```
+	 */
+	tapLeft: (sideEffect: (left: E) => unknown) => ReaderTaskEither<R, E, T>;
+
+	/**
+	 * Returns this ReaderTaskEither's result if it resolves to Right, otherwise the result of the fallback.
+	 * The fallback receives the same environment.
+	 *
+	 * @typeParam RR - The environment required by the fallback ReaderTaskEither
+	 * @typeParam EE - The type of the error in the fallback ReaderTaskEither
+	 * @param fallback - Function that takes the Left value and returns an alternative ReaderTaskEither
+	 * @returns ReaderTaskEither requiring both environments
+	 *
+	 * @example
+	 * ```typescript
+	 * readerTaskLeft("error").orElse(() => readerTaskEither(0)).run({}).run() // Promise<Right(0)>
+	 * ```
+	 */
+	orElse: <RR, EE>(
+		fallback: (left: E) => ReaderTaskEither<RR, EE, T>,
+	) => ReaderTaskEither<R & RR, E | EE, T>;
+
+	/**
+	 * Runs the ReaderTaskEither in a modified environment.
+	 * Use it to adapt a ReaderTaskEither to a larger or differently shaped environment.
+	 *
+	 * @typeParam RR - The type of the new environment
+	 * @param f - Function that derives the environment of this ReaderTaskEither from the new one
+	 * @returns ReaderTaskEither requiring the new environment
+	 *
+	 * @example
+	 * ```typescript
+	 * findUser(id).local((app: App) => ({ db: app.database }))
+	 * ```
+	 */
+	local: <RR>(f: (env: RR) => R) => ReaderTaskEither<RR, E, T>;
+
+	/**
+	 * Supplies the whole environment, eliminating all requirements.
+	 *
+	 * @param env - The environment to supply
+	 * @returns ReaderTaskEither that no longer requires an environment
+	 *
+	 * @example
+	 * ```typescript
+	 * findUser(id).provide({ db }) // ReaderTaskEither<unknown, DbError, User>
+	 * ```
+	 */
+	provide: (env: R) => ReaderTaskEither<unknown, E, T>;
+
+	/**
+	 * Supplies part of the environment, eliminating the provided requirements.
+	 * The remaining requirements must be supplied later.
+	 *
+	 * @typeParam K - The keys of the environment being supplied
+	 * @param partial - The part of the environment to supply
+	 * @returns ReaderTaskEither requiring only the remaining part of the environment
+	 *
+	 * @example
+	 * ```typescript
+	 * findUser(id).flatMap(notify).provideSome({ db }) // ReaderTaskEither<{ mailer: Mailer }, DbError | MailError, Receipt>
+	 * ```
+	 */
+	provideSome: <K extends keyof R>(
+		partial: Pick<R, K>,
+	) => ReaderTaskEither<Omit<R, K>, E, T>;
+
+	/**
+	 * Wraps the Right value in a record under the given key.
+	 * This is usually the first step of do-notation when starting from an existing ReaderTaskEither.
+	 *
+	 * @param key - The key to store the Right value under
+	 * @returns ReaderTaskEither containing a record with the Right value under `key`, or the same Left
+	 *
+	 * @example
+	 * ```typescript
+	 * readerTaskEither(5).bindTo("x").run({}).run() // Promise<Right({ x: 5 })>
+	 * ```
+	 */
+	bindTo: <K extends string>(
+		key: K,
+	) => ReaderTaskEither<R, E, { readonly [P in K]: T }>;
+
+	/**
+	 * Extends the record on the Right side with the value of another ReaderTaskEither computed from it.
+	 * The new step runs after this one and short-circuits on the first Left, like {@link flatMap}.
+	 *
+	 * @typeParam RR - The environment required by the ReaderTaskEither returned by the mapper
+	 * @typeParam EE - The error type of the ReaderTaskEither returned by the mapper
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns a ReaderTaskEither
+	 * @returns ReaderTaskEither containing the extended record, or the first Left
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.bind("user", () => findUser(id))
+	 *   .bind("orders", ({ user }) => findOrders(user.id))
+	 * ```
+	 */
+	bind: <K extends string, RR, EE, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => ReaderTaskEither<RR, EE, U>,
+	) => ReaderTaskEither<R & RR, E | EE, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Extends the record on the Right side with a plain value computed from it.
+	 *
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns a value
+	 * @returns ReaderTaskEither containing the extended record, or the same Left
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.bind("orders", () => findOrders(id))
+	 *   .let("total", ({ orders }) => orders.length)
+	 * ```
+	 */
+	let: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => U,
+	) => ReaderTaskEither<R, E, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Extends the record on the Right side with the value of an independent ReaderTaskEither.
+	 * Both are run concurrently, like {@link ap}.
+	 *
+	 * @typeParam RR - The environment required by the added ReaderTaskEither
+	 * @typeParam EE - The error type of the added ReaderTaskEither
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param other - The ReaderTaskEither whose Right value is added to the record
+	 * @returns ReaderTaskEither containing the extended record, or the first Left
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.apS("user", findUser(id))
+	 *   .apS("settings", findSettings(id)) // fetched concurrently
+	 * ```
+	 */
+	apS: <K extends string, RR, EE, U>(
+		key: Exclude<K, keyof T>,
+		other: ReaderTaskEither<RR, EE, U>,
+	) => ReaderTaskEither<R & RR, E | EE, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Supplies the environment and returns the resulting TaskEither.
+	 * Nothing is executed until the returned TaskEither is run.
+	 *
+	 * @param env - The environment to supply
+	 * @returns TaskEither that performs the computation
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await findUser(id).run({ db }).run(); // Either<DbError, User>
+	 * ```
+	 */
+	run: (env: R) => TaskEither<E, T>;
+};
+
+export function createReaderTaskEither<R, E, T>(
+	f: ReaderTaskEitherValue<R, E, T>,
+): ReaderTaskEither<R, E, T> {
+	const rte: ReaderTaskEither<R, E, T> = {
+		filterOrElse: ((predicate: (right: T) => boolean, onLeft: () => E) =>
+			createReaderTaskEither((env: R) =>
+				f(env).filterOrElse(predicate, onLeft),
+			)) as ReaderTaskEither<R, E, T>["filterOrElse"],
+
+		map: <U>(mapper: (right: T) => U): ReaderTaskEither<R, E, U> =>
+			createReaderTaskEither((env) => f(env).map(mapper)),
+
+		mapLeft: <F>(mapper: (left: E) => F): ReaderTaskEither<R, F, T> =>
+			createReaderTaskEither((env) => f(env).mapLeft(mapper)),
+
+		bimap: <F, U>(
+			onLeft: (left: E) => F,
+			onRight: (right: T) => U,
+		): ReaderTaskEither<R, F, U> =>
+			createReaderTaskEither((env) => f(env).bimap(onLeft, onRight)),
+
+		ap: function <RR, EE, A, U>(
+			this: ReaderTaskEither<R, E, (a: A) => U>,
+			arg: ReaderTaskEither<RR, EE, A>,
+		): ReaderTaskEither<R & RR, E | EE, U> {
+			return createReaderTaskEither((env: R & RR) =>
+				this.run(env).ap(arg.run(env)),
+			);
+		},
+
+		zip: <RR, EE, A>(
+			other: ReaderTaskEither<RR, EE, A>,
+		): ReaderTaskEither<R & RR, E | EE, readonly [T, A]> =>
+			rte.map((value) => (a: A) => [value, a] as const).ap(other),
+
+		flatten: function <RR, EE, U>(
+			this: ReaderTaskEither<R, E, ReaderTaskEither<RR, EE, U>>,
+		): ReaderTaskEither<R & RR, E | EE, U> {
+			// biome-ignore lint/complexity/noFlatMapIdentity: flatMap here is the custom ReaderTaskEither method, not Array.flatMap
+			return this.flatMap((value) => value);
+		},
+
+		flatMap: <RR, EE, U>(
+			mapper: (right: T) => ReaderTaskEither<RR, EE, U>,
+		): ReaderTaskEither<R & RR, E | EE, U> =>
+			createReaderTaskEither((env: R & RR) =>
+				f(env).flatMap((value) => mapper(value).run(env)),
+			),
+
+		flatMapLeft: <RR, F>(
+			mapper: (left: E) => ReaderTaskEither<RR, F, T>,
+		): ReaderTaskEither<R & RR, F, T> =>
+			createReaderTaskEither((env: R & RR) =>
+				f(env).flatMapLeft((error) => mapper(error).run(env)),
+			),
+
+		tap: (sideEffect: (right: T) => unknown): ReaderTaskEither<R, E, T> =>
+			createReaderTaskEither((env) => f(env).tap(sideEffect)),
+
+		tapLeft: (sideEffect: (left: E) => unknown): ReaderTaskEither<R, E, T> =>
+			createReaderTaskEither((env) => f(env).tapLeft(sideEffect)),
+
+		orElse: <RR, EE>(
+			fallback: (left: E) => ReaderTaskEither<RR, EE, T>,
+		): ReaderTaskEither<R & RR, E | EE, T> =>
+			createReaderTaskEither((env: R & RR) =>
+				f(env).orElse((error) => fallback(error).run(env)),
+			),
+
+		local: <RR>(g: (env: RR) => R): ReaderTaskEither<RR, E, T> =>
+			createReaderTaskEither((env) => f(g(env))),
+
+		provide: (env: R): ReaderTaskEither<unknown, E, T> =>
+			createReaderTaskEither(() => f(env)),
+
+		provideSome: <K extends keyof R>(
+			partial: Pick<R, K>,
+		): ReaderTaskEither<Omit<R, K>, E, T> =>
+			createReaderTaskEither((env) => f({ ...env, ...partial } as R)),
+
+		bindTo: <K extends string>(key: K) =>
+			rte.map((value) => ({ [key]: value }) as { readonly [P in K]: T }),
+
+		bind: <K extends string, RR, EE, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => ReaderTaskEither<RR, EE, U>,
+		) =>
+			rte.flatMap((scope) =>
+				mapper(scope).map((value) => extend<T, K, U>(scope, key, value)),
+			),
+
+		let: <K extends string, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => U,
+		) => rte.map((scope) => extend<T, K, U>(scope, key, mapper(scope))),
+
+		apS: <K extends string, RR, EE, U>(
+			key: Exclude<K, keyof T>,
+			other: ReaderTaskEither<RR, EE, U>,
+		) =>
+			rte
+				.zip(other)
+				.map(([scope, value]) => extend<T, K, U>(scope, key, value)),
+
+		run: (env) => f(env),
+	};
+
+	return rte;
+}
@@ -0,0 +1,4 @@
+export * from "./state/constructors.js";
+export * from "./state/helpers.js";
+export type { StateValue } from "./state/model.js";
+export type { State } from "./state/state.js";
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { get, gets, modify, put, state } from "./constructors.js";
+
+describe("state constructors", () => {
+	describe("state", () => {
+		it("should produce the value and keep the state", () => {
+			expect(state<number, string>(42).run("s")).toEqual([42, "s"]);
+		});
+	});
+
+	describe("get", () => {
+		it("should produce the current state", () => {
+			expect(get<number>().run(5)).toEqual([5, 5]);
+		});
+	});
+
+	describe("gets", () => {
+		it("should produce a value derived from the state", () => {
+			expect(gets((stack: number[]) => stack.length).run([1, 2])).toEqual([
+				2,
+				[1, 2],
+			]);
+		});
+	});
+
+	describe("put", () => {
+		it("should replace the state", () => {
+			expect(put(10).run(5)).toEqual([undefined, 10]);
+		});
+	});
+
+	describe("modify", () => {
+		it("should update the state with a function", () => {
+			expect(modify((n: number) => n + 1).run(5)).toEqual([undefined, 6]);
+		});
+	});
+});
@@ -0,0 +1,82 @@
+import { createState, type State } from "./state.js";
+
+/**
+ * Creates a State that produces the provided value and leaves the state unchanged.
+ *
+ * @typeParam T - The type of the value
+ * @typeParam S - The type of the state
+ * @param value - The value to produce
+ * @returns State producing the given value
+ *
+ * @example
+ * ```typescript
+ * state<number, string>(42).run("s") // [42, "s"]
+ * ```
+ */
+export function state<T, S>(value: T): State<S, T> {
+	return createState((s) => [value, s]);
+}
+
+/**
+ * Creates a State that produces the current state.
+ *
+ * @typeParam S - The type of the state
+ * @returns State producing the current state and leaving it unchanged
+ *
+ * @example
+ * ```typescript
+ * get<number>().run(5) // [5, 5]
+ * ```
+ */
+export function get<S>(): State<S, S> {
+	return createState((s) => [s, s]);
+}
+
+/**
+ * Creates a State that produces a value derived from the current state.
+ *
+ * @typeParam S - The type of the state
+ * @typeParam T - The type of the derived value
+ * @param f - Function that derives a value from the state
+ * @returns State producing the derived value and leaving the state unchanged
+ *
+ * @example
+ * ```typescript
+ * gets((stack: number[]) => stack.length).run([1, 2]) // [2, [1, 2]]
+ * ```
+ */
+export function gets<S, T>(f: (state: S) => T): State<S, T> {
+	return createState((s) => [f(s), s]);
+}
+
+/**
+ * Creates a State that replaces the current state.
+ *
+ * @typeParam S - The type of the state
+ * @param next - The new state
+ * @returns State that sets the state to `next` and produces no value
+ *
+ * @example
+ * ```typescript
+ * put(10).run(5) // [undefined, 10]
+ * ```
+ */
+export function put<S>(next: S): State<S, void> {
+	return createState(() => [undefined, next]);
+}
+
+/**
+ * Creates a State that updates the current state with a function.
+ *
+ * @typeParam S - The type of the state
+ * @param f - Function that computes the new state from the current one
+ * @returns State that updates the state and produces no value
+ *
+ * @example
+ * ```typescript
+ * modify((n: number) => n + 1).run(5) // [undefined, 6]
+ * ```
+ */
+export function modify<S>(f: (state: S) => S): State<S, void> {
+	return createState((s) => [undefined, f(s)]);
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { traversableSpec } from "../testUtils/traversable.js";
+import { get, put, state } from "./constructors.js";
+import { sequence, traverse, traverseWithIndex } from "./helpers.js";
+import type { State } from "./state.js";
+
+const nextId = get<number>().flatMap((id) => put(id + 1).map(() => id));
+
+describe("state helpers", () => {
+	describe("sequence", () => {
+		it("should run the States in order, threading the state", () => {
+			expect(sequence([nextId, nextId, nextId]).run(1)).toEqual([[1, 2, 3], 4]);
+		});
+	});
+
+	describe("traverse", () => {
+		it("should map every item to a State and thread the state", () => {
+			const program = traverse(["alice", "bob"], (name) =>
+				nextId.map((id) => ({ id, name })),
+			);
+			expect(program.run(1)).toEqual([
+				[
+					{ id: 1, name: "alice" },
+					{ id: 2, name: "bob" },
+				],
+				3,
+			]);
+		});
+
+		it("should produce a fresh array on every run", () => {
+			const program = traverse([1, 2], () => nextId);
+			expect(program.evaluate(1)).toEqual([1, 2]);
+			expect(program.evaluate(10)).toEqual([10, 11]);
+		});
+
+		it("should handle long arrays without growing the call stack", () => {
+			const items = Array.from({ length: 100_000 }, (_, i) => i);
+			const [values, last] = traverse(items, () => nextId).run(0);
+			expect(values).toHaveLength(100_000);
+			expect(last).toBe(100_000);
+		});
+	});
+
+	describe(
+		"traversable",
+		traversableSpec<State<number, unknown>, State<number, unknown[]>>({
+			of: (value) => state(value),
+			sequence,
+			traverse,
+			traverseWithIndex,
+			asTag: (s) => ({ result: s.run(0) }),
+		}),
+	);
+});
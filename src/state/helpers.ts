@@ -0,0 +1,65 @@
+import { createState, type State } from "./state.js";
+
+/**
+ * Runs all States in order, threading the state through them, and collects their values into an array.
+ *
+ * @param states - Array of States to run in order
+ * @returns State producing an array of all values
+ *
+ * @example
+ * ```typescript
+ * sequence([nextId, nextId, nextId]).run(1) // [[1, 2, 3], 4]
+ * ```
+ */
+export function sequence<S, T>(states: readonly State<S, T>[]): State<S, T[]> {
+	return traverse(states, (s) => s);
+}
+
+/**
+ * Maps each item of an array to a State and runs them in order, threading the state through them.
+ * The values keep the order of the input items. Arrays of any length are evaluated in constant stack space.
+ *
+ * @param items - Array of items to map
+ * @param mapper - Function that maps an item to a State
+ * @returns State producing an array of all values
+ *
+ * @example
+ * ```typescript
+ * traverse(["alice", "bob"], (name) => nextId.map((id) => ({ id, name }))).run(1)
+ * // [[{ id: 1, name: "alice" }, { id: 2, name: "bob" }], 3]
+ * ```
+ */
+export function traverse<S, A, B>(
+	items: readonly A[],
+	mapper: (item: A) => State<S, B>,
+): State<S, B[]> {
+	return traverseWithIndex(items, (item) => mapper(item));
+}
+
+/**
+ * Like {@link traverse}, but the mapper also receives the index of each item.
+ *
+ * @param items - Array of items to map
+ * @param mapper - Function that maps an item and its index to a State
+ * @returns State producing an array of all values
+ *
+ * @example
+ * ```typescript
+ * traverseWithIndex(tokens, (token, i) => consume(token, i)).run(parser)
+ * ```
+ */
+export function traverseWithIndex<S, A, B>(
+	items: readonly A[],
+	mapper: (item: A, index: number) => State<S, B>,
+): State<S, B[]> {
+	return items.reduce(
+		(acc, item, index) =>
+			acc.flatMap((values) =>
+				mapper(item, index).map((value) => {
+					values.push(value);
+					return values;
+				}),
+			),
+		createState<S, B[]>((s) => [[], s]),
+	);
+}
@@ -0,0 +1 @@
+export type StateValue<S, T> = (state: S) => readonly [T, S];
@@ -0,0 +1,134 @@
+import { describe, expect, it, vi } from "vitest";
+import { applicativeLawsSpec } from "../testUtils/applicativeLaws.js";
+import { functorLawsSpec } from "../testUtils/functorLaws.js";
+import { monadLawsSpec } from "../testUtils/monadLaws.js";
+import { get, modify, put, state } from "./constructors.js";
+import { createState, type State } from "./state.js";
+
+const nextId = get<number>().flatMap((id) => put(id + 1).map(() => id));
+
+const asTag = <T>(s: State<number, T>) => ({ result: s.run(10) });
+
+describe("state", () => {
+	describe("map", () => {
+		it("should transform the value and keep the state", () => {
+			expect(
+				get<number>()
+					.map((n) => n * 2)
+					.run(5),
+			).toEqual([10, 5]);
+		});
+	});
+
+	describe("ap", () => {
+		it("should run the function first and the argument with the resulting state", () => {
+			const fn = nextId.map((a) => (b: number) => [a, b]);
+			expect(fn.ap(nextId).run(1)).toEqual([[1, 2], 3]);
+		});
+	});
+
+	describe("zip", () => {
+		it("should combine the values of both States in order", () => {
+			expect(nextId.zip(nextId).run(1)).toEqual([[1, 2], 3]);
+		});
+	});
+
+	describe("flatMap", () => {
+		it("should thread the state into the next step", () => {
+			const program = modify((n: number) => n + 1).flatMap(() =>
+				get<number>().map((n) => `now ${n}`),
+			);
+			expect(program.run(1)).toEqual(["now 2", 2]);
+		});
+	});
+
+	describe("tap", () => {
+		it("should execute the side effect with the value", () => {
+			const sideEffect = vi.fn();
+			expect(nextId.tap(sideEffect).run(1)).toEqual([1, 2]);
+			expect(sideEffect).toHaveBeenCalledWith(1);
+		});
+	});
+
+	describe("do-notation", () => {
+		it("should accumulate values with bindTo, bind, let and apS", () => {
+			const program = nextId
+				.bindTo("a")
+				.bind("b", () => nextId)
+				.apS("c", nextId)
+				.let("sum", ({ a, b, c }) => a + b + c);
+			expect(program.run(1)).toEqual([{ a: 1, b: 2, c: 3, sum: 6 }, 4]);
+		});
+	});
+
+	describe("run / evaluate / execute", () => {
+		it("should return the value and the final state", () => {
+			expect(nextId.run(1)).toEqual([1, 2]);
+			expect(nextId.evaluate(1)).toBe(1);
+			expect(nextId.execute(1)).toBe(2);
+		});
+
+		it("should be lazy and start from the given state on every run", () => {
+			const f = vi.fn((s: number) => [s, s + 1] as const);
+			const s = createState(f);
+			expect(f).not.toHaveBeenCalled();
+			expect(s.run(1)).toEqual([1, 2]);
+			expect(s.run(5)).toEqual([5, 6]);
+		});
+	});
+
+	describe("stack safety", () => {
+		it("should run a long chain of flatMap calls", () => {
+			let program: State<number, number> = state(0);
+			for (let i = 0; i < 100_000; i++) {
+				program = program.flatMap(() => nextId);
+			}
+			expect(program.run(0)).toEqual([99_999, 100_000]);
+		});
+
+		it("should run a long chain of map calls", () => {
+			let program: State<number, number> = state(0);
+			for (let i = 0; i < 100_000; i++) {
+				program = program.map((n) => n + 1);
+			}
+			expect(program.evaluate(0)).toBe(100_000);
+		});
+
+		it("should run a deeply recursive definition", () => {
+			const countDown = (n: number): State<number, string> =>
+				n === 0
+					? state("done")
+					: modify((total: number) => total + 1).flatMap(() =>
+							countDown(n - 1),
+						);
+			expect(countDown(100_000).run(0)).toEqual(["done", 100_000]);
+		});
+	});
+
+	describe(
+		"functor laws",
+		functorLawsSpec<State<number, number>>({
+			of: (value) => state(value),
+			map: (s, mapper) => s.map(mapper),
+			asTag,
+		}),
+	);
+
+	describe(
+		"applicative laws",
+		applicativeLawsSpec<State<number, unknown>>({
+			of: (value) => state(value),
+			ap: (s, arg) => (s as State<number, (arg: unknown) => unknown>).ap(arg),
+			asTag,
+		}),
+	);
+
+	describe(
+		"monad laws",
+		monadLawsSpec<State<number, number>>({
+			of: (value) => state(value),
+			flatMap: (s, mapper) => s.flatMap(mapper),
+			asTag,
+		}),
+	);
+});
@@ -0,0 +1,288 @@
+import { extend } from "../internal/record.js";
+import type { StateValue } from "./model.js";
+
+export type State<S, T> = {
+	/**
+	 * Transforms the produced value using a mapping function. The state is passed through unchanged.
+	 *
+	 * @typeParam U - The type of the transformed value
+	 * @param mapper - Function to transform the value
+	 * @returns New State producing the transformed value
+	 *
+	 * @example
+	 * ```typescript
+	 * get<number>().map(n => n * 2).run(5) // [10, 5]
+	 * ```
+	 */
+	map: <U>(mapper: (value: T) => U) => State<S, U>;
+
+	/**
+	 * Applies a function produced by this State to the value produced by another State.
+	 * This State runs first and the argument runs with the state it leaves behind.
+	 *
+	 * @typeParam A - The type of the argument value
+	 * @typeParam U - The type of the function's return value
+	 * @param arg - State producing the argument to apply the function to
+	 * @returns State producing the function result
+	 *
+	 * @example
+	 * ```typescript
+	 * const add = (x: number) => (y: number) => x + y;
+	 * state<(y: number) => number, number>(add(5)).ap(get<number>()).run(3) // [8, 3]
+	 * ```
+	 */
+	ap: <A, U>(this: State<S, (a: A) => U>, arg: State<S, A>) => State<S, U>;
+
+	/**
+	 * Combines this State with another State into a tuple of both values.
+	 * This State runs first and the other one runs with the state it leaves behind.
+	 *
+	 * @typeParam A - The type of the value produced by the other State
+	 * @param other - The State to run after this one
+	 * @returns State producing a tuple of both values
+	 *
+	 * @example
+	 * ```typescript
+	 * nextId.zip(nextId).run(1) // [[1, 2], 3]
+	 * ```
+	 */
+	zip: <A>(other: State<S, A>) => State<S, readonly [T, A]>;
+
+	/**
+	 * Chains State-returning operations together, threading the state from one step to the next.
+	 * Chains of any length are evaluated in constant stack space.
+	 *
+	 * @typeParam U - The type of the value produced by the State returned by the mapper
+	 * @param mapper - Function that takes the value and returns the next State
+	 * @returns State that runs this State, then the State returned by mapper
+	 *
+	 * @example
+	 * ```typescript
+	 * const nextId = get<number>().flatMap(id => put(id + 1).map(() => id));
+	 * nextId.run(1) // [1, 2]
+	 * ```
+	 */
+	flatMap: <U>(mapper: (value: T) => State<S, U>) => State<S, U>;
+
+	/**
+	 * Performs a side effect with the produced value, returning a State that produces the same value.
+	 *
+	 * @param sideEffect - Function to execute with the value (return value is ignored)
+	 * @returns State producing the same value and state
+	 *
+	 * @example
+	 * ```typescript
+	 * nextId.tap(id => console.log("Allocated", id))
+	 * ```
+	 */
+	tap: (sideEffect: (value: T) => void) => State<S, T>;
+
+	/**
+	 * Wraps the produced value in a record under the given key.
+	 * This is usually the first step of do-notation.
+	 *
+	 * @param key - The key to store the value under
+	 * @returns State producing a record with the value under `key`
+	 *
+	 * @example
+	 * ```typescript
+	 * nextId.bindTo("id").run(1) // [{ id: 1 }, 2]
+	 * ```
+	 */
+	bindTo: <K extends string>(key: K) => State<S, { readonly [P in K]: T }>;
+
+	/**
+	 * Adds the value of a State computed from the current record under a new key.
+	 * The new State runs with the state left behind by this one.
+	 *
+	 * @param key - The key to store the value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns a State
+	 * @returns State producing the extended record
+	 *
+	 * @example
+	 * ```typescript
+	 * nextId.bindTo("userId").bind("orderId", () => nextId).run(1)
+	 * // [{ userId: 1, orderId: 2 }, 3]
+	 * ```
+	 */
+	bind: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => State<S, U>,
+	) => State<S, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Adds a plain value computed from the current record under a new key.
+	 *
+	 * @param key - The key to store the value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns a value
+	 * @returns State producing the extended record
+	 *
+	 * @example
+	 * ```typescript
+	 * nextId.bindTo("id").let("label", ({ id }) => `#${id}`).run(1)
+	 * // [{ id: 1, label: "#1" }, 2]
+	 * ```
+	 */
+	let: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => U,
+	) => State<S, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Adds the value of another State under a new key.
+	 * The other State runs with the state left behind by this one.
+	 *
+	 * @param key - The key to store the value under (must not already exist)
+	 * @param other - The State whose value is added
+	 * @returns State producing the extended record
+	 *
+	 * @example
+	 * ```typescript
+	 * nextId.bindTo("a").apS("b", nextId).run(1) // [{ a: 1, b: 2 }, 3]
+	 * ```
+	 */
+	apS: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		other: State<S, U>,
+	) => State<S, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Runs the State with an initial state and returns both the produced value and the final state.
+	 *
+	 * @param initial - The state to start from
+	 * @returns Tuple of the produced value and the final state
+	 *
+	 * @example
+	 * ```typescript
+	 * nextId.run(1) // [1, 2]
+	 * ```
+	 */
+	run: (initial: S) => readonly [T, S];
+
+	/**
+	 * Runs the State with an initial state and returns only the produced value.
+	 *
+	 * @param initial - The state to start from
+	 * @returns The produced value
+	 *
+	 * @example
+	 * ```typescript
+	 * nextId.evaluate(1) // 1
+	 * ```
+	 */
+	evaluate: (initial: S) => T;
+
+	/**
+	 * Runs the State with an initial state and returns only the final state.
+	 *
+	 * @param initial - The state to start from
+	 * @returns The final state
+	 *
+	 * @example
+	 * ```typescript
+	 * nextId.execute(1) // 2
+	 * ```
+	 */
+	execute: (initial: S) => S;
+};
+
+type Continuation = (value: unknown) => State<unknown, unknown>;
+
+type Step =
+	| { readonly run: StateValue<unknown, unknown> }
+	| { readonly source: Step; readonly next: Continuation };
+
+const steps = new WeakMap<object, Step>();
+
+export function createState<S, T>(f: StateValue<S, T>): State<S, T> {
+	return fromStep({ run: f as StateValue<unknown, unknown> });
+}
+
+function fromStep<S, T>(step: Step): State<S, T> {
+	const state: State<S, T> = {
+		map: <U>(mapper: (value: T) => U): State<S, U> =>
+			state.flatMap((value) =>
+				createState<S, U>((s) => [mapper(value), s] as const),
+			),
+
+		ap: function <A, U>(
+			this: State<S, (a: A) => U>,
+			arg: State<S, A>,
+		): State<S, U> {
+			return this.flatMap((fn) => arg.map(fn));
+		},
+
+		zip: <A>(other: State<S, A>): State<S, readonly [T, A]> =>
+			state.map((value) => (a: A) => [value, a] as const).ap(other),
+
+		flatMap: <U>(mapper: (value: T) => State<S, U>): State<S, U> =>
+			fromStep({ source: step, next: mapper as unknown as Continuation }),
+
+		tap: (sideEffect) =>
+			state.map((value) => {
+				sideEffect(value);
+				return value;
+			}),
+
+		bindTo: <K extends string>(key: K) =>
+			state.map((value) => ({ [key]: value }) as { readonly [P in K]: T }),
+
+		bind: <K extends string, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => State<S, U>,
+		) =>
+			state.flatMap((scope) =>
+				mapper(scope).map((value) => extend<T, K, U>(scope, key, value)),
+			),
+
+		let: <K extends string, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => U,
+		) => state.map((scope) => extend<T, K, U>(scope, key, mapper(scope))),
+
+		apS: <K extends string, U>(key: Exclude<K, keyof T>, other: State<S, U>) =>
+			state
+				.zip(other)
+				.map(([scope, value]) => extend<T, K, U>(scope, key, value)),
+
+		run: (initial) => interpret(step, initial) as readonly [T, S],
+
+		evaluate: (initial) => state.run(initial)[0],
+
+		execute: (initial) => state.run(initial)[1],
+	};
+
+	steps.set(state, step);
+	return state;
+}
+
+/**
+ * Runs a chain of steps in a loop with an explicit stack of continuations,
+ * so neither long `flatMap` chains nor recursive definitions grow the call stack.
+ */
+function interpret(root: Step, initial: unknown): readonly [unknown, unknown] {
+	const continuations: Continuation[] = [];
+	let current = root;
+	let state = initial;
+
+	for (;;) {
+		if ("source" in current) {
+			continuations.push(current.next);
+			current = current.source;
+			continue;
+		}
+
+		const [value, next] = current.run(state);
+		state = next;
+
+		const continuation = continuations.pop();
+		if (continuation === undefined) {
+			return [value, state];
+		}
+		current = stepOf(continuation(value));
+	}
+}
+
+function stepOf(state: State<unknown, unknown>): Step {
+	return steps.get(state) ?? { run: (s) => state.run(s) };
+}
@@ -1,4 +1,8 @@
+export type { ConcurrencyOptions } from "./task/concurrency.js";
 export * from "./task/constructors.js";
+export type { Fiber, FiberStatus } from "./task/fiber.js";
 export * from "./task/helpers.js";
+export { InterruptedError } from "./task/interruption.js";
 export type { TaskValue } from "./task/model.js";
 export type { Task } from "./task/task.js";
+export { TimeoutError } from "./task/timeout.js";
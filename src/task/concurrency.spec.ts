@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { concurrencyOf, limitConcurrency } from "./concurrency.js";
+
+describe("concurrency", () => {
+	describe("concurrencyOf", () => {
+		it("should default to unlimited", () => {
+			expect(concurrencyOf(undefined)).toBe(Number.POSITIVE_INFINITY);
+			expect(concurrencyOf({})).toBe(Number.POSITIVE_INFINITY);
+		});
+
+		it("should accept positive integers and Infinity", () => {
+			expect(concurrencyOf({ concurrency: 1 })).toBe(1);
+			expect(concurrencyOf({ concurrency: Number.POSITIVE_INFINITY })).toBe(
+				Number.POSITIVE_INFINITY,
+			);
+		});
+
+		it("should throw a RangeError for any other value", () => {
+			for (const concurrency of [Number.NaN, 0, -1, 1.5]) {
+				expect(() => concurrencyOf({ concurrency })).toThrow(RangeError);
+			}
+		});
+	});
+
+	describe("limitConcurrency", () => {
+		it("should free the slot of a start that throws synchronously", async () => {
+			const limited = limitConcurrency(1);
+			const error = new Error("boom");
+			const failed = limited(() => {
+				throw error;
+			});
+			const next = limited(() => Promise.resolve("next"));
+			await expect(failed).rejects.toBe(error);
+			expect(await next).toBe("next");
+		});
+	});
+});
@@ -0,0 +1,62 @@
+export type ConcurrencyOptions = {
+	/**
+	 * The maximum number of runs in progress at the same time: a positive integer, or `Infinity`.
+	 * Unlimited by default; `1` runs them strictly one after another.
+	 */
+	readonly concurrency?: number;
+};
+
+/**
+ * Reads the concurrency limit from the options, unlimited if none is given.
+ * Throws a RangeError if the limit is not a positive integer or `Infinity`.
+ */
+export function concurrencyOf(options: ConcurrencyOptions | undefined): number {
+	const concurrency = options?.concurrency ?? Number.POSITIVE_INFINITY;
+	if (
+		!(
+			Number.isInteger(concurrency) || concurrency === Number.POSITIVE_INFINITY
+		) ||
+		concurrency < 1
+	) {
+		throw new RangeError(
+			`concurrency must be a positive integer or Infinity, got ${concurrency}`,
+		);
+	}
+	return concurrency;
+}
+
+/**
+ * Returns a function that starts runs in the order it is called, keeping at most
+ * `concurrency` of them pending and queueing the rest until a slot frees up.
+ */
+export function limitConcurrency(
+	concurrency: number,
+): <T>(start: () => Promise<T>) => Promise<T> {
+	const queue: (() => void)[] = [];
+	let active = 0;
+
+	const release = () => {
+		active -= 1;
+		queue.shift()?.();
+	};
+
+	return <T>(start: () => Promise<T>) =>
+		new Promise<T>((resolve, reject) => {
+			const launch = () => {
+				active += 1;
+				let started: Promise<T>;
+				try {
+					started = start();
+				} catch (err) {
+					// a start that throws still rejects and frees its slot
+					started = Promise.reject(err);
+				}
+				started.then(resolve, reject).then(release);
+			};
+			if (active < concurrency) {
+				launch();
+			} else {
+				queue.push(launch);
+			}
+		});
+}
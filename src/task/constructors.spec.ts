@@ -36,5 +36,12 @@ describe("task constructors", () => {
 			await t.run();
 			expect(fn).toHaveBeenCalledTimes(2);
 		});
+
+		it("should pass the signal given to run() to the thunk", async () => {
+			const controller = new AbortController();
+			const fn = vi.fn((_signal?: AbortSignal) => Promise.resolve(1));
+			await fromPromise(fn).run(controller.signal);
+			expect(fn).toHaveBeenCalledWith(controller.signal);
+		});
 	});
 });
@@ -19,18 +19,35 @@ export function task<T>(value: T): Task<T> {
 
 /**
  * Creates a Task from a lazy Promise-returning thunk.
- * The thunk is not called until `run()` is invoked.
+ * The thunk is not called until `run()` is invoked, and receives the AbortSignal passed to `run`.
  *
  * @typeParam T - The type of the resolved value
- * @param thunk - A function that returns a Promise
+ * @param thunk - A function that returns a Promise, optionally using the signal to cancel its work
  * @returns Task wrapping the lazy Promise
  *
  * @example
  * ```typescript
- * const fetchUser = fromPromise(() => fetch("/api/user").then(r => r.json()));
+ * const fetchUser = fromPromise((signal) => fetch("/api/user", { signal }).then(r => r.json()));
  * await fetchUser.run(); // fetches the user
+ * await fetchUser.run(controller.signal); // aborts the request when the controller is aborted
  * ```
  */
-export function fromPromise<T>(thunk: () => Promise<T>): Task<T> {
+export function fromPromise<T>(
+	thunk: (signal?: AbortSignal) => Promise<T>,
+): Task<T> {
 	return createTask(thunk);
 }
+
+/**
+ * A Task resolving with an empty record - the starting point of do-notation.
+ * Use `bind`, `let` and `apS` to add named values to the record step by step.
+ *
+ * @example
+ * ```typescript
+ * const t = Do.bind("user", () => fetchUser(id))
+ *   .bind("orders", ({ user }) => fetchOrders(user.id))
+ *   .let("count", ({ orders }) => orders.length);
+ * await t.run(); // { user, orders, count }
+ * ```
+ */
+export const Do: Task<Readonly<Record<never, never>>> = task({});
@@ -0,0 +1,175 @@
+import { InterruptedError, linkSignal } from "./interruption.js";
+import { createTask, type Task } from "./task.js";
+
+export type FiberStatus = "running" | "completed" | "failed" | "interrupted";
+
+export type Fiber<T> = {
+	/**
+	 * Waits for the fiber to finish and resolves with its value.
+	 * Rejects with the fiber's error, or with an InterruptedError if the fiber was interrupted.
+	 *
+	 * @returns Task resolving with the value of the forked Task
+	 *
+	 * @example
+	 * ```typescript
+	 * prefetchUser.fork().flatMap(fiber => renderShell.flatMap(() => fiber.join()))
+	 * ```
+	 */
+	join: () => Task<T>;
+
+	/**
+	 * Interrupts the fiber and waits until it and its own child fibers have stopped.
+	 * Interrupting a fiber that has already finished does nothing.
+	 *
+	 * @returns Task resolving once the fiber has stopped
+	 *
+	 * @example
+	 * ```typescript
+	 * heartbeat.fork().flatMap(fiber => doWork.flatMap(result => fiber.interrupt().map(() => result)))
+	 * ```
+	 */
+	interrupt: () => Task<void>;
+
+	/**
+	 * Returns the current status of the fiber.
+	 *
+	 * @returns `"running"` until the forked Task settles, then `"completed"`, `"failed"` or `"interrupted"`
+	 *
+	 * @example
+	 * ```typescript
+	 * fiber.status() // "running"
+	 * ```
+	 */
+	status: () => FiberStatus;
+};
+
+/**
+ * A started background run: its result, a Promise that settles with it but never rejects,
+ * and the means to interrupt it.
+ */
+export type FiberRuntime<T> = {
+	readonly result: Promise<T>;
+	readonly settled: Promise<void>;
+	readonly interrupt: () => Promise<void>;
+	readonly status: () => FiberStatus;
+};
+
+const scopes = new WeakMap<AbortSignal, Set<Promise<void>>>();
+const roots = new WeakMap<AbortSignal, AbortSignal>();
+
+/**
+ * Creates a controller that is aborted together with the parent signal, for interrupting part of a run
+ * without opening a new scope: fibers forked with its signal still belong to the parent's scope.
+ * Call `release` once that part has settled to remove the link to the parent.
+ */
+export function linkedController(parent: AbortSignal | undefined): {
+	readonly controller: AbortController;
+	readonly release: () => void;
+} {
+	const controller = new AbortController();
+	if (parent !== undefined) {
+		roots.set(controller.signal, rootOf(parent));
+	}
+	return { controller, release: linkSignal(parent, controller) };
+}
+
+/**
+ * Runs a computation in a new scope. Fibers forked with the scope's signal are interrupted
+ * and awaited once the computation settles, before its result is passed on.
+ */
+export function runScoped<T>(
+	parent: AbortSignal | undefined,
+	run: (signal: AbortSignal) => Promise<T>,
+	controller: AbortController = new AbortController(),
+): Promise<T> {
+	const unlink = linkToRoot(parent, controller);
+
+	const children = new Set<Promise<void>>();
+	scopes.set(controller.signal, children);
+
+	const close = () => {
+		unlink();
+		controller.abort();
+		return awaitAll(children);
+	};
+
+	return run(controller.signal).then(
+		(value) => close().then(() => value),
+		(err) => close().then(() => Promise.reject(err)),
+	);
+}
+
+/**
+ * Starts a computation in the background as a child of the scope the parent signal belongs to, if any.
+ * The fiber is interrupted when the parent signal is aborted.
+ */
+export function startFiber<T>(
+	parent: AbortSignal | undefined,
+	run: (signal: AbortSignal) => Promise<T>,
+): FiberRuntime<T> {
+	const controller = new AbortController();
+	let status: FiberStatus = "running";
+
+	const result = runScoped(parent, run, controller);
+	const settled = result.then(
+		() => {
+			status = "completed";
+		},
+		(err) => {
+			status = err instanceof InterruptedError ? "interrupted" : "failed";
+		},
+	);
+
+	const siblings =
+		parent === undefined ? undefined : scopes.get(rootOf(parent));
+	if (siblings !== undefined) {
+		siblings.add(settled);
+		settled.then(() => siblings.delete(settled));
+	}
+
+	return {
+		result,
+		settled,
+		interrupt: () => {
+			controller.abort();
+			return settled;
+		},
+		status: () => status,
+	};
+}
+
+export function createFiber<T>(runtime: FiberRuntime<T>): Fiber<T> {
+	return {
+		join: () => createTask(() => runtime.result),
+		interrupt: () => createTask(() => runtime.interrupt()),
+		status: () => runtime.status(),
+	};
+}
+
+function rootOf(signal: AbortSignal): AbortSignal {
+	return roots.get(signal) ?? signal;
+}
+
+/**
+ * Links the controller to the parent signal and, if the parent was derived with {@link linkedController},
+ * to the signal of the scope it belongs to, which outlives the derived one.
+ */
+function linkToRoot(
+	parent: AbortSignal | undefined,
+	controller: AbortController,
+): () => void {
+	const unlinkParent = linkSignal(parent, controller);
+	const root = parent === undefined ? undefined : rootOf(parent);
+	const unlinkRoot = root === parent ? () => {} : linkSignal(root, controller);
+	return () => {
+		unlinkParent();
+		unlinkRoot();
+	};
+}
+
+function awaitAll(children: Set<Promise<void>>): Promise<void> {
+	if (children.size === 0) {
+		return Promise.resolve();
+	}
+	return Promise.all(children).then(() => awaitAll(children));
+}
@@ -1,6 +1,21 @@
 import { describe, expect, it, vi } from "vitest";
-import { task } from "./constructors.js";
-import { all } from "./helpers.js";
+import { some } from "../option/constructors.js";
+import { watchAbortListeners } from "../testUtils/abortListeners.js";
+import { traversableSpec } from "../testUtils/traversable.js";
+import { fromPromise, task } from "./constructors.js";
+import type { Fiber } from "./fiber.js";
+import {
+	all,
+	gen,
+	mapN,
+	scoped,
+	struct,
+	traverse,
+	traverseWithIndex,
+	zipAll,
+} from "./helpers.js";
+import { InterruptedError } from "./interruption.js";
+import type { Task } from "./task.js";
 
 describe("task helpers", () => {
 	describe("all", () => {
@@ -14,31 +29,371 @@ describe("task helpers", () => {
 			expect(result).toEqual([]);
 		});
 
+		it("should interrupt every task when the run's signal is aborted", async () => {
+			const controller = new AbortController();
+			const signals: (AbortSignal | undefined)[] = [];
+			const pending = fromPromise((signal) => {
+				signals.push(signal);
+				return new Promise<number>(() => {});
+			});
+			const result = all([pending, pending]).run(controller.signal);
+
+			controller.abort();
+			await expect(result).rejects.toBeInstanceOf(InterruptedError);
+			expect(signals).toHaveLength(2);
+			expect(signals.every((signal) => signal?.aborted)).toBe(true);
+		});
+
 		it("should run all tasks", async () => {
 			const fn1 = vi.fn(() => Promise.resolve(1));
 			const fn2 = vi.fn(() => Promise.resolve(2));
-			await all([
-				{
-					run: fn1,
-					map: vi.fn(),
-					ap: vi.fn(),
-					zip: vi.fn(),
-					flatten: vi.fn(),
-					flatMap: vi.fn(),
-					tap: vi.fn(),
-				},
-				{
-					run: fn2,
-					map: vi.fn(),
-					ap: vi.fn(),
-					zip: vi.fn(),
-					flatten: vi.fn(),
-					flatMap: vi.fn(),
-					tap: vi.fn(),
-				},
-			]).run();
+			await all([fromPromise(fn1), fromPromise(fn2)]).run();
 			expect(fn1).toHaveBeenCalledOnce();
 			expect(fn2).toHaveBeenCalledOnce();
 		});
+
+		it("should run at most `concurrency` tasks at a time and keep the input order", async () => {
+			let active = 0;
+			let peak = 0;
+			const delayed = (ms: number) =>
+				fromPromise(() => {
+					active += 1;
+					peak = Math.max(peak, active);
+					return new Promise<number>((resolve) =>
+						setTimeout(() => {
+							active -= 1;
+							resolve(ms);
+						}, ms),
+					);
+				});
+			const result = await all([5, 1, 3, 0, 2, 4].map(delayed), {
+				concurrency: 2,
+			}).run();
+			expect(result).toEqual([5, 1, 3, 0, 2, 4]);
+			expect(peak).toBe(2);
+		});
+
+		it("should run tasks strictly one after another with a concurrency of 1", async () => {
+			const log: string[] = [];
+			const step = (name: string) =>
+				fromPromise(() => {
+					log.push(`start ${name}`);
+					return new Promise<string>((resolve) =>
+						setTimeout(() => {
+							log.push(`end ${name}`);
+							resolve(name);
+						}, 0),
+					);
+				});
+			await all([step("a"), step("b")], { concurrency: 1 }).run();
+			expect(log).toEqual(["start a", "end a", "start b", "end b"]);
+		});
+
+		it("should throw a RangeError for an invalid concurrency", () => {
+			expect(() => all([task(1)], { concurrency: Number.NaN })).toThrow(
+				RangeError,
+			);
+			expect(() => traverse([1], task, { concurrency: 0 })).toThrow(RangeError);
+		});
+
+		it("should not start waiting tasks once a task rejects", async () => {
+			const error = new Error("boom");
+			const fn = vi.fn(() => Promise.resolve(3));
+			const result = all(
+				[
+					task(1),
+					fromPromise<number>(() => Promise.reject(error)),
+					fromPromise(fn),
+				],
+				{ concurrency: 1 },
+			).run();
+			await expect(result).rejects.toBe(error);
+			expect(fn).not.toHaveBeenCalled();
+		});
+
+		it("should leave fibers forked through it running", async () => {
+			const slow = fromPromise(
+				() => new Promise<string>((resolve) => setTimeout(resolve, 10, "done")),
+			);
+			const result = await all([slow.fork(), slow.fork()])
+				.flatMap((fibers) => all(fibers.map((fiber) => fiber.join())))
+				.run();
+			expect(result).toEqual(["done", "done"]);
+		});
+
+		it("should only derive a signal for the tasks when there is something to interrupt", async () => {
+			const signals: (AbortSignal | undefined)[] = [];
+			const record = fromPromise((signal) => {
+				signals.push(signal);
+				return Promise.resolve(1);
+			});
+			await all([record]).run();
+			expect(signals).toEqual([undefined]);
+
+			await all([record, record]).run();
+			await all([record]).run(new AbortController().signal);
+			expect(signals).toHaveLength(4);
+			expect(signals.slice(1).every((signal) => signal !== undefined)).toBe(
+				true,
+			);
+		});
+
+		it("should watch each signal with one abort listener however many tasks it runs", async () => {
+			const listeners = watchAbortListeners();
+			let release: () => void = () => {};
+			const gate = new Promise<void>((resolve) => (release = resolve));
+			const tasks = Array.from({ length: 50 }, (_, i) =>
+				fromPromise(() => gate.then(() => i)),
+			);
+			const result = all(tasks).run(new AbortController().signal);
+
+			expect(Math.max(...listeners.counts())).toBe(1);
+			release();
+			expect(await result).toHaveLength(50);
+			expect(listeners.counts().every((count) => count === 0)).toBe(true);
+			expect(listeners.warnings()).toEqual([]);
+			listeners.restore();
+		});
 	});
+
+	describe("mapN", () => {
+		it("should only accept Tasks", async () => {
+			// @ts-expect-error numbers are not Tasks
+			const invalid = mapN([1, 2], (a, b) => [a, b]);
+			await expect(invalid.run()).rejects.toBeInstanceOf(TypeError);
+		});
+
+		it("should map all resolved values", async () => {
+			const t = mapN([task(2), task("x"), task(true)], (a, b, c) =>
+				c ? b.repeat(a) : b,
+			);
+			expect(await t.run()).toBe("xx");
+		});
+
+		it("should run all tasks concurrently", async () => {
+			const started: number[] = [];
+			const delayed = (n: number) =>
+				fromPromise(() => {
+					started.push(n);
+					return new Promise<number>((resolve) => setTimeout(resolve, 0, n));
+				});
+			const t = mapN([delayed(1), delayed(2)], (a, b) => {
+				expect(started).toEqual([1, 2]);
+				return a + b;
+			});
+			expect(await t.run()).toBe(3);
+		});
+	});
+
+	describe("zipAll", () => {
+		it("should resolve with a tuple of all values", async () => {
+			const t = zipAll(task(1), task("two"), task(true));
+			expect(await t.run()).toEqual([1, "two", true]);
+		});
+	});
+
+	describe("struct", () => {
+		it("should only accept records of Tasks", async () => {
+			// @ts-expect-error plain values are not Tasks
+			const invalid = struct({ name: "Alice", age: 30 });
+			await expect(invalid.run()).rejects.toBeInstanceOf(TypeError);
+		});
+
+		it("should resolve with a record of all results", async () => {
+			const t = struct({ name: task("Alice"), age: task(30) });
+			expect(await t.run()).toEqual({ name: "Alice", age: 30 });
+		});
+	});
+
+	describe("gen", () => {
+		it("should unwrap task values and resolve with the returned value", async () => {
+			const t = gen(async function* () {
+				const a = yield* task(2);
+				const b = yield* task(3);
+				return a * b;
+			});
+			expect(await t.run()).toBe(6);
+		});
+
+		it("should be lazy and restart the generator on every run", async () => {
+			const fn = vi.fn(() => Promise.resolve(1));
+			const t = gen(async function* () {
+				return yield* fromPromise(fn);
+			});
+			expect(fn).not.toHaveBeenCalled();
+			await t.run();
+			await t.run();
+			expect(fn).toHaveBeenCalledTimes(2);
+		});
+
+		it("should run the generator's finally blocks when a yielded task rejects", async () => {
+			const cleanup = vi.fn();
+			const error = new Error("boom");
+			const t = gen(async function* () {
+				try {
+					return yield* fromPromise<number>(() => Promise.reject(error));
+				} finally {
+					cleanup();
+				}
+			});
+			await expect(t.run()).rejects.toBe(error);
+			expect(cleanup).toHaveBeenCalledOnce();
+		});
+
+		it("should run the generator's finally blocks when the run is interrupted", async () => {
+			const cleanup = vi.fn();
+			const controller = new AbortController();
+			const t = gen(async function* () {
+				try {
+					return yield* fromPromise(() => new Promise<number>(() => {}));
+				} finally {
+					cleanup();
+				}
+			});
+			const result = t.run(controller.signal);
+			await new Promise((resolve) => setTimeout(resolve, 0));
+			controller.abort();
+			await expect(result).rejects.toBeInstanceOf(InterruptedError);
+			await new Promise((resolve) => setTimeout(resolve, 0));
+			expect(cleanup).toHaveBeenCalledOnce();
+		});
+
+		it("should only accept tasks from yield*", () => {
+			// @ts-expect-error an Option has no run
+			gen(async function* () {
+				return yield* some(1);
+			});
+		});
+	});
+
+	describe("scoped", () => {
+		const never = fromPromise(() => new Promise<number>(() => {}));
+
+		it("should interrupt running fibers when the body completes", async () => {
+			let fiber: Fiber<number> | undefined;
+			const result = await scoped(
+				never.fork().flatMap((f) => {
+					fiber = f;
+					return task("done");
+				}),
+			).run();
+
+			expect(result).toBe("done");
+			expect(fiber?.status()).toBe("interrupted");
+		});
+
+		it("should interrupt running fibers and reject with the body's error when the body fails", async () => {
+			const error = new Error("boom");
+			let fiber: Fiber<number> | undefined;
+			const result = scoped(
+				never.fork().flatMap((f) => {
+					fiber = f;
+					return fromPromise<string>(() => Promise.reject(error));
+				}),
+			).run();
+
+			await expect(result).rejects.toBe(error);
+			expect(fiber?.status()).toBe("interrupted");
+		});
+
+		it("should leave fibers that already completed untouched", async () => {
+			const fiber = await scoped(
+				task(1)
+					.fork()
+					.flatMap((f) => f.join().map(() => f)),
+			).run();
+			expect(fiber.status()).toBe("completed");
+		});
+
+		it("should interrupt the fibers forked by fibers", async () => {
+			let grandchild: Fiber<number> | undefined;
+			const child = never.fork().flatMap((f) => {
+				grandchild = f;
+				return never;
+			});
+			await scoped(child.fork()).run();
+			expect(grandchild?.status()).toBe("interrupted");
+		});
+
+		it("should interrupt fibers forked through all when the scope completes", async () => {
+			const [fiber] = await scoped(all([never.fork()])).run();
+			expect(fiber?.status()).toBe("interrupted");
+		});
+
+		it("should not affect fibers forked outside the scope", async () => {
+			const outside = await never.fork().run();
+			await scoped(task(1)).run();
+			expect(outside.status()).toBe("running");
+			await outside.interrupt().run();
+		});
+
+		it("should interrupt the scope's fibers when the outer signal is aborted", async () => {
+			const controller = new AbortController();
+			let fiber: Fiber<number> | undefined;
+			const result = scoped(
+				never.fork().flatMap((f) => {
+					fiber = f;
+					return never;
+				}),
+			).run(controller.signal);
+
+			await new Promise((resolve) => setTimeout(resolve, 0));
+			controller.abort();
+			await expect(result).rejects.toBeInstanceOf(InterruptedError);
+			expect(fiber?.status()).toBe("interrupted");
+		});
+	});
+
+	describe("traverse", () => {
+		it("should not call the mapper until run() is called", async () => {
+			const mapper = vi.fn((x: number) => task(x));
+			const t = traverse([1, 2], mapper);
+			expect(mapper).not.toHaveBeenCalled();
+			expect(await t.run()).toEqual([1, 2]);
+		});
+
+		it("should keep the input order when tasks resolve out of order", async () => {
+			const delayed = (ms: number) =>
+				fromPromise(
+					() => new Promise<number>((resolve) => setTimeout(resolve, ms, ms)),
+				);
+			const t = traverse([20, 0, 10], delayed);
+			expect(await t.run()).toEqual([20, 0, 10]);
+		});
+
+		it("should pass the concurrency option on", async () => {
+			const log: number[] = [];
+			const mapper = (x: number) =>
+				fromPromise(() => {
+					log.push(x);
+					return Promise.resolve(x);
+				}).tap((x) => log.push(-x));
+			expect(await traverse([1, 2], mapper, { concurrency: 1 }).run()).toEqual([
+				1, 2,
+			]);
+			expect(log).toEqual([1, -1, 2, -2]);
+		});
+
+		it("should return fibers that can be joined when forking each item", async () => {
+			const job = (x: number) =>
+				fromPromise(
+					() => new Promise<number>((resolve) => setTimeout(resolve, 10, x)),
+				);
+			const result = await traverse([1, 2, 3], (x) => job(x).fork())
+				.flatMap((fibers) => traverse(fibers, (fiber) => fiber.join()))
+				.run();
+			expect(result).toEqual([1, 2, 3]);
+		});
+	});
+
+	describe(
+		"traversable",
+		traversableSpec<Task<unknown>, Task<unknown[]>>({
+			of: (value) => task(value),
+			sequence: all,
+			traverse,
+			traverseWithIndex,
+			asTag: async (t) => ({ value: await t.run() }),
+		}),
+	);
 });
@@ -1,17 +1,227 @@
+import { fromEntries } from "../internal/record.js";
+import {
+	type ConcurrencyOptions,
+	concurrencyOf,
+	limitConcurrency,
+} from "./concurrency.js";
+import { linkedController, runScoped } from "./fiber.js";
+import { unlessInterrupted } from "./interruption.js";
 import { createTask, type Task } from "./task.js";
 
 /**
  * Runs all Tasks concurrently and collects their results into an array.
- * Equivalent to `Promise.all` for Tasks.
+ * Equivalent to `Promise.all` for Tasks, except that once a Task rejects, the Tasks that are
+ * still running are interrupted and the ones waiting for a slot are never started.
  *
  * @param tasks - Array of Tasks to run concurrently
- * @returns Task that resolves with an array of all results
+ * @param options - Optional limit on how many Tasks run at the same time
+ * @throws RangeError if `options.concurrency` is not a positive integer or `Infinity`
+ * @returns Task that resolves with an array of all results, in the order of the input
  *
  * @example
  * ```typescript
  * await all([task(1), task(2), task(3)]).run() // [1, 2, 3]
+ * await all(uploads, { concurrency: 4 }).run() // at most 4 uploads at a time
+ * ```
+ */
+export function all<T>(
+	tasks: Task<T>[],
+	options?: ConcurrencyOptions,
+): Task<T[]> {
+	const concurrency = concurrencyOf(options);
+	return createTask((signal) => {
+		if (signal === undefined && tasks.length < 2) {
+			// no outer signal to follow and no sibling to interrupt
+			return Promise.all(tasks.map((t) => t.run()));
+		}
+		const { controller, release } = linkedController(signal);
+		const limited = limitConcurrency(concurrency);
+		return Promise.all(
+			tasks.map((t) =>
+				limited(() => t.run(controller.signal)).catch((err) => {
+					// stop before the next queued Task is started
+					controller.abort();
+					return Promise.reject(err);
+				}),
+			),
+		).finally(release);
+	});
+}
+
+/**
+ * Maps each item of an array to a Task and runs them all concurrently, collecting the results into an array.
+ * The results keep the order of the input items.
+ *
+ * @param items - Array of items to map
+ * @param mapper - Function that maps an item to a Task
+ * @param options - Optional limit on how many Tasks run at the same time
+ * @throws RangeError if `options.concurrency` is not a positive integer or `Infinity`
+ * @returns Task that resolves with an array of all results
+ *
+ * @example
+ * ```typescript
+ * await traverse(["user-1", "user-2"], fetchUser).run() // [User, User]
+ * await traverse(userIds, fetchUser, { concurrency: 1 }).run() // one request at a time
+ * ```
+ */
+export function traverse<A, B>(
+	items: readonly A[],
+	mapper: (item: A) => Task<B>,
+	options?: ConcurrencyOptions,
+): Task<B[]> {
+	return traverseWithIndex(items, (item) => mapper(item), options);
+}
+
+/**
+ * Like {@link traverse}, but the mapper also receives the index of each item.
+ *
+ * @param items - Array of items to map
+ * @param mapper - Function that maps an item and its index to a Task
+ * @param options - Optional limit on how many Tasks run at the same time
+ * @throws RangeError if `options.concurrency` is not a positive integer or `Infinity`
+ * @returns Task that resolves with an array of all results
+ *
+ * @example
+ * ```typescript
+ * await traverseWithIndex(files, (file, i) => upload(file, `part-${i}`)).run()
+ * ```
+ */
+export function traverseWithIndex<A, B>(
+	items: readonly A[],
+	mapper: (item: A, index: number) => Task<B>,
+	options?: ConcurrencyOptions,
+): Task<B[]> {
+	const limit = { concurrency: concurrencyOf(options) };
+	return createTask((signal) => all(items.map(mapper), limit).run(signal));
+}
+
+type ValuesOf<Tasks extends readonly unknown[]> = {
+	[K in keyof Tasks]: Tasks[K] extends Task<infer A> ? A : never;
+};
+
+/**
+ * Runs any number of Tasks concurrently and combines their results using a mapping function.
+ * The mapper receives the values in the same order, with their types inferred from the tuple.
+ *
+ * @param tasks - Tuple of Tasks to run concurrently
+ * @param mapper - Function that receives every resolved value and combines them
+ * @returns Task that resolves with the combined result
+ *
+ * @example
+ * ```typescript
+ * await mapN([task(1), task("two"), task(true)], (a, b, c) => `${a} ${b} ${c}`).run()
+ * // "1 two true"
+ * ```
+ */
+export function mapN<const Tasks extends readonly Task<unknown>[], U>(
+	tasks: Tasks,
+	mapper: (...values: ValuesOf<Tasks>) => U,
+): Task<U> {
+	return all(tasks as unknown as Task<unknown>[]).map((values) =>
+		mapper(...(values as unknown as ValuesOf<Tasks>)),
+	);
+}
+
+/**
+ * Runs any number of Tasks concurrently and collects their results into a tuple.
+ *
+ * @param tasks - Tasks to run concurrently
+ * @returns Task that resolves with a tuple of all results
+ *
+ * @example
+ * ```typescript
+ * await zipAll(task("Alice"), task(30), task(true)).run() // ["Alice", 30, true]
+ * ```
+ */
+export function zipAll<const Tasks extends readonly Task<unknown>[]>(
+	...tasks: Tasks
+): Task<ValuesOf<Tasks>> {
+	return mapN(tasks, (...values) => values);
+}
+
+type StructOf<R> = {
+	[K in keyof R]: R[K] extends Task<infer A> ? A : never;
+};
+
+/**
+ * Runs a record of Tasks concurrently and collects their results into a record,
+ * preserving the keys and their value types.
+ *
+ * @param record - Record whose values are Tasks
+ * @returns Task that resolves with a record of all results
+ *
+ * @example
+ * ```typescript
+ * await struct({ user: fetchUser(id), settings: fetchSettings(id) }).run()
+ * // { user: User; settings: Settings }
+ * ```
+ */
+export function struct<R extends Readonly<Record<string, Task<unknown>>>>(
+	record: R,
+): Task<StructOf<R>> {
+	const keys = Object.keys(record);
+	return all(keys.map((key) => record[key] as Task<unknown>)).map((values) =>
+		fromEntries<StructOf<R>>(keys, values),
+	);
+}
+
+/**
+ * Runs an async generator-based computation over Tasks (do-notation).
+ * Each `yield*` runs a Task and resumes the generator with its resolved value.
+ * If a yielded Task rejects or the run is interrupted, the generator's finally blocks run before the Task rejects.
+ * Nothing runs until `run()` is called, and every `run()` restarts the generator.
+ *
+ * @param body - Async generator function that yields Tasks and returns the final value
+ * @returns Task that resolves with the value returned by the generator
+ *
+ * @example
+ * ```typescript
+ * const greeting = gen(async function* () {
+ *   const user = yield* fetchUser("user-1");
+ *   const settings = yield* fetchSettings(user.id);
+ *   return `${settings.greeting}, ${user.name}!`;
+ * });
+ *
+ * await greeting.run(); // "Hello, Alice!"
+ * ```
+ */
+export function gen<T>(
+	body: () => AsyncGenerator<Task<unknown>, T, unknown>,
+): Task<T> {
+	return createTask((signal) => {
+		const iterator = body();
+
+		const close = (err: unknown): Promise<never> =>
+			// lets the generator's finally blocks run
+			iterator.return(undefined as T).then(() => Promise.reject(err));
+
+		const step = (result: IteratorResult<Task<unknown>, T>): Promise<T> =>
+			result.done
+				? Promise.resolve(result.value)
+				: result.value
+						.run(signal)
+						.then(unlessInterrupted(signal, (value) => value))
+						.then((value) => iterator.next(value).then(step), close);
+
+		return iterator.next().then(step);
+	});
+}
+
+/**
+ * Runs a Task as a scope for the fibers it forks. When the Task completes or fails, every fiber
+ * forked inside it that is still running is interrupted, and the scope waits for all of them
+ * to stop before passing on the Task's result.
+ *
+ * @param body - The Task whose forked fibers are bound to the scope
+ * @returns Task that resolves with the body's value once all of its fibers have stopped
+ *
+ * @example
+ * ```typescript
+ * scoped(
+ *   heartbeat.fork().flatMap(() => processJobs),
+ * ).run() // the heartbeat stops as soon as processJobs settles
  * ```
  */
-export function all<T>(tasks: Task<T>[]): Task<T[]> {
-	return createTask(() => Promise.all(tasks.map((t) => t.run())));
+export function scoped<T>(body: Task<T>): Task<T> {
+	return createTask((signal) => runScoped(signal, body.run));
 }
@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from "vitest";
+import { InterruptedError, runInterruptible } from "./interruption.js";
+
+describe("interruption", () => {
+	describe("runInterruptible", () => {
+		it("should reject with an InterruptedError when the signal is aborted", async () => {
+			const controller = new AbortController();
+			const run = runInterruptible(
+				controller.signal,
+				() => new Promise(() => {}),
+			);
+			controller.abort();
+			await expect(run).rejects.toBeInstanceOf(InterruptedError);
+		});
+
+		it("should remove the abort listener once the run settles", async () => {
+			const controller = new AbortController();
+			const remove = vi.spyOn(controller.signal, "removeEventListener");
+			await expect(
+				runInterruptible(controller.signal, () => Promise.resolve(1)),
+			).resolves.toBe(1);
+			expect(remove).toHaveBeenCalledOnce();
+		});
+
+		it("should remove the abort listener when start throws synchronously", async () => {
+			const controller = new AbortController();
+			const remove = vi.spyOn(controller.signal, "removeEventListener");
+			const error = new Error("boom");
+			await expect(
+				runInterruptible(controller.signal, () => {
+					throw error;
+				}),
+			).rejects.toBe(error);
+			expect(remove).toHaveBeenCalledOnce();
+		});
+	});
+});
@@ -0,0 +1,135 @@
+/**
+ * The error a Task or TaskEither run rejects with when its AbortSignal is aborted.
+ * Steps chained after the point of interruption are not executed.
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * const result = loadDashboard.run(controller.signal);
+ * controller.abort();
+ * await result; // rejects with InterruptedError
+ * ```
+ */
+export class InterruptedError extends Error {
+	override readonly name = "InterruptedError";
+
+	/**
+	 * @param reason - The reason the signal was aborted with (`signal.reason`)
+	 */
+	constructor(readonly reason?: unknown) {
+		super("The task was interrupted");
+	}
+}
+
+/**
+ * Starts a run that rejects with an InterruptedError as soon as the signal is aborted,
+ * without waiting for the pending step. Nothing is started if the signal is already aborted.
+ */
+export function runInterruptible<T>(
+	signal: AbortSignal | undefined,
+	start: () => Promise<T>,
+): Promise<T> {
+	if (signal === undefined) {
+		return start();
+	}
+	if (signal.aborted) {
+		return Promise.reject(new InterruptedError(signal.reason));
+	}
+
+	return new Promise<T>((resolve, reject) => {
+		const unlisten = onAbort(signal, () =>
+			reject(new InterruptedError(signal.reason)),
+		);
+		let started: Promise<T>;
+		try {
+			started = start();
+		} catch (err) {
+			// a start that throws still rejects and removes the listener
+			started = Promise.reject(err);
+		}
+		started.then(
+			(value) => {
+				unlisten();
+				resolve(value);
+			},
+			(err) => {
+				unlisten();
+				reject(err);
+			},
+		);
+	});
+}
+
+/**
+ * Wraps the continuation of a step so it is not executed once the signal is aborted.
+ */
+export function unlessInterrupted<A, B>(
+	signal: AbortSignal | undefined,
+	continuation: (value: A) => B,
+): (value: A) => B {
+	return (value) => {
+		if (signal?.aborted) {
+			throw new InterruptedError(signal.reason);
+		}
+		return continuation(value);
+	};
+}
+
+/**
+ * Aborts the controller as soon as the signal is aborted, with the same reason.
+ * Returns a function that removes the link again.
+ */
+export function linkSignal(
+	signal: AbortSignal | undefined,
+	controller: AbortController,
+): () => void {
+	if (signal === undefined) {
+		return () => {};
+	}
+	if (signal.aborted) {
+		controller.abort(signal.reason);
+		return () => {};
+	}
+
+	return onAbort(signal, () => controller.abort(signal.reason));
+}
+
+type AbortListeners = {
+	readonly listeners: Set<() => void>;
+	readonly dispatch: () => void;
+};
+
+const abortListeners = new WeakMap<AbortSignal, AbortListeners>();
+
+/**
+ * Calls the listener once the signal is aborted. All listeners of a signal share one event listener,
+ * so any number of pending runs can watch the same signal without hitting the EventTarget listener limit.
+ * Returns a function that removes the listener, and the event listener with the last one.
+ */
+function onAbort(signal: AbortSignal, listener: () => void): () => void {
+	let registered = abortListeners.get(signal);
+	if (registered === undefined) {
+		const listeners = new Set<() => void>();
+		const dispatch = () => {
+			abortListeners.delete(signal);
+			for (const notify of listeners) {
+				notify();
+			}
+		};
+		registered = { listeners, dispatch };
+		abortListeners.set(signal, registered);
+		signal.addEventListener("abort", dispatch, { once: true });
+	}
+
+	const { listeners, dispatch } = registered;
+	// a fresh function per call, so the same listener can be added twice
+	const notify = () => listener();
+	listeners.add(notify);
+	return () => {
+		listeners.delete(notify);
+		if (listeners.size === 0 && abortListeners.get(signal) === registered) {
+			abortListeners.delete(signal);
+			signal.removeEventListener("abort", dispatch);
+		}
+	};
+}
@@ -1 +1 @@
-export type TaskValue<T> = () => Promise<T>;
+export type TaskValue<T> = (signal?: AbortSignal) => Promise<T>;
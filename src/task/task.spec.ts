@@ -1,6 +1,10 @@
 import { describe, expect, it, vi } from "vitest";
-import { task } from "./constructors.js";
+import { right } from "../either/constructors.js";
+import { watchAbortListeners } from "../testUtils/abortListeners.js";
+import { Do, fromPromise, task } from "./constructors.js";
+import { InterruptedError } from "./interruption.js";
 import type { Task } from "./task.js";
+import { TimeoutError } from "./timeout.js";
 
 describe("task", () => {
 	describe("map", () => {
@@ -75,6 +79,33 @@ describe("task", () => {
 		});
 	});
 
+	describe("bindTo", () => {
+		it("should wrap the resolved value in a record", async () => {
+			expect(await task(2).bindTo("x").run()).toEqual({ x: 2 });
+		});
+	});
+
+	describe("bind", () => {
+		it("should accumulate bound values in the record", async () => {
+			const t = Do.bind("x", () => task(2)).bind("y", ({ x }) => task(x * 3));
+			expect(await t.run()).toEqual({ x: 2, y: 6 });
+		});
+	});
+
+	describe("let", () => {
+		it("should add a computed value to the record", async () => {
+			const t = Do.bind("x", () => task(2)).let("double", ({ x }) => x * 2);
+			expect(await t.run()).toEqual({ x: 2, double: 4 });
+		});
+	});
+
+	describe("apS", () => {
+		it("should add the value of an independent task to the record", async () => {
+			const t = Do.apS("x", task(2)).apS("y", task("two"));
+			expect(await t.run()).toEqual({ x: 2, y: "two" });
+		});
+	});
+
 	describe("run", () => {
 		it("should return a Promise", () => {
 			const result = task(42).run();
@@ -84,6 +115,212 @@ describe("task", () => {
 		it("should resolve with the task value", async () => {
 			expect(await task("hello").run()).toBe("hello");
 		});
+
+		it("should pass the signal to every step of the chain", async () => {
+			const controller = new AbortController();
+			const first = vi.fn((_signal?: AbortSignal) => Promise.resolve(1));
+			const second = vi.fn((_signal?: AbortSignal) => Promise.resolve(2));
+			await fromPromise(first)
+				.map((x) => x + 1)
+				.flatMap(() => fromPromise(second))
+				.run(controller.signal);
+			expect(first).toHaveBeenCalledWith(controller.signal);
+			expect(second).toHaveBeenCalledWith(controller.signal);
+		});
+
+		it("should reject with InterruptedError without starting when the signal is already aborted", async () => {
+			const controller = new AbortController();
+			controller.abort("navigated away");
+			const fn = vi.fn(() => Promise.resolve(1));
+			const result = fromPromise(fn).run(controller.signal);
+			await expect(result).rejects.toBeInstanceOf(InterruptedError);
+			await expect(result).rejects.toMatchObject({ reason: "navigated away" });
+			expect(fn).not.toHaveBeenCalled();
+		});
+
+		it("should reject as soon as the signal is aborted and skip the remaining steps", async () => {
+			const controller = new AbortController();
+			let resolveFirst: (value: number) => void = () => {};
+			const mapper = vi.fn((x: number) => x + 1);
+			const next = vi.fn(() => task(2));
+			const result = fromPromise(
+				() => new Promise<number>((resolve) => (resolveFirst = resolve)),
+			)
+				.map(mapper)
+				.flatMap(next)
+				.run(controller.signal);
+
+			controller.abort();
+			await expect(result).rejects.toBeInstanceOf(InterruptedError);
+
+			resolveFirst(1);
+			await new Promise((resolve) => setTimeout(resolve, 0));
+			expect(mapper).not.toHaveBeenCalled();
+			expect(next).not.toHaveBeenCalled();
+		});
+
+		it("should watch the signal with one abort listener however deep the chain", async () => {
+			const listeners = watchAbortListeners();
+			const controller = new AbortController();
+			let resolveLast: (value: number) => void = () => {};
+			const last = fromPromise(
+				() => new Promise<number>((resolve) => (resolveLast = resolve)),
+			);
+			const chain = (n: number): Task<number> =>
+				n === 0 ? last : task(n).flatMap(() => chain(n - 1));
+			const result = chain(50).run(controller.signal);
+
+			await new Promise((resolve) => setTimeout(resolve, 0));
+			expect(listeners.counts()).toEqual([1]);
+			resolveLast(0);
+			expect(await result).toBe(0);
+			expect(listeners.counts()).toEqual([0]);
+			expect(listeners.warnings()).toEqual([]);
+			listeners.restore();
+		});
+	});
+
+	describe("fork", () => {
+		const pending = <T>() => {
+			let resolve: (value: T) => void = () => {};
+			let signal: AbortSignal | undefined;
+			const t = fromPromise((s) => {
+				signal = s;
+				return new Promise<T>((r) => (resolve = r));
+			});
+			return { t, resolve: (value: T) => resolve(value), signal: () => signal };
+		};
+
+		it("should not start the task until run() is called", async () => {
+			const fn = vi.fn(() => Promise.resolve(1));
+			const forked = fromPromise(fn).fork();
+			expect(fn).not.toHaveBeenCalled();
+			await forked.run();
+			expect(fn).toHaveBeenCalledOnce();
+		});
+
+		it("should resolve with a running fiber that can be joined", async () => {
+			const { t, resolve } = pending<number>();
+			const fiber = await t.fork().run();
+			expect(fiber.status()).toBe("running");
+
+			resolve(42);
+			expect(await fiber.join().run()).toBe(42);
+			expect(fiber.status()).toBe("completed");
+		});
+
+		it("should interrupt the fiber and reject join with InterruptedError", async () => {
+			const { t, signal } = pending<number>();
+			const fiber = await t.fork().run();
+
+			await fiber.interrupt().run();
+			expect(fiber.status()).toBe("interrupted");
+			expect(signal()?.aborted).toBe(true);
+			await expect(fiber.join().run()).rejects.toBeInstanceOf(InterruptedError);
+		});
+
+		it("should do nothing when interrupting a completed fiber", async () => {
+			const fiber = await task(1).fork().run();
+			await fiber.join().run();
+			await fiber.interrupt().run();
+			expect(fiber.status()).toBe("completed");
+			expect(await fiber.join().run()).toBe(1);
+		});
+
+		it("should report a failed fiber and reject join with its error", async () => {
+			const error = new Error("boom");
+			const fiber = await fromPromise(() => Promise.reject(error))
+				.fork()
+				.run();
+			await expect(fiber.join().run()).rejects.toBe(error);
+			expect(fiber.status()).toBe("failed");
+		});
+
+		it("should interrupt the fiber when the parent signal is aborted", async () => {
+			const controller = new AbortController();
+			const { t, signal } = pending<number>();
+			const fiber = await t.fork().run(controller.signal);
+
+			controller.abort();
+			await expect(fiber.join().run()).rejects.toBeInstanceOf(InterruptedError);
+			expect(fiber.status()).toBe("interrupted");
+			expect(signal()?.aborted).toBe(true);
+		});
+	});
+
+	describe("timeout", () => {
+		const slow = (
+			ms: number,
+			onSignal: (signal?: AbortSignal) => void = () => {},
+		) =>
+			fromPromise((signal) => {
+				onSignal(signal);
+				return new Promise<string>((resolve) =>
+					setTimeout(resolve, ms, "done"),
+				);
+			});
+
+		it("should resolve with Some when the task finishes in time", async () => {
+			const result = await slow(0).timeout(50).run();
+			expect(result.toNullable()).toBe("done");
+		});
+
+		it("should resolve with None and interrupt the task when the time is up", async () => {
+			let signal: AbortSignal | undefined;
+			const result = await slow(1000, (s) => (signal = s))
+				.timeout(10)
+				.run();
+			expect(result.isNone()).toBe(true);
+			expect(signal?.aborted).toBe(true);
+			expect(signal?.reason).toBeInstanceOf(TimeoutError);
+		});
+
+		it("should reject with InterruptedError when the run's signal is aborted first", async () => {
+			const controller = new AbortController();
+			const result = slow(1000).timeout(500).run(controller.signal);
+			controller.abort();
+			await expect(result).rejects.toBeInstanceOf(InterruptedError);
+		});
+
+		it("should leave fibers forked inside the task running when it finishes in time", async () => {
+			const result = await slow(10)
+				.fork()
+				.timeout(1000)
+				.flatMap((forked) =>
+					forked.match(
+						() => task("timed out"),
+						(fiber) => fiber.join(),
+					),
+				)
+				.run();
+			expect(result).toBe("done");
+		});
+
+		it("should never time out with a limit of Infinity", async () => {
+			const result = await slow(20).timeout(Number.POSITIVE_INFINITY).run();
+			expect(result.toNullable()).toBe("done");
+		});
+
+		it("should throw a RangeError for a NaN, negative or too long limit", () => {
+			for (const ms of [Number.NaN, -1, 2 ** 31, Number.NEGATIVE_INFINITY]) {
+				expect(() => slow(0).timeout(ms)).toThrow(RangeError);
+			}
+		});
+	});
+
+	describe("toTaskEither", () => {
+		it("should resolve to right with the task value", async () => {
+			const te = task(42).toTaskEither<string>();
+			expect((await te.run()).toResult()).toEqual(right(42).toResult());
+		});
+
+		it("should not run the task until run() is called", async () => {
+			const fn = vi.fn(() => Promise.resolve(1));
+			const te = fromPromise(fn).toTaskEither();
+			expect(fn).not.toHaveBeenCalled();
+			await te.run();
+			expect(fn).toHaveBeenCalledOnce();
+		});
 	});
 
 	describe("functor laws", () => {
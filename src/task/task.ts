@@ -1,4 +1,12 @@
+import { createEither } from "../either/either.js";
+import { extend } from "../internal/record.js";
+import { none, some } from "../option/constructors.js";
+import type { Option } from "../option/option.js";
+import { createTaskEither, type TaskEither } from "../taskEither/taskEither.js";
+import { createFiber, type Fiber, startFiber } from "./fiber.js";
+import { runInterruptible, unlessInterrupted } from "./interruption.js";
 import type { TaskValue } from "./model.js";
+import { runWithTimeout, timeoutOf } from "./timeout.js";
 
 export type Task<T> = {
 	/**
@@ -88,27 +96,170 @@ export type Task<T> = {
 	 */
 	tap: (sideEffect: (value: T) => unknown) => Task<T>;
 
+	/**
+	 * Wraps the resolved value in a record under the given key.
+	 * This is usually the first step of do-notation when starting from an existing Task.
+	 *
+	 * @param key - The key to store the resolved value under
+	 * @returns Task that resolves with a record containing the value under `key`
+	 *
+	 * @example
+	 * ```typescript
+	 * task(5).bindTo("x").run() // Promise<{ x: 5 }>
+	 * ```
+	 */
+	bindTo: <K extends string>(key: K) => Task<{ readonly [P in K]: T }>;
+
+	/**
+	 * Extends the resolved record with the value of another Task computed from it.
+	 * The new Task runs after this one, like {@link flatMap}.
+	 *
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns a Task
+	 * @returns Task that resolves with the extended record
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.bind("user", () => fetchUser(id))
+	 *   .bind("orders", ({ user }) => fetchOrders(user.id))
+	 *   .run() // Promise<{ user, orders }>
+	 * ```
+	 */
+	bind: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => Task<U>,
+	) => Task<T & { readonly [P in K]: U }>;
+
+	/**
+	 * Extends the resolved record with a plain value computed from it.
+	 *
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns a value
+	 * @returns Task that resolves with the extended record
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.bind("orders", () => fetchOrders(id))
+	 *   .let("total", ({ orders }) => orders.length)
+	 * ```
+	 */
+	let: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => U,
+	) => Task<T & { readonly [P in K]: U }>;
+
+	/**
+	 * Extends the resolved record with the value of an independent Task.
+	 * Both Tasks are run concurrently, like {@link ap}.
+	 *
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param taskU - The Task whose value is added to the record
+	 * @returns Task that resolves with the extended record
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.apS("user", fetchUser(id))
+	 *   .apS("settings", fetchSettings(id)) // fetched concurrently
+	 * ```
+	 */
+	apS: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		taskU: Task<U>,
+	) => Task<T & { readonly [P in K]: U }>;
+
+	/**
+	 * Starts the Task in the background and resolves immediately with a Fiber to join or interrupt it.
+	 * The fiber is interrupted when the signal of the surrounding run is aborted, and inside
+	 * {@link scoped} it is interrupted and awaited when the scope completes.
+	 *
+	 * @returns Task that resolves with a handle to the running Task
+	 *
+	 * @example
+	 * ```typescript
+	 * prefetchUser.fork().flatMap(fiber =>
+	 *   renderShell.flatMap(() => fiber.join()),
+	 * )
+	 * ```
+	 */
+	fork: () => Task<Fiber<T>>;
+
+	/**
+	 * Limits how long the Task may take. Resolves with Some value if the Task finishes within `ms`
+	 * milliseconds; otherwise the Task is interrupted, with a TimeoutError as abort reason, and None is returned.
+	 *
+	 * @param ms - The time limit in milliseconds, or `Infinity` for no limit
+	 * @throws RangeError if `ms` is NaN, negative or above 2^31 - 1, the longest delay `setTimeout` supports
+	 * @returns Task that resolves with Some value, or None if the time limit was exceeded
+	 *
+	 * @example
+	 * ```typescript
+	 * fetchRecommendations.timeout(500).map(o => o.getOrElse(() => [])).run()
+	 * ```
+	 */
+	timeout: (ms: number) => Task<Option<T>>;
+
 	/**
 	 * Executes the Task and returns the resulting Promise.
+	 * The signal is passed to every step of the chain; once it is aborted, the Promise rejects
+	 * with an InterruptedError and the remaining steps are not executed.
 	 *
+	 * @param signal - Optional AbortSignal to interrupt the run
 	 * @returns A Promise that resolves with the Task's value
 	 *
 	 * @example
 	 * ```typescript
 	 * const result = await task(42).run(); // 42
+	 *
+	 * const controller = new AbortController();
+	 * const user = fetchUser.run(controller.signal);
+	 * controller.abort(); // user rejects with InterruptedError
 	 * ```
 	 */
-	run: () => Promise<T>;
+	run: (signal?: AbortSignal) => Promise<T>;
+
+	/**
+	 * Converts the Task to a TaskEither that always resolves to Right.
+	 * Use it to combine a Task with TaskEithers; the error type can be set explicitly.
+	 *
+	 * @typeParam E - The error type of the resulting TaskEither
+	 * @returns TaskEither resolving to Right with the Task's value
+	 *
+	 * @example
+	 * ```typescript
+	 * task(42).toTaskEither<Error>().run() // Promise<Right(42)>
+	 * ```
+	 */
+	toTaskEither: <E = never, U = T>(this: Task<U>) => TaskEither<E, U>;
+
+	/**
+	 * Makes the Task iterable so it can be unwrapped with `yield*` inside an async generator
+	 * passed to {@link gen}. Yields this Task once and resumes with its resolved value.
+	 *
+	 * @returns Generator that yields this Task and returns its resolved value
+	 *
+	 * @example
+	 * ```typescript
+	 * gen(async function* () {
+	 *   const x = yield* task(5);
+	 *   return x * 2;
+	 * }).run() // Promise<10>
+	 * ```
+	 */
+	[Symbol.iterator]: () => Generator<Task<T>, T, unknown>;
 };
 
 export function createTask<T>(thunk: TaskValue<T>): Task<T> {
 	const t: Task<T> = {
 		map: <U>(mapper: (value: T) => U): Task<U> =>
-			createTask(() => thunk().then(mapper)),
+			createTask((signal) =>
+				thunk(signal).then(unlessInterrupted(signal, mapper)),
+			),
 
 		ap: function <A, U>(this: Task<(a: A) => U>, arg: Task<A>): Task<U> {
-			return createTask(() =>
-				Promise.all([this.run(), arg.run()]).then(([fn, a]) => fn(a)),
+			return createTask((signal) =>
+				Promise.all([this.run(signal), arg.run(signal)]).then(([fn, a]) =>
+					fn(a),
+				),
 			);
 		},
 
@@ -121,17 +272,69 @@ export function createTask<T>(thunk: TaskValue<T>): Task<T> {
 		},
 
 		flatMap: <U>(mapper: (value: T) => Task<U>): Task<U> =>
-			createTask(() => thunk().then((value) => mapper(value).run())),
+			createTask((signal) =>
+				thunk(signal).then(
+					unlessInterrupted(signal, (value) => mapper(value).run(signal)),
+				),
+			),
 
 		tap: (sideEffect): Task<T> =>
-			createTask(() =>
-				thunk().then((value) => {
-					sideEffect(value);
-					return value;
-				}),
+			createTask((signal) =>
+				thunk(signal).then(
+					unlessInterrupted(signal, (value) => {
+						sideEffect(value);
+						return value;
+					}),
+				),
+			),
+
+		bindTo: <K extends string>(key: K) =>
+			t.map((value) => ({ [key]: value }) as { readonly [P in K]: T }),
+
+		bind: <K extends string, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => Task<U>,
+		) =>
+			t.flatMap((scope) =>
+				mapper(scope).map((value) => extend<T, K, U>(scope, key, value)),
+			),
+
+		let: <K extends string, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => U,
+		) => t.map((scope) => extend<T, K, U>(scope, key, mapper(scope))),
+
+		apS: <K extends string, U>(key: Exclude<K, keyof T>, taskU: Task<U>) =>
+			t.zip(taskU).map(([scope, value]) => extend<T, K, U>(scope, key, value)),
+
+		fork: () =>
+			createTask((signal) =>
+				Promise.resolve(createFiber(startFiber(signal, t.run))),
 			),
 
-		run: () => thunk(),
+		timeout: (ms) => {
+			const limit = timeoutOf(ms);
+			return createTask((signal) =>
+				runWithTimeout(
+					signal,
+					limit,
+					(scope) => t.run(scope).then((value) => some(value)),
+					() => Promise.resolve(none<T>()),
+				),
+			);
+		},
+
+		run: (signal) => runInterruptible(signal, () => thunk(signal)),
+
+		toTaskEither: function <E, U>(this: Task<U>): TaskEither<E, U> {
+			return createTaskEither((signal) =>
+				this.run(signal).then((value) => createEither<E, U>({ right: value })),
+			);
+		},
+
+		[Symbol.iterator]: function* () {
+			return (yield t) as T;
+		},
 	};
 
 	return t;
@@ -0,0 +1,79 @@
+import { linkedController } from "./fiber.js";
+
+/**
+ * The error a TaskEither resolves to when it exceeds the limit given to `timeout`.
+ * It is also the abort reason a timed-out Task or TaskEither is interrupted with.
+ *
+ * @example
+ * ```typescript
+ * const result = await fetchUser(id).timeout(5000).run();
+ * result.mapLeft(err => err instanceof TimeoutError ? "Too slow" : String(err));
+ * ```
+ */
+export class TimeoutError extends Error {
+	override readonly name = "TimeoutError";
+
+	/**
+	 * @param ms - The time limit that was exceeded, in milliseconds
+	 */
+	constructor(readonly ms: number) {
+		super(`Timed out after ${ms}ms`);
+	}
+}
+
+/**
+ * The longest delay `setTimeout` supports; longer ones fire almost immediately instead.
+ */
+const MAX_TIMEOUT = 2_147_483_647;
+
+/**
+ * Checks a time limit given to `timeout`, `Infinity` meaning no limit.
+ * Throws a RangeError if it is NaN, negative or longer than `setTimeout` supports.
+ */
+export function timeoutOf(ms: number): number {
+	if (!(ms >= 0 && (ms <= MAX_TIMEOUT || ms === Number.POSITIVE_INFINITY))) {
+		throw new RangeError(
+			`timeout must be between 0 and ${MAX_TIMEOUT}ms or Infinity, got ${ms}`,
+		);
+	}
+	return ms;
+}
+
+/**
+ * Starts a run that must settle within `ms` milliseconds. Once the time is up, the run is
+ * interrupted with a TimeoutError as abort reason and the result of `onTimeout` is used instead.
+ * With `Infinity` as limit, the time is never up.
+ */
+export function runWithTimeout<T>(
+	signal: AbortSignal | undefined,
+	ms: number,
+	start: (signal: AbortSignal) => Promise<T>,
+	onTimeout: () => Promise<T>,
+): Promise<T> {
+	const { controller, release } = linkedController(signal);
+	let timedOut = false;
+
+	return new Promise<T>((resolve, reject) => {
+		const timer =
+			ms === Number.POSITIVE_INFINITY
+				? undefined
+				: setTimeout(() => {
+						timedOut = true;
+						controller.abort(new TimeoutError(ms));
+						onTimeout().then(resolve, reject);
+					}, ms);
+
+		// once the time is up, the interrupted run no longer decides the result
+		const unlessTimedOut =
+			<A>(settle: (value: A) => void) =>
+			(value: A) => {
+				clearTimeout(timer);
+				if (!timedOut) {
+					settle(value);
+				}
+			};
+		start(controller.signal)
+			.finally(release)
+			.then(unlessTimedOut(resolve), unlessTimedOut(reject));
+	});
+}
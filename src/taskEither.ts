@@ -1,4 +1,9 @@
+export type { ConcurrencyOptions } from "./task/concurrency.js";
+export type { FiberStatus } from "./task/fiber.js";
+export { InterruptedError } from "./task/interruption.js";
+export { TimeoutError } from "./task/timeout.js";
 export * from "./taskEither/constructors.js";
+export type { TaskEitherFiber } from "./taskEither/fiber.js";
 export * from "./taskEither/helpers.js";
 export type { TaskEitherValue } from "./taskEither/model.js";
 export type { TaskEither } from "./taskEither/taskEither.js";
@@ -1,9 +1,14 @@
 import { describe, expect, it, vi } from "vitest";
 import { left, right } from "../either/constructors.js";
+import { none, some } from "../option/constructors.js";
 import { task } from "../task/constructors.js";
+import { invalid, valid } from "../validation/constructors.js";
 import {
 	fromEither,
+	fromOption,
+	fromPredicate,
 	fromTask,
+	fromValidation,
 	taskEither,
 	taskLeft,
 	tryCatch,
@@ -73,5 +78,41 @@ describe("taskEither constructors", () => {
 			await te.run();
 			expect(fn).toHaveBeenCalledOnce();
 		});
+
+		it("should pass the signal given to run() to the thunk", async () => {
+			const controller = new AbortController();
+			const fn = vi.fn((_signal?: AbortSignal) => Promise.resolve(1));
+			await tryCatch(fn, (err) => err).run(controller.signal);
+			expect(fn).toHaveBeenCalledWith(controller.signal);
+		});
+	});
+
+	describe("fromOption", () => {
+		it("should resolve to right on some and to the provided left on none", async () => {
+			const r1 = await fromOption(some(2), () => "missing").run();
+			const r2 = await fromOption(none(), () => "missing").run();
+			expect(r1.toResult()).toEqual(right(2).toResult());
+			expect(r2.toResult()).toEqual(left("missing").toResult());
+		});
+	});
+
+	describe("fromValidation", () => {
+		it("should resolve to right on valid and to left with all errors on invalid", async () => {
+			const r1 = await fromValidation(valid(2)).run();
+			const r2 = await fromValidation(invalid("e1").zip(invalid("e2"))).run();
+			expect(r1.toResult()).toEqual(right(2).toResult());
+			expect(r2.toResult()).toEqual(left(["e1", "e2"]).toResult());
+		});
+	});
+
+	describe("fromPredicate", () => {
+		it("should resolve to right when the predicate holds and to left otherwise", async () => {
+			const positive = (n: number) => n > 0;
+			const onFalse = (n: number) => `${n} is not positive`;
+			const r1 = await fromPredicate(5, positive, onFalse).run();
+			const r2 = await fromPredicate(-5, positive, onFalse).run();
+			expect(r1.toResult()).toEqual(right(5).toResult());
+			expect(r2.toResult()).toEqual(left("-5 is not positive").toResult());
+		});
 	});
 });
@@ -1,6 +1,9 @@
 import { left, right } from "../either/constructors.js";
 import type { Either } from "../either/either.js";
+import type { NonEmptyArray } from "../nonEmptyArray/model.js";
+import type { Option } from "../option/option.js";
 import type { Task } from "../task/task.js";
+import type { Validation } from "../validation/validation.js";
 import { createTaskEither, type TaskEither } from "./taskEither.js";
 
 export function taskEither<T, E = never>(value: T): TaskEither<E, T> {
@@ -15,18 +18,59 @@ export function fromEither<E, T>(either: Either<E, T>): TaskEither<E, T> {
 	return createTaskEither(() => Promise.resolve(either));
 }
 
+export function fromPredicate<E, T, U extends T>(
+	value: T,
+	refinement: (value: T) => value is U,
+	onFalse: (value: T) => E,
+): TaskEither<E, U>;
+export function fromPredicate<E, T>(
+	value: T,
+	predicate: (value: T) => boolean,
+	onFalse: (value: T) => E,
+): TaskEither<E, T>;
+export function fromPredicate<E, T>(
+	value: T,
+	predicate: (value: T) => boolean,
+	onFalse: (value: T) => E,
+): TaskEither<E, T> {
+	return createTaskEither(() =>
+		Promise.resolve(
+			predicate(value) ? right<T, E>(value) : left<E, T>(onFalse(value)),
+		),
+	);
+}
+
+export function fromOption<E, T>(
+	opt: Option<T>,
+	onNone: () => E,
+): TaskEither<E, T> {
+	return fromEither(opt.toEither(onNone));
+}
+
+export function fromValidation<E, T>(
+	validation: Validation<E, T>,
+): TaskEither<NonEmptyArray<E>, T> {
+	return fromEither(validation.toEither());
+}
+
 export function fromTask<T, E = never>(t: Task<T>): TaskEither<E, T> {
-	return createTaskEither(() => t.run().then((value) => right<T, E>(value)));
+	return createTaskEither((signal) =>
+		t.run(signal).then((value) => right<T, E>(value)),
+	);
 }
 
 export function tryCatch<T, E>(
-	thunk: () => Promise<T>,
+	thunk: (signal?: AbortSignal) => Promise<T>,
 	onThrow: (err: unknown) => E,
 ): TaskEither<E, T> {
-	return createTaskEither(() =>
-		thunk().then(
+	return createTaskEither((signal) =>
+		thunk(signal).then(
 			(value) => right<T, E>(value),
 			(err) => left<E, T>(onThrow(err)),
 		),
 	);
 }
+
+export const Do: TaskEither<never, Readonly<Record<never, never>>> = taskEither(
+	{},
+);
@@ -0,0 +1,57 @@
+import type { Either } from "../either/either.js";
+import type { FiberRuntime, FiberStatus } from "../task/fiber.js";
+import { createTask, type Task } from "../task/task.js";
+import { createTaskEither, type TaskEither } from "./taskEither.js";
+
+export type TaskEitherFiber<E, T> = {
+	/**
+	 * Waits for the fiber to finish and resolves with its Either.
+	 * Rejects with an InterruptedError if the fiber was interrupted.
+	 *
+	 * @returns TaskEither resolving with the result of the forked TaskEither
+	 *
+	 * @example
+	 * ```typescript
+	 * fetchUser(id).fork().flatMap(fiber =>
+	 *   fetchSettings(id).flatMap(() => fiber.join()),
+	 * )
+	 * ```
+	 */
+	join: () => TaskEither<E, T>;
+
+	/**
+	 * Interrupts the fiber and waits until it and its own child fibers have stopped.
+	 * Interrupting a fiber that has already finished does nothing.
+	 *
+	 * @returns Task resolving once the fiber has stopped
+	 *
+	 * @example
+	 * ```typescript
+	 * fiber.interrupt().run()
+	 * ```
+	 */
+	interrupt: () => Task<void>;
+
+	/**
+	 * Returns the current status of the fiber. A fiber that resolved to Left is `"completed"`;
+	 * `"failed"` means the forked TaskEither rejected.
+	 *
+	 * @returns `"running"` until the forked TaskEither settles, then `"completed"`, `"failed"` or `"interrupted"`
+	 *
+	 * @example
+	 * ```typescript
+	 * fiber.status() // "running"
+	 * ```
+	 */
+	status: () => FiberStatus;
+};
+
+export function createTaskEitherFiber<E, T>(
+	runtime: FiberRuntime<Either<E, T>>,
+): TaskEitherFiber<E, T> {
+	return {
+		join: () => createTaskEither(() => runtime.result),
+		interrupt: () => createTask(() => runtime.interrupt()),
+		status: () => runtime.status(),
+	};
+}
@@ -1,7 +1,22 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 import { left, right } from "../either/constructors.js";
-import { taskEither, taskLeft } from "./constructors.js";
-import { all } from "./helpers.js";
+import { fromPromise, task } from "../task/constructors.js";
+import type { Fiber } from "../task/fiber.js";
+import { InterruptedError } from "../task/interruption.js";
+import { watchAbortListeners } from "../testUtils/abortListeners.js";
+import { traversableSpec } from "../testUtils/traversable.js";
+import { fromTask, taskEither, taskLeft } from "./constructors.js";
+import {
+	all,
+	gen,
+	mapN,
+	scoped,
+	struct,
+	traverse,
+	traverseWithIndex,
+	zipAll,
+} from "./helpers.js";
+import type { TaskEither } from "./taskEither.js";
 
 describe("taskEither helpers", () => {
 	describe("all", () => {
@@ -14,6 +29,23 @@ describe("taskEither helpers", () => {
 			expect(result.toResult()).toEqual(right([1, 2, 3]).toResult());
 		});
 
+		it("should interrupt every taskEither when the run's signal is aborted", async () => {
+			const controller = new AbortController();
+			const signals: (AbortSignal | undefined)[] = [];
+			const pending = fromTask(
+				fromPromise((signal) => {
+					signals.push(signal);
+					return new Promise<number>(() => {});
+				}),
+			);
+			const result = all([pending, pending]).run(controller.signal);
+
+			controller.abort();
+			await expect(result).rejects.toBeInstanceOf(InterruptedError);
+			expect(signals).toHaveLength(2);
+			expect(signals.every((signal) => signal?.aborted)).toBe(true);
+		});
+
 		it("should return an empty right array for empty input", async () => {
 			const result = await all([]).run();
 			expect(result.toResult()).toEqual(right([]).toResult());
@@ -28,5 +60,397 @@ describe("taskEither helpers", () => {
 			]).run();
 			expect(result.toResult()).toEqual(left(error).toResult());
 		});
+
+		it("should resolve with the first left to arrive without waiting for the others", async () => {
+			const never = fromTask<number, string>(
+				fromPromise(() => new Promise<number>(() => {})),
+			);
+			const late = fromTask(
+				fromPromise(() => new Promise((resolve) => setTimeout(resolve, 10))),
+			).flatMap(() => taskLeft<string, number>("late"));
+			const result = await all([
+				late,
+				never,
+				taskLeft<string, number>("early"),
+			]).run();
+			expect(result.toResult()).toEqual(left("early").toResult());
+		});
+
+		it("should interrupt the remaining taskEithers after a left", async () => {
+			let sibling: AbortSignal | undefined;
+			const pending = fromTask<number, string>(
+				fromPromise((signal) => {
+					sibling = signal;
+					return new Promise<number>(() => {});
+				}),
+			);
+			await all([pending, taskLeft<string, number>("e")]).run();
+			expect(sibling?.aborted).toBe(true);
+		});
+
+		it("should keep the input order when taskEithers resolve out of order", async () => {
+			const delayed = (ms: number) =>
+				fromTask(
+					fromPromise(
+						() => new Promise<number>((resolve) => setTimeout(resolve, ms, ms)),
+					),
+				);
+			const result = await all([delayed(20), delayed(0), delayed(10)]).run();
+			expect(result.toResult()).toEqual(right([20, 0, 10]).toResult());
+		});
+
+		it("should reject when a taskEither rejects", async () => {
+			const error = new Error("boom");
+			const result = all([
+				taskEither(1),
+				fromTask(fromPromise<number>(() => Promise.reject(error))),
+			]).run();
+			await expect(result).rejects.toBe(error);
+		});
+
+		it("should run at most `concurrency` taskEithers at a time and keep the input order", async () => {
+			let active = 0;
+			let peak = 0;
+			const delayed = (ms: number) =>
+				fromTask<number, string>(
+					fromPromise(() => {
+						active += 1;
+						peak = Math.max(peak, active);
+						return new Promise<number>((resolve) =>
+							setTimeout(() => {
+								active -= 1;
+								resolve(ms);
+							}, ms),
+						);
+					}),
+				);
+			const result = await all([4, 0, 2, 1, 3].map(delayed), {
+				concurrency: 3,
+			}).run();
+			expect(result.toResult()).toEqual(right([4, 0, 2, 1, 3]).toResult());
+			expect(peak).toBe(3);
+		});
+
+		it("should not start waiting taskEithers after a left", async () => {
+			const fn = vi.fn(() => Promise.resolve(3));
+			const result = await all(
+				[
+					taskEither<number, string>(1),
+					taskLeft<string, number>("e"),
+					fromTask<number, string>(fromPromise(fn)),
+				],
+				{ concurrency: 1 },
+			).run();
+			expect(result.toResult()).toEqual(left("e").toResult());
+			expect(fn).not.toHaveBeenCalled();
+		});
+
+		it("should leave fibers forked through it running", async () => {
+			const slow = fromTask<string, string>(
+				fromPromise(
+					() =>
+						new Promise<string>((resolve) => setTimeout(resolve, 10, "done")),
+				),
+			);
+			const result = await all([slow.fork(), slow.fork()])
+				.flatMap((fibers) => all(fibers.map((fiber) => fiber.join())))
+				.run();
+			expect(result.toResult()).toEqual(right(["done", "done"]).toResult());
+		});
+
+		it("should only derive a signal for the taskEithers when there is something to interrupt", async () => {
+			const signals: (AbortSignal | undefined)[] = [];
+			const record = fromTask<number, string>(
+				fromPromise((signal) => {
+					signals.push(signal);
+					return Promise.resolve(1);
+				}),
+			);
+			expect((await all([record]).run()).toResult()).toEqual(
+				right([1]).toResult(),
+			);
+			expect(signals).toEqual([undefined]);
+
+			await all([record, record]).run();
+			await all([record]).run(new AbortController().signal);
+			expect(signals).toHaveLength(4);
+			expect(signals.slice(1).every((signal) => signal !== undefined)).toBe(
+				true,
+			);
+		});
+
+		it("should watch each signal with one abort listener however many taskEithers it runs", async () => {
+			const listeners = watchAbortListeners();
+			let release: () => void = () => {};
+			const gate = new Promise<void>((resolve) => (release = resolve));
+			const taskEithers = Array.from({ length: 50 }, (_, i) =>
+				fromTask<number, string>(fromPromise(() => gate.then(() => i))),
+			);
+			const result = all(taskEithers).run();
+
+			expect(Math.max(...listeners.counts())).toBe(1);
+			release();
+			expect((await result).toResult()).toMatchObject({ ok: true });
+			expect(listeners.counts().every((count) => count === 0)).toBe(true);
+			expect(listeners.warnings()).toEqual([]);
+			listeners.restore();
+		});
 	});
+
+	describe("mapN", () => {
+		it("should only accept TaskEithers", async () => {
+			// @ts-expect-error numbers are not TaskEithers
+			const invalid = mapN([1, 2], (a, b) => [a, b]);
+			await expect(invalid.run()).rejects.toBeInstanceOf(TypeError);
+		});
+
+		it("should map all right values", async () => {
+			const te = mapN(
+				[taskEither(2), taskEither("x"), taskEither(true)],
+				(a, b, c) => (c ? b.repeat(a) : b),
+			);
+			expect((await te.run()).toResult()).toEqual(right("xx").toResult());
+		});
+
+		it("should not call the mapper and return the first left", async () => {
+			const mapper = vi.fn();
+			const te = mapN([taskEither(2), taskLeft("e1"), taskLeft(2)], mapper);
+			expect((await te.run()).toResult()).toEqual(left("e1").toResult());
+			expect(mapper).not.toBeCalled();
+		});
+	});
+
+	describe("zipAll", () => {
+		it("should resolve with a right tuple of all values", async () => {
+			const te = zipAll(taskEither(1), taskEither("two"), taskEither(true));
+			expect((await te.run()).toResult()).toEqual(
+				right([1, "two", true]).toResult(),
+			);
+		});
+	});
+
+	describe("struct", () => {
+		it("should only accept records of TaskEithers", async () => {
+			// @ts-expect-error plain values are not TaskEithers
+			const invalid = struct({ name: "Alice", age: 30 });
+			await expect(invalid.run()).rejects.toBeInstanceOf(TypeError);
+		});
+
+		it("should resolve with a right record of all values", async () => {
+			const te = struct({ name: taskEither("Alice"), age: taskEither(30) });
+			expect((await te.run()).toResult()).toEqual(
+				right({ name: "Alice", age: 30 }).toResult(),
+			);
+		});
+
+		it("should return the first left", async () => {
+			const te = struct({ name: taskEither("Alice"), age: taskLeft("No age") });
+			expect((await te.run()).toResult()).toEqual(left("No age").toResult());
+		});
+	});
+
+	describe("gen", () => {
+		it("should unwrap right values and resolve with right of the returned value", async () => {
+			const te = gen(async function* () {
+				const a = yield* taskEither(2);
+				const b = yield* taskEither(3);
+				return a * b;
+			});
+			expect((await te.run()).toResult()).toEqual(right(6).toResult());
+		});
+
+		it("should unwrap plain task values", async () => {
+			const te = gen(async function* () {
+				const a = yield* taskEither(2);
+				const b = yield* task(3);
+				return a + b;
+			});
+			expect((await te.run()).toResult()).toEqual(right(5).toResult());
+		});
+
+		it("should short-circuit on the first left", async () => {
+			const after = vi.fn();
+			const fetchUser = (): TaskEither<"NotFound", string> =>
+				taskLeft("NotFound");
+			const fetchAge = (): TaskEither<"DbError", number> => taskEither(30);
+
+			const te: TaskEither<"NotFound" | "DbError", string> = gen(
+				async function* () {
+					const age = yield* fetchAge();
+					const user = yield* fetchUser();
+					after();
+					return `${user} (${age})`;
+				},
+			);
+			expect((await te.run()).toResult()).toEqual(left("NotFound").toResult());
+			expect(after).not.toHaveBeenCalled();
+		});
+
+		it("should run the generator's finally blocks on the first left", async () => {
+			const cleanup = vi.fn();
+			const te = gen(async function* () {
+				try {
+					return yield* taskLeft<string, number>("e");
+				} finally {
+					cleanup();
+				}
+			});
+			expect((await te.run()).toResult()).toEqual(left("e").toResult());
+			expect(cleanup).toHaveBeenCalledOnce();
+		});
+
+		it("should run the generator's finally blocks when a yielded task rejects", async () => {
+			const cleanup = vi.fn();
+			const error = new Error("boom");
+			const t = gen(async function* () {
+				try {
+					return yield* fromPromise<number>(() => Promise.reject(error));
+				} finally {
+					cleanup();
+				}
+			});
+			await expect(t.run()).rejects.toBe(error);
+			expect(cleanup).toHaveBeenCalledOnce();
+		});
+
+		it("should run the generator's finally blocks when the run is interrupted", async () => {
+			const cleanup = vi.fn();
+			const controller = new AbortController();
+			const t = gen(async function* () {
+				try {
+					return yield* fromPromise(() => new Promise<number>(() => {}));
+				} finally {
+					cleanup();
+				}
+			});
+			const result = t.run(controller.signal);
+			await new Promise((resolve) => setTimeout(resolve, 0));
+			controller.abort();
+			await expect(result).rejects.toBeInstanceOf(InterruptedError);
+			await new Promise((resolve) => setTimeout(resolve, 0));
+			expect(cleanup).toHaveBeenCalledOnce();
+		});
+
+		it("should only accept tasks and task eithers from yield*", () => {
+			// @ts-expect-error an Either has no run
+			gen(async function* () {
+				return yield* right(1);
+			});
+		});
+
+		it("should be lazy and restart the generator on every run", async () => {
+			const fn = vi.fn(() => Promise.resolve(1));
+			const te = gen(async function* () {
+				return yield* fromPromise(fn);
+			});
+			expect(fn).not.toHaveBeenCalled();
+			await te.run();
+			await te.run();
+			expect(fn).toHaveBeenCalledTimes(2);
+		});
+	});
+
+	describe("scoped", () => {
+		const never = fromPromise(() => new Promise<number>(() => {}));
+
+		it("should interrupt running fibers when the body resolves to Left", async () => {
+			let fiber: Fiber<number> | undefined;
+			const result = await scoped(
+				fromTask(never.fork()).flatMap((f) => {
+					fiber = f;
+					return taskLeft("e");
+				}),
+			).run();
+
+			expect(result.toResult()).toEqual(left("e").toResult());
+			expect(fiber?.status()).toBe("interrupted");
+		});
+
+		it("should interrupt running fibers when the body resolves to Right", async () => {
+			let fiber: Fiber<number> | undefined;
+			const result = await scoped(
+				fromTask(never.fork()).flatMap((f) => {
+					fiber = f;
+					return taskEither("done");
+				}),
+			).run();
+
+			expect(result.toResult()).toEqual(right("done").toResult());
+			expect(fiber?.status()).toBe("interrupted");
+		});
+
+		it("should interrupt forked TaskEithers", async () => {
+			const fiber = (await scoped(fromTask(never).fork()).run()).getOrElse(
+				() => {
+					throw new Error("fork should not fail");
+				},
+			);
+			expect(fiber.status()).toBe("interrupted");
+		});
+
+		it("should interrupt fibers forked through all when the scope completes", async () => {
+			const result = await scoped(
+				all([fromTask<number, string>(never).fork()]),
+			).run();
+			const [fiber] = result.getOrElse(() => {
+				throw new Error("all should not fail");
+			});
+			expect(fiber?.status()).toBe("interrupted");
+		});
+	});
+
+	describe("traverse", () => {
+		it("should not call the mapper until run() is called", async () => {
+			const mapper = vi.fn((x: number) => taskEither(x));
+			const te = traverse([1, 2], mapper);
+			expect(mapper).not.toHaveBeenCalled();
+			expect((await te.run()).toResult()).toEqual(right([1, 2]).toResult());
+		});
+
+		it("should pass the concurrency option on and stop at the first left", async () => {
+			const mapper = vi.fn((x: number) =>
+				x === 2
+					? taskLeft<string, number>("two")
+					: taskEither<number, string>(x),
+			);
+			const started: number[] = [];
+			const result = await traverse(
+				[1, 2, 3],
+				(x) =>
+					fromTask<void, string>(task(undefined))
+						.tap(() => started.push(x))
+						.flatMap(() => mapper(x)),
+				{ concurrency: 1 },
+			).run();
+			expect(result.toResult()).toEqual(left("two").toResult());
+			expect(started).toEqual([1, 2]);
+		});
+
+		it("should return fibers that can be joined when forking each item", async () => {
+			const job = (x: number) =>
+				fromTask<number, string>(
+					fromPromise(
+						() => new Promise<number>((resolve) => setTimeout(resolve, 10, x)),
+					),
+				);
+			const result = await traverse([1, 2, 3], (x) => job(x).fork())
+				.flatMap((fibers) => traverse(fibers, (fiber) => fiber.join()))
+				.run();
+			expect(result.toResult()).toEqual(right([1, 2, 3]).toResult());
+		});
+	});
+
+	describe(
+		"traversable",
+		traversableSpec<TaskEither<string, unknown>, TaskEither<string, unknown[]>>(
+			{
+				of: (value) => taskEither(value),
+				fail: () => taskLeft("error"),
+				sequence: all,
+				traverse,
+				traverseWithIndex,
+				asTag: async (te) => (await te.run()).toResult(),
+			},
+		),
+	);
 });
@@ -1,32 +1,299 @@
 import { left, right } from "../either/constructors.js";
-import { createTaskEither, type TaskEither } from "./taskEither.js";
+import type { Either } from "../either/either.js";
+import { fromEntries } from "../internal/record.js";
+import {
+	type ConcurrencyOptions,
+	concurrencyOf,
+	limitConcurrency,
+} from "../task/concurrency.js";
+import { linkedController, runScoped } from "../task/fiber.js";
+import { unlessInterrupted } from "../task/interruption.js";
+import type { Task } from "../task/task.js";
+import { fromTask } from "./constructors.js";
+import {
+	type AnyTaskEither,
+	createTaskEither,
+	isTaskEither,
+	type TaskEither,
+} from "./taskEither.js";
 
 /**
  * Runs all TaskEithers concurrently and collects their Right values into an array.
- * Short-circuits on the first Left, returning it immediately.
- * Equivalent to `Promise.all` for TaskEithers.
+ * The Right values keep the order of the input, whatever order the TaskEithers resolve in.
+ * Fails fast: resolves as soon as any TaskEither resolves to Left, with that Left - the first
+ * to arrive, not the first in the array - interrupts the TaskEithers that are still running
+ * and never starts the ones waiting for a slot.
  *
  * @param taskEithers - Array of TaskEithers to run concurrently
- * @returns TaskEither that resolves with an array of all Right values, or the first Left
+ * @param options - Optional limit on how many TaskEithers run at the same time
+ * @throws RangeError if `options.concurrency` is not a positive integer or `Infinity`
+ * @returns TaskEither that resolves with an array of all Right values, or the first Left to arrive
  *
  * @example
  * ```typescript
  * await all([taskEither(1), taskEither(2), taskEither(3)]).run() // Right([1, 2, 3])
- * await all([taskEither(1), taskLeft("err"), taskEither(3)]).run() // Left("err")
+ * await all([slowUpload, taskLeft("invalid"), slowUpload]).run() // Left("invalid"), uploads interrupted
+ * await all(uploads, { concurrency: 4 }).run() // at most 4 uploads at a time
  * ```
  */
-export function all<E, T>(taskEithers: TaskEither<E, T>[]): TaskEither<E, T[]> {
-	return createTaskEither(() =>
-		Promise.all(taskEithers.map((te) => te.run())).then((eithers) => {
+export function all<E, T>(
+	taskEithers: TaskEither<E, T>[],
+	options?: ConcurrencyOptions,
+): TaskEither<E, T[]> {
+	const concurrency = concurrencyOf(options);
+	return createTaskEither((signal) => {
+		if (signal === undefined && taskEithers.length < 2) {
+			// no outer signal to follow and no sibling to interrupt
+			const [only] = taskEithers;
+			return only === undefined
+				? Promise.resolve(right<T[], E>([]))
+				: only.run().then((either) => either.map((value) => [value]));
+		}
+		const { controller, release } = linkedController(signal);
+		const limited = limitConcurrency(concurrency);
+		return new Promise<Either<E, T[]>>((resolve, reject) => {
 			const out: T[] = [];
-			for (const either of eithers) {
-				const result = either.toResult();
-				if (!result.ok) {
-					return left<E, T[]>(result.error);
-				}
-				out.push(result.value);
+			let remaining = taskEithers.length;
+			if (remaining === 0) {
+				resolve(right<T[], E>(out));
 			}
-			return right<T[], E>(out);
-		}),
+			taskEithers.forEach((te, i) => {
+				limited(() => te.run(controller.signal)).then(
+					(either) => {
+						const result = either.toResult();
+						if (!result.ok) {
+							// stop before the next queued TaskEither is started
+							controller.abort();
+							resolve(left<E, T[]>(result.error));
+							return;
+						}
+						out[i] = result.value;
+						remaining -= 1;
+						if (remaining === 0) {
+							resolve(right<T[], E>(out));
+						}
+					},
+					(err) => {
+						controller.abort();
+						reject(err);
+					},
+				);
+			});
+		}).finally(release);
+	});
+}
+
+/**
+ * Maps each item of an array to a TaskEither and runs them all concurrently,
+ * collecting the Right values into an array that keeps the order of the input items.
+ * Returns the first Left if any mapped TaskEither resolves to Left.
+ *
+ * @param items - Array of items to map
+ * @param mapper - Function that maps an item to a TaskEither
+ * @param options - Optional limit on how many TaskEithers run at the same time
+ * @throws RangeError if `options.concurrency` is not a positive integer or `Infinity`
+ * @returns TaskEither that resolves with an array of all Right values, or the first Left
+ *
+ * @example
+ * ```typescript
+ * await traverse(["user-1", "user-2"], fetchUser).run() // Right([User, User]) or the first Left
+ * await traverse(rows, saveRow, { concurrency: 1 }).run() // saves one row at a time, stops at the first Left
+ * ```
+ */
+export function traverse<A, E, B>(
+	items: readonly A[],
+	mapper: (item: A) => TaskEither<E, B>,
+	options?: ConcurrencyOptions,
+): TaskEither<E, B[]> {
+	return traverseWithIndex(items, (item) => mapper(item), options);
+}
+
+/**
+ * Like {@link traverse}, but the mapper also receives the index of each item.
+ *
+ * @param items - Array of items to map
+ * @param mapper - Function that maps an item and its index to a TaskEither
+ * @param options - Optional limit on how many TaskEithers run at the same time
+ * @throws RangeError if `options.concurrency` is not a positive integer or `Infinity`
+ * @returns TaskEither that resolves with an array of all Right values, or the first Left
+ *
+ * @example
+ * ```typescript
+ * await traverseWithIndex(rows, (row, i) => saveRow(row).mapLeft((e) => ({ row: i, e }))).run()
+ * ```
+ */
+export function traverseWithIndex<A, E, B>(
+	items: readonly A[],
+	mapper: (item: A, index: number) => TaskEither<E, B>,
+	options?: ConcurrencyOptions,
+): TaskEither<E, B[]> {
+	const limit = { concurrency: concurrencyOf(options) };
+	return createTaskEither((signal) =>
+		all(items.map(mapper), limit).run(signal),
 	);
 }
+
+type LeftOf<Y> = Y extends TaskEither<infer E, infer _T> ? E : never;
+
+/**
+ * What `gen` accepts from `yield*`: a TaskEither or a Task, of any error and value type.
+ */
+type Yieldable = AnyTaskEither | Task<unknown>;
+
+type RightsOf<TaskEithers extends readonly unknown[]> = {
+	[K in keyof TaskEithers]: TaskEithers[K] extends TaskEither<infer _E, infer A>
+		? A
+		: never;
+};
+
+/**
+ * Runs any number of TaskEithers concurrently and combines their Right values using a mapping function.
+ * Returns the first Left if any TaskEither resolves to Left.
+ * The mapper receives the Right values in the same order, with their types inferred from the tuple,
+ * and the error type is the union of all Left types.
+ *
+ * @param taskEithers - Tuple of TaskEithers to run concurrently
+ * @param mapper - Function that receives every Right value and combines them
+ * @returns TaskEither that resolves with the combined result, or the first Left
+ *
+ * @example
+ * ```typescript
+ * await mapN([fetchUser(id), fetchOrders(id)], (user, orders) => ({ user, orders })).run()
+ * // Right({ user, orders })
+ * ```
+ */
+export function mapN<const TaskEithers extends readonly AnyTaskEither[], U>(
+	taskEithers: TaskEithers,
+	mapper: (...values: RightsOf<TaskEithers>) => U,
+): TaskEither<LeftOf<TaskEithers[number]>, U> {
+	return all(
+		taskEithers as unknown as TaskEither<
+			LeftOf<TaskEithers[number]>,
+			unknown
+		>[],
+	).map((values) => mapper(...(values as unknown as RightsOf<TaskEithers>)));
+}
+
+/**
+ * Runs any number of TaskEithers concurrently and collects their Right values into a tuple.
+ * Returns the first Left if any TaskEither resolves to Left.
+ *
+ * @param taskEithers - TaskEithers to run concurrently
+ * @returns TaskEither that resolves with a tuple of all Right values, or the first Left
+ *
+ * @example
+ * ```typescript
+ * await zipAll(taskEither("Alice"), taskEither(30)).run()     // Right(["Alice", 30])
+ * await zipAll(taskEither("Alice"), taskLeft("No age")).run() // Left("No age")
+ * ```
+ */
+export function zipAll<const TaskEithers extends readonly AnyTaskEither[]>(
+	...taskEithers: TaskEithers
+): TaskEither<LeftOf<TaskEithers[number]>, RightsOf<TaskEithers>> {
+	return mapN(taskEithers, (...values) => values);
+}
+
+type StructOf<R> = {
+	[K in keyof R]: R[K] extends TaskEither<infer _E, infer A> ? A : never;
+};
+
+/**
+ * Runs a record of TaskEithers concurrently and collects their Right values into a record,
+ * preserving the keys and their value types.
+ * Returns the first Left if any TaskEither resolves to Left.
+ *
+ * @param record - Record whose values are TaskEithers
+ * @returns TaskEither that resolves with a record of all Right values, or the first Left
+ *
+ * @example
+ * ```typescript
+ * await struct({ user: fetchUser(id), orders: fetchOrders(id) }).run()
+ * // Right({ user, orders }) or the first Left
+ * ```
+ */
+export function struct<R extends Readonly<Record<string, AnyTaskEither>>>(
+	record: R,
+): TaskEither<LeftOf<R[keyof R]>, StructOf<R>> {
+	const keys = Object.keys(record);
+	return all(
+		keys.map((key) => record[key] as TaskEither<LeftOf<R[keyof R]>, unknown>),
+	).map((values) => fromEntries<StructOf<R>>(keys, values));
+}
+
+/**
+ * Runs an async generator-based computation over TaskEithers (do-notation).
+ * Each `yield*` runs a TaskEither (or a plain Task) and resumes the generator with its Right value.
+ * The computation short-circuits on the first Left, exactly like chaining with `flatMap`.
+ * The error type is the union of the Left types of every yielded TaskEither.
+ * On a Left, a rejection or an interruption, the generator's finally blocks run before the result is passed on.
+ * Nothing runs until `run()` is called, and every `run()` restarts the generator.
+ *
+ * @param body - Async generator function that yields TaskEithers or Tasks and returns the final value
+ * @returns TaskEither that resolves with the returned value, or the first Left encountered
+ *
+ * @example
+ * ```typescript
+ * const program = gen(async function* () {
+ *   const user = yield* fetchUser(id);          // TaskEither<NotFound, User>
+ *   const orders = yield* fetchOrders(user.id); // TaskEither<DbError, Order[]>
+ *   const now = yield* currentTime;             // Task<Date>
+ *   return { user, orders, now };
+ * }); // TaskEither<NotFound | DbError, { user: User; orders: Order[]; now: Date }>
+ *
+ * await program.run();
+ * ```
+ */
+export function gen<Y extends Yieldable, T>(
+	body: () => AsyncGenerator<Y, T, unknown>,
+): TaskEither<LeftOf<Y>, T> {
+	return createTaskEither((signal) => {
+		const iterator = body();
+
+		// lets the generator's finally blocks run
+		const close = () => iterator.return(undefined as T);
+
+		const step = (
+			result: IteratorResult<Y, T>,
+		): Promise<Either<LeftOf<Y>, T>> =>
+			result.done
+				? Promise.resolve(right<T, LeftOf<Y>>(result.value))
+				: toTaskEither<LeftOf<Y>>(result.value)
+						.run(signal)
+						.then(unlessInterrupted(signal, (either) => either))
+						.then(
+							(either) =>
+								either.match(
+									(error) => close().then(() => left<LeftOf<Y>, T>(error)),
+									(value) => iterator.next(value).then(step),
+								),
+							(err) => close().then(() => Promise.reject(err)),
+						);
+
+		return iterator.next().then(step);
+	});
+}
+
+function toTaskEither<E>(effect: Yieldable): TaskEither<E, unknown> {
+	return isTaskEither(effect)
+		? (effect as TaskEither<E, unknown>)
+		: fromTask<unknown, E>(effect as Task<unknown>);
+}
+
+/**
+ * Runs a TaskEither as a scope for the fibers it forks. When the TaskEither resolves to Right or Left,
+ * or rejects, every fiber forked inside it that is still running is interrupted, and the scope waits
+ * for all of them to stop before passing on the result.
+ *
+ * @param body - The TaskEither whose forked fibers are bound to the scope
+ * @returns TaskEither that resolves with the body's result once all of its fibers have stopped
+ *
+ * @example
+ * ```typescript
+ * scoped(
+ *   fromTask(heartbeat.fork()).flatMap(() => processJobs),
+ * ).run() // the heartbeat stops as soon as processJobs settles
+ * ```
+ */
+export function scoped<E, T>(body: TaskEither<E, T>): TaskEither<E, T> {
+	return createTaskEither((signal) => runScoped(signal, body.run));
+}
@@ -1,3 +1,5 @@
 import type { Either } from "../either/either.js";
 
-export type TaskEitherValue<E, T> = () => Promise<Either<E, T>>;
+export type TaskEitherValue<E, T> = (
+	signal?: AbortSignal,
+) => Promise<Either<E, T>>;
@@ -1,9 +1,48 @@
 import { describe, expect, it, vi } from "vitest";
 import { left, right } from "../either/constructors.js";
-import { taskEither, taskLeft } from "./constructors.js";
+import { InterruptedError } from "../task/interruption.js";
+import { TimeoutError } from "../task/timeout.js";
+import { bifunctorLawsSpec } from "../testUtils/bifunctorLaws.js";
+import { Do, taskEither, taskLeft, tryCatch } from "./constructors.js";
 import type { TaskEither } from "./taskEither.js";
 
 describe("taskEither", () => {
+	describe("filterOrElse", () => {
+		it("should keep the right value when the predicate holds", async () => {
+			const te = taskEither<number, string>(5).filterOrElse(
+				(n) => n > 0,
+				() => "not positive",
+			);
+			expect((await te.run()).toResult()).toEqual(right(5).toResult());
+		});
+
+		it("should return left when the predicate fails", async () => {
+			const te = taskEither<number, string>(-5).filterOrElse(
+				(n) => n > 0,
+				() => "not positive",
+			);
+			expect((await te.run()).toResult()).toEqual(
+				left("not positive").toResult(),
+			);
+		});
+
+		it("should not call the predicate on left", async () => {
+			const predicate = vi.fn();
+			const te = taskLeft("error").filterOrElse(predicate, () => "other");
+			expect((await te.run()).toResult()).toEqual(left("error").toResult());
+			expect(predicate).not.toHaveBeenCalled();
+		});
+
+		it("should narrow the right type with a type guard", async () => {
+			const isString = (x: unknown): x is string => typeof x === "string";
+			const te: TaskEither<string, string> = taskEither<
+				string | number,
+				string
+			>("a").filterOrElse(isString, () => "not a string");
+			expect((await te.run()).toResult()).toEqual(right("a").toResult());
+		});
+	});
+
 	describe("map", () => {
 		it("should transform the right value", async () => {
 			const te = taskEither(5).map((x) => x * 2);
@@ -219,6 +258,57 @@ describe("taskEither", () => {
 		});
 	});
 
+	describe("bindTo", () => {
+		it("should wrap the right value in a record", async () => {
+			const result = await taskEither(2).bindTo("x").run();
+			expect(result.toResult()).toEqual(right({ x: 2 }).toResult());
+		});
+	});
+
+	describe("bind", () => {
+		it("should accumulate bound values in the record", async () => {
+			const te = Do.bind("x", () => taskEither(2)).bind("y", ({ x }) =>
+				taskEither(x * 3),
+			);
+			expect((await te.run()).toResult()).toEqual(
+				right({ x: 2, y: 6 }).toResult(),
+			);
+		});
+
+		it("should short-circuit on the first left and not call later mappers", async () => {
+			const mapper = vi.fn();
+			const te = Do.bind("x", () => taskLeft("error")).bind("y", mapper);
+			expect((await te.run()).toResult()).toEqual(left("error").toResult());
+			expect(mapper).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("let", () => {
+		it("should add a computed value to the record", async () => {
+			const te = Do.bind("x", () => taskEither(2)).let(
+				"double",
+				({ x }) => x * 2,
+			);
+			expect((await te.run()).toResult()).toEqual(
+				right({ x: 2, double: 4 }).toResult(),
+			);
+		});
+	});
+
+	describe("apS", () => {
+		it("should add the value of an independent taskEither to the record", async () => {
+			const te = Do.apS("x", taskEither(2)).apS("y", taskEither("two"));
+			expect((await te.run()).toResult()).toEqual(
+				right({ x: 2, y: "two" }).toResult(),
+			);
+		});
+
+		it("should return the left when the added taskEither is left", async () => {
+			const te = Do.apS("x", taskEither(2)).apS("y", taskLeft("error"));
+			expect((await te.run()).toResult()).toEqual(left("error").toResult());
+		});
+	});
+
 	describe("run", () => {
 		it("should return a Promise", () => {
 			const result = taskEither(42).run();
@@ -229,6 +319,185 @@ describe("taskEither", () => {
 			const result = await taskEither(42).run();
 			expect(result.toResult()).toEqual(right(42).toResult());
 		});
+
+		it("should pass the signal to every step of the chain", async () => {
+			const controller = new AbortController();
+			const first = vi.fn((_signal?: AbortSignal) => Promise.resolve(1));
+			const fallback = vi.fn((_signal?: AbortSignal) => Promise.resolve(2));
+			await tryCatch(first, String)
+				.flatMap(() => taskLeft<string, number>("e"))
+				.orElse(() => tryCatch(fallback, String))
+				.run(controller.signal);
+			expect(first).toHaveBeenCalledWith(controller.signal);
+			expect(fallback).toHaveBeenCalledWith(controller.signal);
+		});
+
+		it("should reject as soon as the signal is aborted and skip the remaining steps", async () => {
+			const controller = new AbortController();
+			let resolveFirst: (value: number) => void = () => {};
+			const next = vi.fn(() => taskEither(2));
+			const result = tryCatch(
+				() => new Promise<number>((resolve) => (resolveFirst = resolve)),
+				String,
+			)
+				.flatMap(next)
+				.run(controller.signal);
+
+			controller.abort();
+			await expect(result).rejects.toBeInstanceOf(InterruptedError);
+
+			resolveFirst(1);
+			await new Promise((resolve) => setTimeout(resolve, 0));
+			expect(next).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("fork", () => {
+		it("should resolve to Right with a fiber that joins with the result", async () => {
+			let resolve: (value: number) => void = () => {};
+			const te = tryCatch(
+				() => new Promise<number>((r) => (resolve = r)),
+				String,
+			);
+			const fiber = (await te.fork().run()).getOrElse(() => {
+				throw new Error("fork should not fail");
+			});
+			expect(fiber.status()).toBe("running");
+
+			resolve(42);
+			expect((await fiber.join().run()).toResult()).toEqual(
+				right(42).toResult(),
+			);
+			expect(fiber.status()).toBe("completed");
+		});
+
+		it("should report a fiber that resolved to Left as completed", async () => {
+			const result = await taskLeft<string, string>("e")
+				.fork()
+				.flatMap((fiber) =>
+					fiber.join().orElse(() => taskEither<string>(fiber.status())),
+				)
+				.run();
+			expect(result.toResult()).toEqual(right("completed").toResult());
+		});
+
+		it("should interrupt the fiber and reject join with InterruptedError", async () => {
+			const te = tryCatch(() => new Promise<number>(() => {}), String);
+			const fiber = (await te.fork().run()).getOrElse(() => {
+				throw new Error("fork should not fail");
+			});
+
+			await fiber.interrupt().run();
+			expect(fiber.status()).toBe("interrupted");
+			await expect(fiber.join().run()).rejects.toBeInstanceOf(InterruptedError);
+		});
+	});
+
+	describe("timeout", () => {
+		const slow = (
+			ms: number,
+			onSignal: (signal?: AbortSignal) => void = () => {},
+		) =>
+			tryCatch((signal) => {
+				onSignal(signal);
+				return new Promise<string>((resolve) =>
+					setTimeout(resolve, ms, "done"),
+				);
+			}, String);
+
+		it("should keep the result when the taskEither settles in time", async () => {
+			expect((await slow(0).timeout(50).run()).toResult()).toEqual(
+				right("done").toResult(),
+			);
+			expect((await taskLeft("e").timeout(50).run()).toResult()).toEqual(
+				left("e").toResult(),
+			);
+		});
+
+		it("should resolve to Left with a TimeoutError and interrupt the taskEither when the time is up", async () => {
+			let signal: AbortSignal | undefined;
+			const result = await slow(1000, (s) => (signal = s))
+				.timeout(10)
+				.run();
+			const error = result.match(
+				(err) => err,
+				() => undefined,
+			);
+			expect(error).toBeInstanceOf(TimeoutError);
+			expect(error).toMatchObject({ ms: 10 });
+			expect(signal?.aborted).toBe(true);
+			expect(signal?.reason).toBeInstanceOf(TimeoutError);
+		});
+
+		it("should run the fallback of timeoutTo only when the time is up", async () => {
+			const fallback = vi.fn(() => Promise.resolve("cached"));
+			const cached = tryCatch(fallback, String);
+
+			const fast = await slow(0).timeoutTo(50, cached).run();
+			expect(fast.toResult()).toEqual(right("done").toResult());
+			expect(fallback).not.toHaveBeenCalled();
+
+			const timedOut = await slow(1000).timeoutTo(10, cached).run();
+			expect(timedOut.toResult()).toEqual(right("cached").toResult());
+			expect(fallback).toHaveBeenCalledOnce();
+		});
+
+		it("should leave fibers forked inside the taskEither running when it settles in time", async () => {
+			const result = await slow(10)
+				.fork()
+				.timeout(1000)
+				.flatMap((fiber) => fiber.join())
+				.run();
+			expect(result.toResult()).toEqual(right("done").toResult());
+		});
+
+		it("should never time out with a limit of Infinity", async () => {
+			const result = await slow(20).timeout(Number.POSITIVE_INFINITY).run();
+			expect(result.toResult()).toEqual(right("done").toResult());
+		});
+
+		it("should throw a RangeError for a NaN, negative or too long limit", () => {
+			for (const ms of [Number.NaN, -1, 2 ** 31, Number.NEGATIVE_INFINITY]) {
+				expect(() => slow(0).timeout(ms)).toThrow(RangeError);
+				expect(() => slow(0).timeoutTo(ms, taskLeft("e"))).toThrow(RangeError);
+			}
+		});
+	});
+
+	describe("bimap", () => {
+		it("should map the right value with the right mapper", async () => {
+			const te = taskEither<number, string>(5).bimap(
+				(e) => e.length,
+				(x) => x * 2,
+			);
+			expect((await te.run()).toResult()).toEqual(right(10).toResult());
+		});
+
+		it("should map the left value with the left mapper", async () => {
+			const te = taskLeft<string, number>("oops").bimap(
+				(e) => e.length,
+				(x) => x * 2,
+			);
+			expect((await te.run()).toResult()).toEqual(left(4).toResult());
+		});
+	});
+
+	describe("flatMapLeft", () => {
+		it("should replace the left with the task either returned by the mapper", async () => {
+			const te = taskLeft<number, string | null>(404).flatMapLeft((status) =>
+				status === 404
+					? taskEither<string | null, Error>(null)
+					: taskLeft<Error, string | null>(new Error(`${status}`)),
+			);
+			expect((await te.run()).toResult()).toEqual(right(null).toResult());
+		});
+
+		it("should not call the mapper when value is right", async () => {
+			const mapper = vi.fn();
+			const te = taskEither(2).flatMapLeft(mapper);
+			expect((await te.run()).toResult()).toEqual(right(2).toResult());
+			expect(mapper).not.toHaveBeenCalled();
+		});
 	});
 
 	describe("functor laws", () => {
@@ -275,4 +544,16 @@ describe("taskEither", () => {
 			expect(r1.toResult()).toEqual(r2.toResult());
 		});
 	});
+
+	describe(
+		"bifunctor laws",
+		bifunctorLawsSpec<TaskEither<number, number>>({
+			left: (value) => taskLeft(value),
+			right: (value) => taskEither(value),
+			bimap: (te, onLeft, onRight) => te.bimap(onLeft, onRight),
+			mapLeft: (te, mapper) => te.mapLeft(mapper),
+			map: (te, mapper) => te.map(mapper),
+			asTag: async (te) => (await te.run()).toResult(),
+		}),
+	);
 });
@@ -1,9 +1,37 @@
 import { left, right } from "../either/constructors.js";
 import type { Either } from "../either/either.js";
+import { extend } from "../internal/record.js";
+import { startFiber } from "../task/fiber.js";
+import { runInterruptible, unlessInterrupted } from "../task/interruption.js";
 import { createTask, type Task } from "../task/task.js";
+import { runWithTimeout, TimeoutError, timeoutOf } from "../task/timeout.js";
+import { createTaskEitherFiber, type TaskEitherFiber } from "./fiber.js";
 import type { TaskEitherValue } from "./model.js";
 
 export type TaskEither<E, T> = {
+	/**
+	 * Filters the TaskEither based on a predicate function applied to the Right value.
+	 * When the predicate is a type guard, the Right type is narrowed accordingly.
+	 *
+	 * @param predicate - Function that tests the Right value
+	 * @param onLeft - Function that provides the error value when predicate fails
+	 * @returns TaskEither resolving to the same Either if Left or predicate passes, otherwise Left with the provided error
+	 *
+	 * @example
+	 * ```typescript
+	 * const isPositive = (n: number) => n > 0;
+	 * taskEither(5).filterOrElse(isPositive, () => "Must be positive").run()  // Promise<Right(5)>
+	 * taskEither(-3).filterOrElse(isPositive, () => "Must be positive").run() // Promise<Left("Must be positive")>
+	 * ```
+	 */
+	filterOrElse: {
+		<U extends T>(
+			refinement: (right: T) => right is U,
+			onLeft: () => E,
+		): TaskEither<E, U>;
+		(predicate: (right: T) => boolean, onLeft: () => E): TaskEither<E, T>;
+	};
+
 	/**
 	 * Transforms the Right value using a mapping function.
 	 * If this TaskEither resolves to Left, the mapper is not called.
@@ -36,6 +64,26 @@ export type TaskEither<E, T> = {
 	 */
 	mapLeft: <F>(mapper: (left: E) => F) => TaskEither<F, T>;
 
+	/**
+	 * Transforms both sides of the resolved Either at once.
+	 *
+	 * @typeParam F - The type of the transformed error
+	 * @typeParam U - The type of the transformed value
+	 * @param onLeft - Function to transform the Left value
+	 * @param onRight - Function to transform the Right value
+	 * @returns New TaskEither with the applicable side transformed
+	 *
+	 * @example
+	 * ```typescript
+	 * taskEither(5).bimap(e => `Error: ${e}`, x => x * 2).run()      // Promise<Right(10)>
+	 * taskLeft("oops").bimap(e => `Error: ${e}`, x => x * 2).run()  // Promise<Left("Error: oops")>
+	 * ```
+	 */
+	bimap: <F, U>(
+		onLeft: (left: E) => F,
+		onRight: (right: T) => U,
+	) => TaskEither<F, U>;
+
 	/**
 	 * Applies a function wrapped in a TaskEither to a value wrapped in a TaskEither.
 	 * Both TaskEithers are run concurrently.
@@ -111,6 +159,24 @@ export type TaskEither<E, T> = {
 		mapper: (right: T) => TaskEither<EE, U>,
 	) => TaskEither<E | EE, U>;
 
+	/**
+	 * Chains a TaskEither-returning operation on the Left value, e.g. to recover from
+	 * or re-classify an error. Unlike {@link orElse}, the Left type is replaced
+	 * by the one returned from the mapper.
+	 *
+	 * @typeParam F - The error type of the TaskEither returned by the mapper
+	 * @param mapper - Function that takes a Left value and returns a TaskEither
+	 * @returns The TaskEither returned by mapper if this is Left, otherwise this Right unchanged
+	 *
+	 * @example
+	 * ```typescript
+	 * taskLeft(404).flatMapLeft(s => s === 404 ? taskEither(null) : taskLeft(new Error(`${s}`))).run()
+	 * // Promise<Right(null)>
+	 * taskEither(42).flatMapLeft(() => taskEither(0)).run() // Promise<Right(42)>
+	 * ```
+	 */
+	flatMapLeft: <F>(mapper: (left: E) => TaskEither<F, T>) => TaskEither<F, T>;
+
 	/**
 	 * Performs a side effect with the Right value, returning the original TaskEither unchanged.
 	 * If this TaskEither resolves to Left, the side effect is not executed.
@@ -190,44 +256,229 @@ export type TaskEither<E, T> = {
 		fallback: (left: E) => TaskEither<EE, T>,
 	) => TaskEither<E | EE, T>;
 
+	/**
+	 * Wraps the Right value in a record under the given key.
+	 * This is usually the first step of do-notation when starting from an existing TaskEither.
+	 *
+	 * @param key - The key to store the Right value under
+	 * @returns TaskEither containing a record with the Right value under `key`, or the same Left
+	 *
+	 * @example
+	 * ```typescript
+	 * taskEither(5).bindTo("x").run() // Promise<Right({ x: 5 })>
+	 * ```
+	 */
+	bindTo: <K extends string>(key: K) => TaskEither<E, { readonly [P in K]: T }>;
+
+	/**
+	 * Extends the record on the Right side with the value of another TaskEither computed from it.
+	 * The new TaskEither runs after this one and short-circuits on the first Left, like {@link flatMap}.
+	 *
+	 * @typeParam EE - The error type of the TaskEither returned by the mapper
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns a TaskEither
+	 * @returns TaskEither containing the extended record, or the first Left
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.bind("user", () => fetchUser(id))
+	 *   .bind("orders", ({ user }) => fetchOrders(user.id))
+	 *   .run() // Promise<Right({ user, orders })>
+	 * ```
+	 */
+	bind: <K extends string, EE, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => TaskEither<EE, U>,
+	) => TaskEither<E | EE, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Extends the record on the Right side with a plain value computed from it.
+	 *
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns a value
+	 * @returns TaskEither containing the extended record, or the same Left
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.bind("orders", () => fetchOrders(id))
+	 *   .let("total", ({ orders }) => orders.length)
+	 * ```
+	 */
+	let: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => U,
+	) => TaskEither<E, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Extends the record on the Right side with the value of an independent TaskEither.
+	 * Both TaskEithers are run concurrently, like {@link ap}.
+	 *
+	 * @typeParam EE - The error type of the added TaskEither
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param other - The TaskEither whose Right value is added to the record
+	 * @returns TaskEither containing the extended record, or the first Left
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.apS("user", fetchUser(id))
+	 *   .apS("settings", fetchSettings(id)) // fetched concurrently
+	 * ```
+	 */
+	apS: <K extends string, EE, U>(
+		key: Exclude<K, keyof T>,
+		other: TaskEither<EE, U>,
+	) => TaskEither<E | EE, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Starts the TaskEither in the background and resolves immediately with a fiber to join or interrupt it.
+	 * The fiber is interrupted when the signal of the surrounding run is aborted, and inside
+	 * {@link scoped} it is interrupted and awaited when the scope completes.
+	 *
+	 * @returns TaskEither that resolves to Right with a handle to the running TaskEither
+	 *
+	 * @example
+	 * ```typescript
+	 * fetchUser(id).fork().flatMap(fiber =>
+	 *   fetchSettings(id).flatMap(settings => fiber.join().map(user => ({ user, settings }))),
+	 * )
+	 * ```
+	 */
+	fork: () => TaskEither<never, TaskEitherFiber<E, T>>;
+
+	/**
+	 * Limits how long the TaskEither may take. If it does not settle within `ms` milliseconds,
+	 * it is interrupted, with a TimeoutError as abort reason, and the result is a Left of that TimeoutError.
+	 *
+	 * @param ms - The time limit in milliseconds, or `Infinity` for no limit
+	 * @throws RangeError if `ms` is NaN, negative or above 2^31 - 1, the longest delay `setTimeout` supports
+	 * @returns TaskEither with the result, or Left with a TimeoutError if the time limit was exceeded
+	 *
+	 * @example
+	 * ```typescript
+	 * fetchUser(id).timeout(5000).run() // Promise<Right(user)> or Promise<Left(TimeoutError)>
+	 * ```
+	 */
+	timeout: (ms: number) => TaskEither<E | TimeoutError, T>;
+
+	/**
+	 * Limits how long the TaskEither may take, running a fallback TaskEither when the time is up.
+	 * The timed-out TaskEither is interrupted, with a TimeoutError as abort reason.
+	 *
+	 * @typeParam EE - The error type of the fallback
+	 * @typeParam U - The value type of the fallback
+	 * @param ms - The time limit in milliseconds, or `Infinity` for no limit
+	 * @param fallback - The TaskEither to run if the time limit is exceeded
+	 * @throws RangeError if `ms` is NaN, negative or above 2^31 - 1, the longest delay `setTimeout` supports
+	 * @returns TaskEither with the result, or the fallback's result if the time limit was exceeded
+	 *
+	 * @example
+	 * ```typescript
+	 * fetchPrices.timeoutTo(200, readCachedPrices).run()
+	 * ```
+	 */
+	timeoutTo: <EE, U>(
+		ms: number,
+		fallback: TaskEither<EE, U>,
+	) => TaskEither<E | EE, T | U>;
+
 	/**
 	 * Executes the TaskEither and returns the resulting Promise.
+	 * The signal is passed to every step of the chain; once it is aborted, the Promise rejects
+	 * with an InterruptedError and the remaining steps are not executed.
 	 *
+	 * @param signal - Optional AbortSignal to interrupt the run
 	 * @returns A Promise that resolves with the Either value
 	 *
 	 * @example
 	 * ```typescript
 	 * const result = await taskEither(42).run(); // Either<never, number>
+	 *
+	 * const controller = new AbortController();
+	 * const user = fetchUser(id).run(controller.signal);
+	 * controller.abort(); // user rejects with InterruptedError
+	 * ```
+	 */
+	run: (signal?: AbortSignal) => Promise<Either<E, T>>;
+
+	/**
+	 * Makes the TaskEither iterable so it can be unwrapped with `yield*` inside an async generator
+	 * passed to {@link gen}. Yields this TaskEither once and resumes with its Right value.
+	 *
+	 * @returns Generator that yields this TaskEither and returns its Right value
+	 *
+	 * @example
+	 * ```typescript
+	 * gen(async function* () {
+	 *   const x = yield* taskEither(5);
+	 *   return x * 2;
+	 * }).run() // Promise<Right(10)>
 	 * ```
 	 */
-	run: () => Promise<Either<E, T>>;
+	[Symbol.iterator]: () => Generator<TaskEither<E, T>, T, unknown>;
 };
 
+/**
+ * A TaskEither of any error and value type, for helpers that take TaskEithers of different types.
+ * Spelled out structurally because TaskEither is invariant in both.
+ */
+export type AnyTaskEither = {
+	readonly run: (signal?: AbortSignal) => Promise<unknown>;
+	readonly fork: () => unknown;
+	readonly mapLeft: (mapper: never) => unknown;
+};
+
+const taskEithers = new WeakSet<object>();
+
+/**
+ * Checks whether a value was created by {@link createTaskEither}, to tell TaskEithers apart from Tasks.
+ */
+export function isTaskEither(
+	value: unknown,
+): value is TaskEither<unknown, unknown> {
+	return typeof value === "object" && value !== null && taskEithers.has(value);
+}
+
 export function createTaskEither<E, T>(
 	thunk: TaskEitherValue<E, T>,
 ): TaskEither<E, T> {
 	const te: TaskEither<E, T> = {
+		filterOrElse: ((predicate: (right: T) => boolean, onLeft: () => E) =>
+			createTaskEither((signal) =>
+				thunk(signal).then(
+					unlessInterrupted(signal, (either) =>
+						either.filterOrElse(predicate, onLeft),
+					),
+				),
+			)) as TaskEither<E, T>["filterOrElse"],
+
 		map: <U>(mapper: (right: T) => U): TaskEither<E, U> =>
 			te.flatMap((rightVal) =>
 				createTaskEither(() => Promise.resolve(right<U, E>(mapper(rightVal)))),
 			),
 
 		mapLeft: <F>(mapper: (leftVal: E) => F): TaskEither<F, T> =>
-			createTaskEither<F, T>(() =>
-				thunk().then((either) =>
-					either.match(
-						(leftVal) => left<F, T>(mapper(leftVal)),
-						(rightVal) => right<T, F>(rightVal),
+			createTaskEither<F, T>((signal) =>
+				thunk(signal).then(
+					unlessInterrupted(signal, (either) =>
+						either.match(
+							(leftVal) => left<F, T>(mapper(leftVal)),
+							(rightVal) => right<T, F>(rightVal),
+						),
 					),
 				),
 			),
 
+		bimap: <F, U>(
+			onLeft: (leftVal: E) => F,
+			onRight: (rightVal: T) => U,
+		): TaskEither<F, U> => te.map(onRight).mapLeft(onLeft),
+
 		ap: function <EE, A, U>(
 			this: TaskEither<E, (a: A) => U>,
 			arg: TaskEither<EE, A>,
 		): TaskEither<E | EE, U> {
-			return createTaskEither<E | EE, U>(() =>
-				Promise.all([this.run(), arg.run()]).then(
+			return createTaskEither<E | EE, U>((signal) =>
+				Promise.all([this.run(signal), arg.run(signal)]).then(
 					([eitherFn, eitherA]) =>
 						(eitherFn as Either<E, (a: A) => U>).ap(
 							eitherA as Either<EE, A>,
@@ -251,51 +502,140 @@ export function createTaskEither<E, T>(
 		flatMap: <EE, U>(
 			mapper: (rightVal: T) => TaskEither<EE, U>,
 		): TaskEither<E | EE, U> =>
-			createTaskEither<E | EE, U>(() =>
-				thunk().then((either) =>
-					either.match<Promise<Either<E | EE, U>>>(
-						(leftVal) => Promise.resolve(left<E | EE, U>(leftVal)),
-						(rightVal) => mapper(rightVal).run() as Promise<Either<E | EE, U>>,
+			createTaskEither<E | EE, U>((signal) =>
+				thunk(signal).then(
+					unlessInterrupted(signal, (either) =>
+						either.match<Promise<Either<E | EE, U>>>(
+							(leftVal) => Promise.resolve(left<E | EE, U>(leftVal)),
+							(rightVal) =>
+								mapper(rightVal).run(signal) as Promise<Either<E | EE, U>>,
+						),
+					),
+				),
+			),
+
+		flatMapLeft: <F>(
+			mapper: (leftVal: E) => TaskEither<F, T>,
+		): TaskEither<F, T> =>
+			createTaskEither<F, T>((signal) =>
+				thunk(signal).then(
+					unlessInterrupted(signal, (either) =>
+						either.match<Promise<Either<F, T>>>(
+							(leftVal) => mapper(leftVal).run(signal),
+							(rightVal) => Promise.resolve(right<T, F>(rightVal)),
+						),
 					),
 				),
 			),
 
 		tap: (sideEffect: (right: T) => unknown): TaskEither<E, T> =>
-			createTaskEither(() =>
-				thunk().then((either) => {
-					either.tap(sideEffect);
-					return either;
-				}),
+			createTaskEither((signal) =>
+				thunk(signal).then(
+					unlessInterrupted(signal, (either) => {
+						either.tap(sideEffect);
+						return either;
+					}),
+				),
 			),
 
 		tapLeft: (sideEffect: (leftVal: E) => unknown): TaskEither<E, T> =>
-			createTaskEither(() =>
-				thunk().then((either) => {
-					either.match(sideEffect, () => {});
-					return either;
-				}),
+			createTaskEither((signal) =>
+				thunk(signal).then(
+					unlessInterrupted(signal, (either) => {
+						either.match(sideEffect, () => {});
+						return either;
+					}),
+				),
 			),
 
 		match: <U>(onLeft: (left: E) => U, onRight: (right: T) => U): Task<U> =>
-			createTask(() => thunk().then((either) => either.match(onLeft, onRight))),
+			createTask((signal) =>
+				thunk(signal).then(
+					unlessInterrupted(signal, (either) => either.match(onLeft, onRight)),
+				),
+			),
 
 		getOrElse: (fallback: (left: E) => T): Task<T> =>
-			createTask(() => thunk().then((either) => either.getOrElse(fallback))),
+			createTask((signal) =>
+				thunk(signal).then(
+					unlessInterrupted(signal, (either) => either.getOrElse(fallback)),
+				),
+			),
 
 		orElse: <EE>(
 			fallback: (leftVal: E) => TaskEither<EE, T>,
 		): TaskEither<E | EE, T> =>
-			createTaskEither<E | EE, T>(() =>
-				thunk().then((either) =>
-					either.match<Promise<Either<E | EE, T>>>(
-						(leftVal) => fallback(leftVal).run() as Promise<Either<E | EE, T>>,
-						() => Promise.resolve(either as unknown as Either<E | EE, T>),
+			createTaskEither<E | EE, T>((signal) =>
+				thunk(signal).then(
+					unlessInterrupted(signal, (either) =>
+						either.match<Promise<Either<E | EE, T>>>(
+							(leftVal) =>
+								fallback(leftVal).run(signal) as Promise<Either<E | EE, T>>,
+							() => Promise.resolve(either as unknown as Either<E | EE, T>),
+						),
 					),
 				),
 			),
 
-		run: () => thunk(),
+		bindTo: <K extends string>(key: K) =>
+			te.map((value) => ({ [key]: value }) as { readonly [P in K]: T }),
+
+		bind: <K extends string, EE, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => TaskEither<EE, U>,
+		) =>
+			te.flatMap((scope) =>
+				mapper(scope).map((value) => extend<T, K, U>(scope, key, value)),
+			),
+
+		let: <K extends string, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => U,
+		) => te.map((scope) => extend<T, K, U>(scope, key, mapper(scope))),
+
+		apS: <K extends string, EE, U>(
+			key: Exclude<K, keyof T>,
+			other: TaskEither<EE, U>,
+		) =>
+			te.zip(other).map(([scope, value]) => extend<T, K, U>(scope, key, value)),
+
+		fork: () =>
+			createTaskEither((signal) =>
+				Promise.resolve(
+					right(createTaskEitherFiber(startFiber(signal, te.run))),
+				),
+			),
+
+		timeout: (ms) =>
+			te.timeoutTo(
+				ms,
+				createTaskEither(() =>
+					Promise.resolve(left<TimeoutError, T>(new TimeoutError(ms))),
+				),
+			),
+
+		timeoutTo: <EE, U>(
+			ms: number,
+			fallback: TaskEither<EE, U>,
+		): TaskEither<E | EE, T | U> => {
+			const limit = timeoutOf(ms);
+			return createTaskEither<E | EE, T | U>((signal) =>
+				runWithTimeout(
+					signal,
+					limit,
+					(scope) => te.run(scope) as Promise<Either<E | EE, T | U>>,
+					() => fallback.run(signal) as Promise<Either<E | EE, T | U>>,
+				),
+			);
+		},
+
+		run: (signal) => runInterruptible(signal, () => thunk(signal)),
+
+		[Symbol.iterator]: function* () {
+			return (yield te) as T;
+		},
 	};
 
+	taskEithers.add(te);
 	return te;
 }
@@ -0,0 +1,4 @@
+export * from "./taskOption/constructors.js";
+export * from "./taskOption/helpers.js";
+export type { TaskOptionValue } from "./taskOption/model.js";
+export type { TaskOption } from "./taskOption/taskOption.js";
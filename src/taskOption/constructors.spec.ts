@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from "vitest";
+import { none, some } from "../option/constructors.js";
+import { task } from "../task/constructors.js";
+import { taskEither, taskLeft } from "../taskEither/constructors.js";
+import {
+	Do,
+	fromNullable,
+	fromOption,
+	fromTask,
+	fromTaskEither,
+	taskNone,
+	taskSome,
+	tryCatch,
+} from "./constructors.js";
+
+describe("taskOption constructors", () => {
+	describe("taskSome", () => {
+		it("should resolve to Some with the given value", async () => {
+			expect((await taskSome(42).run()).toNullable()).toBe(42);
+		});
+	});
+
+	describe("taskNone", () => {
+		it("should resolve to None", async () => {
+			expect((await taskNone().run()).isNone()).toBe(true);
+		});
+	});
+
+	describe("fromOption", () => {
+		it("should lift an Option", async () => {
+			expect((await fromOption(some(1)).run()).toNullable()).toBe(1);
+			expect((await fromOption(none()).run()).isNone()).toBe(true);
+		});
+	});
+
+	describe("fromNullable", () => {
+		it("should resolve to Some for a present value", async () => {
+			const result = fromNullable(() => Promise.resolve("Alice"));
+			expect((await result.run()).toNullable()).toBe("Alice");
+		});
+
+		it("should resolve to None for null and undefined", async () => {
+			expect(
+				(await fromNullable(() => Promise.resolve(null)).run()).isNone(),
+			).toBe(true);
+			expect(
+				(await fromNullable(() => Promise.resolve(undefined)).run()).isNone(),
+			).toBe(true);
+		});
+
+		it("should keep falsy values that are not null or undefined", async () => {
+			expect(
+				(await fromNullable(() => Promise.resolve(0)).run()).toNullable(),
+			).toBe(0);
+		});
+
+		it("should call the thunk only when run() is called", async () => {
+			const thunk = vi.fn(() => Promise.resolve(1));
+			const result = fromNullable(thunk);
+			expect(thunk).not.toHaveBeenCalled();
+			await result.run();
+			expect(thunk).toHaveBeenCalledOnce();
+		});
+	});
+
+	describe("fromTask", () => {
+		it("should lift a Task into Some", async () => {
+			expect((await fromTask(task(5)).run()).toNullable()).toBe(5);
+		});
+	});
+
+	describe("fromTaskEither", () => {
+		it("should resolve to Some for Right and None for Left", async () => {
+			expect((await fromTaskEither(taskEither(5)).run()).toNullable()).toBe(5);
+			expect((await fromTaskEither(taskLeft("err")).run()).isNone()).toBe(true);
+		});
+	});
+
+	describe("tryCatch", () => {
+		it("should resolve to Some when the promise resolves", async () => {
+			expect(
+				(await tryCatch(() => Promise.resolve(1)).run()).toNullable(),
+			).toBe(1);
+		});
+
+		it("should resolve to None when the promise rejects", async () => {
+			expect(
+				(
+					await tryCatch(() => Promise.reject(new Error("boom"))).run()
+				).isNone(),
+			).toBe(true);
+		});
+	});
+
+	describe("Do", () => {
+		it("should resolve to Some with an empty record", async () => {
+			expect((await Do.run()).toNullable()).toEqual({});
+		});
+	});
+});
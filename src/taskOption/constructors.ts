@@ -0,0 +1,143 @@
+import {
+	none,
+	fromNullable as optionFromNullable,
+	some,
+} from "../option/constructors.js";
+import type { Option } from "../option/option.js";
+import type { Task } from "../task/task.js";
+import type { TaskEither } from "../taskEither/taskEither.js";
+import { createTaskOption, type TaskOption } from "./taskOption.js";
+
+/**
+ * Creates a TaskOption that resolves to Some with the provided value.
+ *
+ * @typeParam T - The type of the value
+ * @param value - The value to wrap
+ * @returns TaskOption that resolves to Some(value)
+ *
+ * @example
+ * ```typescript
+ * await taskSome(42).run(); // Some(42)
+ * ```
+ */
+export function taskSome<T>(value: T): TaskOption<T> {
+	return createTaskOption(() => Promise.resolve(some(value)));
+}
+
+/**
+ * Creates a TaskOption that resolves to None.
+ *
+ * @typeParam T - The type of the value that is absent
+ * @returns TaskOption that resolves to None
+ *
+ * @example
+ * ```typescript
+ * await taskNone<number>().run(); // None
+ * ```
+ */
+export function taskNone<T>(): TaskOption<T> {
+	return createTaskOption(() => Promise.resolve(none<T>()));
+}
+
+/**
+ * Lifts an Option into a TaskOption.
+ *
+ * @param opt - The Option to lift
+ * @returns TaskOption resolving to the given Option
+ *
+ * @example
+ * ```typescript
+ * fromOption(some(1)) // TaskOption<number>
+ * ```
+ */
+export function fromOption<T>(opt: Option<T>): TaskOption<T> {
+	return createTaskOption(() => Promise.resolve(opt));
+}
+
+/**
+ * Creates a TaskOption from a lazy thunk returning a Promise of a nullable value.
+ * Resolves to None if the value is `null` or `undefined`, otherwise Some.
+ * The thunk is not called until `run()` is invoked.
+ *
+ * @typeParam T - The type of the non-nullable value
+ * @param thunk - A function that returns a Promise of a possibly missing value
+ * @returns TaskOption resolving to Some with the value, or None if it is missing
+ *
+ * @example
+ * ```typescript
+ * const findUser = (id: string) => fromNullable(() => repo.findById(id)); // TaskOption<User>
+ * ```
+ */
+export function fromNullable<T>(
+	thunk: () => Promise<T | null | undefined>,
+): TaskOption<T> {
+	return createTaskOption(() =>
+		thunk().then((value) => optionFromNullable<T>(value)),
+	);
+}
+
+/**
+ * Lifts a Task into a TaskOption that always resolves to Some.
+ *
+ * @param t - The Task to lift
+ * @returns TaskOption resolving to Some with the Task's value
+ *
+ * @example
+ * ```typescript
+ * fromTask(task(5)) // TaskOption<number> - always Some(5)
+ * ```
+ */
+export function fromTask<T>(t: Task<T>): TaskOption<T> {
+	return createTaskOption(() => t.run().then((value) => some(value)));
+}
+
+/**
+ * Converts a TaskEither into a TaskOption, discarding the Left value.
+ *
+ * @param te - The TaskEither to convert
+ * @returns TaskOption resolving to Some with the Right value, or None if Left
+ *
+ * @example
+ * ```typescript
+ * fromTaskEither(fetchUser(id)) // TaskOption<User>
+ * ```
+ */
+export function fromTaskEither<E, T>(te: TaskEither<E, T>): TaskOption<T> {
+	return createTaskOption(() => te.run().then((either) => either.toOption()));
+}
+
+/**
+ * Safely wraps a Promise-returning thunk that may reject.
+ * Rejections are caught and converted to None.
+ *
+ * @typeParam T - The type of the resolved value
+ * @param thunk - A function that returns a Promise
+ * @returns TaskOption resolving to Some with the value, or None on rejection
+ *
+ * @example
+ * ```typescript
+ * tryCatch(() => fetch("/api/optional").then(r => r.json())) // TaskOption<unknown>
+ * ```
+ */
+export function tryCatch<T>(thunk: () => Promise<T>): TaskOption<T> {
+	return createTaskOption(() =>
+		thunk().then(
+			(value) => some(value),
+			() => none<T>(),
+		),
+	);
+}
+
+/**
+ * A TaskOption resolving to Some with an empty record - the starting point of do-notation.
+ * Use `bind`, `let` and `apS` to add named values to the record step by step.
+ *
+ * @example
+ * ```typescript
+ * const t = Do.bind("user", () => findUser(id))
+ *   .bind("manager", ({ user }) => findUser(user.managerId))
+ *   .let("names", ({ user, manager }) => [user.name, manager.name]);
+ * await t.run(); // Some({ user, manager, names }) or None
+ * ```
+ */
+export const Do: TaskOption<Readonly<Record<never, never>>> = taskSome({});
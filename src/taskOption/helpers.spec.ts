@@ -0,0 +1,162 @@
+import { describe, expect, it, vi } from "vitest";
+import { some } from "../option/constructors.js";
+import type { Option } from "../option/option.js";
+import { fromPromise, task } from "../task/constructors.js";
+import { traversableSpec } from "../testUtils/traversable.js";
+import { taskNone, taskSome } from "./constructors.js";
+import {
+	all,
+	gen,
+	mapN,
+	struct,
+	traverse,
+	traverseWithIndex,
+	zipAll,
+} from "./helpers.js";
+import type { TaskOption } from "./taskOption.js";
+
+const asTag = async <T>(to: TaskOption<T>) =>
+	(await to.run()).match<Record<string, unknown>>(
+		() => ({ tag: "NONE" }),
+		(some) => ({ tag: "SOME", some }),
+	);
+
+describe("taskOption helpers", () => {
+	describe("all", () => {
+		it("should collect all values", async () => {
+			expect(await asTag(all([taskSome(1), taskSome(2)]))).toEqual({
+				tag: "SOME",
+				some: [1, 2],
+			});
+		});
+
+		it("should resolve to None if any is None", async () => {
+			expect(await asTag(all([taskSome(1), taskNone<number>()]))).toEqual({
+				tag: "NONE",
+			});
+		});
+	});
+
+	describe("mapN", () => {
+		it("should only accept TaskOptions", () => {
+			// @ts-expect-error numbers are not TaskOptions
+			const invalid = mapN([1, 2], (a, b) => [a, b]);
+			expect(() => invalid.run()).toThrow(TypeError);
+		});
+
+		it("should map all values", async () => {
+			const result: TaskOption<string> = mapN(
+				[taskSome(1), taskSome("two")],
+				(a, b) => `${a} ${b}`,
+			);
+			expect(await asTag(result)).toEqual({ tag: "SOME", some: "1 two" });
+		});
+	});
+
+	describe("zipAll", () => {
+		it("should resolve with a tuple of all values", async () => {
+			expect(await asTag(zipAll(taskSome("Alice"), taskSome(30)))).toEqual({
+				tag: "SOME",
+				some: ["Alice", 30],
+			});
+		});
+	});
+
+	describe("struct", () => {
+		it("should only accept records of TaskOptions", () => {
+			// @ts-expect-error plain values are not TaskOptions
+			const invalid = struct({ name: "Alice", age: 30 });
+			expect(() => invalid.run()).toThrow(TypeError);
+		});
+
+		it("should resolve with a record of all values", async () => {
+			expect(
+				await asTag(struct({ name: taskSome("Alice"), age: taskSome(30) })),
+			).toEqual({ tag: "SOME", some: { name: "Alice", age: 30 } });
+		});
+	});
+
+	describe("gen", () => {
+		it("should unwrap TaskOption and Task values", async () => {
+			const result = gen(async function* () {
+				const a = yield* taskSome(1);
+				const b = yield* task(2);
+				return a + b;
+			});
+			expect(await asTag(result)).toEqual({ tag: "SOME", some: 3 });
+		});
+
+		it("should short-circuit on the first None", async () => {
+			const after = vi.fn();
+			const result = gen(async function* () {
+				yield* taskNone<number>();
+				after();
+				return 1;
+			});
+			const opt: Option<number> = await result.run();
+			expect(opt.isNone()).toBe(true);
+			expect(after).not.toHaveBeenCalled();
+		});
+
+		it("should run the generator's finally blocks on the first None", async () => {
+			const cleanup = vi.fn();
+			const result = gen(async function* () {
+				try {
+					return yield* taskNone<number>();
+				} finally {
+					cleanup();
+				}
+			});
+			expect(await asTag(result)).toEqual({ tag: "NONE" });
+			expect(cleanup).toHaveBeenCalledOnce();
+		});
+
+		it("should run the generator's finally blocks when a yielded task rejects", async () => {
+			const cleanup = vi.fn();
+			const error = new Error("boom");
+			const result = gen(async function* () {
+				try {
+					return yield* fromPromise<number>(() => Promise.reject(error));
+				} finally {
+					cleanup();
+				}
+			});
+			await expect(result.run()).rejects.toBe(error);
+			expect(cleanup).toHaveBeenCalledOnce();
+		});
+
+		it("should only accept taskOptions and tasks from yield*", async () => {
+			// @ts-expect-error an Option is not a TaskOption
+			const result = gen(async function* () {
+				return yield* some(1);
+			});
+			await expect(result.run()).rejects.toBeInstanceOf(TypeError);
+		});
+	});
+
+	describe("traverseWithIndex", () => {
+		it("should pass the index to the mapper", async () => {
+			expect(
+				await asTag(
+					traverseWithIndex(["a", "b"], (item, i) => taskSome(`${i}${item}`)),
+				),
+			).toEqual({ tag: "SOME", some: ["0a", "1b"] });
+		});
+	});
+
+	describe(
+		"traversable",
+		traversableSpec<TaskOption<unknown>, TaskOption<unknown[]>>({
+			of: (value) => taskSome(value),
+			fail: () => taskNone(),
+			sequence: all,
+			traverse,
+			traverseWithIndex,
+			asTag: async (to) =>
+				(await to.run()).match<Record<string, unknown>>(
+					() => ({ tag: "NONE" }),
+					(some) => ({ tag: "SOME", some }),
+				),
+		}),
+	);
+});
@@ -0,0 +1,202 @@
+import { fromEntries } from "../internal/record.js";
+import { none, some } from "../option/constructors.js";
+import { sequence } from "../option/helpers.js";
+import type { Option } from "../option/option.js";
+import type { Task } from "../task/task.js";
+import { fromTask } from "./constructors.js";
+import {
+	type AnyTaskOption,
+	createTaskOption,
+	isTaskOption,
+	type TaskOption,
+} from "./taskOption.js";
+
+/**
+ * Runs all TaskOptions concurrently and collects their values into an array.
+ * Resolves to None if any TaskOption resolves to None.
+ *
+ * @param taskOptions - Array of TaskOptions to run concurrently
+ * @returns TaskOption that resolves with an array of all values, or None
+ *
+ * @example
+ * ```typescript
+ * await all([taskSome(1), taskSome(2)]).run() // Some([1, 2])
+ * await all([taskSome(1), taskNone()]).run()  // None
+ * ```
+ */
+export function all<T>(taskOptions: TaskOption<T>[]): TaskOption<T[]> {
+	return createTaskOption(() =>
+		Promise.all(taskOptions.map((to) => to.run())).then(sequence),
+	);
+}
+
+/**
+ * Maps each item of an array to a TaskOption and runs them all concurrently,
+ * collecting the values into an array that keeps the order of the input items.
+ * Resolves to None if any mapped TaskOption resolves to None.
+ *
+ * @param items - Array of items to map
+ * @param mapper - Function that maps an item to a TaskOption
+ * @returns TaskOption that resolves with an array of all values, or None
+ *
+ * @example
+ * ```typescript
+ * await traverse(["user-1", "user-2"], findUser).run() // Some([User, User]) or None
+ * ```
+ */
+export function traverse<A, B>(
+	items: readonly A[],
+	mapper: (item: A) => TaskOption<B>,
+): TaskOption<B[]> {
+	return traverseWithIndex(items, (item) => mapper(item));
+}
+
+/**
+ * Like {@link traverse}, but the mapper also receives the index of each item.
+ *
+ * @param items - Array of items to map
+ * @param mapper - Function that maps an item and its index to a TaskOption
+ * @returns TaskOption that resolves with an array of all values, or None
+ *
+ * @example
+ * ```typescript
+ * await traverseWithIndex(ids, (id, i) => findRow(id, i)).run()
+ * ```
+ */
+export function traverseWithIndex<A, B>(
+	items: readonly A[],
+	mapper: (item: A, index: number) => TaskOption<B>,
+): TaskOption<B[]> {
+	return createTaskOption(() => all(items.map(mapper)).run());
+}
+
+type ValuesOf<TaskOptions extends readonly unknown[]> = {
+	[K in keyof TaskOptions]: TaskOptions[K] extends TaskOption<infer A>
+		? A
+		: never;
+};
+
+/**
+ * Runs any number of TaskOptions concurrently and combines their values using a mapping function.
+ * Resolves to None if any TaskOption resolves to None.
+ * The mapper receives the values in the same order, with their types inferred from the tuple.
+ *
+ * @param taskOptions - Tuple of TaskOptions to run concurrently
+ * @param mapper - Function that receives every value and combines them
+ * @returns TaskOption containing the mapped result, or None
+ *
+ * @example
+ * ```typescript
+ * await mapN([taskSome(1), taskSome("two")], (a, b) => `${a} ${b}`).run() // Some("1 two")
+ * ```
+ */
+export function mapN<const TaskOptions extends readonly AnyTaskOption[], U>(
+	taskOptions: TaskOptions,
+	mapper: (...values: ValuesOf<TaskOptions>) => U,
+): TaskOption<U> {
+	return all(taskOptions as unknown as TaskOption<unknown>[]).map((values) =>
+		mapper(...(values as unknown as ValuesOf<TaskOptions>)),
+	);
+}
+
+/**
+ * Runs any number of TaskOptions concurrently and collects their values into a tuple.
+ * Resolves to None if any TaskOption resolves to None.
+ *
+ * @param taskOptions - TaskOptions to run concurrently
+ * @returns TaskOption containing a tuple of all values, or None
+ *
+ * @example
+ * ```typescript
+ * await zipAll(taskSome("Alice"), taskSome(30)).run() // Some(["Alice", 30])
+ * ```
+ */
+export function zipAll<const TaskOptions extends readonly AnyTaskOption[]>(
+	...taskOptions: TaskOptions
+): TaskOption<ValuesOf<TaskOptions>> {
+	return mapN(taskOptions, (...values) => values);
+}
+
+type StructOf<R> = {
+	[K in keyof R]: R[K] extends TaskOption<infer A> ? A : never;
+};
+
+/**
+ * Runs a record of TaskOptions concurrently and collects their values into a record,
+ * preserving the keys and their value types.
+ * Resolves to None if any TaskOption resolves to None.
+ *
+ * @param record - Record whose values are TaskOptions
+ * @returns TaskOption containing a record of all values, or None
+ *
+ * @example
+ * ```typescript
+ * await struct({ user: findUser(id), settings: findSettings(id) }).run()
+ * // Some({ user: User; settings: Settings }) or None
+ * ```
+ */
+export function struct<R extends Readonly<Record<string, AnyTaskOption>>>(
+	record: R,
+): TaskOption<StructOf<R>> {
+	const keys = Object.keys(record);
+	return all(keys.map((key) => record[key] as TaskOption<unknown>)).map(
+		(values) => fromEntries<StructOf<R>>(keys, values),
+	);
+}
+
+/**
+ * What `gen` accepts from `yield*`: a TaskOption or a Task, of any value type.
+ */
+type Yieldable = AnyTaskOption | Task<unknown>;
+
+/**
+ * Runs an async generator-based computation over TaskOptions (do-notation).
+ * Each `yield*` runs a TaskOption (or a plain Task) and resumes the generator with its value.
+ * The computation short-circuits on the first None, exactly like chaining with `flatMap`.
+ * On a None or a rejection, the generator's finally blocks run before the result is passed on.
+ * Nothing runs until `run()` is called, and every `run()` restarts the generator.
+ *
+ * @param body - Async generator function that yields TaskOptions or Tasks and returns the final value
+ * @returns TaskOption that resolves with the returned value, or None
+ *
+ * @example
+ * ```typescript
+ * const managerName = gen(async function* () {
+ *   const user = yield* findUser(id);
+ *   const manager = yield* findUser(user.managerId);
+ *   return manager.name;
+ * }); // TaskOption<string>
+ * ```
+ */
+export function gen<T>(
+	body: () => AsyncGenerator<Yieldable, T, unknown>,
+): TaskOption<T> {
+	return createTaskOption(() => {
+		const iterator = body();
+
+		// lets the generator's finally blocks run
+		const close = () => iterator.return(undefined as T);
+
+		const step = (result: IteratorResult<Yieldable, T>): Promise<Option<T>> =>
+			result.done
+				? Promise.resolve(some(result.value))
+				: toTaskOption(result.value)
+						.run()
+						.then(
+							(opt) =>
+								opt.match(
+									() => close().then(() => none<T>()),
+									(value) => iterator.next(value).then(step),
+								),
+							(err) => close().then(() => Promise.reject(err)),
+						);
+
+		return iterator.next().then(step);
+	});
+}
+
+function toTaskOption(effect: Yieldable): TaskOption<unknown> {
+	return isTaskOption(effect)
+		? (effect as TaskOption<unknown>)
+		: fromTask(effect as Task<unknown>);
+}
@@ -0,0 +1,3 @@
+import type { Option } from "../option/option.js";
+
+export type TaskOptionValue<T> = () => Promise<Option<T>>;
@@ -0,0 +1,270 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Option } from "../option/option.js";
+import { applicativeLawsSpec } from "../testUtils/applicativeLaws.js";
+import { functorLawsSpec } from "../testUtils/functorLaws.js";
+import { monadLawsSpec } from "../testUtils/monadLaws.js";
+import { Do, taskNone, taskSome } from "./constructors.js";
+import type { TaskOption } from "./taskOption.js";
+
+type OptionTag<T> = { tag: "SOME"; some: T } | { tag: "NONE" };
+
+const toTag = <T>(opt: Option<T>): OptionTag<T> =>
+	opt.match<OptionTag<T>>(
+		() => ({ tag: "NONE" }),
+		(some) => ({ tag: "SOME", some }),
+	);
+
+const asTag = async <T>(to: TaskOption<T>) => toTag(await to.run());
+
+describe("taskOption", () => {
+	describe("filter", () => {
+		it("should keep the value when the predicate passes", async () => {
+			expect(await asTag(taskSome(5).filter((x) => x > 3))).toEqual({
+				tag: "SOME",
+				some: 5,
+			});
+		});
+
+		it("should resolve to None when the predicate fails", async () => {
+			expect(await asTag(taskSome(2).filter((x) => x > 3))).toEqual({
+				tag: "NONE",
+			});
+		});
+
+		it("should narrow the value type when given a type guard", async () => {
+			const result: TaskOption<string> = taskSome<string | number>("a").filter(
+				(x): x is string => typeof x === "string",
+			);
+			expect(await asTag(result)).toEqual({ tag: "SOME", some: "a" });
+		});
+	});
+
+	describe("map", () => {
+		it("should transform the value", async () => {
+			expect(await asTag(taskSome(5).map((x) => x * 2))).toEqual({
+				tag: "SOME",
+				some: 10,
+			});
+		});
+
+		it("should not call the mapper on None", async () => {
+			const mapper = vi.fn();
+			expect(await asTag(taskNone<number>().map(mapper))).toEqual({
+				tag: "NONE",
+			});
+			expect(mapper).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("ap", () => {
+		it("should apply a function to a value", async () => {
+			const add = (x: number) => (y: number) => x + y;
+			expect(await asTag(taskSome(add(5)).ap(taskSome(3)))).toEqual({
+				tag: "SOME",
+				some: 8,
+			});
+		});
+
+		it("should resolve to None if the argument is None", async () => {
+			const add = (x: number) => (y: number) => x + y;
+			expect(await asTag(taskSome(add(5)).ap(taskNone<number>()))).toEqual({
+				tag: "NONE",
+			});
+		});
+	});
+
+	describe("zip", () => {
+		it("should combine two values into a tuple", async () => {
+			expect(await asTag(taskSome("Alice").zip(taskSome(30)))).toEqual({
+				tag: "SOME",
+				some: ["Alice", 30],
+			});
+		});
+
+		it("should resolve to None if either side is None", async () => {
+			expect(await asTag(taskSome("Alice").zip(taskNone()))).toEqual({
+				tag: "NONE",
+			});
+		});
+	});
+
+	describe("flatten", () => {
+		it("should remove one level of nesting", async () => {
+			expect(await asTag(taskSome(taskSome(42)).flatten())).toEqual({
+				tag: "SOME",
+				some: 42,
+			});
+			expect(await asTag(taskSome(taskNone<number>()).flatten())).toEqual({
+				tag: "NONE",
+			});
+		});
+	});
+
+	describe("flatMap", () => {
+		it("should chain taskOption-returning operations", async () => {
+			expect(await asTag(taskSome(10).flatMap((x) => taskSome(x * 2)))).toEqual(
+				{ tag: "SOME", some: 20 },
+			);
+		});
+
+		it("should short-circuit on None", async () => {
+			const mapper = vi.fn(() => taskSome(1));
+			expect(await asTag(taskNone<number>().flatMap(mapper))).toEqual({
+				tag: "NONE",
+			});
+			expect(mapper).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("orElse", () => {
+		it("should use the fallback on None", async () => {
+			expect(await asTag(taskNone<number>().orElse(() => taskSome(0)))).toEqual(
+				{ tag: "SOME", some: 0 },
+			);
+		});
+
+		it("should not call the fallback on Some", async () => {
+			const fallback = vi.fn(() => taskSome(0));
+			expect(await asTag(taskSome(42).orElse(fallback))).toEqual({
+				tag: "SOME",
+				some: 42,
+			});
+			expect(fallback).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("tap", () => {
+		it("should execute the side effect with the value", async () => {
+			const sideEffect = vi.fn();
+			await taskSome(42).tap(sideEffect).run();
+			expect(sideEffect).toHaveBeenCalledWith(42);
+		});
+
+		it("should not execute the side effect on None", async () => {
+			const sideEffect = vi.fn();
+			await taskNone().tap(sideEffect).run();
+			expect(sideEffect).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("tapNone", () => {
+		it("should execute the side effect on None only", async () => {
+			const sideEffect = vi.fn();
+			await taskSome(1).tapNone(sideEffect).run();
+			expect(sideEffect).not.toHaveBeenCalled();
+			await taskNone().tapNone(sideEffect).run();
+			expect(sideEffect).toHaveBeenCalledOnce();
+		});
+	});
+
+	describe("match", () => {
+		it("should resolve with the result of the matching branch", async () => {
+			expect(
+				await taskSome(5)
+					.match(
+						() => 0,
+						(x) => x * 2,
+					)
+					.run(),
+			).toBe(10);
+			expect(
+				await taskNone<number>()
+					.match(
+						() => 0,
+						(x) => x * 2,
+					)
+					.run(),
+			).toBe(0);
+		});
+	});
+
+	describe("getOrElse", () => {
+		it("should resolve with the value or the fallback", async () => {
+			expect(
+				await taskSome(42)
+					.getOrElse(() => 0)
+					.run(),
+			).toBe(42);
+			expect(
+				await taskNone<number>()
+					.getOrElse(() => 0)
+					.run(),
+			).toBe(0);
+		});
+	});
+
+	describe("toTaskEither", () => {
+		it("should resolve to Right for Some", async () => {
+			expect(
+				(
+					await taskSome(42)
+						.toTaskEither(() => "missing")
+						.run()
+				).toResult(),
+			).toEqual({ ok: true, value: 42 });
+		});
+
+		it("should resolve to Left for None", async () => {
+			expect(
+				(
+					await taskNone<number>()
+						.toTaskEither(() => "missing")
+						.run()
+				).toResult(),
+			).toEqual({ ok: false, error: "missing" });
+		});
+	});
+
+	describe("do-notation", () => {
+		it("should accumulate values with bind, let and apS", async () => {
+			const result = Do.bind("a", () => taskSome(1))
+				.apS("b", taskSome(2))
+				.let("sum", ({ a, b }) => a + b);
+			expect(await asTag(result)).toEqual({
+				tag: "SOME",
+				some: { a: 1, b: 2, sum: 3 },
+			});
+		});
+
+		it("should short-circuit on None", async () => {
+			const next = vi.fn(() => taskSome(2));
+			const result = Do.bind("a", () => taskNone<number>()).bind("b", next);
+			expect(await asTag(result)).toEqual({ tag: "NONE" });
+			expect(next).not.toHaveBeenCalled();
+		});
+
+		it("should bind a value under a key with bindTo", async () => {
+			expect(await asTag(taskSome(5).bindTo("x"))).toEqual({
+				tag: "SOME",
+				some: { x: 5 },
+			});
+		});
+	});
+
+	describe(
+		"functor laws",
+		functorLawsSpec<TaskOption<number>>({
+			of: (testValue) => taskSome(testValue),
+			map: (m, mapper) => m.map(mapper),
+			asTag,
+		}),
+	);
+
+	describe(
+		"applicative laws",
+		applicativeLawsSpec<TaskOption<unknown>>({
+			of: (value) => taskSome(value),
+			ap: (to, arg) => (to as TaskOption<(arg: unknown) => unknown>).ap(arg),
+			asTag,
+		}),
+	);
+
+	describe(
+		"monad laws",
+		monadLawsSpec<TaskOption<number>>({
+			of: (testValue) => taskSome(testValue),
+			flatMap: (m, mapper) => m.flatMap(mapper),
+			asTag,
+		}),
+	);
+});
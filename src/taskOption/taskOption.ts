@@ -0,0 +1,414 @@
+import { left, right } from "../either/constructors.js";
+import { extend } from "../internal/record.js";
+import { none } from "../option/constructors.js";
+import type { Option } from "../option/option.js";
+import { createTask, type Task } from "../task/task.js";
+import { createTaskEither, type TaskEither } from "../taskEither/taskEither.js";
+import type { TaskOptionValue } from "./model.js";
+
+export type TaskOption<T> = {
+	/**
+	 * Filters the TaskOption based on a predicate function.
+	 * When the predicate is a type guard, the value type is narrowed accordingly.
+	 *
+	 * @param predicate - Function that tests the value
+	 * @returns TaskOption resolving to the same Some if the predicate passes, otherwise None
+	 *
+	 * @example
+	 * ```typescript
+	 * taskSome(5).filter(x => x > 3).run() // Promise<Some(5)>
+	 * taskSome(2).filter(x => x > 3).run() // Promise<None>
+	 * ```
+	 */
+	filter: {
+		<U extends T>(refinement: (value: T) => value is U): TaskOption<U>;
+		(predicate: (value: T) => boolean): TaskOption<T>;
+	};
+
+	/**
+	 * Transforms the value using a mapping function.
+	 * If this TaskOption resolves to None, the mapper is not called.
+	 *
+	 * @typeParam U - The type of the transformed value
+	 * @param mapper - Function to transform the value
+	 * @returns New TaskOption with the transformed value, or None
+	 *
+	 * @example
+	 * ```typescript
+	 * taskSome(5).map(x => x * 2).run()       // Promise<Some(10)>
+	 * taskNone<number>().map(x => x * 2).run() // Promise<None>
+	 * ```
+	 */
+	map: <U>(mapper: (value: T) => U) => TaskOption<U>;
+
+	/**
+	 * Applies a function wrapped in a TaskOption to a value wrapped in a TaskOption.
+	 * Both TaskOptions are run concurrently.
+	 *
+	 * @typeParam A - The type of the argument value
+	 * @typeParam U - The type of the function's return value
+	 * @param arg - TaskOption containing the argument to apply the function to
+	 * @returns TaskOption containing the function result, or None if either is None
+	 *
+	 * @example
+	 * ```typescript
+	 * const add = (x: number) => (y: number) => x + y;
+	 * taskSome(add(5)).ap(taskSome(3)).run() // Promise<Some(8)>
+	 * taskSome(add(5)).ap(taskNone()).run()  // Promise<None>
+	 * ```
+	 */
+	ap: <A, U>(
+		this: TaskOption<(a: A) => U>,
+		arg: TaskOption<A>,
+	) => TaskOption<U>;
+
+	/**
+	 * Combines this TaskOption with another TaskOption into a tuple.
+	 * Both TaskOptions are run concurrently.
+	 *
+	 * @typeParam A - The type of the value in the other TaskOption
+	 * @param other - The TaskOption to combine with this one
+	 * @returns TaskOption containing a tuple of both values, or None if either is None
+	 *
+	 * @example
+	 * ```typescript
+	 * taskSome("Alice").zip(taskSome(30)).run() // Promise<Some(["Alice", 30])>
+	 * taskSome("Alice").zip(taskNone()).run()   // Promise<None>
+	 * ```
+	 */
+	zip: <A>(other: TaskOption<A>) => TaskOption<readonly [T, A]>;
+
+	/**
+	 * Flattens a nested TaskOption structure by removing one level of nesting.
+	 *
+	 * @returns The inner TaskOption if this is Some, otherwise None
+	 *
+	 * @example
+	 * ```typescript
+	 * taskSome(taskSome(42)).flatten().run() // Promise<Some(42)>
+	 * taskSome(taskNone()).flatten().run()   // Promise<None>
+	 * ```
+	 */
+	flatten: <U>(this: TaskOption<TaskOption<U>>) => TaskOption<U>;
+
+	/**
+	 * Chains TaskOption-returning operations together (monadic bind).
+	 * If this TaskOption resolves to None, the mapper is not called.
+	 *
+	 * @typeParam U - The type of the value in the TaskOption returned by the mapper
+	 * @param mapper - Function that takes the value and returns a TaskOption
+	 * @returns The TaskOption returned by mapper if this is Some, otherwise None
+	 *
+	 * @example
+	 * ```typescript
+	 * findUser(id).flatMap(user => findManager(user.managerId)) // TaskOption<User>
+	 * ```
+	 */
+	flatMap: <U>(mapper: (value: T) => TaskOption<U>) => TaskOption<U>;
+
+	/**
+	 * Returns this TaskOption if it resolves to Some, otherwise the result of the fallback function.
+	 * The fallback is only called when needed.
+	 *
+	 * @param fallback - Function that returns an alternative TaskOption
+	 * @returns This TaskOption if Some, otherwise the TaskOption returned by the fallback
+	 *
+	 * @example
+	 * ```typescript
+	 * findInCache(id).orElse(() => findInDb(id)) // TaskOption<User>
+	 * ```
+	 */
+	orElse: (fallback: () => TaskOption<T>) => TaskOption<T>;
+
+	/**
+	 * Performs a side effect with the value, returning a TaskOption resolving to the same Option.
+	 * If this TaskOption resolves to None, the side effect is not executed.
+	 *
+	 * @param sideEffect - Function to execute with the value (return value is ignored)
+	 * @returns TaskOption resolving to the same Option
+	 *
+	 * @example
+	 * ```typescript
+	 * findUser(id).tap(user => console.log(user.name))
+	 * ```
+	 */
+	tap: (sideEffect: (value: T) => unknown) => TaskOption<T>;
+
+	/**
+	 * Performs a side effect when the TaskOption resolves to None, returning a TaskOption resolving to the same Option.
+	 *
+	 * @param sideEffect - Function to execute if None (return value is ignored)
+	 * @returns TaskOption resolving to the same Option
+	 *
+	 * @example
+	 * ```typescript
+	 * findUser(id).tapNone(() => console.warn(`User ${id} not found`))
+	 * ```
+	 */
+	tapNone: (sideEffect: () => unknown) => TaskOption<T>;
+
+	/**
+	 * Pattern matches on the resolved Option, executing different functions based on its state.
+	 * Returns the result wrapped in a Task.
+	 *
+	 * @typeParam U - The return type of both matcher functions
+	 * @param onNone - Function to execute if the resolved Option is None
+	 * @param onSome - Function to execute if the resolved Option is Some
+	 * @returns Task that resolves with the result of the executed function
+	 *
+	 * @example
+	 * ```typescript
+	 * await findUser(id).match(() => "Guest", user => user.name).run() // "Alice" or "Guest"
+	 * ```
+	 */
+	match: <U>(onNone: () => U, onSome: (value: T) => U) => Task<U>;
+
+	/**
+	 * Extracts the value, or returns a fallback value if None.
+	 * Returns the result wrapped in a Task.
+	 *
+	 * @param fallback - Function that returns a default value of type T
+	 * @returns Task that resolves with the value or the fallback
+	 *
+	 * @example
+	 * ```typescript
+	 * await taskSome(42).getOrElse(() => 0).run()        // 42
+	 * await taskNone<number>().getOrElse(() => 0).run()  // 0
+	 * ```
+	 */
+	getOrElse: (fallback: () => T) => Task<T>;
+
+	/**
+	 * Converts the TaskOption to a TaskEither, using the provided function to create the Left value for None.
+	 *
+	 * @typeParam E - The type of the error
+	 * @param onNone - Function that returns the error value if None
+	 * @returns TaskEither resolving to Right with the value if Some, otherwise Left with the error
+	 *
+	 * @example
+	 * ```typescript
+	 * findUser(id).toTaskEither(() => new NotFound(id)) // TaskEither<NotFound, User>
+	 * ```
+	 */
+	toTaskEither: <E>(onNone: () => E) => TaskEither<E, T>;
+
+	/**
+	 * Wraps the value in a record under the given key.
+	 * This is usually the first step of do-notation when starting from an existing TaskOption.
+	 *
+	 * @param key - The key to store the value under
+	 * @returns TaskOption containing a record with the value under `key`, or None
+	 *
+	 * @example
+	 * ```typescript
+	 * taskSome(5).bindTo("x").run() // Promise<Some({ x: 5 })>
+	 * ```
+	 */
+	bindTo: <K extends string>(key: K) => TaskOption<{ readonly [P in K]: T }>;
+
+	/**
+	 * Extends the record with the value of another TaskOption computed from it.
+	 * The new TaskOption runs after this one and short-circuits on None, like {@link flatMap}.
+	 *
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns a TaskOption
+	 * @returns TaskOption containing the extended record, or None
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.bind("user", () => findUser(id))
+	 *   .bind("manager", ({ user }) => findUser(user.managerId))
+	 * ```
+	 */
+	bind: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => TaskOption<U>,
+	) => TaskOption<T & { readonly [P in K]: U }>;
+
+	/**
+	 * Extends the record with a plain value computed from it.
+	 *
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns a value
+	 * @returns TaskOption containing the extended record, or None
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.bind("user", () => findUser(id))
+	 *   .let("name", ({ user }) => user.name)
+	 * ```
+	 */
+	let: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => U,
+	) => TaskOption<T & { readonly [P in K]: U }>;
+
+	/**
+	 * Extends the record with the value of an independent TaskOption.
+	 * Both TaskOptions are run concurrently, like {@link ap}.
+	 *
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param other - The TaskOption whose value is added to the record
+	 * @returns TaskOption containing the extended record, or None
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.apS("user", findUser(id))
+	 *   .apS("settings", findSettings(id)) // looked up concurrently
+	 * ```
+	 */
+	apS: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		other: TaskOption<U>,
+	) => TaskOption<T & { readonly [P in K]: U }>;
+
+	/**
+	 * Executes the TaskOption and returns the resulting Promise.
+	 *
+	 * @returns A Promise that resolves with the Option value
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await taskSome(42).run(); // Option<number>
+	 * ```
+	 */
+	run: () => Promise<Option<T>>;
+
+	/**
+	 * Makes the TaskOption iterable so it can be unwrapped with `yield*` inside an async generator
+	 * passed to {@link gen}. Yields this TaskOption once and resumes with its value.
+	 *
+	 * @returns Generator that yields this TaskOption and returns its value
+	 *
+	 * @example
+	 * ```typescript
+	 * gen(async function* () {
+	 *   const x = yield* taskSome(5);
+	 *   return x * 2;
+	 * }).run() // Promise<Some(10)>
+	 * ```
+	 */
+	[Symbol.iterator]: () => Generator<TaskOption<T>, T, unknown>;
+};
+
+/**
+ * A TaskOption of any value type, for helpers that take TaskOptions of different types.
+ * Spelled out structurally because TaskOption is invariant in its value type.
+ */
+export type AnyTaskOption = {
+	readonly run: () => Promise<unknown>;
+	readonly tapNone: (sideEffect: never) => unknown;
+};
+
+const taskOptions = new WeakSet<object>();
+
+/**
+ * Checks whether a value was created by {@link createTaskOption}, to tell TaskOptions apart from Tasks.
+ */
+export function isTaskOption(value: unknown): value is TaskOption<unknown> {
+	return typeof value === "object" && value !== null && taskOptions.has(value);
+}
+
+export function createTaskOption<T>(thunk: TaskOptionValue<T>): TaskOption<T> {
+	const to: TaskOption<T> = {
+		filter: ((predicate: (value: T) => boolean) =>
+			createTaskOption(() =>
+				thunk().then((opt) => opt.filter(predicate)),
+			)) as TaskOption<T>["filter"],
+
+		map: <U>(mapper: (value: T) => U): TaskOption<U> =>
+			createTaskOption(() => thunk().then((opt) => opt.map(mapper))),
+
+		ap: function <A, U>(
+			this: TaskOption<(a: A) => U>,
+			arg: TaskOption<A>,
+		): TaskOption<U> {
+			return createTaskOption(() =>
+				Promise.all([this.run(), arg.run()]).then(([optFn, optA]) =>
+					optFn.ap(optA),
+				),
+			);
+		},
+
+		zip: <A>(other: TaskOption<A>): TaskOption<readonly [T, A]> =>
+			to.map((value) => (a: A) => [value, a] as const).ap(other),
+
+		flatten: function <U>(this: TaskOption<TaskOption<U>>): TaskOption<U> {
+			// biome-ignore lint/complexity/noFlatMapIdentity: flatMap here is the custom TaskOption method, not Array.flatMap
+			return this.flatMap((value) => value);
+		},
+
+		flatMap: <U>(mapper: (value: T) => TaskOption<U>): TaskOption<U> =>
+			createTaskOption(() =>
+				thunk().then((opt) =>
+					opt.match(
+						() => Promise.resolve(none<U>()),
+						(value) => mapper(value).run(),
+					),
+				),
+			),
+
+		orElse: (fallback: () => TaskOption<T>): TaskOption<T> =>
+			createTaskOption(() =>
+				thunk().then((opt) =>
+					opt.match(
+						() => fallback().run(),
+						() => Promise.resolve(opt),
+					),
+				),
+			),
+
+		tap: (sideEffect: (value: T) => unknown): TaskOption<T> =>
+			createTaskOption(() => thunk().then((opt) => opt.tap(sideEffect))),
+
+		tapNone: (sideEffect: () => unknown): TaskOption<T> =>
+			createTaskOption(() => thunk().then((opt) => opt.tapNone(sideEffect))),
+
+		match: <U>(onNone: () => U, onSome: (value: T) => U): Task<U> =>
+			createTask(() => thunk().then((opt) => opt.match(onNone, onSome))),
+
+		getOrElse: (fallback: () => T): Task<T> =>
+			createTask(() => thunk().then((opt) => opt.getOrElse(fallback))),
+
+		toTaskEither: <E>(onNone: () => E): TaskEither<E, T> =>
+			createTaskEither(() =>
+				thunk().then((opt) =>
+					opt.match(
+						() => left<E, T>(onNone()),
+						(value) => right<T, E>(value),
+					),
+				),
+			),
+
+		bindTo: <K extends string>(key: K) =>
+			to.map((value) => ({ [key]: value }) as { readonly [P in K]: T }),
+
+		bind: <K extends string, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => TaskOption<U>,
+		) =>
+			to.flatMap((scope) =>
+				mapper(scope).map((value) => extend<T, K, U>(scope, key, value)),
+			),
+
+		let: <K extends string, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => U,
+		) => to.map((scope) => extend<T, K, U>(scope, key, mapper(scope))),
+
+		apS: <K extends string, U>(
+			key: Exclude<K, keyof T>,
+			other: TaskOption<U>,
+		) =>
+			to.zip(other).map(([scope, value]) => extend<T, K, U>(scope, key, value)),
+
+		run: () => thunk(),
+
+		[Symbol.iterator]: function* () {
+			return (yield to) as T;
+		},
+	};
+
+	taskOptions.add(to);
+	return to;
+}
@@ -0,0 +1,4 @@
+export * from "./taskValidation/constructors.js";
+export * from "./taskValidation/helpers.js";
+export type { TaskValidationValue } from "./taskValidation/model.js";
+export type { TaskValidation } from "./taskValidation/taskValidation.js";
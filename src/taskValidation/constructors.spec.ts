@@ -0,0 +1,126 @@
+import { describe, expect, it, vi } from "vitest";
+import { left, right } from "../either/constructors.js";
+import { task } from "../task/constructors.js";
+import { taskEither, taskLeft } from "../taskEither/constructors.js";
+import { invalid, valid } from "../validation/constructors.js";
+import {
+	Do,
+	fromEither,
+	fromTask,
+	fromTaskEither,
+	fromValidation,
+	taskInvalid,
+	taskValid,
+	tryCatch,
+} from "./constructors.js";
+
+describe("taskValidation constructors", () => {
+	describe("taskValid", () => {
+		it("should resolve to Valid with the given value", async () => {
+			expect((await taskValid(42).run()).toResult()).toEqual({
+				ok: true,
+				value: 42,
+			});
+		});
+	});
+
+	describe("taskInvalid", () => {
+		it("should resolve to Invalid with a single error", async () => {
+			expect((await taskInvalid("e").run()).toResult()).toEqual({
+				ok: false,
+				errors: ["e"],
+			});
+		});
+	});
+
+	describe("fromValidation", () => {
+		it("should lift a Validation", async () => {
+			expect((await fromValidation(valid(1)).run()).toResult()).toEqual({
+				ok: true,
+				value: 1,
+			});
+			expect((await fromValidation(invalid("e")).run()).toResult()).toEqual({
+				ok: false,
+				errors: ["e"],
+			});
+		});
+	});
+
+	describe("fromEither", () => {
+		it("should turn Left into Invalid with a single error", async () => {
+			expect((await fromEither(right(1)).run()).toResult()).toEqual({
+				ok: true,
+				value: 1,
+			});
+			expect((await fromEither(left("e")).run()).toResult()).toEqual({
+				ok: false,
+				errors: ["e"],
+			});
+		});
+	});
+
+	describe("fromTask", () => {
+		it("should lift a Task into Valid", async () => {
+			expect((await fromTask(task(5)).run()).toResult()).toEqual({
+				ok: true,
+				value: 5,
+			});
+		});
+	});
+
+	describe("fromTaskEither", () => {
+		it("should turn Right into Valid and Left into Invalid", async () => {
+			expect((await fromTaskEither(taskEither(5)).run()).toResult()).toEqual({
+				ok: true,
+				value: 5,
+			});
+			expect((await fromTaskEither(taskLeft("e")).run()).toResult()).toEqual({
+				ok: false,
+				errors: ["e"],
+			});
+		});
+
+		it("should accumulate the errors of TaskEithers that would short-circuit", async () => {
+			const result = fromTaskEither(taskLeft("Username taken")).zip(
+				fromTaskEither(taskLeft("Coupon expired")),
+			);
+			expect((await result.run()).toResult()).toEqual({
+				ok: false,
+				errors: ["Username taken", "Coupon expired"],
+			});
+		});
+	});
+
+	describe("tryCatch", () => {
+		it("should resolve to Valid when the promise resolves", async () => {
+			const result = tryCatch(() => Promise.resolve(1), String);
+			expect((await result.run()).toResult()).toEqual({ ok: true, value: 1 });
+		});
+
+		it("should resolve to Invalid when the promise rejects", async () => {
+			const result = tryCatch(
+				() => Promise.reject(new Error("boom")),
+				(err) => (err as Error).message,
+			);
+			expect((await result.run()).toResult()).toEqual({
+				ok: false,
+				errors: ["boom"],
+			});
+		});
+
+		it("should call the thunk only when run() is called", async () => {
+			const thunk = vi.fn(() => Promise.resolve(1));
+			const result = tryCatch(thunk, String);
+			expect(thunk).not.toHaveBeenCalled();
+			await result.run();
+			await result.run();
+			expect(thunk).toHaveBeenCalledTimes(2);
+		});
+	});
+
+	describe("Do", () => {
+		it("should resolve to Valid with an empty record", async () => {
+			expect((await Do.run()).toResult()).toEqual({ ok: true, value: {} });
+		});
+	});
+});
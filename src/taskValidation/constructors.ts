@@ -0,0 +1,147 @@
+import type { Either } from "../either/either.js";
+import type { Task } from "../task/task.js";
+import type { TaskEither } from "../taskEither/taskEither.js";
+import { invalid, valid } from "../validation/constructors.js";
+import type { Validation } from "../validation/validation.js";
+import { createTaskValidation, type TaskValidation } from "./taskValidation.js";
+
+/**
+ * Creates a TaskValidation that resolves to Valid with the provided value.
+ *
+ * @param value - The valid value to wrap
+ * @returns TaskValidation that resolves to Valid(value)
+ *
+ * @example
+ * ```typescript
+ * await taskValid(42).run(); // Valid(42)
+ * ```
+ */
+export function taskValid<T, E = never>(value: T): TaskValidation<E, T> {
+	return createTaskValidation(() => Promise.resolve(valid<T, E>(value)));
+}
+
+/**
+ * Creates a TaskValidation that resolves to Invalid with a single error.
+ *
+ * @param error - The error to wrap
+ * @returns TaskValidation that resolves to Invalid([error])
+ *
+ * @example
+ * ```typescript
+ * await taskInvalid("Username taken").run(); // Invalid(["Username taken"])
+ * ```
+ */
+export function taskInvalid<E, T = never>(error: E): TaskValidation<E, T> {
+	return createTaskValidation(() => Promise.resolve(invalid<E, T>(error)));
+}
+
+/**
+ * Lifts a Validation into a TaskValidation.
+ *
+ * @param validation - The Validation to lift
+ * @returns TaskValidation resolving to the given Validation
+ *
+ * @example
+ * ```typescript
+ * fromValidation(validName(form.name)) // TaskValidation<string, string>
+ * ```
+ */
+export function fromValidation<E, T>(
+	validation: Validation<E, T>,
+): TaskValidation<E, T> {
+	return createTaskValidation(() => Promise.resolve(validation));
+}
+
+/**
+ * Lifts an Either into a TaskValidation. Left becomes Invalid with a single error.
+ *
+ * @param either - The Either to lift
+ * @returns TaskValidation resolving to Valid with the Right value, or Invalid with the Left value
+ *
+ * @example
+ * ```typescript
+ * fromEither(parseAge(raw)) // TaskValidation<string, number>
+ * ```
+ */
+export function fromEither<E, T>(either: Either<E, T>): TaskValidation<E, T> {
+	return fromValidation(either.toValidation());
+}
+
+/**
+ * Lifts a Task into a TaskValidation that always resolves to Valid.
+ *
+ * @param t - The Task to lift
+ * @returns TaskValidation resolving to Valid with the Task's value
+ *
+ * @example
+ * ```typescript
+ * fromTask(task(5)) // TaskValidation<never, number> - always Valid(5)
+ * ```
+ */
+export function fromTask<T, E = never>(t: Task<T>): TaskValidation<E, T> {
+	return createTaskValidation(() =>
+		t.run().then((value) => valid<T, E>(value)),
+	);
+}
+
+/**
+ * Converts a TaskEither into a TaskValidation. Left becomes Invalid with a single error,
+ * so independent server checks written as TaskEither can accumulate their errors.
+ *
+ * @param te - The TaskEither to convert
+ * @returns TaskValidation resolving to Valid with the Right value, or Invalid with the Left value
+ *
+ * @example
+ * ```typescript
+ * fromTaskEither(checkUsername(name)).zip(fromTaskEither(checkCoupon(code)))
+ * // Invalid(["Username taken", "Coupon expired"]) when both fail
+ * ```
+ */
+export function fromTaskEither<E, T>(
+	te: TaskEither<E, T>,
+): TaskValidation<E, T> {
+	return createTaskValidation(() =>
+		te.run().then((either) => either.toValidation()),
+	);
+}
+
+/**
+ * Safely wraps a Promise-returning thunk that may reject.
+ * Rejections are caught and converted to Invalid using `onThrow`.
+ *
+ * @param thunk - A function that returns a Promise
+ * @param onThrow - Function that maps the rejection reason to an error
+ * @returns TaskValidation resolving to Valid with the value, or Invalid on rejection
+ *
+ * @example
+ * ```typescript
+ * tryCatch(() => api.checkCoupon(code), () => "Coupon service unavailable")
+ * ```
+ */
+export function tryCatch<T, E>(
+	thunk: () => Promise<T>,
+	onThrow: (err: unknown) => E,
+): TaskValidation<E, T> {
+	return createTaskValidation(() =>
+		thunk().then(
+			(value) => valid<T, E>(value),
+			(err) => invalid<E, T>(onThrow(err)),
+		),
+	);
+}
+
+/**
+ * A TaskValidation resolving to Valid with an empty record - the starting point of do-notation.
+ * Use `apS` to add independent checks whose errors accumulate, and `bind` for dependent ones.
+ *
+ * @example
+ * ```typescript
+ * const signup = Do.apS("username", usernameAvailable(form.username))
+ *   .apS("coupon", couponValid(form.coupon));
+ * await signup.run(); // Valid({ username, coupon }) or Invalid([...all errors])
+ * ```
+ */
+export const Do: TaskValidation<
+	never,
+	Readonly<Record<never, never>>
+> = taskValid({});
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { traversableSpec } from "../testUtils/traversable.js";
+import { taskInvalid, taskValid } from "./constructors.js";
+import {
+	all,
+	mapN,
+	struct,
+	traverse,
+	traverseWithIndex,
+	zipAll,
+} from "./helpers.js";
+import type { TaskValidation } from "./taskValidation.js";
+
+const asResult = async <E, T>(tv: TaskValidation<E, T>) =>
+	(await tv.run()).toResult();
+
+describe("taskValidation helpers", () => {
+	describe("all", () => {
+		it("should collect all values", async () => {
+			expect(await asResult(all([taskValid(1), taskValid(2)]))).toEqual({
+				ok: true,
+				value: [1, 2],
+			});
+		});
+
+		it("should accumulate the errors of every Invalid", async () => {
+			expect(
+				await asResult(
+					all<string, number>([
+						taskInvalid("e1"),
+						taskValid(2),
+						taskInvalid("e2"),
+					]),
+				),
+			).toEqual({ ok: false, errors: ["e1", "e2"] });
+		});
+	});
+
+	describe("traverse", () => {
+		it("should map every item and accumulate errors", async () => {
+			const positive = (n: number) =>
+				n > 0
+					? taskValid<number, string>(n)
+					: taskInvalid<string, number>(`${n} is not positive`);
+			expect(await asResult(traverse([1, -2, -3], positive))).toEqual({
+				ok: false,
+				errors: ["-2 is not positive", "-3 is not positive"],
+			});
+		});
+	});
+
+	describe("mapN", () => {
+		it("should only accept TaskValidations", () => {
+			// @ts-expect-error numbers are not TaskValidations
+			const invalid = mapN([1, 2], (a, b) => [a, b]);
+			expect(() => invalid.run()).toThrow(TypeError);
+		});
+
+		it("should map all values", async () => {
+			const result: TaskValidation<never, string> = mapN(
+				[taskValid(1), taskValid("two")],
+				(a, b) => `${a} ${b}`,
+			);
+			expect(await asResult(result)).toEqual({ ok: true, value: "1 two" });
+		});
+
+		it("should accumulate errors and infer their union", async () => {
+			const result: TaskValidation<string | number, string> = mapN(
+				[taskInvalid("e1"), taskInvalid(2)],
+				(a, b) => `${a} ${b}`,
+			);
+			expect(await asResult(result)).toEqual({ ok: false, errors: ["e1", 2] });
+		});
+	});
+
+	describe("zipAll", () => {
+		it("should resolve with a tuple of all values", async () => {
+			expect(await asResult(zipAll(taskValid("Alice"), taskValid(30)))).toEqual(
+				{ ok: true, value: ["Alice", 30] },
+			);
+		});
+	});
+
+	describe("struct", () => {
+		it("should only accept records of TaskValidations", () => {
+			// @ts-expect-error plain values are not TaskValidations
+			const invalid = struct({ name: "Alice", age: 30 });
+			expect(() => invalid.run()).toThrow(TypeError);
+		});
+
+		it("should resolve with a record of all values", async () => {
+			expect(
+				await asResult(
+					struct({ name: taskValid("Alice"), age: taskValid(30) }),
+				),
+			).toEqual({ ok: true, value: { name: "Alice", age: 30 } });
+		});
+
+		it("should accumulate the errors of every field", async () => {
+			expect(
+				await asResult(
+					struct({
+						username: taskInvalid("Username taken"),
+						coupon: taskInvalid("Coupon expired"),
+					}),
+				),
+			).toEqual({ ok: false, errors: ["Username taken", "Coupon expired"] });
+		});
+	});
+
+	describe(
+		"traversable",
+		traversableSpec<
+			TaskValidation<string, unknown>,
+			TaskValidation<string, unknown[]>
+		>({
+			of: (value) => taskValid(value),
+			fail: () => taskInvalid("error"),
+			sequence: all,
+			traverse,
+			traverseWithIndex,
+			asTag: async (tv) => (await tv.run()).toResult(),
+		}),
+	);
+});
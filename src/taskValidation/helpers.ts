@@ -0,0 +1,166 @@
+import { fromEntries } from "../internal/record.js";
+import { sequence } from "../validation/helpers.js";
+import {
+	type AnyTaskValidation,
+	createTaskValidation,
+	type TaskValidation,
+} from "./taskValidation.js";
+
+/**
+ * Runs all TaskValidations concurrently and collects their valid values into an array.
+ * Every TaskValidation is awaited: if any resolves to Invalid, the errors of all of them are accumulated.
+ *
+ * @param taskValidations - Array of TaskValidations to run concurrently
+ * @returns TaskValidation that resolves with an array of all values, or all accumulated errors
+ *
+ * @example
+ * ```typescript
+ * await all([taskValid(1), taskValid(2)]).run()             // Valid([1, 2])
+ * await all([taskInvalid("e1"), taskInvalid("e2")]).run()   // Invalid(["e1", "e2"])
+ * ```
+ */
+export function all<E, T>(
+	taskValidations: TaskValidation<E, T>[],
+): TaskValidation<E, T[]> {
+	return createTaskValidation(() =>
+		Promise.all(taskValidations.map((tv) => tv.run())).then(sequence),
+	);
+}
+
+/**
+ * Maps each item of an array to a TaskValidation and runs them all concurrently,
+ * collecting the valid values into an array that keeps the order of the input items.
+ * If any mapped TaskValidation resolves to Invalid, the errors of all of them are accumulated.
+ *
+ * @param items - Array of items to map
+ * @param mapper - Function that maps an item to a TaskValidation
+ * @returns TaskValidation that resolves with an array of all values, or all accumulated errors
+ *
+ * @example
+ * ```typescript
+ * await traverse(form.emails, emailNotRegistered).run()
+ * // Valid([...emails]) or Invalid(["a@x.com is taken", "b@x.com is taken"])
+ * ```
+ */
+export function traverse<A, E, B>(
+	items: readonly A[],
+	mapper: (item: A) => TaskValidation<E, B>,
+): TaskValidation<E, B[]> {
+	return traverseWithIndex(items, (item) => mapper(item));
+}
+
+/**
+ * Like {@link traverse}, but the mapper also receives the index of each item.
+ *
+ * @param items - Array of items to map
+ * @param mapper - Function that maps an item and its index to a TaskValidation
+ * @returns TaskValidation that resolves with an array of all values, or all accumulated errors
+ *
+ * @example
+ * ```typescript
+ * await traverseWithIndex(rows, (row, i) => checkRow(row, i)).run()
+ * ```
+ */
+export function traverseWithIndex<A, E, B>(
+	items: readonly A[],
+	mapper: (item: A, index: number) => TaskValidation<E, B>,
+): TaskValidation<E, B[]> {
+	return createTaskValidation(() => all(items.map(mapper)).run());
+}
+
+type ErrorOf<TV> = TV extends TaskValidation<infer E, infer _T> ? E : never;
+
+type ValuesOf<TaskValidations extends readonly unknown[]> = {
+	[K in keyof TaskValidations]: TaskValidations[K] extends TaskValidation<
+		infer _E,
+		infer A
+	>
+		? A
+		: never;
+};
+
+/**
+ * Runs any number of TaskValidations concurrently and combines their valid values using a mapping function.
+ * If any TaskValidation resolves to Invalid, the errors of all of them are accumulated.
+ * The mapper receives the values in the same order, with their types inferred from the tuple.
+ *
+ * @param taskValidations - Tuple of TaskValidations to run concurrently
+ * @param mapper - Function that receives every valid value and combines them
+ * @returns TaskValidation containing the mapped result, or all accumulated errors
+ *
+ * @example
+ * ```typescript
+ * await mapN(
+ *   [usernameAvailable(form.username), couponValid(form.coupon)],
+ *   (username, coupon) => ({ username, coupon }),
+ * ).run()
+ * ```
+ */
+export function mapN<
+	const TaskValidations extends readonly AnyTaskValidation[],
+	U,
+>(
+	taskValidations: TaskValidations,
+	mapper: (...values: ValuesOf<TaskValidations>) => U,
+): TaskValidation<ErrorOf<TaskValidations[number]>, U> {
+	return all(
+		taskValidations as unknown as TaskValidation<
+			ErrorOf<TaskValidations[number]>,
+			unknown
+		>[],
+	).map((values) =>
+		mapper(...(values as unknown as ValuesOf<TaskValidations>)),
+	);
+}
+
+/**
+ * Runs any number of TaskValidations concurrently and collects their valid values into a tuple.
+ * If any TaskValidation resolves to Invalid, the errors of all of them are accumulated.
+ *
+ * @param taskValidations - TaskValidations to run concurrently
+ * @returns TaskValidation containing a tuple of all values, or all accumulated errors
+ *
+ * @example
+ * ```typescript
+ * await zipAll(taskValid("Alice"), taskValid(30)).run() // Valid(["Alice", 30])
+ * ```
+ */
+export function zipAll<
+	const TaskValidations extends readonly AnyTaskValidation[],
+>(
+	...taskValidations: TaskValidations
+): TaskValidation<ErrorOf<TaskValidations[number]>, ValuesOf<TaskValidations>> {
+	return mapN(taskValidations, (...values) => values);
+}
+
+type StructOf<R> = {
+	[K in keyof R]: R[K] extends TaskValidation<infer _E, infer A> ? A : never;
+};
+
+/**
+ * Runs a record of TaskValidations concurrently and collects their valid values into a record,
+ * preserving the keys and their value types.
+ * If any TaskValidation resolves to Invalid, the errors of all of them are accumulated.
+ *
+ * @param record - Record whose values are TaskValidations
+ * @returns TaskValidation containing a record of all values, or all accumulated errors
+ *
+ * @example
+ * ```typescript
+ * await struct({
+ *   username: usernameAvailable(form.username),
+ *   coupon: couponValid(form.coupon),
+ * }).run()
+ * // Valid({ username, coupon }) or Invalid(["Username taken", "Coupon expired"])
+ * ```
+ */
+export function struct<R extends Readonly<Record<string, AnyTaskValidation>>>(
+	record: R,
+): TaskValidation<ErrorOf<R[keyof R]>, StructOf<R>> {
+	const keys = Object.keys(record);
+	return all(
+		keys.map(
+			(key) => record[key] as TaskValidation<ErrorOf<R[keyof R]>, unknown>,
+		),
+	).map((values) => fromEntries<StructOf<R>>(keys, values));
+}
@@ -0,0 +1,3 @@
+import type { Validation } from "../validation/validation.js";
+
+export type TaskValidationValue<E, T> = () => Promise<Validation<E, T>>;
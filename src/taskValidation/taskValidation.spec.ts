@@ -0,0 +1,282 @@
+import { describe, expect, it, vi } from "vitest";
+import { applicativeLawsSpec } from "../testUtils/applicativeLaws.js";
+import { bifunctorLawsSpec } from "../testUtils/bifunctorLaws.js";
+import { functorLawsSpec } from "../testUtils/functorLaws.js";
+import { monadLawsSpec } from "../testUtils/monadLaws.js";
+import { Do, taskInvalid, taskValid } from "./constructors.js";
+import type { TaskValidation } from "./taskValidation.js";
+
+const asResult = async <E, T>(tv: TaskValidation<E, T>) =>
+	(await tv.run()).toResult();
+
+const delayed = <E, T>(ms: number, tv: TaskValidation<E, T>) =>
+	({
+		...tv,
+		run: () =>
+			new Promise((resolve) => setTimeout(() => resolve(tv.run()), ms)),
+	}) as TaskValidation<E, T>;
+
+describe("taskValidation", () => {
+	describe("filterOrElse", () => {
+		it("should keep the value when the predicate passes", async () => {
+			expect(
+				await asResult(
+					taskValid<number, string>(5).filterOrElse(
+						(x) => x > 0,
+						() => "neg",
+					),
+				),
+			).toEqual({ ok: true, value: 5 });
+		});
+
+		it("should resolve to Invalid when the predicate fails", async () => {
+			expect(
+				await asResult(
+					taskValid<number, string>(-3).filterOrElse(
+						(x) => x > 0,
+						() => "neg",
+					),
+				),
+			).toEqual({ ok: false, errors: ["neg"] });
+		});
+	});
+
+	describe("map", () => {
+		it("should transform the valid value", async () => {
+			expect(await asResult(taskValid(5).map((x) => x * 2))).toEqual({
+				ok: true,
+				value: 10,
+			});
+		});
+
+		it("should not call the mapper on Invalid", async () => {
+			const mapper = vi.fn();
+			expect(await asResult(taskInvalid("e").map(mapper))).toEqual({
+				ok: false,
+				errors: ["e"],
+			});
+			expect(mapper).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("mapErrors", () => {
+		it("should transform every error", async () => {
+			const result = taskInvalid("a")
+				.zip(taskInvalid("b"))
+				.mapErrors((e) => e.toUpperCase());
+			expect(await asResult(result)).toEqual({ ok: false, errors: ["A", "B"] });
+		});
+	});
+
+	describe("ap", () => {
+		it("should apply a function to a value", async () => {
+			const add = (x: number) => (y: number) => x + y;
+			expect(await asResult(taskValid(add(5)).ap(taskValid(3)))).toEqual({
+				ok: true,
+				value: 8,
+			});
+		});
+
+		it("should accumulate the errors of both sides", async () => {
+			const fn = taskInvalid<string, (a: number) => number>("e1");
+			expect(await asResult(fn.ap(taskInvalid("e2")))).toEqual({
+				ok: false,
+				errors: ["e1", "e2"],
+			});
+		});
+	});
+
+	describe("zip", () => {
+		it("should combine two values into a tuple", async () => {
+			expect(await asResult(taskValid("Alice").zip(taskValid(30)))).toEqual({
+				ok: true,
+				value: ["Alice", 30],
+			});
+		});
+
+		it("should accumulate errors in order", async () => {
+			expect(await asResult(taskInvalid("e1").zip(taskInvalid("e2")))).toEqual({
+				ok: false,
+				errors: ["e1", "e2"],
+			});
+		});
+
+		it("should run both sides concurrently", async () => {
+			vi.useFakeTimers();
+			try {
+				const result = delayed(100, taskInvalid("slow")).zip(
+					delayed(100, taskInvalid("also slow")),
+				);
+				const promise = result.run();
+				await vi.advanceTimersByTimeAsync(100);
+				expect((await promise).toResult()).toEqual({
+					ok: false,
+					errors: ["slow", "also slow"],
+				});
+			} finally {
+				vi.useRealTimers();
+			}
+		});
+	});
+
+	describe("flatMap", () => {
+		it("should chain taskValidation-returning operations", async () => {
+			expect(
+				await asResult(taskValid(10).flatMap((x) => taskValid(x * 2))),
+			).toEqual({ ok: true, value: 20 });
+		});
+
+		it("should short-circuit on Invalid", async () => {
+			const mapper = vi.fn(() => taskValid(1));
+			expect(await asResult(taskInvalid("e").flatMap(mapper))).toEqual({
+				ok: false,
+				errors: ["e"],
+			});
+			expect(mapper).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("orElse", () => {
+		it("should use the fallback on Invalid", async () => {
+			const fallback = vi.fn(() => taskValid(0));
+			expect(
+				await asResult(taskInvalid<string, number>("e").orElse(fallback)),
+			).toEqual({
+				ok: true,
+				value: 0,
+			});
+			expect(fallback).toHaveBeenCalledWith(["e"]);
+		});
+
+		it("should not call the fallback on Valid", async () => {
+			const fallback = vi.fn(() => taskValid(0));
+			expect(await asResult(taskValid(42).orElse(fallback))).toEqual({
+				ok: true,
+				value: 42,
+			});
+			expect(fallback).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("tap / tapInvalid", () => {
+		it("should run the side effect for the matching side only", async () => {
+			const onValid = vi.fn();
+			const onInvalid = vi.fn();
+			await taskValid(1).tap(onValid).tapInvalid(onInvalid).run();
+			await taskInvalid("e").tap(onValid).tapInvalid(onInvalid).run();
+			expect(onValid).toHaveBeenCalledExactlyOnceWith(1);
+			expect(onInvalid).toHaveBeenCalledExactlyOnceWith(["e"]);
+		});
+	});
+
+	describe("match", () => {
+		it("should resolve with the result of the matching branch", async () => {
+			const summarize = <T>(tv: TaskValidation<string, T>) =>
+				tv
+					.match(
+						(errors) => errors.join(", "),
+						() => "OK",
+					)
+					.run();
+			expect(await summarize(taskValid(1))).toBe("OK");
+			expect(await summarize(taskInvalid("a").zip(taskInvalid("b")))).toBe(
+				"a, b",
+			);
+		});
+	});
+
+	describe("getOrElse", () => {
+		it("should resolve with the value or the fallback", async () => {
+			expect(
+				await taskValid(42)
+					.getOrElse(() => 0)
+					.run(),
+			).toBe(42);
+			expect(
+				await taskInvalid<string, number>("e")
+					.getOrElse(() => 0)
+					.run(),
+			).toBe(0);
+		});
+	});
+
+	describe("toTaskEither", () => {
+		it("should resolve to Left with all errors for Invalid", async () => {
+			const result = taskInvalid("a").zip(taskInvalid("b")).toTaskEither();
+			expect((await result.run()).toResult()).toEqual({
+				ok: false,
+				error: ["a", "b"],
+			});
+		});
+
+		it("should resolve to Right for Valid", async () => {
+			expect((await taskValid(1).toTaskEither().run()).toResult()).toEqual({
+				ok: true,
+				value: 1,
+			});
+		});
+	});
+
+	describe("do-notation", () => {
+		it("should accumulate the errors of independent fields with apS", async () => {
+			const result = Do.apS("username", taskInvalid("Username taken"))
+				.apS("coupon", taskInvalid("Coupon expired"))
+				.apS("age", taskValid(30));
+			expect(await asResult(result)).toEqual({
+				ok: false,
+				errors: ["Username taken", "Coupon expired"],
+			});
+		});
+
+		it("should build a record with bind, let and bindTo", async () => {
+			const result = taskValid(1)
+				.bindTo("a")
+				.bind("b", ({ a }) => taskValid(a + 1))
+				.let("sum", ({ a, b }) => a + b);
+			expect(await asResult(result)).toEqual({
+				ok: true,
+				value: { a: 1, b: 2, sum: 3 },
+			});
+		});
+	});
+
+	describe(
+		"functor laws",
+		functorLawsSpec<TaskValidation<never, number>>({
+			of: (value) => taskValid(value),
+			map: (tv, mapper) => tv.map(mapper),
+			asTag: asResult,
+		}),
+	);
+
+	describe(
+		"applicative laws",
+		applicativeLawsSpec<TaskValidation<never, unknown>>({
+			of: (value) => taskValid(value),
+			ap: (tv, arg) =>
+				(tv as TaskValidation<never, (arg: unknown) => unknown>).ap(arg),
+			asTag: asResult,
+		}),
+	);
+
+	describe(
+		"monad laws",
+		monadLawsSpec<TaskValidation<never, number>>({
+			of: (value) => taskValid(value),
+			flatMap: (tv, mapper) => tv.flatMap(mapper),
+			asTag: asResult,
+		}),
+	);
+
+	describe(
+		"bifunctor laws",
+		bifunctorLawsSpec<TaskValidation<number, number>>({
+			left: (value) => taskInvalid(value),
+			right: (value) => taskValid(value),
+			bimap: (tv, onInvalid, onValid) => tv.bimap(onInvalid, onValid),
+			mapLeft: (tv, mapper) => tv.mapErrors(mapper),
+			map: (tv, mapper) => tv.map(mapper),
+			asTag: asResult,
+		}),
+	);
+});
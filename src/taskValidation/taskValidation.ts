@@ -0,0 +1,447 @@
+import { extend } from "../internal/record.js";
+import type { NonEmptyArray } from "../nonEmptyArray/model.js";
+import { createTask, type Task } from "../task/task.js";
+import { createTaskEither, type TaskEither } from "../taskEither/taskEither.js";
+import { createValidation, type Validation } from "../validation/validation.js";
+import type { TaskValidationValue } from "./model.js";
+
+export type TaskValidation<E, T> = {
+	/**
+	 * Keeps the valid value only if it satisfies the predicate, otherwise resolves to Invalid
+	 * with the error returned by `onInvalid`.
+	 * When the predicate is a type guard, the value type is narrowed accordingly.
+	 *
+	 * @param predicate - Function that tests the valid value
+	 * @param onInvalid - Function that returns the error if the predicate fails
+	 * @returns TaskValidation resolving to the same Valid if the predicate passes, otherwise Invalid
+	 *
+	 * @example
+	 * ```typescript
+	 * taskValid(5).filterOrElse(x => x > 0, () => "Must be positive")  // Valid(5)
+	 * taskValid(-3).filterOrElse(x => x > 0, () => "Must be positive") // Invalid(["Must be positive"])
+	 * ```
+	 */
+	filterOrElse: {
+		<U extends T>(
+			refinement: (value: T) => value is U,
+			onInvalid: () => E,
+		): TaskValidation<E, U>;
+		(
+			predicate: (value: T) => boolean,
+			onInvalid: () => E,
+		): TaskValidation<E, T>;
+	};
+
+	/**
+	 * Transforms the valid value using a mapping function.
+	 * If this TaskValidation resolves to Invalid, the mapper is not called.
+	 *
+	 * @typeParam U - The type of the transformed value
+	 * @param mapper - Function to transform the valid value
+	 * @returns New TaskValidation with the transformed value, or the same errors
+	 *
+	 * @example
+	 * ```typescript
+	 * taskValid(5).map(x => x * 2).run() // Promise<Valid(10)>
+	 * ```
+	 */
+	map: <U>(mapper: (value: T) => U) => TaskValidation<E, U>;
+
+	/**
+	 * Transforms every error of an Invalid result using a mapping function.
+	 *
+	 * @typeParam EE - The type of the transformed errors
+	 * @param mapper - Function to transform each error
+	 * @returns New TaskValidation with the transformed errors, or the same Valid
+	 *
+	 * @example
+	 * ```typescript
+	 * usernameAvailable(name).mapErrors(e => ({ field: "username", message: e }))
+	 * ```
+	 */
+	mapErrors: <EE>(mapper: (error: E) => EE) => TaskValidation<EE, T>;
+
+	/**
+	 * Transforms both sides of the result at once.
+	 * The error mapper is applied to every error of an Invalid result.
+	 *
+	 * @param onInvalid - Function to transform each error
+	 * @param onValid - Function to transform the valid value
+	 * @returns New TaskValidation with the applicable side transformed
+	 *
+	 * @example
+	 * ```typescript
+	 * taskValid(5).bimap(e => `Error: ${e}`, x => x * 2)          // Valid(10)
+	 * taskInvalid("oops").bimap(e => `Error: ${e}`, x => x * 2)   // Invalid(["Error: oops"])
+	 * ```
+	 */
+	bimap: <EE, U>(
+		onInvalid: (error: E) => EE,
+		onValid: (value: T) => U,
+	) => TaskValidation<EE, U>;
+
+	/**
+	 * Applies a function produced by a TaskValidation to a value produced by another TaskValidation.
+	 * Both TaskValidations are run concurrently, and if both are Invalid their errors are accumulated.
+	 *
+	 * @param arg - TaskValidation containing the argument to apply the function to
+	 * @returns TaskValidation containing the result, or the accumulated errors
+	 *
+	 * @example
+	 * ```typescript
+	 * const add = (x: number) => (y: number) => x + y;
+	 * taskValid(add(5)).ap(taskValid(3)).run()          // Promise<Valid(8)>
+	 * taskInvalid("e1").ap(taskInvalid("e2")).run()     // Promise<Invalid(["e1", "e2"])>
+	 * ```
+	 */
+	ap: <EE, A, U>(
+		this: TaskValidation<E, (a: A) => U>,
+		arg: TaskValidation<EE, A>,
+	) => TaskValidation<E | EE, U>;
+
+	/**
+	 * Combines this TaskValidation with another one into a tuple.
+	 * Both TaskValidations are run concurrently, and if either is Invalid all errors are accumulated.
+	 *
+	 * @param other - The TaskValidation to combine with this one
+	 * @returns TaskValidation containing a tuple of both values, or the accumulated errors
+	 *
+	 * @example
+	 * ```typescript
+	 * usernameAvailable(name).zip(couponValid(code)).run()
+	 * // Promise<Valid([name, coupon])> or Promise<Invalid(["Username taken", "Coupon expired"])>
+	 * ```
+	 */
+	zip: <EE, A>(
+		other: TaskValidation<EE, A>,
+	) => TaskValidation<E | EE, readonly [T, A]>;
+
+	/**
+	 * Chains TaskValidation-returning operations together.
+	 * Because the mapper needs the valid value, errors are short-circuited, not accumulated:
+	 * the mapper is not called when this TaskValidation resolves to Invalid. Use {@link ap} or {@link zip}
+	 * for independent checks so they run concurrently and their errors accumulate.
+	 *
+	 * @param mapper - Function that takes the valid value and returns a TaskValidation
+	 * @returns The TaskValidation returned by mapper if this is Valid, otherwise the same errors
+	 *
+	 * @example
+	 * ```typescript
+	 * parseEmail(raw).flatMap(emailNotRegistered) // TaskValidation<string, Email>
+	 * ```
+	 */
+	flatMap: <EE, U>(
+		mapper: (value: T) => TaskValidation<EE, U>,
+	) => TaskValidation<E | EE, U>;
+
+	/**
+	 * Returns this TaskValidation if it resolves to Valid, otherwise the result of the fallback function.
+	 *
+	 * @param fallback - Function that receives the errors and returns an alternative TaskValidation
+	 * @returns This TaskValidation if Valid, otherwise the TaskValidation returned by the fallback
+	 *
+	 * @example
+	 * ```typescript
+	 * couponValid(code).orElse(() => taskValid(noCoupon))
+	 * ```
+	 */
+	orElse: <EE>(
+		fallback: (errors: NonEmptyArray<E>) => TaskValidation<EE, T>,
+	) => TaskValidation<E | EE, T>;
+
+	/**
+	 * Performs a side effect with the valid value, returning a TaskValidation resolving to the same result.
+	 * If this TaskValidation resolves to Invalid, the side effect is not executed.
+	 *
+	 * @param sideEffect - Function to execute with the valid value (return value is ignored)
+	 * @returns TaskValidation resolving to the same result
+	 *
+	 * @example
+	 * ```typescript
+	 * validateSignup(form).tap(signup => console.log("Valid signup", signup))
+	 * ```
+	 */
+	tap: (sideEffect: (value: T) => unknown) => TaskValidation<E, T>;
+
+	/**
+	 * Performs a side effect with the errors, returning a TaskValidation resolving to the same result.
+	 * If this TaskValidation resolves to Valid, the side effect is not executed.
+	 *
+	 * @param sideEffect - Function to execute with the errors (return value is ignored)
+	 * @returns TaskValidation resolving to the same result
+	 *
+	 * @example
+	 * ```typescript
+	 * validateSignup(form).tapInvalid(errors => console.warn(errors))
+	 * ```
+	 */
+	tapInvalid: (
+		sideEffect: (errors: NonEmptyArray<E>) => unknown,
+	) => TaskValidation<E, T>;
+
+	/**
+	 * Pattern matches on the resolved Validation, executing different functions based on its state.
+	 * Returns the result wrapped in a Task.
+	 *
+	 * @param onInvalid - Function to execute with the errors if Invalid
+	 * @param onValid - Function to execute with the value if Valid
+	 * @returns Task that resolves with the result of the executed function
+	 *
+	 * @example
+	 * ```typescript
+	 * await validateSignup(form).match(errors => errors.join(", "), () => "OK").run()
+	 * ```
+	 */
+	match: <U>(
+		onInvalid: (errors: NonEmptyArray<E>) => U,
+		onValid: (value: T) => U,
+	) => Task<U>;
+
+	/**
+	 * Extracts the valid value, or computes a fallback from the errors.
+	 * Returns the result wrapped in a Task.
+	 *
+	 * @param fallback - Function that receives the errors and returns a default value
+	 * @returns Task that resolves with the valid value or the fallback
+	 *
+	 * @example
+	 * ```typescript
+	 * await taskInvalid<string, number>("oops").getOrElse(() => 0).run() // 0
+	 * ```
+	 */
+	getOrElse: (fallback: (errors: NonEmptyArray<E>) => T) => Task<T>;
+
+	/**
+	 * Converts the TaskValidation to a TaskEither. Invalid becomes a Left holding all accumulated errors.
+	 *
+	 * @returns TaskEither resolving to Right with the valid value, or Left with the errors
+	 *
+	 * @example
+	 * ```typescript
+	 * validateSignup(form).toTaskEither().flatMap(createAccount)
+	 * // TaskEither<NonEmptyArray<string> | DbError, Account>
+	 * ```
+	 */
+	toTaskEither: () => TaskEither<NonEmptyArray<E>, T>;
+
+	/**
+	 * Wraps the valid value in a record under the given key.
+	 * This is usually the first step of do-notation when starting from an existing TaskValidation.
+	 *
+	 * @param key - The key to store the value under
+	 * @returns TaskValidation containing a record with the value under `key`, or the same errors
+	 *
+	 * @example
+	 * ```typescript
+	 * taskValid(5).bindTo("x").run() // Promise<Valid({ x: 5 })>
+	 * ```
+	 */
+	bindTo: <K extends string>(
+		key: K,
+	) => TaskValidation<E, { readonly [P in K]: T }>;
+
+	/**
+	 * Adds the valid value of a TaskValidation computed from the current record under a new key.
+	 * Like {@link flatMap}, short-circuits on Invalid: the mapper is not called if this is Invalid.
+	 *
+	 * @param key - The key to store the value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns a TaskValidation
+	 * @returns TaskValidation containing the extended record, or the errors
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.bind("email", () => parseEmail(raw))
+	 *   .bind("available", ({ email }) => emailNotRegistered(email))
+	 * ```
+	 */
+	bind: <K extends string, EE, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => TaskValidation<EE, U>,
+	) => TaskValidation<E | EE, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Adds a plain value computed from the current record under a new key.
+	 *
+	 * @param key - The key to store the value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns a value
+	 * @returns TaskValidation containing the extended record, or the same errors
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.apS("name", validName(raw)).let("greeting", ({ name }) => `Hello, ${name}`)
+	 * ```
+	 */
+	let: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => U,
+	) => TaskValidation<E, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Adds the valid value of an independent TaskValidation under a new key.
+	 * Unlike {@link bind}, both run concurrently and their errors accumulate.
+	 *
+	 * @param key - The key to store the value under (must not already exist)
+	 * @param other - The TaskValidation whose value is added
+	 * @returns TaskValidation containing the extended record, or all accumulated errors
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.apS("username", usernameAvailable(form.username))
+	 *   .apS("coupon", couponValid(form.coupon))
+	 * // Invalid(["Username taken", "Coupon expired"]) when both checks fail
+	 * ```
+	 */
+	apS: <K extends string, EE, U>(
+		key: Exclude<K, keyof T>,
+		other: TaskValidation<EE, U>,
+	) => TaskValidation<E | EE, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Executes the TaskValidation and returns a Promise of the resulting Validation.
+	 * Each call runs the computation again.
+	 *
+	 * @returns Promise that resolves with the Validation
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await validateSignup(form).run(); // Validation<string, Signup>
+	 * ```
+	 */
+	run: () => Promise<Validation<E, T>>;
+};
+
+/**
+ * A TaskValidation of any error and value type, for helpers that take TaskValidations of different types.
+ * Spelled out structurally because TaskValidation is invariant in both.
+ */
+export type AnyTaskValidation = {
+	readonly run: () => Promise<unknown>;
+	readonly mapErrors: (mapper: never) => unknown;
+};
+
+export function createTaskValidation<E, T>(
+	thunk: TaskValidationValue<E, T>,
+): TaskValidation<E, T> {
+	const tv: TaskValidation<E, T> = {
+		filterOrElse: ((predicate: (value: T) => boolean, onInvalid: () => E) =>
+			createTaskValidation(() =>
+				thunk().then((validation) =>
+					validation.filterOrElse(predicate, onInvalid),
+				),
+			)) as TaskValidation<E, T>["filterOrElse"],
+
+		map: <U>(mapper: (value: T) => U): TaskValidation<E, U> =>
+			createTaskValidation(() =>
+				thunk().then((validation) => validation.map(mapper)),
+			),
+
+		mapErrors: <EE>(mapper: (error: E) => EE): TaskValidation<EE, T> =>
+			createTaskValidation(() =>
+				thunk().then((validation) => validation.mapErrors(mapper)),
+			),
+
+		bimap: <EE, U>(
+			onInvalid: (error: E) => EE,
+			onValid: (value: T) => U,
+		): TaskValidation<EE, U> => tv.map(onValid).mapErrors(onInvalid),
+
+		ap: function <EE, A, U>(
+			this: TaskValidation<E, (a: A) => U>,
+			arg: TaskValidation<EE, A>,
+		): TaskValidation<E | EE, U> {
+			return createTaskValidation(() =>
+				Promise.all([this.run(), arg.run()]).then(([valFn, valA]) =>
+					valFn.ap(valA),
+				),
+			);
+		},
+
+		zip: <EE, A>(
+			other: TaskValidation<EE, A>,
+		): TaskValidation<E | EE, readonly [T, A]> =>
+			tv.map((value) => (a: A) => [value, a] as const).ap(other),
+
+		flatMap: <EE, U>(
+			mapper: (value: T) => TaskValidation<EE, U>,
+		): TaskValidation<E | EE, U> =>
+			createTaskValidation(() =>
+				thunk().then((validation) =>
+					validation.match<Promise<Validation<E | EE, U>>>(
+						(errors) =>
+							Promise.resolve(createValidation<E | EE, U>({ invalid: errors })),
+						(value) => mapper(value).run() as Promise<Validation<E | EE, U>>,
+					),
+				),
+			),
+
+		orElse: <EE>(
+			fallback: (errors: NonEmptyArray<E>) => TaskValidation<EE, T>,
+		): TaskValidation<E | EE, T> =>
+			createTaskValidation(() =>
+				thunk().then((validation) =>
+					validation.match<Promise<Validation<E | EE, T>>>(
+						(errors) =>
+							fallback(errors).run() as Promise<Validation<E | EE, T>>,
+						() =>
+							Promise.resolve(validation as unknown as Validation<E | EE, T>),
+					),
+				),
+			),
+
+		tap: (sideEffect: (value: T) => unknown): TaskValidation<E, T> =>
+			createTaskValidation(() =>
+				thunk().then((validation) => validation.tap(sideEffect)),
+			),
+
+		tapInvalid: (
+			sideEffect: (errors: NonEmptyArray<E>) => unknown,
+		): TaskValidation<E, T> =>
+			createTaskValidation(() =>
+				thunk().then((validation) => validation.tapInvalid(sideEffect)),
+			),
+
+		match: <U>(
+			onInvalid: (errors: NonEmptyArray<E>) => U,
+			onValid: (value: T) => U,
+		): Task<U> =>
+			createTask(() =>
+				thunk().then((validation) => validation.match(onInvalid, onValid)),
+			),
+
+		getOrElse: (fallback: (errors: NonEmptyArray<E>) => T): Task<T> =>
+			createTask(() =>
+				thunk().then((validation) => validation.getOrElse(fallback)),
+			),
+
+		toTaskEither: (): TaskEither<NonEmptyArray<E>, T> =>
+			createTaskEither(() =>
+				thunk().then((validation) => validation.toEither()),
+			),
+
+		bindTo: <K extends string>(key: K) =>
+			tv.map((value) => ({ [key]: value }) as { readonly [P in K]: T }),
+
+		bind: <K extends string, EE, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => TaskValidation<EE, U>,
+		) =>
+			tv.flatMap((scope) =>
+				mapper(scope).map((value) => extend<T, K, U>(scope, key, value)),
+			),
+
+		let: <K extends string, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => U,
+		) => tv.map((scope) => extend<T, K, U>(scope, key, mapper(scope))),
+
+		apS: <K extends string, EE, U>(
+			key: Exclude<K, keyof T>,
+			other: TaskValidation<EE, U>,
+		) =>
+			tv.zip(other).map(([scope, value]) => extend<T, K, U>(scope, key, value)),
+
+		run: () => thunk(),
+	};
+
+	return tv;
+}
@@ -0,0 +1,34 @@
+import { vi } from "vitest";
+
+type Warnings = { emitWarning: (warning: unknown) => void };
+
+/**
+ * Tracks the abort listeners added to and removed from every AbortSignal, and the process warnings
+ * emitted meanwhile, such as `MaxListenersExceededWarning`. Call `restore` once done.
+ */
+export function watchAbortListeners() {
+	const { process } = globalThis as unknown as { process: Warnings };
+	const emitWarning = vi.spyOn(process, "emitWarning");
+	const add = vi.spyOn(AbortSignal.prototype, "addEventListener");
+	const remove = vi.spyOn(AbortSignal.prototype, "removeEventListener");
+
+	return {
+		/** The number of abort listeners currently attached to each signal that had any. */
+		counts: (): number[] => {
+			const counts = new Map<unknown, number>();
+			for (const signal of add.mock.contexts) {
+				counts.set(signal, (counts.get(signal) ?? 0) + 1);
+			}
+			for (const signal of remove.mock.contexts) {
+				counts.set(signal, (counts.get(signal) ?? 0) - 1);
+			}
+			return [...counts.values()];
+		},
+		warnings: () => emitWarning.mock.calls.map(([warning]) => warning),
+		restore: () => {
+			emitWarning.mockRestore();
+			add.mockRestore();
+			remove.mockRestore();
+		},
+	};
+}
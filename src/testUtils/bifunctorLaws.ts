@@ -0,0 +1,57 @@
+import { expect, it } from "vitest";
+
+type BifunctorApi<B> = {
+	left: (value: number) => B;
+	right: (value: number) => B;
+	bimap: (
+		b: B,
+		onLeft: (x: number) => number,
+		onRight: (x: number) => number,
+	) => B;
+	mapLeft: (b: B, mapper: (x: number) => number) => B;
+	map: (b: B, mapper: (x: number) => number) => B;
+	asTag: (b: B) => Record<string, unknown> | Promise<Record<string, unknown>>;
+};
+
+export function bifunctorLawsSpec<B>({
+	left,
+	right,
+	bimap,
+	mapLeft,
+	map,
+	asTag,
+}: BifunctorApi<B>) {
+	return () => {
+		const f = (x: number) => x + 1;
+		const g = (x: number) => x * 2;
+		const h = (x: number) => x - 3;
+		const i = (x: number) => x * 5;
+
+		it("should obey the identity law: m.bimap(id, id) == m", async () => {
+			const id = <T>(x: T) => x;
+			for (const m of [left(1), right(2)]) {
+				expect(await asTag(bimap(m, id, id))).toEqual(await asTag(m));
+			}
+		});
+
+		it("should obey the composition law: m.bimap(f, h).bimap(g, i) == m.bimap(x => g(f(x)), x => i(h(x)))", async () => {
+			for (const m of [left(10), right(20)]) {
+				const leftSide = bimap(bimap(m, f, h), g, i);
+				const rightSide = bimap(
+					m,
+					(x) => g(f(x)),
+					(x) => i(h(x)),
+				);
+				expect(await asTag(leftSide)).toEqual(await asTag(rightSide));
+			}
+		});
+
+		it("should agree with mapLeft and map: m.bimap(f, g) == m.mapLeft(f).map(g)", async () => {
+			for (const m of [left(10), right(20)]) {
+				expect(await asTag(bimap(m, f, g))).toEqual(
+					await asTag(map(mapLeft(m, f), g)),
+				);
+			}
+		});
+	};
+}
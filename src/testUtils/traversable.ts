@@ -0,0 +1,72 @@
+import { expect, it } from "vitest";
+
+type TraversableApi<F, G> = {
+	of: (value: unknown) => F;
+	fail?: () => F;
+	sequence: (values: F[]) => G;
+	traverse: (items: readonly unknown[], mapper: (item: unknown) => F) => G;
+	traverseWithIndex: (
+		items: readonly unknown[],
+		mapper: (item: unknown, index: number) => F,
+	) => G;
+	asTag: (
+		f: F | G,
+	) => Record<string, unknown> | Promise<Record<string, unknown>>;
+};
+
+const FALSY_VALUES = [0, "", false, null, undefined, Number.NaN, 0n];
+
+export function traversableSpec<F, G>({
+	of,
+	fail,
+	sequence,
+	traverse,
+	traverseWithIndex,
+	asTag,
+}: TraversableApi<F, G>) {
+	return () => {
+		it("should collect the mapped values in order", async () => {
+			const result = traverse([1, 2, 3], (x) => of((x as number) * 2));
+			expect(await asTag(result)).toEqual(await asTag(of([2, 4, 6])));
+		});
+
+		it("should keep falsy payloads when traversing", async () => {
+			const result = traverse(FALSY_VALUES, of);
+			expect(await asTag(result)).toEqual(await asTag(of(FALSY_VALUES)));
+		});
+
+		it("should keep falsy payloads when sequencing", async () => {
+			const result = sequence(FALSY_VALUES.map(of));
+			expect(await asTag(result)).toEqual(await asTag(of(FALSY_VALUES)));
+		});
+
+		it("should return an empty array for empty input", async () => {
+			expect(await asTag(traverse([], of))).toEqual(await asTag(of([])));
+			expect(await asTag(sequence([]))).toEqual(await asTag(of([])));
+		});
+
+		it("should pass the index of each item to the mapper", async () => {
+			const result = traverseWithIndex(["a", "b", "c"], (item, index) =>
+				of(`${index}:${item}`),
+			);
+			expect(await asTag(result)).toEqual(
+				await asTag(of(["0:a", "1:b", "2:c"])),
+			);
+		});
+
+		it("should be equivalent to sequence after map", async () => {
+			const mapper = (x: unknown) => of([x]);
+			const items = [1, 0, 3];
+			expect(await asTag(traverse(items, mapper))).toEqual(
+				await asTag(sequence(items.map(mapper))),
+			);
+		});
+
+		if (fail) {
+			it("should fail when one of the mapped values fails", async () => {
+				const result = traverse([1, 2, 3], (x) => (x === 2 ? fail() : of(x)));
+				expect(await asTag(result)).toEqual(await asTag(fail()));
+			});
+		}
+	};
+}
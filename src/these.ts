@@ -0,0 +1,3 @@
+export * from "./these/constructors.js";
+export * from "./these/model.js";
+export type { These } from "./these/these.js";
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { both, fromWarnings, left, right } from "./constructors.js";
+
+describe("these constructors", () => {
+	describe("left", () => {
+		it("should create a Left with a single warning", () => {
+			expect(left("e").isLeft()).toBe(true);
+			expect(left("e").toEither().toResult()).toEqual({
+				ok: false,
+				error: ["e"],
+			});
+		});
+	});
+
+	describe("right", () => {
+		it("should create a Right with the value", () => {
+			expect(right(1).isRight()).toBe(true);
+			expect(right(1).toEither().toResult()).toEqual({ ok: true, value: 1 });
+		});
+	});
+
+	describe("both", () => {
+		it("should create a Both with the warning and the value", () => {
+			expect(
+				both("w", 1).match(
+					() => null,
+					() => null,
+					(warnings, value) => ({ warnings, value }),
+				),
+			).toEqual({ warnings: ["w"], value: 1 });
+		});
+	});
+
+	describe("fromWarnings", () => {
+		it("should create a Both when there are warnings", () => {
+			const result = fromWarnings(["w1", "w2"], 1);
+			expect(
+				result.match(
+					() => null,
+					() => null,
+					(warnings, value) => ({ warnings, value }),
+				),
+			).toEqual({ warnings: ["w1", "w2"], value: 1 });
+		});
+
+		it("should create a Right when there are no warnings", () => {
+			expect(fromWarnings([], 1).isRight()).toBe(true);
+		});
+	});
+});
@@ -0,0 +1,70 @@
+import { isNonEmpty } from "../nonEmptyArray/helpers.js";
+import { createThese, type These } from "./these.js";
+
+/**
+ * Creates a These holding only a warning (or error) and no value.
+ *
+ * @param warning - The warning to wrap
+ * @returns These in the Left state
+ *
+ * @example
+ * ```typescript
+ * left("Config file not found") // These<string, never>
+ * ```
+ */
+export function left<E, T = never>(warning: E): These<E, T> {
+	return createThese<E, T>({ left: [warning] });
+}
+
+/**
+ * Creates a These holding only a value and no warnings.
+ *
+ * @param value - The value to wrap
+ * @returns These in the Right state
+ *
+ * @example
+ * ```typescript
+ * right(config) // These<never, Config>
+ * ```
+ */
+export function right<T, E = never>(value: T): These<E, T> {
+	return createThese<E, T>({ right: value });
+}
+
+/**
+ * Creates a These holding a value together with a warning.
+ *
+ * @param warning - The warning to attach
+ * @param value - The value to wrap
+ * @returns These in the Both state
+ *
+ * @example
+ * ```typescript
+ * both("`port` is deprecated, use `listen`", config) // These<string, Config>
+ * ```
+ */
+export function both<E, T>(warning: E, value: T): These<E, T> {
+	return createThese<E, T>({ left: [warning], right: value });
+}
+
+/**
+ * Creates a These from a value and a list of warnings that may be empty.
+ *
+ * @param warnings - The warnings collected while producing the value
+ * @param value - The value to wrap
+ * @returns Both if there are any warnings, otherwise Right
+ *
+ * @example
+ * ```typescript
+ * fromWarnings(["`port` is deprecated"], config) // Both(["`port` is deprecated"], config)
+ * fromWarnings([], config)                       // Right(config)
+ * ```
+ */
+export function fromWarnings<E, T>(
+	warnings: readonly E[],
+	value: T,
+): These<E, T> {
+	return isNonEmpty(warnings)
+		? createThese<E, T>({ left: warnings, right: value })
+		: createThese<E, T>({ right: value });
+}
@@ -0,0 +1,16 @@
+import type { NonEmptyArray } from "../nonEmptyArray/model.js";
+
+export type Left<E> = {
+	readonly left: NonEmptyArray<E>;
+};
+
+export type Right<T> = {
+	readonly right: T;
+};
+
+export type Both<E, T> = {
+	readonly left: NonEmptyArray<E>;
+	readonly right: T;
+};
+
+export type TheseValue<E, T> = Left<E> | Right<T> | Both<E, T>;
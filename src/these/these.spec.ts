@@ -0,0 +1,226 @@
+import { describe, expect, it, vi } from "vitest";
+import { bifunctorLawsSpec } from "../testUtils/bifunctorLaws.js";
+import { functorLawsSpec } from "../testUtils/functorLaws.js";
+import { monadLawsSpec } from "../testUtils/monadLaws.js";
+import { both, left, right } from "./constructors.js";
+import type { These } from "./these.js";
+
+const asTag = <E, T>(these: These<E, T>): Record<string, unknown> =>
+	these.match<Record<string, unknown>>(
+		(left) => ({ tag: "LEFT", left }),
+		(right) => ({ tag: "RIGHT", right }),
+		(left, right) => ({ tag: "BOTH", left, right }),
+	);
+
+describe("these", () => {
+	describe("map", () => {
+		it("should transform the value of a Right", () => {
+			expect(asTag(right(5).map((x) => x * 2))).toEqual({
+				tag: "RIGHT",
+				right: 10,
+			});
+		});
+
+		it("should transform the value of a Both and keep its warnings", () => {
+			expect(asTag(both("w", 5).map((x) => x * 2))).toEqual({
+				tag: "BOTH",
+				left: ["w"],
+				right: 10,
+			});
+		});
+
+		it("should not call the mapper on a Left", () => {
+			const mapper = vi.fn();
+			expect(asTag(left("e").map(mapper))).toEqual({
+				tag: "LEFT",
+				left: ["e"],
+			});
+			expect(mapper).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("mapLeft", () => {
+		it("should transform every warning of a Left or Both", () => {
+			const upper = (w: string) => w.toUpperCase();
+			expect(asTag(left("e").mapLeft(upper))).toEqual({
+				tag: "LEFT",
+				left: ["E"],
+			});
+			expect(asTag(both("w", 1).mapLeft(upper))).toEqual({
+				tag: "BOTH",
+				left: ["W"],
+				right: 1,
+			});
+		});
+
+		it("should leave a Right unchanged", () => {
+			const mapper = vi.fn();
+			expect(asTag(right(1).mapLeft(mapper))).toEqual({
+				tag: "RIGHT",
+				right: 1,
+			});
+			expect(mapper).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("bimap", () => {
+		it("should transform both sides of a Both", () => {
+			expect(
+				asTag(
+					both("w", 5).bimap(
+						(w) => w.toUpperCase(),
+						(x) => x * 2,
+					),
+				),
+			).toEqual({ tag: "BOTH", left: ["W"], right: 10 });
+		});
+	});
+
+	describe("flatMap", () => {
+		it("should return the mapper's result for a Right", () => {
+			expect(asTag(right(1).flatMap((x) => both("w", x + 1)))).toEqual({
+				tag: "BOTH",
+				left: ["w"],
+				right: 2,
+			});
+		});
+
+		it("should accumulate the warnings of two Boths", () => {
+			expect(asTag(both("w1", 1).flatMap((x) => both("w2", x + 1)))).toEqual({
+				tag: "BOTH",
+				left: ["w1", "w2"],
+				right: 2,
+			});
+		});
+
+		it("should keep the warnings of a Both when the mapper returns a Right", () => {
+			expect(asTag(both("w1", 1).flatMap((x) => right(x + 1)))).toEqual({
+				tag: "BOTH",
+				left: ["w1"],
+				right: 2,
+			});
+		});
+
+		it("should prepend the warnings of a Both to a Left returned by the mapper", () => {
+			expect(asTag(both("w1", 1).flatMap(() => left("fatal")))).toEqual({
+				tag: "LEFT",
+				left: ["w1", "fatal"],
+			});
+		});
+
+		it("should short-circuit on a Left", () => {
+			const mapper = vi.fn(() => right(1));
+			expect(asTag(left("e").flatMap(mapper))).toEqual({
+				tag: "LEFT",
+				left: ["e"],
+			});
+			expect(mapper).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("tap", () => {
+		it("should run the side effect with the value of a Right or Both", () => {
+			const sideEffect = vi.fn();
+			right(1).tap(sideEffect);
+			both("w", 2).tap(sideEffect);
+			left("e").tap(sideEffect);
+			expect(sideEffect.mock.calls).toEqual([[1], [2]]);
+		});
+	});
+
+	describe("match", () => {
+		it("should call the branch matching the state", () => {
+			const show = (these: These<string, number>) =>
+				these.match(
+					(errors) => `left ${errors.join(",")}`,
+					(value) => `right ${value}`,
+					(warnings, value) => `both ${warnings.join(",")} ${value}`,
+				);
+			expect(show(left("e"))).toBe("left e");
+			expect(show(right(1))).toBe("right 1");
+			expect(show(both("w", 1))).toBe("both w 1");
+		});
+	});
+
+	describe("isLeft / isRight / isBoth", () => {
+		it("should report the state", () => {
+			expect([
+				left("e").isLeft(),
+				left("e").isRight(),
+				left("e").isBoth(),
+			]).toEqual([true, false, false]);
+			expect([
+				right(1).isLeft(),
+				right(1).isRight(),
+				right(1).isBoth(),
+			]).toEqual([false, true, false]);
+			const b = both("w", 1);
+			expect([b.isLeft(), b.isRight(), b.isBoth()]).toEqual([
+				false,
+				false,
+				true,
+			]);
+		});
+	});
+
+	describe("toEither", () => {
+		it("should convert a Left to Left and keep the value of a Right or Both", () => {
+			expect(left("e").toEither().toResult()).toEqual({
+				ok: false,
+				error: ["e"],
+			});
+			expect(right(1).toEither().toResult()).toEqual({ ok: true, value: 1 });
+			expect(both("w", 1).toEither().toResult()).toEqual({
+				ok: true,
+				value: 1,
+			});
+		});
+	});
+
+	describe("toValidation", () => {
+		it("should convert a Left to Invalid and keep the value of a Right or Both", () => {
+			expect(left("e").toValidation().toResult()).toEqual({
+				ok: false,
+				errors: ["e"],
+			});
+			expect(right(1).toValidation().toResult()).toEqual({
+				ok: true,
+				value: 1,
+			});
+			expect(both("w", 1).toValidation().toResult()).toEqual({
+				ok: true,
+				value: 1,
+			});
+		});
+	});
+
+	describe(
+		"functor laws",
+		functorLawsSpec<These<string, number>>({
+			of: (value) => both("w", value),
+			map: (these, mapper) => these.map(mapper),
+			asTag,
+		}),
+	);
+
+	describe(
+		"monad laws",
+		monadLawsSpec<These<never, number>>({
+			of: (value) => right(value),
+			flatMap: (these, mapper) => these.flatMap(mapper),
+			asTag,
+		}),
+	);
+
+	describe(
+		"bifunctor laws",
+		bifunctorLawsSpec<These<number, number>>({
+			left: (value) => left(value),
+			right: (value) => right(value),
+			bimap: (these, onLeft, onRight) => these.bimap(onLeft, onRight),
+			mapLeft: (these, mapper) => these.mapLeft(mapper),
+			map: (these, mapper) => these.map(mapper),
+			asTag,
+		}),
+	);
+});
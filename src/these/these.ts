@@ -0,0 +1,257 @@
+import { createEither, type Either } from "../either/either.js";
+import { concat, map } from "../nonEmptyArray/helpers.js";
+import type { NonEmptyArray } from "../nonEmptyArray/model.js";
+import { createValidation, type Validation } from "../validation/validation.js";
+import type { TheseValue } from "./model.js";
+
+export type These<E, T> = {
+	/**
+	 * Transforms the value using a mapping function.
+	 * The warnings of a Both are kept; a Left is returned unchanged.
+	 *
+	 * @param mapper - Function to transform the value
+	 * @returns New These with the transformed value
+	 *
+	 * @example
+	 * ```typescript
+	 * right(5).map(x => x * 2)            // Right(10)
+	 * both("w", 5).map(x => x * 2)        // Both(["w"], 10)
+	 * left("e").map(x => x * 2)           // Left(["e"])
+	 * ```
+	 */
+	map: <U>(mapper: (value: T) => U) => These<E, U>;
+
+	/**
+	 * Transforms every warning of a Left or Both using a mapping function.
+	 * A Right is returned unchanged.
+	 *
+	 * @param mapper - Function to transform each warning
+	 * @returns New These with the transformed warnings
+	 *
+	 * @example
+	 * ```typescript
+	 * both("deprecated: port", config).mapLeft(w => `[config] ${w}`)
+	 * // Both(["[config] deprecated: port"], config)
+	 * ```
+	 */
+	mapLeft: <F>(mapper: (left: E) => F) => These<F, T>;
+
+	/**
+	 * Transforms both sides of the These at once.
+	 *
+	 * @param onLeft - Function to transform each warning
+	 * @param onRight - Function to transform the value
+	 * @returns New These with every present side transformed
+	 *
+	 * @example
+	 * ```typescript
+	 * both("w", 5).bimap(w => w.toUpperCase(), x => x * 2) // Both(["W"], 10)
+	 * ```
+	 */
+	bimap: <F, U>(
+		onLeft: (left: E) => F,
+		onRight: (right: T) => U,
+	) => These<F, U>;
+
+	/**
+	 * Chains These-returning operations together, accumulating warnings.
+	 * The warnings of this These are prepended to the warnings of the These returned by the mapper.
+	 * If this These is a Left, the mapper is not called.
+	 *
+	 * @param mapper - Function that takes the value and returns a These
+	 * @returns These with the mapper's value and all warnings collected so far
+	 *
+	 * @example
+	 * ```typescript
+	 * both("w1", raw).flatMap(r => both("w2", parse(r))) // Both(["w1", "w2"], parsed)
+	 * both("w1", raw).flatMap(() => left("fatal"))       // Left(["w1", "fatal"])
+	 * right(raw).flatMap(r => right(parse(r)))           // Right(parsed)
+	 * ```
+	 */
+	flatMap: <EE, U>(mapper: (value: T) => These<EE, U>) => These<E | EE, U>;
+
+	/**
+	 * Performs a side effect with the value, if present, and returns the same These.
+	 *
+	 * @param sideEffect - Function to execute with the value (return value is ignored)
+	 * @returns The same These
+	 *
+	 * @example
+	 * ```typescript
+	 * both("w", config).tap(c => console.log("Loaded", c)) // logs, returns Both(["w"], config)
+	 * ```
+	 */
+	tap: (sideEffect: (value: T) => void) => These<E, T>;
+
+	/**
+	 * Pattern matches on the These, executing a different function for each of its three states.
+	 *
+	 * @param onLeft - Function to execute with the warnings if Left
+	 * @param onRight - Function to execute with the value if Right
+	 * @param onBoth - Function to execute with the warnings and the value if Both
+	 * @returns The result of the executed function
+	 *
+	 * @example
+	 * ```typescript
+	 * loadConfig(raw).match(
+	 *   (errors) => fail(errors),
+	 *   (config) => start(config),
+	 *   (warnings, config) => { warnings.forEach(console.warn); start(config); },
+	 * )
+	 * ```
+	 */
+	match: <U>(
+		onLeft: (left: NonEmptyArray<E>) => U,
+		onRight: (right: T) => U,
+		onBoth: (left: NonEmptyArray<E>, right: T) => U,
+	) => U;
+
+	/**
+	 * Checks whether this These is Left - warnings without a value.
+	 *
+	 * @returns true if Left, false otherwise
+	 *
+	 * @example
+	 * ```typescript
+	 * left("e").isLeft()       // true
+	 * both("w", 1).isLeft()    // false
+	 * ```
+	 */
+	isLeft: () => boolean;
+
+	/**
+	 * Checks whether this These is Right - a value without warnings.
+	 *
+	 * @returns true if Right, false otherwise
+	 *
+	 * @example
+	 * ```typescript
+	 * right(1).isRight()       // true
+	 * both("w", 1).isRight()   // false
+	 * ```
+	 */
+	isRight: () => boolean;
+
+	/**
+	 * Checks whether this These is Both - a value together with warnings.
+	 *
+	 * @returns true if Both, false otherwise
+	 *
+	 * @example
+	 * ```typescript
+	 * both("w", 1).isBoth()    // true
+	 * right(1).isBoth()        // false
+	 * ```
+	 */
+	isBoth: () => boolean;
+
+	/**
+	 * Converts the These to an Either. A Both becomes a Right and its warnings are discarded;
+	 * use {@link match} to handle them first.
+	 *
+	 * @returns Left with the warnings if Left, otherwise Right with the value
+	 *
+	 * @example
+	 * ```typescript
+	 * both("w", 1).toEither()  // Right(1)
+	 * left("e").toEither()     // Left(["e"])
+	 * ```
+	 */
+	toEither: () => Either<NonEmptyArray<E>, T>;
+
+	/**
+	 * Converts the These to a Validation. A Both becomes Valid and its warnings are discarded;
+	 * use {@link match} to handle them first.
+	 *
+	 * @returns Invalid with the warnings if Left, otherwise Valid with the value
+	 *
+	 * @example
+	 * ```typescript
+	 * both("w", 1).toValidation()  // Valid(1)
+	 * left("e").toValidation()     // Invalid(["e"])
+	 * ```
+	 */
+	toValidation: () => Validation<E, T>;
+};
+
+export function createThese<E, T>(value: TheseValue<E, T>): These<E, T> {
+	const these: These<E, T> = {
+		map: <U>(mapper: (value: T) => U): These<E, U> =>
+			these.match(
+				(left) => createThese<E, U>({ left }),
+				(right) => createThese<E, U>({ right: mapper(right) }),
+				(left, right) => createThese<E, U>({ left, right: mapper(right) }),
+			),
+
+		mapLeft: <F>(mapper: (left: E) => F): These<F, T> =>
+			these.match(
+				(left) => createThese<F, T>({ left: map(left, mapper) }),
+				(right) => createThese<F, T>({ right }),
+				(left, right) => createThese<F, T>({ left: map(left, mapper), right }),
+			),
+
+		bimap: <F, U>(
+			onLeft: (left: E) => F,
+			onRight: (right: T) => U,
+		): These<F, U> => these.map(onRight).mapLeft(onLeft),
+
+		flatMap: <EE, U>(mapper: (value: T) => These<EE, U>): These<E | EE, U> =>
+			these.match(
+				(left) => createThese<E | EE, U>({ left }),
+				(right) => mapper(right) as These<E | EE, U>,
+				(left, right) =>
+					mapper(right).match(
+						(next) =>
+							createThese<E | EE, U>({ left: concat<E | EE>(left, next) }),
+						(value) => createThese<E | EE, U>({ left, right: value }),
+						(next, value) =>
+							createThese<E | EE, U>({
+								left: concat<E | EE>(left, next),
+								right: value,
+							}),
+					),
+			),
+
+		tap: (sideEffect) => {
+			these.match(
+				() => {},
+				sideEffect,
+				(_, right) => sideEffect(right),
+			);
+			return these;
+		},
+
+		match: <U>(
+			onLeft: (left: NonEmptyArray<E>) => U,
+			onRight: (right: T) => U,
+			onBoth: (left: NonEmptyArray<E>, right: T) => U,
+		) =>
+			"left" in value
+				? "right" in value
+					? onBoth(value.left, value.right)
+					: onLeft(value.left)
+				: onRight(value.right),
+
+		isLeft: () => "left" in value && !("right" in value),
+
+		isRight: () => !("left" in value),
+
+		isBoth: () => "left" in value && "right" in value,
+
+		toEither: () =>
+			these.match(
+				(left) => createEither<NonEmptyArray<E>, T>({ left }),
+				(right) => createEither<NonEmptyArray<E>, T>({ right }),
+				(_, right) => createEither<NonEmptyArray<E>, T>({ right }),
+			),
+
+		toValidation: () =>
+			these.match(
+				(left) => createValidation<E, T>({ invalid: left }),
+				(right) => createValidation<E, T>({ valid: right }),
+				(_, right) => createValidation<E, T>({ valid: right }),
+			),
+	};
+
+	return these;
+}
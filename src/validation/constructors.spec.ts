@@ -1,7 +1,15 @@
 import { describe, expect, it } from "vitest";
 import { left, right } from "../either.js";
+import { nonEmptyArray } from "../nonEmptyArray.js";
 import { none, some } from "../option.js";
-import { fromEither, fromOption, invalid, valid } from "./constructors.js";
+import {
+	fromEither,
+	fromOption,
+	fromPredicate,
+	fromResult,
+	invalid,
+	valid,
+} from "./constructors.js";
 
 describe("validation constructors", () => {
 	describe("valid", () => {
@@ -48,4 +56,32 @@ describe("validation constructors", () => {
 			});
 		});
 	});
+
+	describe("fromResult", () => {
+		it("should return valid on ok result", () => {
+			expect(fromResult({ ok: true, value: 2 }).toResult()).toEqual(
+				valid(2).toResult(),
+			);
+		});
+
+		it("should return invalid with all errors on not ok result", () => {
+			const errors = nonEmptyArray("e1", "e2");
+			expect(fromResult({ ok: false, errors }).toResult()).toEqual({
+				ok: false,
+				errors,
+			});
+		});
+	});
+
+	describe("fromPredicate", () => {
+		it("should return valid when the predicate holds and invalid otherwise", () => {
+			const nonEmpty = (s: string) => s.length > 0;
+			expect(
+				fromPredicate("Alice", nonEmpty, () => "required").toResult(),
+			).toEqual(valid("Alice").toResult());
+			expect(fromPredicate("", nonEmpty, () => "required").toResult()).toEqual(
+				invalid("required").toResult(),
+			);
+		});
+	});
 });
@@ -1,5 +1,6 @@
 import type { Either } from "../either.js";
 import type { Option } from "../option.js";
+import type { ValidationResult } from "./model.js";
 import { createValidation, type Validation } from "./validation.js";
 
 /**
@@ -32,6 +33,39 @@ export function invalid<E, T = never>(error: E): Validation<E, T> {
 	return createValidation({ invalid: [error] });
 }
 
+/**
+ * Creates a Validation from a value and a predicate.
+ * When the predicate is a type guard, the value type is narrowed accordingly.
+ *
+ * @param value - The value to test
+ * @param predicate - Function that tests the value
+ * @param onFalse - Function that provides the error when the predicate fails
+ * @returns Valid containing the value if the predicate holds, otherwise Invalid with the provided error
+ *
+ * @example
+ * ```typescript
+ * fromPredicate("Alice", (s) => s.length > 0, () => "Name is required") // Valid("Alice")
+ * fromPredicate("", (s) => s.length > 0, () => "Name is required")      // Invalid(["Name is required"])
+ * ```
+ */
+export function fromPredicate<E, T, U extends T>(
+	value: T,
+	refinement: (value: T) => value is U,
+	onFalse: (value: T) => E,
+): Validation<E, U>;
+export function fromPredicate<E, T>(
+	value: T,
+	predicate: (value: T) => boolean,
+	onFalse: (value: T) => E,
+): Validation<E, T>;
+export function fromPredicate<E, T>(
+	value: T,
+	predicate: (value: T) => boolean,
+	onFalse: (value: T) => E,
+): Validation<E, T> {
+	return predicate(value) ? valid<T, E>(value) : invalid<E, T>(onFalse(value));
+}
+
 /**
  * Creates a Validation from an Either.
  * Right values become Valid, Left values become Invalid (with a single error).
@@ -75,3 +109,39 @@ export function fromOption<E, T>(
 		(value) => valid<T, E>(value),
 	);
 }
+
+/**
+ * Creates a Validation from a plain result object, e.g. one produced by {@link Validation.toResult}
+ * or received over the wire.
+ *
+ * @param result - Result object with `ok` and either `value` or `errors`
+ * @returns Valid containing `value` if `ok` is true, otherwise Invalid containing `errors`
+ *
+ * @example
+ * ```typescript
+ * fromResult({ ok: true, value: 42 })              // Valid(42)
+ * fromResult({ ok: false, errors: ["e1", "e2"] })  // Invalid(["e1", "e2"])
+ * ```
+ */
+export function fromResult<E, T>(
+	result: ValidationResult<E, T>,
+): Validation<E, T> {
+	return result.ok
+		? createValidation({ valid: result.value })
+		: createValidation({ invalid: result.errors });
+}
+
+/**
+ * A Validation containing an empty valid record - the starting point of do-notation.
+ * Use `apS` to add independent fields (their errors accumulate), and `bind` or `let`
+ * for fields that depend on previously added ones.
+ *
+ * @example
+ * ```typescript
+ * Do.apS("name", validateName(input.name))
+ *   .apS("age", validateAge(input.age))
+ *   .let("label", ({ name, age }) => `${name} (${age})`)
+ * // Valid({ name, age, label }) or Invalid with the errors of both fields
+ * ```
+ */
+export const Do: Validation<never, Readonly<Record<never, never>>> = valid({});
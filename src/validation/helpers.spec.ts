@@ -1,6 +1,19 @@
 import { describe, expect, it, vi } from "vitest";
+import { task } from "../task/constructors.js";
+import { traversableSpec } from "../testUtils/traversable.js";
 import { invalid, valid } from "./constructors.js";
-import { map2, map3, sequence } from "./helpers.js";
+import {
+	map2,
+	map3,
+	mapN,
+	sequence,
+	struct,
+	traverse,
+	traverseTask,
+	traverseWithIndex,
+	zipAll,
+} from "./helpers.js";
+import type { Validation } from "./validation.js";
 
 describe("validation helpers", () => {
 	describe("map2", () => {
@@ -80,6 +93,74 @@ describe("validation helpers", () => {
 		});
 	});
 
+	describe("mapN", () => {
+		it("should only accept Validations", () => {
+			// @ts-expect-error numbers are not Validations
+			const invalid = () => mapN([1, 2], (a, b) => [a, b]);
+			expect(invalid).toThrow(TypeError);
+		});
+
+		it("should map all valid values", () => {
+			const result = mapN([valid(2), valid("x"), valid(true)], (a, b, c) =>
+				c ? b.repeat(a) : b,
+			);
+			expect(result.toResult()).toEqual({ ok: true, value: "xx" });
+		});
+
+		it("should not call the mapper and accumulate all errors", () => {
+			const mapper = vi.fn();
+			const result = mapN(
+				[invalid("e1"), valid(2), invalid("e2"), invalid("e3")],
+				mapper,
+			);
+			expect(result.toResult()).toEqual({
+				ok: false,
+				errors: ["e1", "e2", "e3"],
+			});
+			expect(mapper).not.toBeCalled();
+		});
+	});
+
+	describe("zipAll", () => {
+		it("should return valid tuple of all values", () => {
+			const result = zipAll(valid(1), valid("two"), valid(true));
+			expect(result.toResult()).toEqual({ ok: true, value: [1, "two", true] });
+		});
+
+		it("should accumulate all errors", () => {
+			const result = zipAll(invalid("e1"), valid(1), invalid(2));
+			expect(result.toResult()).toEqual({ ok: false, errors: ["e1", 2] });
+		});
+	});
+
+	describe("struct", () => {
+		it("should only accept records of Validations", () => {
+			// @ts-expect-error plain values are not Validations
+			const invalid = () => struct({ name: "Alice", age: 30 });
+			expect(invalid).toThrow(TypeError);
+		});
+
+		it("should return valid record of all values", () => {
+			const result = struct({ name: valid("Alice"), age: valid(30) });
+			expect(result.toResult()).toEqual({
+				ok: true,
+				value: { name: "Alice", age: 30 },
+			});
+		});
+
+		it("should accumulate the errors of all fields", () => {
+			const result = struct({
+				name: invalid("Name is required"),
+				email: valid("alice@example.com"),
+				age: invalid("Age must be positive"),
+			});
+			expect(result.toResult()).toEqual({
+				ok: false,
+				errors: ["Name is required", "Age must be positive"],
+			});
+		});
+	});
+
 	describe("sequence", () => {
 		it("should return valid with array of values when all are valid", () => {
 			const result = sequence([valid(1), valid(2), valid(3)]);
@@ -100,4 +181,55 @@ describe("validation helpers", () => {
 			expect(result.toResult()).toEqual({ ok: true, value: [] });
 		});
 	});
+
+	describe("traverse", () => {
+		it("should map every item and accumulate all errors", () => {
+			const mapper = vi.fn((n: number) =>
+				n > 0
+					? valid<number, string>(n)
+					: invalid<string, number>(`${n} is not positive`),
+			);
+			const result = traverse([1, -2, 3, -4], mapper);
+			expect(result.toResult()).toEqual({
+				ok: false,
+				errors: ["-2 is not positive", "-4 is not positive"],
+			});
+			expect(mapper).toHaveBeenCalledTimes(4);
+		});
+	});
+
+	describe(
+		"traversable",
+		traversableSpec<Validation<string, unknown>, Validation<string, unknown[]>>(
+			{
+				of: (value) => valid(value),
+				fail: () => invalid("error"),
+				sequence,
+				traverse,
+				traverseWithIndex,
+				asTag: (v) => v.toResult(),
+			},
+		),
+	);
+
+	describe("traverseTask", () => {
+		it("should return a task of valid with the mapped value", async () => {
+			const t = traverseTask(valid(2), (x) => task(x * 2));
+			expect((await t.run()).toResult()).toEqual(valid(4).toResult());
+		});
+
+		it("should keep all errors without calling the mapper", async () => {
+			const mapper = vi.fn((x: number) => task(x));
+			const errors = valid<number, string>(1)
+				.zip(invalid("e1"))
+				.zip(invalid("e2"))
+				.map(([[a]]) => a);
+			const t = traverseTask(errors, mapper);
+			expect((await t.run()).toResult()).toEqual({
+				ok: false,
+				errors: ["e1", "e2"],
+			});
+			expect(mapper).not.toHaveBeenCalled();
+		});
+	});
 });
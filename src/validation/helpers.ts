@@ -1,4 +1,11 @@
-import { createValidation, type Validation } from "./validation.js";
+import { fromEntries } from "../internal/record.js";
+import { isNonEmpty } from "../nonEmptyArray/helpers.js";
+import { createTask, type Task } from "../task/task.js";
+import {
+	type AnyValidation,
+	createValidation,
+	type Validation,
+} from "./validation.js";
 
 /**
  * Combines two Validations using a mapping function.
@@ -16,6 +23,8 @@ import { createValidation, type Validation } from "./validation.js";
  * map2(invalid("e1"), invalid("e2"), mapper)
  * // Invalid(["e1", "e2"])
  * ```
+ *
+ * @deprecated Use {@link mapN} instead, e.g. `mapN([valA, valB], mapper)`.
  */
 export function map2<EA, A, EB, B, C>(
 	valA: Validation<EA, A>,
@@ -42,6 +51,8 @@ export function map2<EA, A, EB, B, C>(
  * map3(invalid("e1"), valid(2), invalid("e3"), mapper)
  * // Invalid(["e1", "e3"])
  * ```
+ *
+ * @deprecated Use {@link mapN} instead, e.g. `mapN([valA, valB, valC], mapper)`.
  */
 export function map3<EA, A, EB, B, EC, C, D>(
 	valA: Validation<EA, A>,
@@ -55,6 +66,87 @@ export function map3<EA, A, EB, B, EC, C, D>(
 		.ap(valC);
 }
 
+type ErrorOf<V> = V extends Validation<infer E, infer _T> ? E : never;
+
+type ValuesOf<Validations extends readonly unknown[]> = {
+	[K in keyof Validations]: Validations[K] extends Validation<infer _E, infer A>
+		? A
+		: never;
+};
+
+/**
+ * Combines any number of Validations using a mapping function.
+ * If all are Valid, applies the mapper. If any are Invalid, accumulates the errors of all of them.
+ * The mapper receives the valid values in the same order, with their types inferred from the tuple,
+ * and the error type is the union of all error types.
+ *
+ * @param validations - Tuple of Validations to combine
+ * @param mapper - Function that receives every valid value and combines them
+ * @returns Validation containing the mapped result, or all accumulated errors
+ *
+ * @example
+ * ```typescript
+ * mapN([validateName(name), validateAge(age), validateEmail(email)], (name, age, email) => ({ name, age, email }))
+ * // Valid({ name, age, email }) or Invalid with every field error
+ * ```
+ */
+export function mapN<const Validations extends readonly AnyValidation[], U>(
+	validations: Validations,
+	mapper: (...values: ValuesOf<Validations>) => U,
+): Validation<ErrorOf<Validations[number]>, U> {
+	return sequence(
+		validations as unknown as Validation<
+			ErrorOf<Validations[number]>,
+			unknown
+		>[],
+	).map((values) => mapper(...(values as unknown as ValuesOf<Validations>)));
+}
+
+/**
+ * Combines any number of Validations into a Validation of tuple.
+ * If all are Valid, returns Valid containing a tuple of all values. Otherwise accumulates all errors.
+ *
+ * @param validations - Validations to combine
+ * @returns Validation containing a tuple of all values, or all accumulated errors
+ *
+ * @example
+ * ```typescript
+ * zipAll(valid("Alice"), valid(30))            // Valid(["Alice", 30])
+ * zipAll(invalid("e1"), valid(30), invalid("e2")) // Invalid(["e1", "e2"])
+ * ```
+ */
+export function zipAll<const Validations extends readonly AnyValidation[]>(
+	...validations: Validations
+): Validation<ErrorOf<Validations[number]>, ValuesOf<Validations>> {
+	return mapN(validations, (...values) => values);
+}
+
+type StructOf<R> = {
+	[K in keyof R]: R[K] extends Validation<infer _E, infer A> ? A : never;
+};
+
+/**
+ * Combines a record of Validations into a Validation of record, preserving the keys and their value types.
+ * If all are Valid, returns Valid with a record of all values. Otherwise accumulates the errors of every field.
+ *
+ * @param record - Record whose values are Validations
+ * @returns Validation containing a record of all values, or all accumulated errors
+ *
+ * @example
+ * ```typescript
+ * struct({ name: validateName(input.name), age: validateAge(input.age) })
+ * // Validation<NameError | AgeError, { name: string; age: number }>
+ * ```
+ */
+export function struct<R extends Readonly<Record<string, AnyValidation>>>(
+	record: R,
+): Validation<ErrorOf<R[keyof R]>, StructOf<R>> {
+	const keys = Object.keys(record);
+	return sequence(
+		keys.map((key) => record[key] as Validation<ErrorOf<R[keyof R]>, unknown>),
+	).map((values) => fromEntries<StructOf<R>>(keys, values));
+}
+
 /**
  * Converts an array of Validations into a Validation of array.
  * Returns Valid with all values if all Validations are Valid, otherwise accumulates all errors.
@@ -71,17 +163,89 @@ export function map3<EA, A, EB, B, EC, C, D>(
 export function sequence<E, T>(
 	validations: readonly Validation<E, T>[],
 ): Validation<E, T[]> {
+	return traverse(validations, (v) => v);
+}
+
+/**
+ * Maps each item of an array to a Validation and collects the results into a Validation of array.
+ * Every item is mapped: if any mapped Validation is Invalid, the errors of all of them are accumulated.
+ *
+ * @param items - Array of items to map
+ * @param mapper - Function that maps an item to a Validation
+ * @returns Validation containing array of all mapped values, or all accumulated errors
+ *
+ * @example
+ * ```typescript
+ * const positive = (n: number) => n > 0 ? valid(n) : invalid(`${n} is not positive`);
+ * traverse([1, 2, 3], positive)   // Valid([1, 2, 3])
+ * traverse([1, -2, -3], positive) // Invalid(["-2 is not positive", "-3 is not positive"])
+ * ```
+ */
+export function traverse<A, E, B>(
+	items: readonly A[],
+	mapper: (item: A) => Validation<E, B>,
+): Validation<E, B[]> {
+	return traverseWithIndex(items, (item) => mapper(item));
+}
+
+/**
+ * Like {@link traverse}, but the mapper also receives the index of each item.
+ *
+ * @param items - Array of items to map
+ * @param mapper - Function that maps an item and its index to a Validation
+ * @returns Validation containing array of all mapped values, or all accumulated errors
+ *
+ * @example
+ * ```typescript
+ * traverseWithIndex(rows, (row, i) =>
+ *   row.email ? valid(row) : invalid(`Row ${i}: email is required`),
+ * )
+ * ```
+ */
+export function traverseWithIndex<A, E, B>(
+	items: readonly A[],
+	mapper: (item: A, index: number) => Validation<E, B>,
+): Validation<E, B[]> {
 	const errors: E[] = [];
-	const values: T[] = [];
+	const values: B[] = [];
 
-	for (const v of validations) {
-		v.match(
+	for (const [index, item] of items.entries()) {
+		mapper(item, index).match(
 			(errs) => errors.push(...errs),
 			(value) => values.push(value),
 		);
 	}
 
-	return errors.length > 0
+	return isNonEmpty(errors)
 		? createValidation({ invalid: errors })
 		: createValidation({ valid: values });
 }
+
+/**
+ * Maps the Valid value of a Validation to a Task and flips the result into a Task of Validation.
+ * The mapper is only called when the Validation is Valid, and not until the Task is run.
+ *
+ * @param validation - Validation holding the input value
+ * @param mapper - Function that maps the Valid value to a Task
+ * @returns Task resolving with Valid of the mapped value, or with the original errors
+ *
+ * @example
+ * ```typescript
+ * await traverseTask(valid(form), submit).run() // Valid(response)
+ * await traverseTask(invalid("name is required"), submit).run() // Invalid(["name is required"])
+ * ```
+ */
+export function traverseTask<E, A, B>(
+	validation: Validation<E, A>,
+	mapper: (value: A) => Task<B>,
+): Task<Validation<E, B>> {
+	return createTask((signal) =>
+		validation.match(
+			(errors) => Promise.resolve(createValidation<E, B>({ invalid: errors })),
+			(value) =>
+				mapper(value)
+					.map((result) => createValidation<E, B>({ valid: result }))
+					.run(signal),
+		),
+	);
+}
@@ -1,13 +1,15 @@
+import type { NonEmptyArray } from "../nonEmptyArray/model.js";
+
 export type Valid<T> = {
 	readonly valid: T;
 };
 
 export type Invalid<E> = {
-	readonly invalid: readonly E[];
+	readonly invalid: NonEmptyArray<E>;
 };
 
 export type ValidationValue<E, T> = Valid<T> | Invalid<E>;
 
 export type ValidationResult<E, T> =
 	| { readonly ok: true; readonly value: T }
-	| { readonly ok: false; readonly errors: readonly E[] };
+	| { readonly ok: false; readonly errors: NonEmptyArray<E> };
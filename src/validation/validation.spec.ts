@@ -1,7 +1,10 @@
 import { describe, expect, it, vi } from "vitest";
+import { left, right } from "../either/constructors.js";
 import { applicativeLawsSpec } from "../testUtils/applicativeLaws.js";
+import { bifunctorLawsSpec } from "../testUtils/bifunctorLaws.js";
 import { functorLawsSpec } from "../testUtils/functorLaws.js";
-import { invalid, valid } from "./constructors.js";
+import { monadLawsSpec } from "../testUtils/monadLaws.js";
+import { Do, invalid, valid } from "./constructors.js";
 import type { Validation } from "./validation.js";
 
 describe("validation", () => {
@@ -34,6 +37,14 @@ describe("validation", () => {
 			expect(result).toBe(v);
 			expect(predicate).not.toHaveBeenCalled();
 		});
+
+		it("should narrow the value type with a type guard", () => {
+			const isString = (x: unknown): x is string => typeof x === "string";
+			const v: Validation<string, string> = valid<string | number, string>(
+				"a",
+			).filterOrElse(isString, () => "not a string");
+			expect(v.toResult()).toEqual(valid("a").toResult());
+		});
 	});
 
 	describe("map", () => {
@@ -99,6 +110,16 @@ describe("validation", () => {
 			);
 			expect(result).toBe(1);
 		});
+
+		it("should pass a non-empty error list to onInvalid", () => {
+			const result = invalid<string, number>("first")
+				.zip(invalid("second"))
+				.match(
+					(errors) => errors[0].toUpperCase(),
+					() => "",
+				);
+			expect(result).toBe("FIRST");
+		});
 	});
 
 	describe("getOrElse", () => {
@@ -189,6 +210,177 @@ describe("validation", () => {
 		});
 	});
 
+	describe("bindTo", () => {
+		it("should wrap the valid value in a record", () => {
+			expect(valid(2).bindTo("x").toResult()).toEqual({
+				ok: true,
+				value: { x: 2 },
+			});
+		});
+	});
+
+	describe("bind", () => {
+		it("should accumulate bound values in the record", () => {
+			const v = Do.bind("x", () => valid(2)).bind("y", ({ x }) => valid(x * 3));
+			expect(v.toResult()).toEqual({ ok: true, value: { x: 2, y: 6 } });
+		});
+
+		it("should short-circuit on invalid and not call later mappers", () => {
+			const mapper = vi.fn();
+			const v = Do.bind("x", () => invalid("e1")).bind("y", mapper);
+			expect(v.toResult()).toEqual({ ok: false, errors: ["e1"] });
+			expect(mapper).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("let", () => {
+		it("should add a computed value to the record", () => {
+			const v = Do.apS("x", valid(2)).let("double", ({ x }) => x * 2);
+			expect(v.toResult()).toEqual({ ok: true, value: { x: 2, double: 4 } });
+		});
+	});
+
+	describe("apS", () => {
+		it("should add the value of an independent validation to the record", () => {
+			const v = Do.apS("x", valid(2)).apS("y", valid("two"));
+			expect(v.toResult()).toEqual({ ok: true, value: { x: 2, y: "two" } });
+		});
+
+		it("should accumulate the errors of independent validations", () => {
+			const v = Do.apS("x", invalid("e1"))
+				.apS("y", valid(2))
+				.apS("z", invalid("e2"));
+			expect(v.toResult()).toEqual({ ok: false, errors: ["e1", "e2"] });
+		});
+	});
+
+	describe("mapErrors", () => {
+		it("should map every error", () => {
+			const v = invalid<string, number>("e1")
+				.zip(invalid("e2"))
+				.mapErrors((e) => e.toUpperCase());
+			expect(v.toResult()).toEqual({ ok: false, errors: ["E1", "E2"] });
+		});
+
+		it("should not call the mapper when value is valid", () => {
+			const mapper = vi.fn();
+			const v = valid(2);
+			expect(v.mapErrors(mapper).toResult()).toEqual(v.toResult());
+			expect(mapper).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("bimap", () => {
+		it("should map the valid value with the valid mapper", () => {
+			const v = valid<number, string>(5).bimap(
+				(e) => e.length,
+				(x) => x * 2,
+			);
+			expect(v.toResult()).toEqual(valid(10).toResult());
+		});
+
+		it("should map the errors with the error mapper", () => {
+			const v = invalid<string, number>("oops").bimap(
+				(e) => e.length,
+				(x) => x * 2,
+			);
+			expect(v.toResult()).toEqual(invalid(4).toResult());
+		});
+	});
+
+	describe("orElse", () => {
+		it("should return the same validation and not call the fallback when value is valid", () => {
+			const fallback = vi.fn();
+			const v = valid(2);
+			expect(v.orElse(fallback).toResult()).toEqual(v.toResult());
+			expect(fallback).not.toHaveBeenCalled();
+		});
+
+		it("should pass all errors to the fallback when value is invalid", () => {
+			const fallback = vi.fn(() => valid<number, string>(0));
+			const v = invalid<string, number>("e1").zip(invalid("e2"));
+			const result = v.map(([a]) => a).orElse(fallback);
+			expect(result.toResult()).toEqual(valid(0).toResult());
+			expect(fallback).toHaveBeenCalledWith(["e1", "e2"]);
+		});
+	});
+
+	describe("flatMap", () => {
+		const parse = (s: string) =>
+			Number.isNaN(Number(s))
+				? invalid<string, number>("not a number")
+				: valid<number, string>(Number(s));
+
+		it("should map and flatten the valid value", () => {
+			expect(valid("42").flatMap(parse).toResult()).toEqual(
+				valid(42).toResult(),
+			);
+			expect(valid("abc").flatMap(parse).toResult()).toEqual(
+				invalid("not a number").toResult(),
+			);
+		});
+
+		it("should keep the errors and not call the mapper when value is invalid", () => {
+			const mapper = vi.fn();
+			const v = invalid("missing");
+			expect(v.flatMap(mapper).toResult()).toEqual(v.toResult());
+			expect(mapper).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("isValid", () => {
+		it("should return true on valid and false on invalid", () => {
+			expect(valid(2).isValid()).toBe(true);
+			expect(invalid("error").isValid()).toBe(false);
+		});
+	});
+
+	describe("isInvalid", () => {
+		it("should return true on invalid and false on valid", () => {
+			expect(invalid("error").isInvalid()).toBe(true);
+			expect(valid(2).isInvalid()).toBe(false);
+		});
+	});
+
+	describe("exists", () => {
+		it("should return the predicate result on valid", () => {
+			expect(valid(5).exists((n) => n > 3)).toBe(true);
+			expect(valid(2).exists((n) => n > 3)).toBe(false);
+		});
+
+		it("should return false and not call the predicate on invalid", () => {
+			const predicate = vi.fn();
+			expect(invalid("error").exists(predicate)).toBe(false);
+			expect(predicate).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("contains", () => {
+		it("should compare the valid value with the given value", () => {
+			expect(valid(5).contains(5)).toBe(true);
+			expect(valid(5).contains(6)).toBe(false);
+			expect(invalid<number, number>(5).contains(5)).toBe(false);
+		});
+	});
+
+	describe("toEither", () => {
+		it("should return right on valid", () => {
+			expect(valid(2).toEither().toResult()).toEqual(right(2).toResult());
+		});
+
+		it("should return left with all errors on invalid", () => {
+			const v = invalid("e1").zip(invalid("e2"));
+			expect(v.toEither().toResult()).toEqual(left(["e1", "e2"]).toResult());
+		});
+	});
+
+	describe("toOption", () => {
+		it("should return some on valid and none on invalid", () => {
+			expect(valid(0).toOption().toNullable()).toBe(0);
+			expect(invalid("error").toOption().toNullable()).toBe(null);
+		});
+	});
+
 	describe(
 		"functor laws",
 		functorLawsSpec<Validation<never, number>>({
@@ -207,4 +399,25 @@ describe("validation", () => {
 			asTag: (v) => v.toResult(),
 		}),
 	);
+
+	describe(
+		"monad laws",
+		monadLawsSpec<Validation<never, number>>({
+			of: (value) => valid(value),
+			flatMap: (v, mapper) => v.flatMap(mapper),
+			asTag: (v) => v.toResult(),
+		}),
+	);
+
+	describe(
+		"bifunctor laws",
+		bifunctorLawsSpec<Validation<number, number>>({
+			left: (value) => invalid(value),
+			right: (value) => valid(value),
+			bimap: (v, onInvalid, onValid) => v.bimap(onInvalid, onValid),
+			mapLeft: (v, mapper) => v.mapErrors(mapper),
+			map: (v, mapper) => v.map(mapper),
+			asTag: (v) => v.toResult(),
+		}),
+	);
 });
@@ -1,3 +1,9 @@
+import { createEither, type Either } from "../either/either.js";
+import { extend } from "../internal/record.js";
+import { concat, map } from "../nonEmptyArray/helpers.js";
+import type { NonEmptyArray } from "../nonEmptyArray/model.js";
+import { NONE } from "../option/model.js";
+import { createOption, type Option } from "../option/option.js";
 import type { Valid, ValidationResult, ValidationValue } from "./model.js";
 
 export type Validation<E, T> = {
@@ -5,6 +11,7 @@ export type Validation<E, T> = {
 	 * Filters the Valid value based on a predicate function.
 	 * If the predicate fails, returns Invalid with the provided error.
 	 * If this Validation is already Invalid, returns the same Invalid unchanged.
+	 * When the predicate is a type guard, the value type is narrowed accordingly.
 	 *
 	 * @param predicate - Function that tests the valid value
 	 * @param onInvalid - Function that provides the error value when predicate fails
@@ -16,12 +23,18 @@ export type Validation<E, T> = {
 	 * valid(5).filterOrElse(isPositive, () => "Must be positive")   // Valid(5)
 	 * valid(-3).filterOrElse(isPositive, () => "Must be positive")  // Invalid(["Must be positive"])
 	 * invalid("error").filterOrElse(isPositive, () => "Must be positive") // Invalid(["error"])
+	 *
+	 * const isString = (x: unknown): x is string => typeof x === "string";
+	 * valid<string | number, string>("a").filterOrElse(isString, () => "Not a string") // Validation<string, string>
 	 * ```
 	 */
-	filterOrElse: (
-		predicate: (value: T) => boolean,
-		onInvalid: () => E,
-	) => Validation<E, T>;
+	filterOrElse: {
+		<U extends T>(
+			refinement: (value: T) => value is U,
+			onInvalid: () => E,
+		): Validation<E, U>;
+		(predicate: (value: T) => boolean, onInvalid: () => E): Validation<E, T>;
+	};
 
 	/**
 	 * Transforms the valid value using a mapping function.
@@ -32,6 +45,84 @@ export type Validation<E, T> = {
 	 */
 	map: <U>(mapper: (value: T) => U) => Validation<E, U>;
 
+	/**
+	 * Transforms every error of an Invalid using a mapping function.
+	 * If this Validation is Valid, returns the same Valid unchanged.
+	 *
+	 * @typeParam EE - The type of the transformed errors
+	 * @param mapper - Function to transform each error
+	 * @returns New Validation with the transformed errors, or the same Valid
+	 *
+	 * @example
+	 * ```typescript
+	 * invalid("too short").mapErrors(e => ({ field: "name", message: e }))
+	 * // Invalid([{ field: "name", message: "too short" }])
+	 * valid(5).mapErrors(e => e.toUpperCase()) // Valid(5)
+	 * ```
+	 */
+	mapErrors: <EE>(mapper: (error: E) => EE) => Validation<EE, T>;
+
+	/**
+	 * Transforms both sides of the Validation at once.
+	 * The error mapper is applied to every error of an Invalid.
+	 *
+	 * @typeParam EE - The type of the transformed errors
+	 * @typeParam U - The type of the transformed value
+	 * @param onInvalid - Function to transform each error
+	 * @param onValid - Function to transform the valid value
+	 * @returns New Validation with the applicable side transformed
+	 *
+	 * @example
+	 * ```typescript
+	 * valid(5).bimap(e => `Error: ${e}`, x => x * 2)        // Valid(10)
+	 * invalid("oops").bimap(e => `Error: ${e}`, x => x * 2) // Invalid(["Error: oops"])
+	 * ```
+	 */
+	bimap: <EE, U>(
+		onInvalid: (error: E) => EE,
+		onValid: (value: T) => U,
+	) => Validation<EE, U>;
+
+	/**
+	 * Returns this Validation if it's Valid, otherwise returns the result of the fallback function.
+	 *
+	 * @typeParam EE - The type of the errors in the fallback Validation
+	 * @param fallback - Function that receives the errors and returns an alternative Validation
+	 * @returns This Validation if Valid, otherwise the Validation returned by the fallback function
+	 *
+	 * @example
+	 * ```typescript
+	 * valid(42).orElse(() => valid(0))           // Valid(42)
+	 * invalid("error").orElse(() => valid(0))    // Valid(0)
+	 * ```
+	 */
+	orElse: <EE>(
+		fallback: (errors: NonEmptyArray<E>) => Validation<EE, T>,
+	) => Validation<E | EE, T>;
+
+	/**
+	 * Chains Validation-returning operations together.
+	 * Because the mapper needs the valid value, errors are short-circuited, not accumulated:
+	 * the mapper is not called when this Validation is Invalid. Use {@link ap} or {@link zip}
+	 * for independent validations so their errors accumulate.
+	 *
+	 * @typeParam EE - The error type of the Validation returned by the mapper
+	 * @typeParam U - The value type of the Validation returned by the mapper
+	 * @param mapper - Function that takes the valid value and returns a Validation
+	 * @returns The Validation returned by mapper if this Validation is Valid, otherwise this Invalid unchanged
+	 *
+	 * @example
+	 * ```typescript
+	 * const parseAge = (s: string) => (/^\d+$/.test(s) ? valid(Number(s)) : invalid("not a number"));
+	 * valid("42").flatMap(parseAge)         // Valid(42)
+	 * valid("abc").flatMap(parseAge)        // Invalid(["not a number"])
+	 * invalid("missing").flatMap(parseAge)  // Invalid(["missing"]) - mapper not called
+	 * ```
+	 */
+	flatMap: <EE, U>(
+		mapper: (value: T) => Validation<EE, U>,
+	) => Validation<E | EE, U>;
+
 	/**
 	 * Applies a function wrapped in a Validation to a value wrapped in a Validation.
 	 * Unlike Either, if both are Invalid, errors are accumulated (concatenated).
@@ -77,7 +168,7 @@ export type Validation<E, T> = {
 	 * @returns The result of the executed function
 	 */
 	match: <U>(
-		onInvalid: (errors: readonly E[]) => U,
+		onInvalid: (errors: NonEmptyArray<E>) => U,
 		onValid: (value: T) => U,
 	) => U;
 
@@ -87,7 +178,7 @@ export type Validation<E, T> = {
 	 * @param fallback - Function that receives the errors and returns a default value
 	 * @returns The valid value if present, otherwise the result of the fallback function
 	 */
-	getOrElse: (fallback: (errors: readonly E[]) => T) => T;
+	getOrElse: (fallback: (errors: NonEmptyArray<E>) => T) => T;
 
 	/**
 	 * Performs a side effect if this Validation is Valid, returning the original Validation unchanged.
@@ -105,7 +196,142 @@ export type Validation<E, T> = {
 	 * @param sideEffect - Function to execute with the errors array (return value is ignored)
 	 * @returns The same Validation instance unchanged
 	 */
-	tapInvalid: (sideEffect: (errors: readonly E[]) => void) => Validation<E, T>;
+	tapInvalid: (
+		sideEffect: (errors: NonEmptyArray<E>) => void,
+	) => Validation<E, T>;
+
+	/**
+	 * Checks whether this Validation is Valid.
+	 *
+	 * @returns true if Valid, false if Invalid
+	 *
+	 * @example
+	 * ```typescript
+	 * valid(42).isValid()         // true
+	 * invalid("error").isValid()  // false
+	 * ```
+	 */
+	isValid: () => boolean;
+
+	/**
+	 * Checks whether this Validation is Invalid.
+	 *
+	 * @returns true if Invalid, false if Valid
+	 *
+	 * @example
+	 * ```typescript
+	 * valid(42).isInvalid()         // false
+	 * invalid("error").isInvalid()  // true
+	 * ```
+	 */
+	isInvalid: () => boolean;
+
+	/**
+	 * Checks whether this Validation is Valid and its value satisfies the predicate.
+	 *
+	 * @param predicate - Function that tests the valid value
+	 * @returns true if Valid and the predicate returns true, otherwise false
+	 *
+	 * @example
+	 * ```typescript
+	 * valid(5).exists(n => n > 3)          // true
+	 * valid(2).exists(n => n > 3)          // false
+	 * invalid("error").exists(n => n > 3)  // false
+	 * ```
+	 */
+	exists: (predicate: (value: T) => boolean) => boolean;
+
+	/**
+	 * Checks whether this Validation is Valid and holds the given value, compared with `===`.
+	 *
+	 * @param value - The value to look for
+	 * @returns true if Valid and the valid value equals `value`, otherwise false
+	 *
+	 * @example
+	 * ```typescript
+	 * valid(5).contains(5)          // true
+	 * valid(5).contains(6)          // false
+	 * invalid("error").contains(5)  // false
+	 * ```
+	 */
+	contains: (value: T) => boolean;
+
+	/**
+	 * Wraps the valid value in a record under the given key.
+	 * This is usually the first step of do-notation when starting from an existing Validation.
+	 *
+	 * @param key - The key to store the valid value under
+	 * @returns Validation containing a record with the valid value under `key`, or the same Invalid
+	 *
+	 * @example
+	 * ```typescript
+	 * valid(5).bindTo("x") // Valid({ x: 5 })
+	 * ```
+	 */
+	bindTo: <K extends string>(key: K) => Validation<E, { readonly [P in K]: T }>;
+
+	/**
+	 * Extends the valid record with the value of another Validation computed from it.
+	 * Because the mapper needs the current record, this step cannot run when the record
+	 * is already Invalid: errors are short-circuited, not accumulated. Use {@link apS}
+	 * for independent fields so their errors accumulate.
+	 *
+	 * @typeParam EE - The error type of the Validation returned by the mapper
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns a Validation
+	 * @returns Validation containing the extended record, or the errors
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.apS("password", validatePassword(input.password))
+	 *   .bind("confirmation", ({ password }) => validateMatch(password, input.confirmation))
+	 * ```
+	 */
+	bind: <K extends string, EE, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => Validation<EE, U>,
+	) => Validation<E | EE, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Extends the valid record with a plain value computed from it.
+	 *
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns a value
+	 * @returns Validation containing the extended record, or the same Invalid
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.apS("first", valid("Ada"))
+	 *   .apS("last", valid("Lovelace"))
+	 *   .let("full", ({ first, last }) => `${first} ${last}`)
+	 * ```
+	 */
+	let: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => U,
+	) => Validation<E, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Extends the valid record with the value of an independent Validation.
+	 * Uses applicative semantics like {@link ap}: if both this Validation and the added one
+	 * are Invalid, their errors are accumulated.
+	 *
+	 * @typeParam EE - The error type of the added Validation
+	 * @param key - The key to store the new value under (must not already exist)
+	 * @param valU - The Validation whose value is added to the record
+	 * @returns Validation containing the extended record, or all accumulated errors
+	 *
+	 * @example
+	 * ```typescript
+	 * Do.apS("name", invalid("Name is required"))
+	 *   .apS("age", invalid("Age must be positive"))
+	 * // Invalid(["Name is required", "Age must be positive"])
+	 * ```
+	 */
+	apS: <K extends string, EE, U>(
+		key: Exclude<K, keyof T>,
+		valU: Validation<EE, U>,
+	) => Validation<E | EE, T & { readonly [P in K]: U }>;
 
 	/**
 	 * Converts the Validation to a ValidationResult type.
@@ -119,20 +345,56 @@ export type Validation<E, T> = {
 	 * ```
 	 */
 	toResult: () => ValidationResult<E, T>;
+
+	/**
+	 * Converts the Validation to an Either.
+	 * Valid becomes Right, Invalid becomes Left holding all accumulated errors.
+	 *
+	 * @returns Either equivalent of the Validation
+	 *
+	 * @example
+	 * ```typescript
+	 * valid(42).toEither()                          // Right(42)
+	 * invalid("e1").zip(invalid("e2")).toEither()   // Left(["e1", "e2"])
+	 * ```
+	 */
+	toEither: () => Either<NonEmptyArray<E>, T>;
+
+	/**
+	 * Converts the Validation to an Option, discarding the errors.
+	 *
+	 * @returns Some containing the valid value, or None if Invalid
+	 *
+	 * @example
+	 * ```typescript
+	 * valid(42).toOption()         // Some(42)
+	 * invalid("error").toOption()  // None
+	 * ```
+	 */
+	toOption: () => Option<T>;
+};
+
+/**
+ * A Validation of any error and value type, for helpers that take Validations of different types.
+ * Spelled out structurally because Validation is invariant in both.
+ */
+export type AnyValidation = {
+	readonly isValid: () => boolean;
+	readonly mapErrors: (mapper: never) => unknown;
 };
 
 export function createValidation<E, T>(
 	value: ValidationValue<E, T>,
 ): Validation<E, T> {
 	const validation: Validation<E, T> = {
-		filterOrElse: (predicate: (value: T) => boolean, onInvalid: () => E) =>
+		filterOrElse: ((predicate: (value: T) => boolean, onInvalid: () => E) =>
 			validation.match(
 				() => validation,
 				(v) =>
 					predicate(v)
 						? validation
 						: createValidation<E, T>({ invalid: [onInvalid()] }),
-			),
+			)) as Validation<E, T>["filterOrElse"],
 
 		map: <U>(mapper: (value: T) => U): Validation<E, U> =>
 			validation.match(
@@ -140,6 +402,27 @@ export function createValidation<E, T>(
 				(v) => createValidation<E, U>({ valid: mapper(v) }),
 			),
 
+		mapErrors: <EE>(mapper: (error: E) => EE): Validation<EE, T> =>
+			validation.match(
+				(errors) => createValidation<EE, T>({ invalid: map(errors, mapper) }),
+				() => forceCast<E, T, EE, T>(validation),
+			),
+
+		bimap: <EE, U>(onInvalid: (error: E) => EE, onValid: (value: T) => U) =>
+			validation.map(onValid).mapErrors(onInvalid),
+
+		orElse: <EE>(fallback: (errors: NonEmptyArray<E>) => Validation<EE, T>) =>
+			validation.match(
+				(errors) => forceCast<EE, T, E | EE, T>(fallback(errors)),
+				() => forceCast<E, T, E | EE, T>(validation),
+			),
+
+		flatMap: <EE, U>(mapper: (value: T) => Validation<EE, U>) =>
+			validation.match(
+				() => forceCast<E, T, E | EE, U>(validation),
+				(v) => forceCast<EE, U, E | EE, U>(mapper(v)),
+			),
+
 		ap: function <EE, A, U>(
 			this: Validation<E, (a: A) => U>,
 			arg: Validation<EE, A>,
@@ -149,18 +432,18 @@ export function createValidation<E, T>(
 					arg.match(
 						(errors2) =>
 							createValidation<E | EE, U>({
-								invalid: [...errors1, ...errors2],
+								invalid: concat<E | EE>(errors1, errors2),
 							}),
 						() =>
 							createValidation<E | EE, U>({
-								invalid: errors1 as readonly (E | EE)[],
+								invalid: errors1 as NonEmptyArray<E | EE>,
 							}),
 					),
 				(fn) =>
 					arg.match(
 						(errors2) =>
 							createValidation<E | EE, U>({
-								invalid: errors2 as readonly (E | EE)[],
+								invalid: errors2 as NonEmptyArray<E | EE>,
 							}),
 						(v) => createValidation<E | EE, U>({ valid: fn(v) }),
 					),
@@ -171,7 +454,7 @@ export function createValidation<E, T>(
 			validation.map((value) => (a: A) => [value, a] as const).ap(valA),
 
 		match: <U>(
-			onInvalid: (errors: readonly E[]) => U,
+			onInvalid: (errors: NonEmptyArray<E>) => U,
 			onValid: (value: T) => U,
 		) => (isValid(value) ? onValid(value.valid) : onInvalid(value.invalid)),
 
@@ -191,11 +474,66 @@ export function createValidation<E, T>(
 			return validation;
 		},
 
+		isValid: () => isValid(value),
+
+		isInvalid: () => !isValid(value),
+
+		exists: (predicate) =>
+			validation.match(
+				() => false,
+				(v) => predicate(v),
+			),
+
+		contains: (value) => validation.exists((v) => v === value),
+
+		bindTo: <K extends string>(key: K) =>
+			validation.map((value) => ({ [key]: value }) as { readonly [P in K]: T }),
+
+		bind: <K extends string, EE, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => Validation<EE, U>,
+		) =>
+			validation.match(
+				() => forceCast<E, T, E | EE, T & { readonly [P in K]: U }>(validation),
+				(scope) =>
+					forceCast<
+						EE,
+						T & { readonly [P in K]: U },
+						E | EE,
+						T & { readonly [P in K]: U }
+					>(mapper(scope).map((value) => extend<T, K, U>(scope, key, value))),
+			),
+
+		let: <K extends string, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => U,
+		) => validation.map((scope) => extend<T, K, U>(scope, key, mapper(scope))),
+
+		apS: <K extends string, EE, U>(
+			key: Exclude<K, keyof T>,
+			valU: Validation<EE, U>,
+		) =>
+			validation
+				.zip(valU)
+				.map(([scope, value]) => extend<T, K, U>(scope, key, value)),
+
 		toResult: () =>
 			validation.match<ValidationResult<E, T>>(
 				(errors) => ({ ok: false, errors }),
 				(value) => ({ ok: true, value }),
 			),
+
+		toEither: () =>
+			validation.match(
+				(errors) => createEither<NonEmptyArray<E>, T>({ left: errors }),
+				(v) => createEither<NonEmptyArray<E>, T>({ right: v }),
+			),
+
+		toOption: () =>
+			validation.match(
+				() => createOption<T>(NONE),
+				(v) => createOption({ some: v }),
+			),
 	};
 
 	return validation;
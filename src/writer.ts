@@ -0,0 +1,4 @@
+export * from "./writer/constructors.js";
+export * from "./writer/helpers.js";
+export type { Monoid, WriterValue } from "./writer/model.js";
+export type { Writer } from "./writer/writer.js";
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { tell, writer } from "./constructors.js";
+import { arrayMonoid, stringMonoid } from "./helpers.js";
+
+describe("writer constructors", () => {
+	describe("writer", () => {
+		it("should wrap the value with an empty log", () => {
+			expect(writer(100, arrayMonoid<string>()).run()).toEqual([100, []]);
+			expect(writer(100, stringMonoid).run()).toEqual([100, ""]);
+		});
+	});
+
+	describe("tell", () => {
+		it("should write the log without a value", () => {
+			expect(tell(["base price"], arrayMonoid<string>()).run()).toEqual([
+				undefined,
+				["base price"],
+			]);
+		});
+	});
+});
@@ -0,0 +1,40 @@
+import type { Monoid } from "./model.js";
+import { createWriter, type Writer } from "./writer.js";
+
+/**
+ * Creates a Writer with the provided value and an empty log.
+ *
+ * @typeParam T - The type of the value
+ * @typeParam W - The type of the log
+ * @param value - The value to wrap
+ * @param monoid - How logs are combined, e.g. `arrayMonoid<string>()`
+ * @returns Writer with the given value and `monoid.empty` as its log
+ *
+ * @example
+ * ```typescript
+ * const log = arrayMonoid<string>();
+ * writer(100, log).run() // [100, []]
+ * ```
+ */
+export function writer<T, W>(value: T, monoid: Monoid<W>): Writer<W, T> {
+	return createWriter({ value, log: monoid.empty }, monoid);
+}
+
+/**
+ * Creates a Writer that writes the provided log and produces no value.
+ * Chain it with `flatMap` or `map` to append entries between steps.
+ *
+ * @typeParam W - The type of the log
+ * @param log - The log to write
+ * @param monoid - How logs are combined, e.g. `arrayMonoid<string>()`
+ * @returns Writer with the given log and an `undefined` value
+ *
+ * @example
+ * ```typescript
+ * tell(["10% loyalty discount"], log).map(() => price * 0.9).run()
+ * // [90, ["10% loyalty discount"]]
+ * ```
+ */
+export function tell<W>(log: W, monoid: Monoid<W>): Writer<W, void> {
+	return createWriter<W, void>({ value: undefined, log }, monoid);
+}
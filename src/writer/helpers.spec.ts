@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { arrayMonoid, stringMonoid } from "./helpers.js";
+
+describe("writer helpers", () => {
+	describe("arrayMonoid", () => {
+		it("should concatenate arrays with an empty array as identity", () => {
+			const monoid = arrayMonoid<number>();
+			expect(monoid.combine([1], [2, 3])).toEqual([1, 2, 3]);
+			expect(monoid.combine(monoid.empty, [1])).toEqual([1]);
+			expect(monoid.combine([1], monoid.empty)).toEqual([1]);
+		});
+	});
+
+	describe("stringMonoid", () => {
+		it("should concatenate strings with an empty string as identity", () => {
+			expect(stringMonoid.combine("a;", "b;")).toBe("a;b;");
+			expect(stringMonoid.combine(stringMonoid.empty, "a")).toBe("a");
+		});
+	});
+});
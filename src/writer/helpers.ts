@@ -0,0 +1,33 @@
+import type { Monoid } from "./model.js";
+
+/**
+ * Returns a Monoid that combines logs by concatenating arrays - the usual choice for a list of log entries.
+ *
+ * @typeParam A - The type of a log entry
+ * @returns Monoid with an empty array as `empty` and array concatenation as `combine`
+ *
+ * @example
+ * ```typescript
+ * const log = arrayMonoid<string>();
+ * tell(["a"], log).flatMap(() => tell(["b"], log)).run() // [undefined, ["a", "b"]]
+ * ```
+ */
+export function arrayMonoid<A>(): Monoid<readonly A[]> {
+	return {
+		empty: [],
+		combine: (first, second) => [...first, ...second],
+	};
+}
+
+/**
+ * A Monoid that combines logs by concatenating strings.
+ *
+ * @example
+ * ```typescript
+ * tell("a;", stringMonoid).flatMap(() => tell("b;", stringMonoid)).run() // [undefined, "a;b;"]
+ * ```
+ */
+export const stringMonoid: Monoid<string> = {
+	empty: "",
+	combine: (first, second) => first + second,
+};
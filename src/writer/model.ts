@@ -0,0 +1,13 @@
+/**
+ * Describes how logs are combined: an `empty` log and an associative `combine` function
+ * for which `empty` is the identity.
+ */
+export type Monoid<W> = {
+	readonly empty: W;
+	readonly combine: (first: W, second: W) => W;
+};
+
+export type WriterValue<W, T> = {
+	readonly value: T;
+	readonly log: W;
+};
@@ -0,0 +1,136 @@
+import { describe, expect, it, vi } from "vitest";
+import { applicativeLawsSpec } from "../testUtils/applicativeLaws.js";
+import { functorLawsSpec } from "../testUtils/functorLaws.js";
+import { monadLawsSpec } from "../testUtils/monadLaws.js";
+import { tell, writer } from "./constructors.js";
+import { arrayMonoid } from "./helpers.js";
+import type { Writer } from "./writer.js";
+
+const log = arrayMonoid<string>();
+
+const logged = <T>(value: T, entry: string) =>
+	tell([entry], log).map(() => value);
+
+const asTag = <T>(w: Writer<readonly string[], T>) => ({ result: w.run() });
+
+describe("writer", () => {
+	describe("map", () => {
+		it("should transform the value and keep the log", () => {
+			expect(
+				logged(100, "base price")
+					.map((price) => price * 0.9)
+					.run(),
+			).toEqual([90, ["base price"]]);
+		});
+	});
+
+	describe("ap", () => {
+		it("should apply the function and combine the logs in order", () => {
+			const add = (x: number) => (y: number) => x + y;
+			expect(
+				logged(add(5), "function").ap(logged(3, "argument")).run(),
+			).toEqual([8, ["function", "argument"]]);
+		});
+	});
+
+	describe("zip", () => {
+		it("should combine both values and both logs", () => {
+			expect(
+				logged(100, "base price").zip(logged(5, "shipping")).run(),
+			).toEqual([
+				[100, 5],
+				["base price", "shipping"],
+			]);
+		});
+	});
+
+	describe("flatMap", () => {
+		it("should append the log of the next Writer", () => {
+			const discount = (price: number) =>
+				logged(price * 0.9, "10% loyalty discount");
+			expect(logged(100, "base price").flatMap(discount).run()).toEqual([
+				90,
+				["base price", "10% loyalty discount"],
+			]);
+		});
+
+		it("should use the combine function of the monoid", () => {
+			const total = { empty: 0, combine: (a: number, b: number) => a + b };
+			expect(
+				tell(2, total)
+					.flatMap(() => tell(3, total))
+					.run(),
+			).toEqual([undefined, 5]);
+		});
+	});
+
+	describe("tap", () => {
+		it("should execute the side effect with the value", () => {
+			const sideEffect = vi.fn();
+			const w = logged(1, "one");
+			expect(w.tap(sideEffect)).toBe(w);
+			expect(sideEffect).toHaveBeenCalledWith(1);
+		});
+	});
+
+	describe("listen", () => {
+		it("should pair the value with the log written so far", () => {
+			expect(logged(100, "base price").listen().run()).toEqual([
+				[100, ["base price"]],
+				["base price"],
+			]);
+		});
+	});
+
+	describe("censor", () => {
+		it("should transform the log and keep the value", () => {
+			expect(
+				logged(100, "base price")
+					.censor((entries) => entries.map((e) => `[pricing] ${e}`))
+					.run(),
+			).toEqual([100, ["[pricing] base price"]]);
+		});
+	});
+
+	describe("do-notation", () => {
+		it("should build a record and collect the logs of every step", () => {
+			const result = logged(100, "base price")
+				.bindTo("price")
+				.bind("discounted", ({ price }) => logged(price * 0.9, "discount"))
+				.apS("shipping", logged(5, "shipping"))
+				.let("total", ({ discounted, shipping }) => discounted + shipping);
+			expect(result.run()).toEqual([
+				{ price: 100, discounted: 90, shipping: 5, total: 95 },
+				["base price", "discount", "shipping"],
+			]);
+		});
+	});
+
+	describe(
+		"functor laws",
+		functorLawsSpec<Writer<readonly string[], number>>({
+			of: (value) => writer(value, log),
+			map: (w, mapper) => w.map(mapper),
+			asTag,
+		}),
+	);
+
+	describe(
+		"applicative laws",
+		applicativeLawsSpec<Writer<readonly string[], unknown>>({
+			of: (value) => writer(value, log),
+			ap: (w, arg) =>
+				(w as Writer<readonly string[], (arg: unknown) => unknown>).ap(arg),
+			asTag,
+		}),
+	);
+
+	describe(
+		"monad laws",
+		monadLawsSpec<Writer<readonly string[], number>>({
+			of: (value) => writer(value, log),
+			flatMap: (w, mapper) => w.flatMap(mapper),
+			asTag,
+		}),
+	);
+});
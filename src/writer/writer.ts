@@ -0,0 +1,251 @@
+import { extend } from "../internal/record.js";
+import type { Monoid, WriterValue } from "./model.js";
+
+export type Writer<W, T> = {
+	/**
+	 * Transforms the value using a mapping function. The log is kept unchanged.
+	 *
+	 * @typeParam U - The type of the transformed value
+	 * @param mapper - Function to transform the value
+	 * @returns New Writer with the transformed value and the same log
+	 *
+	 * @example
+	 * ```typescript
+	 * writer(100, log).map(price => price * 0.9).run() // [90, []]
+	 * ```
+	 */
+	map: <U>(mapper: (value: T) => U) => Writer<W, U>;
+
+	/**
+	 * Applies a function wrapped in a Writer to a value wrapped in a Writer.
+	 * The log of this Writer comes before the log of the argument.
+	 *
+	 * @typeParam A - The type of the argument value
+	 * @typeParam U - The type of the function's return value
+	 * @param arg - Writer containing the argument to apply the function to
+	 * @returns Writer containing the function result and both logs
+	 *
+	 * @example
+	 * ```typescript
+	 * const add = (x: number) => (y: number) => x + y;
+	 * writer(add(5), log).ap(tell(["three"], log).map(() => 3)).run() // [8, ["three"]]
+	 * ```
+	 */
+	ap: <A, U>(this: Writer<W, (a: A) => U>, arg: Writer<W, A>) => Writer<W, U>;
+
+	/**
+	 * Combines this Writer with another Writer into a tuple of both values.
+	 * The log of this Writer comes before the log of the other one.
+	 *
+	 * @typeParam A - The type of the value of the other Writer
+	 * @param other - The Writer to combine with
+	 * @returns Writer containing a tuple of both values and both logs
+	 *
+	 * @example
+	 * ```typescript
+	 * basePrice.zip(shipping).run() // [[100, 5], ["base price", "flat shipping"]]
+	 * ```
+	 */
+	zip: <A>(other: Writer<W, A>) => Writer<W, readonly [T, A]>;
+
+	/**
+	 * Chains Writer-returning operations together.
+	 * The log of the Writer returned by the mapper is appended to the log of this Writer.
+	 *
+	 * @typeParam U - The type of the value of the Writer returned by the mapper
+	 * @param mapper - Function that takes the value and returns the next Writer
+	 * @returns Writer with the mapper's value and both logs
+	 *
+	 * @example
+	 * ```typescript
+	 * const discount = (price: number) =>
+	 *   tell(["10% loyalty discount"], log).map(() => price * 0.9);
+	 *
+	 * writer(100, log).flatMap(discount).run() // [90, ["10% loyalty discount"]]
+	 * ```
+	 */
+	flatMap: <U>(mapper: (value: T) => Writer<W, U>) => Writer<W, U>;
+
+	/**
+	 * Performs a side effect with the value and returns the same Writer.
+	 *
+	 * @param sideEffect - Function to execute with the value (return value is ignored)
+	 * @returns The same Writer
+	 *
+	 * @example
+	 * ```typescript
+	 * price.tap(p => console.log("Price", p))
+	 * ```
+	 */
+	tap: (sideEffect: (value: T) => void) => Writer<W, T>;
+
+	/**
+	 * Pairs the value with the log written so far, making the log available to later steps.
+	 *
+	 * @returns Writer containing a tuple of the value and the log, with the log unchanged
+	 *
+	 * @example
+	 * ```typescript
+	 * tell(["base price"], log).map(() => 100).listen().run()
+	 * // [[100, ["base price"]], ["base price"]]
+	 * ```
+	 */
+	listen: () => Writer<W, readonly [T, W]>;
+
+	/**
+	 * Transforms the log written so far using a function. The value is kept unchanged.
+	 *
+	 * @param f - Function to transform the log
+	 * @returns New Writer with the same value and the transformed log
+	 *
+	 * @example
+	 * ```typescript
+	 * price.censor(entries => entries.map(e => `[pricing] ${e}`))
+	 * ```
+	 */
+	censor: (f: (log: W) => W) => Writer<W, T>;
+
+	/**
+	 * Wraps the value in a record under the given key.
+	 * This is usually the first step of do-notation.
+	 *
+	 * @param key - The key to store the value under
+	 * @returns Writer containing a record with the value under `key`
+	 *
+	 * @example
+	 * ```typescript
+	 * writer(100, log).bindTo("price").run() // [{ price: 100 }, []]
+	 * ```
+	 */
+	bindTo: <K extends string>(key: K) => Writer<W, { readonly [P in K]: T }>;
+
+	/**
+	 * Adds the value of a Writer computed from the current record under a new key.
+	 * Its log is appended to the log of this Writer.
+	 *
+	 * @param key - The key to store the value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns a Writer
+	 * @returns Writer containing the extended record
+	 *
+	 * @example
+	 * ```typescript
+	 * writer(100, log).bindTo("price").bind("discounted", ({ price }) => discount(price))
+	 * ```
+	 */
+	bind: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => Writer<W, U>,
+	) => Writer<W, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Adds a plain value computed from the current record under a new key.
+	 *
+	 * @param key - The key to store the value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns a value
+	 * @returns Writer containing the extended record
+	 *
+	 * @example
+	 * ```typescript
+	 * writer(100, log).bindTo("price").let("vat", ({ price }) => price * 0.2)
+	 * ```
+	 */
+	let: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => U,
+	) => Writer<W, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Adds the value of another Writer under a new key.
+	 * Its log is appended to the log of this Writer.
+	 *
+	 * @param key - The key to store the value under (must not already exist)
+	 * @param other - The Writer whose value is added
+	 * @returns Writer containing the extended record
+	 *
+	 * @example
+	 * ```typescript
+	 * basePrice.bindTo("price").apS("shipping", shipping)
+	 * ```
+	 */
+	apS: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		other: Writer<W, U>,
+	) => Writer<W, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Returns the value together with the log.
+	 *
+	 * @returns Tuple of the value and the log
+	 *
+	 * @example
+	 * ```typescript
+	 * writer(100, log).flatMap(discount).run() // [90, ["10% loyalty discount"]]
+	 * ```
+	 */
+	run: () => readonly [T, W];
+};
+
+export function createWriter<W, T>(
+	value: WriterValue<W, T>,
+	monoid: Monoid<W>,
+): Writer<W, T> {
+	const writer: Writer<W, T> = {
+		map: <U>(mapper: (value: T) => U): Writer<W, U> =>
+			createWriter({ value: mapper(value.value), log: value.log }, monoid),
+
+		ap: function <A, U>(
+			this: Writer<W, (a: A) => U>,
+			arg: Writer<W, A>,
+		): Writer<W, U> {
+			return this.flatMap((fn) => arg.map(fn));
+		},
+
+		zip: <A>(other: Writer<W, A>): Writer<W, readonly [T, A]> =>
+			writer.map((v) => (a: A) => [v, a] as const).ap(other),
+
+		flatMap: <U>(mapper: (value: T) => Writer<W, U>): Writer<W, U> => {
+			const [next, log] = mapper(value.value).run();
+			return createWriter(
+				{ value: next, log: monoid.combine(value.log, log) },
+				monoid,
+			);
+		},
+
+		tap: (sideEffect) => {
+			sideEffect(value.value);
+			return writer;
+		},
+
+		listen: () =>
+			createWriter(
+				{ value: [value.value, value.log] as const, log: value.log },
+				monoid,
+			),
+
+		censor: (f) =>
+			createWriter({ value: value.value, log: f(value.log) }, monoid),
+
+		bindTo: <K extends string>(key: K) =>
+			writer.map((v) => ({ [key]: v }) as { readonly [P in K]: T }),
+
+		bind: <K extends string, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => Writer<W, U>,
+		) =>
+			writer.flatMap((scope) =>
+				mapper(scope).map((v) => extend<T, K, U>(scope, key, v)),
+			),
+
+		let: <K extends string, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => U,
+		) => writer.map((scope) => extend<T, K, U>(scope, key, mapper(scope))),
+
+		apS: <K extends string, U>(key: Exclude<K, keyof T>, other: Writer<W, U>) =>
+			writer.zip(other).map(([scope, v]) => extend<T, K, U>(scope, key, v)),
+
+		run: () => [value.value, value.log],
+	};
+
+	return writer;
+}
@@ -0,0 +1,3 @@
+export * from "./writerTaskEither/constructors.js";
+export type { WriterTaskEitherValue } from "./writerTaskEither/model.js";
+export type { WriterTaskEither } from "./writerTaskEither/writerTaskEither.js";
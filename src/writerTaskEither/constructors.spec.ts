@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { left, right } from "../either/constructors.js";
+import { task } from "../task/constructors.js";
+import { taskEither, taskLeft } from "../taskEither/constructors.js";
+import { tell as writerTell } from "../writer/constructors.js";
+import { arrayMonoid } from "../writer/helpers.js";
+import {
+	fromEither,
+	fromTask,
+	fromTaskEither,
+	fromWriter,
+	tell,
+	writerTaskEither,
+	writerTaskLeft,
+} from "./constructors.js";
+import type { WriterTaskEither } from "./writerTaskEither.js";
+
+const log = arrayMonoid<string>();
+
+const asResult = async <E, T>(
+	wte: WriterTaskEither<readonly string[], E, T>,
+) => {
+	const [either, entries] = (await wte.run()).run();
+	return { result: either.toResult(), log: entries };
+};
+
+describe("writerTaskEither constructors", () => {
+	describe("writerTaskEither / writerTaskLeft", () => {
+		it("should resolve with an empty log", async () => {
+			expect(await asResult(writerTaskEither(1, log))).toEqual({
+				result: { ok: true, value: 1 },
+				log: [],
+			});
+			expect(await asResult(writerTaskLeft("e", log))).toEqual({
+				result: { ok: false, error: "e" },
+				log: [],
+			});
+		});
+	});
+
+	describe("tell", () => {
+		it("should write the log and resolve to Right", async () => {
+			expect(await asResult(tell(["a"], log))).toEqual({
+				result: { ok: true, value: undefined },
+				log: ["a"],
+			});
+		});
+	});
+
+	describe("fromWriter", () => {
+		it("should keep the value and the log of the Writer", async () => {
+			const w = writerTell(["base price"], log).map(() => 100);
+			expect(await asResult(fromWriter(w))).toEqual({
+				result: { ok: true, value: 100 },
+				log: ["base price"],
+			});
+		});
+	});
+
+	describe("fromEither", () => {
+		it("should lift both sides with an empty log", async () => {
+			expect(await asResult(fromEither(right(1), log))).toEqual({
+				result: { ok: true, value: 1 },
+				log: [],
+			});
+			expect(await asResult(fromEither(left("e"), log))).toEqual({
+				result: { ok: false, error: "e" },
+				log: [],
+			});
+		});
+	});
+
+	describe("fromTaskEither", () => {
+		it("should lift both sides with an empty log", async () => {
+			expect(await asResult(fromTaskEither(taskEither(1), log))).toEqual({
+				result: { ok: true, value: 1 },
+				log: [],
+			});
+			expect(await asResult(fromTaskEither(taskLeft("e"), log))).toEqual({
+				result: { ok: false, error: "e" },
+				log: [],
+			});
+		});
+	});
+
+	describe("fromTask", () => {
+		it("should resolve to Right with the value of the Task", async () => {
+			expect(await asResult(fromTask(task(1), log))).toEqual({
+				result: { ok: true, value: 1 },
+				log: [],
+			});
+		});
+	});
+});
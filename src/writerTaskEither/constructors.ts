@@ -0,0 +1,174 @@
+import { left, right } from "../either/constructors.js";
+import type { Either } from "../either/either.js";
+import type { Task } from "../task/task.js";
+import type { TaskEither } from "../taskEither/taskEither.js";
+import {
+	writer as writerOf,
+	tell as writerTell,
+} from "../writer/constructors.js";
+import type { Monoid } from "../writer/model.js";
+import type { Writer } from "../writer/writer.js";
+import {
+	createWriterTaskEither,
+	type WriterTaskEither,
+} from "./writerTaskEither.js";
+
+/**
+ * Creates a WriterTaskEither that resolves to Right with the provided value and an empty log.
+ *
+ * @typeParam T - The type of the value
+ * @typeParam W - The type of the log
+ * @typeParam E - The type of the error (defaults to `never`)
+ * @param value - The value to wrap
+ * @param monoid - How logs are combined, e.g. `arrayMonoid<string>()`
+ * @returns WriterTaskEither that resolves to Right with the given value
+ *
+ * @example
+ * ```typescript
+ * const [result, entries] = (await writerTaskEither(100, log).run()).run(); // Right(100), []
+ * ```
+ */
+export function writerTaskEither<T, W, E = never>(
+	value: T,
+	monoid: Monoid<W>,
+): WriterTaskEither<W, E, T> {
+	return fromEither(right<T, E>(value), monoid);
+}
+
+/**
+ * Creates a WriterTaskEither that resolves to Left with the provided error and an empty log.
+ *
+ * @typeParam E - The type of the error
+ * @typeParam W - The type of the log
+ * @typeParam T - The type of the value (defaults to `never`)
+ * @param error - The error to wrap
+ * @param monoid - How logs are combined, e.g. `arrayMonoid<string>()`
+ * @returns WriterTaskEither that resolves to Left with the given error
+ *
+ * @example
+ * ```typescript
+ * const [result, entries] = (await writerTaskLeft("not found", log).run()).run(); // Left("not found"), []
+ * ```
+ */
+export function writerTaskLeft<E, W, T = never>(
+	error: E,
+	monoid: Monoid<W>,
+): WriterTaskEither<W, E, T> {
+	return fromEither(left<E, T>(error), monoid);
+}
+
+/**
+ * Creates a WriterTaskEither that writes the provided log and resolves to Right with no value.
+ * Chain it with `flatMap` or `map` to append entries between async steps.
+ *
+ * @typeParam W - The type of the log
+ * @typeParam E - The type of the error (defaults to `never`)
+ * @param log - The log to write
+ * @param monoid - How logs are combined, e.g. `arrayMonoid<string>()`
+ * @returns WriterTaskEither with the given log that resolves to Right with `undefined`
+ *
+ * @example
+ * ```typescript
+ * fetchRate.flatMap(rate => tell([`rate ${rate}`], log).map(() => price * rate))
+ * ```
+ */
+export function tell<W, E = never>(
+	log: W,
+	monoid: Monoid<W>,
+): WriterTaskEither<W, E, void> {
+	return fromWriter<W, void, E>(writerTell(log, monoid));
+}
+
+/**
+ * Lifts a Writer into a WriterTaskEither that resolves to Right with its value and keeps its log.
+ *
+ * @typeParam W - The type of the log
+ * @typeParam T - The type of the value
+ * @typeParam E - The type of the error (defaults to `never`)
+ * @param writer - The Writer to lift
+ * @returns WriterTaskEither that resolves to Right with the Writer's value and log
+ *
+ * @example
+ * ```typescript
+ * fromWriter(tell(["base price"], log).map(() => 100)) // resolves to Right(100) with ["base price"]
+ * ```
+ */
+export function fromWriter<W, T, E = never>(
+	writer: Writer<W, T>,
+): WriterTaskEither<W, E, T> {
+	return createWriterTaskEither(() =>
+		Promise.resolve(writer.map((value) => right<T, E>(value))),
+	);
+}
+
+/**
+ * Lifts an Either into a WriterTaskEither with an empty log.
+ *
+ * @typeParam E - The type of the error
+ * @typeParam T - The type of the value
+ * @typeParam W - The type of the log
+ * @param either - The Either to lift
+ * @param monoid - How logs are combined, e.g. `arrayMonoid<string>()`
+ * @returns WriterTaskEither that resolves to the given Either
+ *
+ * @example
+ * ```typescript
+ * fromEither(parsePrice(input), log)
+ * ```
+ */
+export function fromEither<E, T, W>(
+	either: Either<E, T>,
+	monoid: Monoid<W>,
+): WriterTaskEither<W, E, T> {
+	return createWriterTaskEither(() =>
+		Promise.resolve(writerOf(either, monoid)),
+	);
+}
+
+/**
+ * Lifts a TaskEither into a WriterTaskEither with an empty log.
+ *
+ * @typeParam E - The type of the error
+ * @typeParam T - The type of the value
+ * @typeParam W - The type of the log
+ * @param te - The TaskEither to lift
+ * @param monoid - How logs are combined, e.g. `arrayMonoid<string>()`
+ * @returns WriterTaskEither that resolves to the result of the TaskEither
+ *
+ * @example
+ * ```typescript
+ * fromTaskEither(fetchRate(currency), log).flatMap(rate => tell([`rate ${rate}`], log))
+ * ```
+ */
+export function fromTaskEither<E, T, W>(
+	te: TaskEither<E, T>,
+	monoid: Monoid<W>,
+): WriterTaskEither<W, E, T> {
+	return createWriterTaskEither(() =>
+		te.run().then((either) => writerOf(either, monoid)),
+	);
+}
+
+/**
+ * Lifts a Task into a WriterTaskEither that resolves to Right with an empty log.
+ *
+ * @typeParam T - The type of the value
+ * @typeParam W - The type of the log
+ * @typeParam E - The type of the error (defaults to `never`)
+ * @param task - The Task to lift
+ * @param monoid - How logs are combined, e.g. `arrayMonoid<string>()`
+ * @returns WriterTaskEither that resolves to Right with the Task's value
+ *
+ * @example
+ * ```typescript
+ * fromTask(loadDefaults, log)
+ * ```
+ */
+export function fromTask<T, W, E = never>(
+	task: Task<T>,
+	monoid: Monoid<W>,
+): WriterTaskEither<W, E, T> {
+	return createWriterTaskEither(() =>
+		task.run().then((value) => writerOf(right<T, E>(value), monoid)),
+	);
+}
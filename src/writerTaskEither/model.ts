@@ -0,0 +1,6 @@
+import type { Either } from "../either/either.js";
+import type { Writer } from "../writer/writer.js";
+
+export type WriterTaskEitherValue<W, E, T> = () => Promise<
+	Writer<W, Either<E, T>>
+>;
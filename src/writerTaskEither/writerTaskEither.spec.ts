@@ -0,0 +1,222 @@
+import { describe, expect, it, vi } from "vitest";
+import { applicativeLawsSpec } from "../testUtils/applicativeLaws.js";
+import { bifunctorLawsSpec } from "../testUtils/bifunctorLaws.js";
+import { functorLawsSpec } from "../testUtils/functorLaws.js";
+import { monadLawsSpec } from "../testUtils/monadLaws.js";
+import { arrayMonoid } from "../writer/helpers.js";
+import { tell, writerTaskEither, writerTaskLeft } from "./constructors.js";
+import type { WriterTaskEither } from "./writerTaskEither.js";
+
+const log = arrayMonoid<string>();
+
+type Log = readonly string[];
+
+const asResult = async <E, T>(wte: WriterTaskEither<Log, E, T>) => {
+	const [either, entries] = (await wte.run()).run();
+	return { result: either.toResult(), log: entries };
+};
+
+const logged = <T>(value: T, entry: string) =>
+	tell<Log, string>([entry], log).map(() => value);
+
+const failed = <T = never>(error: string, entry: string) =>
+	tell<Log, string>([entry], log).flatMap(() =>
+		writerTaskLeft<string, Log, T>(error, log),
+	);
+
+describe("writerTaskEither", () => {
+	describe("map", () => {
+		it("should transform the Right value and keep the log", async () => {
+			expect(
+				await asResult(logged(100, "base price").map((p) => p * 0.9)),
+			).toEqual({ result: { ok: true, value: 90 }, log: ["base price"] });
+		});
+	});
+
+	describe("mapLeft", () => {
+		it("should transform the Left value and keep the log", async () => {
+			expect(
+				await asResult(
+					failed("timeout", "fetching rate").mapLeft((e) => `rates: ${e}`),
+				),
+			).toEqual({
+				result: { ok: false, error: "rates: timeout" },
+				log: ["fetching rate"],
+			});
+		});
+	});
+
+	describe("ap / zip", () => {
+		it("should combine both values and both logs in order", async () => {
+			expect(
+				await asResult(logged(100, "base price").zip(logged(5, "shipping"))),
+			).toEqual({
+				result: { ok: true, value: [100, 5] },
+				log: ["base price", "shipping"],
+			});
+		});
+
+		it("should keep both logs when one side fails", async () => {
+			expect(
+				await asResult(logged(100, "base price").zip(failed("down", "rates"))),
+			).toEqual({
+				result: { ok: false, error: "down" },
+				log: ["base price", "rates"],
+			});
+		});
+	});
+
+	describe("flatMap", () => {
+		it("should append the log of the next step", async () => {
+			const discount = (price: number) =>
+				logged(price * 0.9, "10% loyalty discount");
+			expect(
+				await asResult(logged(100, "base price").flatMap(discount)),
+			).toEqual({
+				result: { ok: true, value: 90 },
+				log: ["base price", "10% loyalty discount"],
+			});
+		});
+
+		it("should keep the log written before a failure", async () => {
+			const mapper = vi.fn(() => logged(1, "never"));
+			const result = logged(100, "base price")
+				.flatMap(() => failed("no rate", "fetching rate"))
+				.flatMap(mapper);
+			expect(await asResult(result)).toEqual({
+				result: { ok: false, error: "no rate" },
+				log: ["base price", "fetching rate"],
+			});
+			expect(mapper).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("orElse", () => {
+		it("should append the log of the fallback to the log of the failed attempt", async () => {
+			const result = failed<number>("timeout", "fetching live rate").orElse(
+				() => logged(1.1, "using cached rate"),
+			);
+			expect(await asResult(result)).toEqual({
+				result: { ok: true, value: 1.1 },
+				log: ["fetching live rate", "using cached rate"],
+			});
+		});
+
+		it("should not call the fallback on Right", async () => {
+			const fallback = vi.fn(() => logged(0, "fallback"));
+			expect(await asResult(logged(1, "live").orElse(fallback))).toEqual({
+				result: { ok: true, value: 1 },
+				log: ["live"],
+			});
+			expect(fallback).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("tap / tapLeft", () => {
+		it("should run the side effect for the matching side only", async () => {
+			const onRight = vi.fn();
+			const onLeft = vi.fn();
+			await logged(1, "a").tap(onRight).tapLeft(onLeft).run();
+			await failed("e", "b").tap(onRight).tapLeft(onLeft).run();
+			expect(onRight).toHaveBeenCalledExactlyOnceWith(1);
+			expect(onLeft).toHaveBeenCalledExactlyOnceWith("e");
+		});
+	});
+
+	describe("listen", () => {
+		it("should pair the Right value with the log written so far", async () => {
+			expect(await asResult(logged(100, "base price").listen())).toEqual({
+				result: { ok: true, value: [100, ["base price"]] },
+				log: ["base price"],
+			});
+		});
+	});
+
+	describe("censor", () => {
+		it("should transform the log of a Left as well as a Right", async () => {
+			const prefix = (entries: Log) => entries.map((e) => `[pricing] ${e}`);
+			expect(await asResult(failed("e", "rates").censor(prefix))).toEqual({
+				result: { ok: false, error: "e" },
+				log: ["[pricing] rates"],
+			});
+		});
+	});
+
+	describe("do-notation", () => {
+		it("should build a record and collect the logs of every step", async () => {
+			const result = logged(100, "base price")
+				.bindTo("price")
+				.bind("discounted", ({ price }) => logged(price * 0.9, "discount"))
+				.apS("shipping", logged(5, "shipping"))
+				.let("total", ({ discounted, shipping }) => discounted + shipping);
+			expect(await asResult(result)).toEqual({
+				result: {
+					ok: true,
+					value: { price: 100, discounted: 90, shipping: 5, total: 95 },
+				},
+				log: ["base price", "discount", "shipping"],
+			});
+		});
+	});
+
+	describe("toTaskEither", () => {
+		it("should discard the log", async () => {
+			expect((await logged(1, "a").toTaskEither().run()).toResult()).toEqual({
+				ok: true,
+				value: 1,
+			});
+		});
+	});
+
+	describe("run", () => {
+		it("should be lazy", async () => {
+			const sideEffect = vi.fn();
+			const wte = logged(1, "a").tap(sideEffect);
+			expect(sideEffect).not.toHaveBeenCalled();
+			await wte.run();
+			expect(sideEffect).toHaveBeenCalledOnce();
+		});
+	});
+
+	describe(
+		"functor laws",
+		functorLawsSpec<WriterTaskEither<Log, never, number>>({
+			of: (value) => writerTaskEither(value, log),
+			map: (wte, mapper) => wte.map(mapper),
+			asTag: asResult,
+		}),
+	);
+
+	describe(
+		"applicative laws",
+		applicativeLawsSpec<WriterTaskEither<Log, never, unknown>>({
+			of: (value) => writerTaskEither(value, log),
+			ap: (wte, arg) =>
+				(wte as WriterTaskEither<Log, never, (arg: unknown) => unknown>).ap(
+					arg,
+				),
+			asTag: asResult,
+		}),
+	);
+
+	describe(
+		"monad laws",
+		monadLawsSpec<WriterTaskEither<Log, never, number>>({
+			of: (value) => writerTaskEither(value, log),
+			flatMap: (wte, mapper) => wte.flatMap(mapper),
+			asTag: asResult,
+		}),
+	);
+
+	describe(
+		"bifunctor laws",
+		bifunctorLawsSpec<WriterTaskEither<Log, number, number>>({
+			left: (value) => writerTaskLeft(value, log),
+			right: (value) => writerTaskEither(value, log),
+			bimap: (wte, onLeft, onRight) => wte.bimap(onLeft, onRight),
+			mapLeft: (wte, mapper) => wte.mapLeft(mapper),
+			map: (wte, mapper) => wte.map(mapper),
+			asTag: asResult,
+		}),
+	);
+});
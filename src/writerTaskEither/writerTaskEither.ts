@@ -0,0 +1,422 @@
+import { left } from "../either/constructors.js";
+import type { Either } from "../either/either.js";
+import { extend } from "../internal/record.js";
+import { createTaskEither, type TaskEither } from "../taskEither/taskEither.js";
+import type { Writer } from "../writer/writer.js";
+import type { WriterTaskEitherValue } from "./model.js";
+
+export type WriterTaskEither<W, E, T> = {
+	/**
+	 * Transforms the Right value using a mapping function. The log is kept unchanged.
+	 * If this WriterTaskEither resolves to Left, the mapper is not called.
+	 *
+	 * @typeParam U - The type of the transformed value
+	 * @param mapper - Function to transform the Right value
+	 * @returns New WriterTaskEither with the transformed Right value, or the same Left if error
+	 *
+	 * @example
+	 * ```typescript
+	 * writerTaskEither(100, log).map(price => price * 0.9) // resolves to Right(90) with []
+	 * ```
+	 */
+	map: <U>(mapper: (right: T) => U) => WriterTaskEither<W, E, U>;
+
+	/**
+	 * Transforms the Left value using a mapping function. The log is kept unchanged.
+	 * If this WriterTaskEither resolves to Right, the mapper is not called.
+	 *
+	 * @typeParam F - The type of the transformed error
+	 * @param mapper - Function to transform the Left value
+	 * @returns New WriterTaskEither with the transformed Left value, or the same Right if success
+	 *
+	 * @example
+	 * ```typescript
+	 * writerTaskLeft("timeout", log).mapLeft(e => `rates: ${e}`) // resolves to Left("rates: timeout")
+	 * ```
+	 */
+	mapLeft: <F>(mapper: (left: E) => F) => WriterTaskEither<W, F, T>;
+
+	/**
+	 * Transforms both the Left and Right values. The log is kept unchanged.
+	 *
+	 * @typeParam F - The type of the transformed error
+	 * @typeParam U - The type of the transformed value
+	 * @param onLeft - Function to transform the Left value
+	 * @param onRight - Function to transform the Right value
+	 * @returns New WriterTaskEither with the transformed value
+	 *
+	 * @example
+	 * ```typescript
+	 * fetchRate.bimap(e => new RateError(e), rate => rate.value)
+	 * ```
+	 */
+	bimap: <F, U>(
+		onLeft: (left: E) => F,
+		onRight: (right: T) => U,
+	) => WriterTaskEither<W, F, U>;
+
+	/**
+	 * Applies a function wrapped in a WriterTaskEither to a value wrapped in a WriterTaskEither.
+	 * Both are run in parallel; the log of this WriterTaskEither comes before the log of the argument.
+	 *
+	 * @typeParam EE - The error type of the argument
+	 * @typeParam A - The type of the argument value
+	 * @typeParam U - The type of the function's return value
+	 * @param arg - WriterTaskEither containing the argument to apply the function to
+	 * @returns WriterTaskEither containing the function result and both logs
+	 *
+	 * @example
+	 * ```typescript
+	 * const add = (x: number) => (y: number) => x + y;
+	 * writerTaskEither(add(5), log).ap(writerTaskEither(3, log)) // resolves to Right(8)
+	 * ```
+	 */
+	ap: <EE, A, U>(
+		this: WriterTaskEither<W, E, (a: A) => U>,
+		arg: WriterTaskEither<W, EE, A>,
+	) => WriterTaskEither<W, E | EE, U>;
+
+	/**
+	 * Combines this WriterTaskEither with another into a tuple of both values.
+	 * Both are run in parallel; the log of this WriterTaskEither comes before the log of the other one.
+	 *
+	 * @typeParam EE - The error type of the other WriterTaskEither
+	 * @typeParam A - The type of the other value
+	 * @param other - The WriterTaskEither to combine with
+	 * @returns WriterTaskEither containing a tuple of both values and both logs
+	 *
+	 * @example
+	 * ```typescript
+	 * fetchBasePrice.zip(fetchShipping) // resolves to Right([100, 5]) with both logs
+	 * ```
+	 */
+	zip: <EE, A>(
+		other: WriterTaskEither<W, EE, A>,
+	) => WriterTaskEither<W, E | EE, readonly [T, A]>;
+
+	/**
+	 * Chains WriterTaskEither-returning operations together.
+	 * The log of the WriterTaskEither returned by the mapper is appended to the log of this one.
+	 * If this WriterTaskEither resolves to Left, the mapper is not called and the log written so far is kept.
+	 *
+	 * @typeParam EE - The error type of the WriterTaskEither returned by the mapper
+	 * @typeParam U - The type of the value of the WriterTaskEither returned by the mapper
+	 * @param mapper - Function that takes the Right value and returns the next WriterTaskEither
+	 * @returns WriterTaskEither with the mapper's result and both logs
+	 *
+	 * @example
+	 * ```typescript
+	 * fetchBasePrice.flatMap(applyDiscount) // resolves with the entries of both steps
+	 * ```
+	 */
+	flatMap: <EE, U>(
+		mapper: (right: T) => WriterTaskEither<W, EE, U>,
+	) => WriterTaskEither<W, E | EE, U>;
+
+	/**
+	 * Recovers from a Left by running a fallback WriterTaskEither.
+	 * The log of the fallback is appended to the log written before the failure.
+	 *
+	 * @typeParam EE - The error type of the fallback
+	 * @param fallback - Function that takes the Left value and returns a fallback WriterTaskEither
+	 * @returns The same WriterTaskEither if Right, otherwise the fallback with both logs
+	 *
+	 * @example
+	 * ```typescript
+	 * fetchLiveRate.orElse(() => tell(["using cached rate"], log).map(() => cachedRate))
+	 * ```
+	 */
+	orElse: <EE>(
+		fallback: (left: E) => WriterTaskEither<W, EE, T>,
+	) => WriterTaskEither<W, E | EE, T>;
+
+	/**
+	 * Performs a side effect with the Right value and returns a WriterTaskEither resolving to the same result.
+	 *
+	 * @param sideEffect - Function to execute with the Right value (return value is ignored)
+	 * @returns WriterTaskEither resolving to the same result and log
+	 *
+	 * @example
+	 * ```typescript
+	 * fetchBasePrice.tap(price => console.log("Base price", price))
+	 * ```
+	 */
+	tap: (sideEffect: (right: T) => void) => WriterTaskEither<W, E, T>;
+
+	/**
+	 * Performs a side effect with the Left value and returns a WriterTaskEither resolving to the same result.
+	 *
+	 * @param sideEffect - Function to execute with the Left value (return value is ignored)
+	 * @returns WriterTaskEither resolving to the same result and log
+	 *
+	 * @example
+	 * ```typescript
+	 * fetchBasePrice.tapLeft(error => console.error("Pricing failed", error))
+	 * ```
+	 */
+	tapLeft: (sideEffect: (left: E) => void) => WriterTaskEither<W, E, T>;
+
+	/**
+	 * Pairs the Right value with the log written so far, making the log available to later steps.
+	 *
+	 * @returns WriterTaskEither containing a tuple of the value and the log, with the log unchanged
+	 *
+	 * @example
+	 * ```typescript
+	 * quote.listen().map(([price, entries]) => ({ price, explanation: entries }))
+	 * ```
+	 */
+	listen: () => WriterTaskEither<W, E, readonly [T, W]>;
+
+	/**
+	 * Transforms the log written so far using a function, whether the result is Left or Right.
+	 *
+	 * @param f - Function to transform the log
+	 * @returns New WriterTaskEither with the same result and the transformed log
+	 *
+	 * @example
+	 * ```typescript
+	 * quote.censor(entries => entries.map(e => `[pricing] ${e}`))
+	 * ```
+	 */
+	censor: (f: (log: W) => W) => WriterTaskEither<W, E, T>;
+
+	/**
+	 * Wraps the Right value in a record under the given key.
+	 * This is usually the first step of do-notation.
+	 *
+	 * @param key - The key to store the value under
+	 * @returns WriterTaskEither containing a record with the value under `key`
+	 *
+	 * @example
+	 * ```typescript
+	 * fetchBasePrice.bindTo("price") // resolves to Right({ price: 100 })
+	 * ```
+	 */
+	bindTo: <K extends string>(
+		key: K,
+	) => WriterTaskEither<W, E, { readonly [P in K]: T }>;
+
+	/**
+	 * Adds the Right value of a WriterTaskEither computed from the current record under a new key.
+	 * Its log is appended to the log written so far.
+	 *
+	 * @param key - The key to store the value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns a WriterTaskEither
+	 * @returns WriterTaskEither containing the extended record
+	 *
+	 * @example
+	 * ```typescript
+	 * fetchBasePrice.bindTo("price").bind("discounted", ({ price }) => applyDiscount(price))
+	 * ```
+	 */
+	bind: <K extends string, EE, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => WriterTaskEither<W, EE, U>,
+	) => WriterTaskEither<W, E | EE, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Adds a plain value computed from the current record under a new key.
+	 *
+	 * @param key - The key to store the value under (must not already exist)
+	 * @param mapper - Function that receives the current record and returns a value
+	 * @returns WriterTaskEither containing the extended record
+	 *
+	 * @example
+	 * ```typescript
+	 * fetchBasePrice.bindTo("price").let("vat", ({ price }) => price * 0.2)
+	 * ```
+	 */
+	let: <K extends string, U>(
+		key: Exclude<K, keyof T>,
+		mapper: (scope: T) => U,
+	) => WriterTaskEither<W, E, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Adds the Right value of an independent WriterTaskEither under a new key.
+	 * Both are run in parallel and the log of the other one is appended to the log of this one.
+	 *
+	 * @param key - The key to store the value under (must not already exist)
+	 * @param other - The WriterTaskEither whose value is added
+	 * @returns WriterTaskEither containing the extended record
+	 *
+	 * @example
+	 * ```typescript
+	 * fetchBasePrice.bindTo("price").apS("shipping", fetchShipping)
+	 * ```
+	 */
+	apS: <K extends string, EE, U>(
+		key: Exclude<K, keyof T>,
+		other: WriterTaskEither<W, EE, U>,
+	) => WriterTaskEither<W, E | EE, T & { readonly [P in K]: U }>;
+
+	/**
+	 * Converts this WriterTaskEither to a TaskEither, discarding the log.
+	 *
+	 * @returns TaskEither resolving to the same Either
+	 *
+	 * @example
+	 * ```typescript
+	 * await quote.toTaskEither().run() // Right(90)
+	 * ```
+	 */
+	toTaskEither: () => TaskEither<E, T>;
+
+	/**
+	 * Executes the WriterTaskEither and returns a Promise of a Writer holding the Either result and the log.
+	 * The log is available whether the result is Left or Right.
+	 *
+	 * @returns Promise resolving to a Writer of the Either result
+	 *
+	 * @example
+	 * ```typescript
+	 * const [result, entries] = (await quote.run()).run();
+	 * ```
+	 */
+	run: () => Promise<Writer<W, Either<E, T>>>;
+};
+
+export function createWriterTaskEither<W, E, T>(
+	thunk: WriterTaskEitherValue<W, E, T>,
+): WriterTaskEither<W, E, T> {
+	const wte: WriterTaskEither<W, E, T> = {
+		map: <U>(mapper: (right: T) => U): WriterTaskEither<W, E, U> =>
+			createWriterTaskEither(() =>
+				thunk().then((writer) => writer.map((either) => either.map(mapper))),
+			),
+
+		mapLeft: <F>(mapper: (left: E) => F): WriterTaskEither<W, F, T> =>
+			createWriterTaskEither(() =>
+				thunk().then((writer) =>
+					writer.map((either) => either.mapLeft(mapper)),
+				),
+			),
+
+		bimap: <F, U>(
+			onLeft: (left: E) => F,
+			onRight: (right: T) => U,
+		): WriterTaskEither<W, F, U> => wte.map(onRight).mapLeft(onLeft),
+
+		ap: function <EE, A, U>(
+			this: WriterTaskEither<W, E, (a: A) => U>,
+			arg: WriterTaskEither<W, EE, A>,
+		): WriterTaskEither<W, E | EE, U> {
+			return createWriterTaskEither<W, E | EE, U>(() =>
+				Promise.all([this.run(), arg.run()]).then(([writerFn, writerA]) =>
+					writerFn
+						.zip(writerA)
+						.map(
+							([eitherFn, eitherA]) =>
+								(eitherFn as Either<E, (a: A) => U>).ap(
+									eitherA as Either<EE, A>,
+								) as Either<E | EE, U>,
+						),
+				),
+			);
+		},
+
+		zip: <EE, A>(
+			other: WriterTaskEither<W, EE, A>,
+		): WriterTaskEither<W, E | EE, readonly [T, A]> =>
+			wte.map((value) => (a: A) => [value, a] as const).ap(other),
+
+		flatMap: <EE, U>(
+			mapper: (right: T) => WriterTaskEither<W, EE, U>,
+		): WriterTaskEither<W, E | EE, U> =>
+			createWriterTaskEither<W, E | EE, U>(() =>
+				thunk().then((writer) =>
+					writer.run()[0].match<Promise<Writer<W, Either<E | EE, U>>>>(
+						(error) =>
+							Promise.resolve(writer.map(() => left<E | EE, U>(error))),
+						(value) =>
+							mapper(value)
+								.run()
+								.then(
+									(next) =>
+										writer.flatMap(() => next) as Writer<W, Either<E | EE, U>>,
+								),
+					),
+				),
+			),
+
+		orElse: <EE>(
+			fallback: (left: E) => WriterTaskEither<W, EE, T>,
+		): WriterTaskEither<W, E | EE, T> =>
+			createWriterTaskEither<W, E | EE, T>(() =>
+				thunk().then((writer) =>
+					writer.run()[0].match<Promise<Writer<W, Either<E | EE, T>>>>(
+						(error) =>
+							fallback(error)
+								.run()
+								.then(
+									(next) =>
+										writer.flatMap(() => next) as Writer<W, Either<E | EE, T>>,
+								),
+						() =>
+							Promise.resolve(
+								writer as unknown as Writer<W, Either<E | EE, T>>,
+							),
+					),
+				),
+			),
+
+		tap: (sideEffect) =>
+			createWriterTaskEither(() =>
+				thunk().then((writer) =>
+					writer.tap((either) => either.tap(sideEffect)),
+				),
+			),
+
+		tapLeft: (sideEffect) =>
+			createWriterTaskEither(() =>
+				thunk().then((writer) =>
+					writer.tap((either) => either.tapLeft(sideEffect)),
+				),
+			),
+
+		listen: () =>
+			createWriterTaskEither(() =>
+				thunk().then((writer) =>
+					writer
+						.listen()
+						.map(([either, log]) =>
+							either.map((value) => [value, log] as const),
+						),
+				),
+			),
+
+		censor: (f) =>
+			createWriterTaskEither(() => thunk().then((writer) => writer.censor(f))),
+
+		bindTo: <K extends string>(key: K) =>
+			wte.map((value) => ({ [key]: value }) as { readonly [P in K]: T }),
+
+		bind: <K extends string, EE, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => WriterTaskEither<W, EE, U>,
+		) =>
+			wte.flatMap((scope) =>
+				mapper(scope).map((value) => extend<T, K, U>(scope, key, value)),
+			),
+
+		let: <K extends string, U>(
+			key: Exclude<K, keyof T>,
+			mapper: (scope: T) => U,
+		) => wte.map((scope) => extend<T, K, U>(scope, key, mapper(scope))),
+
+		apS: <K extends string, EE, U>(
+			key: Exclude<K, keyof T>,
+			other: WriterTaskEither<W, EE, U>,
+		) =>
+			wte
+				.zip(other)
+				.map(([scope, value]) => extend<T, K, U>(scope, key, value)),
+
+		toTaskEither: () =>
+			createTaskEither(() => thunk().then((writer) => writer.run()[0])),
+
+		run: () => thunk(),
+	};
+
+	return wte;
+}